@@ -1,29 +1,168 @@
 import axios from 'axios';
+import { ConfigManager } from '../managers/ConfigManager';
 
 const API_BASE = 'https://api.curseforge.com/v1';
+const MINECRAFT_GAME_ID = 432;
+
+// Class (project type) ids for Minecraft
+export const CURSEFORGE_CLASSES = {
+    mod: 6,
+    resourcepack: 12,
+    shader: 6552,
+    modpack: 4471
+} as const;
+
+export type CurseForgeClass = keyof typeof CURSEFORGE_CLASSES;
+
+const MOD_LOADER_TYPES: Record<string, number> = {
+    forge: 1,
+    fabric: 4,
+    quilt: 5,
+    neoforge: 6
+};
+
+// File.dependencies[].relationType
+export const RELATION_OPTIONAL = 2;
+export const RELATION_REQUIRED = 3;
+export const RELATION_INCOMPATIBLE = 5;
 
 export interface CurseForgeFile {
     id: number;
+    modId: number;
     displayName: string;
     fileName: string;
-    downloadUrl: string;
+    downloadUrl: string | null; // null when the author disabled third-party distribution
     fileLength: number;
-    gameVersions: string[];
+    fileDate: string;
+    releaseType: 1 | 2 | 3; // release, beta, alpha
+    gameVersions: string[]; // Mixes game versions with loader names ("1.20.1", "Forge", "Client")
+    hashes: { value: string; algo: number }[]; // algo 1 = sha1, 2 = md5
+    dependencies: { modId: number; relationType: number }[];
+    fileFingerprint: number;
+}
+
+export interface CurseForgeMod {
+    id: number;
+    name: string;
+    slug: string;
+    summary: string;
+    classId: number;
+    downloadCount: number;
+    thumbsUpCount: number;
+    dateModified: string;
+    logo?: { thumbnailUrl: string; url: string } | null;
+    authors: { name: string }[];
+    categories: { name: string }[];
+    links: { websiteUrl: string };
+    allowModDistribution: boolean | null;
+}
+
+export interface CurseForgeFingerprintMatch {
+    id: number; // Project (mod) id
+    file: CurseForgeFile;
 }
 
 export class CurseForgeApi {
     private static getApiKey(): string {
-        return process.env.CURSEFORGE_API_KEY || '';
+        return ConfigManager.getCurseForgeApiKey() || process.env.CURSEFORGE_API_KEY || '';
+    }
+
+    static hasApiKey(): boolean {
+        return !!this.getApiKey();
+    }
+
+    private static requireApiKey(): string {
+        const apiKey = this.getApiKey();
+        if (!apiKey) {
+            throw new Error('CurseForge API Key is missing. Add one in Settings → CurseForge.');
+        }
+        return apiKey;
+    }
+
+    // GET returning the response envelope ({ data, pagination? })
+    private static async get<T>(endpoint: string, params?: Record<string, any>): Promise<{ data: T; pagination?: { totalCount: number } }> {
+        try {
+            const response = await axios.get(`${API_BASE}${endpoint}`, {
+                params,
+                headers: { 'x-api-key': this.requireApiKey() }
+            });
+            return response.data;
+        } catch (error: any) {
+            if (error.response?.status === 403) {
+                throw new Error('CurseForge API Key is invalid or blocked (403).');
+            }
+            console.error(`[CurseForgeApi] Request to ${endpoint} failed:`, error.message);
+            throw error;
+        }
+    }
+
+    /**
+     * Search one class of projects (mods, resource packs, shaders or modpacks), most popular first.
+     */
+    static async search(
+        query: string,
+        type: CurseForgeClass,
+        filters: { gameVersion?: string; loader?: string; offset?: number; limit?: number } = {}
+    ): Promise<{ data: CurseForgeMod[]; totalCount: number }> {
+        const params: Record<string, any> = {
+            gameId: MINECRAFT_GAME_ID,
+            classId: CURSEFORGE_CLASSES[type],
+            searchFilter: query || undefined,
+            gameVersion: filters.gameVersion || undefined,
+            sortField: 2, // Popularity
+            sortOrder: 'desc',
+            index: filters.offset || 0,
+            pageSize: filters.limit || 20
+        };
+        if (type === 'mod' && filters.loader && MOD_LOADER_TYPES[filters.loader]) {
+            params.modLoaderType = MOD_LOADER_TYPES[filters.loader];
+        }
+
+        const response = await this.get<CurseForgeMod[]>('/mods/search', params);
+        return { data: response.data, totalCount: response.pagination?.totalCount ?? response.data.length };
+    }
+
+    static async getMod(modId: number): Promise<CurseForgeMod> {
+        return (await this.get<CurseForgeMod>(`/mods/${modId}`)).data;
+    }
+
+    static async getMods(modIds: number[]): Promise<CurseForgeMod[]> {
+        if (modIds.length === 0) return [];
+        try {
+            const response = await axios.post(`${API_BASE}/mods`, { modIds }, {
+                headers: { 'x-api-key': this.requireApiKey(), 'Content-Type': 'application/json' }
+            });
+            return response.data.data;
+        } catch (error: any) {
+            if (error.response?.status === 403) {
+                throw new Error('CurseForge API Key is invalid or blocked (403).');
+            }
+            console.error('[CurseForgeApi] Failed to get mods:', error);
+            throw error;
+        }
+    }
+
+    // Project description as HTML
+    static async getModDescription(modId: number): Promise<string> {
+        return (await this.get<string>(`/mods/${modId}/description`)).data;
+    }
+
+    /**
+     * Files of a project, newest first, optionally limited to a game version and mod loader.
+     */
+    static async getModFiles(modId: number, filters: { gameVersion?: string; loader?: string } = {}): Promise<CurseForgeFile[]> {
+        return (await this.get<CurseForgeFile[]>(`/mods/${modId}/files`, {
+            gameVersion: filters.gameVersion || undefined,
+            modLoaderType: filters.loader ? MOD_LOADER_TYPES[filters.loader] : undefined,
+            pageSize: 50
+        })).data;
     }
 
     /**
      * Get file information including download URL for a specific fileID
      */
     static async getFileInfo(projectId: number, fileId: number): Promise<CurseForgeFile> {
-        const apiKey = this.getApiKey();
-        if (!apiKey) {
-            throw new Error('CurseForge API Key is missing. Please add CURSEFORGE_API_KEY to your environment/settings.');
-        }
+        const apiKey = this.requireApiKey();
 
         try {
             const response = await axios.get(`${API_BASE}/mods/${projectId}/files/${fileId}`, {
@@ -45,10 +184,7 @@ export class CurseForgeApi {
      * Batch get file information
      */
     static async getFilesInfo(fileIds: number[]): Promise<CurseForgeFile[]> {
-        const apiKey = this.getApiKey();
-        if (!apiKey) {
-            throw new Error('CurseForge API Key is missing. Please add CURSEFORGE_API_KEY to your environment/settings.');
-        }
+        const apiKey = this.requireApiKey();
 
         try {
             const response = await axios.post(`${API_BASE}/mods/files`, {
@@ -70,19 +206,81 @@ export class CurseForgeApi {
     }
 
     /**
-     * Resolve download URL for a file
-     * Note: CurseForge API sometimes returns null for downloadUrl if the mod author disabled third-party downloads.
-     * In that case, we might need a workaround or warn the user.
+     * Resolve download URL for a file.
+     * CurseForge returns null for downloadUrl when the author disabled third-party downloads; those
+     * files have to be fetched by the user from the website (see getManualDownloadUrl).
+     */
+    static getDownloadUrl(file: CurseForgeFile): string | null {
+        return file.downloadUrl || null;
+    }
+
+    // The file's download page on curseforge.com; without the project we can only link its page
+    static getManualDownloadUrl(file: Pick<CurseForgeFile, 'id' | 'modId'>, mod?: Pick<CurseForgeMod, 'links'>): string {
+        if (!mod?.links?.websiteUrl) return `https://www.curseforge.com/projects/${file.modId}`;
+        return `${mod.links.websiteUrl.replace(/\/$/, '')}/download/${file.id}`;
+    }
+
+    static getSha1(file: CurseForgeFile): string | undefined {
+        return file.hashes?.find(h => h.algo === 1)?.value;
+    }
+
+    /**
+     * CurseForge's file fingerprint: MurmurHash2 (seed 1) over the file with all
+     * whitespace bytes (tab, LF, CR, space) removed.
+     */
+    static computeFingerprint(data: Buffer): number {
+        const bytes = data.filter(b => b !== 9 && b !== 10 && b !== 13 && b !== 32);
+        const m = 0x5bd1e995;
+        const len = bytes.length;
+        let h = (1 ^ len) >>> 0;
+        let i = 0;
+
+        while (len - i >= 4) {
+            let k = bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16) | (bytes[i + 3] << 24);
+            k = Math.imul(k, m);
+            k ^= k >>> 24;
+            k = Math.imul(k, m);
+            h = Math.imul(h, m) ^ k;
+            i += 4;
+        }
+
+        const rest = len - i;
+        if (rest >= 3) h ^= bytes[i + 2] << 16;
+        if (rest >= 2) h ^= bytes[i + 1] << 8;
+        if (rest >= 1) {
+            h ^= bytes[i];
+            h = Math.imul(h, m);
+        }
+
+        h ^= h >>> 13;
+        h = Math.imul(h, m);
+        h ^= h >>> 15;
+        return h >>> 0;
+    }
+
+    /**
+     * Look up files by fingerprint. Only exact matches are returned.
      */
-    static getDownloadUrl(file: CurseForgeFile): string {
-        if (file.downloadUrl) return file.downloadUrl;
-
-        // Fallback for some mods: https://edge.forgecdn.net/files/<ID_PART_1>/<ID_PART_2>/<FILENAME>
-        // But this is not always reliable. Better to use the official API's downloadUrl if available.
-        // For projectID/fileID based resolution:
-        const fileIdStr = file.id.toString();
-        const part1 = fileIdStr.substring(0, 4);
-        const part2 = fileIdStr.substring(4);
-        return `https://edge.forgecdn.net/files/${part1}/${part2}/${encodeURIComponent(file.fileName)}`;
+    static async getFingerprintMatches(fingerprints: number[]): Promise<CurseForgeFingerprintMatch[]> {
+        const apiKey = this.requireApiKey();
+        if (fingerprints.length === 0) return [];
+
+        try {
+            const response = await axios.post(`${API_BASE}/fingerprints/${MINECRAFT_GAME_ID}`, {
+                fingerprints
+            }, {
+                headers: {
+                    'x-api-key': apiKey,
+                    'Content-Type': 'application/json'
+                }
+            });
+            return response.data.data.exactMatches || [];
+        } catch (error: any) {
+            if (error.response?.status === 403) {
+                throw new Error('CurseForge API Key is invalid or blocked (403).');
+            }
+            console.error('[CurseForgeApi] Failed to match fingerprints:', error);
+            throw error;
+        }
     }
 }
@@ -4,7 +4,10 @@ import crypto from 'crypto';
 import { EventEmitter } from 'events';
 import axios, { AxiosRequestConfig } from 'axios';
 import { createWriteStream, createReadStream } from 'fs';
+import { Transform } from 'stream';
 import { pipeline } from 'stream/promises';
+import { ConfigManager } from '../managers/ConfigManager';
+import { DownloadManager } from '../managers/DownloadManager';
 
 export interface DownloadTask {
     url: string;
@@ -16,11 +19,41 @@ export interface DownloadTask {
 
 const MAX_RETRIES = 5;
 const INITIAL_BACKOFF_MS = 1000;
+const STALL_TIMEOUT_MS = 30000;
+
+/**
+ * Token bucket for the download speed limit. There is a single bucket for the whole app so the
+ * cap holds no matter how many downloaders or parallel files are running. The limit is read on
+ * every call, so changing it in Settings applies to downloads already in progress.
+ */
+class BandwidthLimiter {
+    private tokens = 0;
+    private lastRefill = Date.now();
+    private chain: Promise<void> = Promise.resolve();
+
+    take(bytes: number): Promise<void> {
+        const rate = ConfigManager.getDownloadSpeedLimit() * 1024;
+        if (rate <= 0) return Promise.resolve();
+
+        // Callers are served in order; each one pays off its chunk before the next is let through
+        this.chain = this.chain.then(async () => {
+            const now = Date.now();
+            this.tokens = Math.min(rate, this.tokens + ((now - this.lastRefill) / 1000) * rate);
+            this.lastRefill = now;
+            this.tokens -= bytes;
+            if (this.tokens < 0) {
+                await new Promise(r => setTimeout(r, (-this.tokens / rate) * 1000));
+            }
+        });
+        return this.chain;
+    }
+}
+
+const limiter = new BandwidthLimiter();
 
 export class AssetDownloader extends EventEmitter {
     private queue: DownloadTask[] = [];
     private activeDownloads = 0;
-    private maxConcurrent = 5; // Lower concurrency for stability on bad networks
     private totalBytes = 0;
     private downloadedBytes = 0;
 
@@ -36,6 +69,7 @@ export class AssetDownloader extends EventEmitter {
             this.totalBytes += (t.size || 0);
         });
         console.log(`[AssetDownloader] New totalBytes: ${this.totalBytes}`);
+        DownloadManager.getInstance().enqueue(tasks.length);
         this.processQueue();
     }
 
@@ -45,7 +79,8 @@ export class AssetDownloader extends EventEmitter {
             return;
         }
 
-        while (this.activeDownloads < this.maxConcurrent && this.queue.length > 0) {
+        const maxConcurrent = ConfigManager.getDownloadConcurrency();
+        while (this.activeDownloads < maxConcurrent && this.queue.length > 0) {
             const task = this.queue.shift();
             if (task) {
                 this.downloadFile(task).catch(err => {
@@ -70,6 +105,7 @@ export class AssetDownloader extends EventEmitter {
                 const valid = await this.verifyFile(task.destination, task.sha1);
                 if (valid) {
                     console.log(`[Downloader] Cache hit for ${path.basename(task.destination)}`);
+                    DownloadManager.getInstance().skip();
                     this.downloadedBytes += (task.size || 0); // Count as done
                     this.emit('progress', { total: this.totalBytes, current: this.downloadedBytes });
                     this.activeDownloads--;
@@ -84,6 +120,7 @@ export class AssetDownloader extends EventEmitter {
                 // Risk: corrupted file stays. Better to re-download if unsure or check size?
                 // For now, if no hash, we assume it's good to avoid redownloading everything.
                 // Ideally we should always provide hash.
+                DownloadManager.getInstance().skip();
                 this.activeDownloads--;
                 this.processQueue();
                 return;
@@ -91,18 +128,23 @@ export class AssetDownloader extends EventEmitter {
         }
 
         // 2. Start Download Loop with Retries
+        // Every attempt keeps whatever earlier ones left in the .part file
+        const downloads = DownloadManager.getInstance();
+        const id = downloads.begin(path.basename(task.destination), task.url);
+        const counted = { bytes: 0 };
         let attempt = 0;
         let downloaded = false;
 
         while (attempt < MAX_RETRIES && !downloaded) {
             try {
-                await this.performDownload(task);
+                await this.performDownload(task, id, counted);
                 downloaded = true;
             } catch (error: any) {
                 attempt++;
                 console.error(`[Downloader] Failed ${task.url} (Attempt ${attempt}/${MAX_RETRIES}): ${error.message}`);
 
                 if (attempt >= MAX_RETRIES) {
+                    downloads.setStatus(id, 'failed', error.message);
                     this.emit('error', new Error(`Failed to download ${path.basename(task.destination)} after ${MAX_RETRIES} attempts: ${error.message}`));
                     this.activeDownloads--; // Ensure we decrement even on fatal error
                     this.processQueue();
@@ -118,6 +160,7 @@ export class AssetDownloader extends EventEmitter {
         // 3. Post-Download Validation
         if (downloaded) {
             if (task.sha1) {
+                downloads.setStatus(id, 'verifying');
                 const valid = await this.verifyFile(task.destination, task.sha1);
                 if (!valid) {
                     // This is bad. We just downloaded it and it's wrong.
@@ -126,10 +169,14 @@ export class AssetDownloader extends EventEmitter {
                     // For now, fail.
                     console.error(`[Downloader] Hash verification failed after download for ${task.destination}`);
                     fs.unlinkSync(task.destination);
+                    downloads.setStatus(id, 'failed', 'Hash mismatch');
                     this.emit('error', new Error(`Hash mismatch after download for ${path.basename(task.destination)}`));
                 } else {
+                    downloads.setStatus(id, 'done');
                     this.emit('progress', { total: this.totalBytes, current: this.downloadedBytes });
                 }
+            } else {
+                downloads.setStatus(id, 'done');
             }
         }
 
@@ -137,7 +184,11 @@ export class AssetDownloader extends EventEmitter {
         this.processQueue();
     }
 
-    private async performDownload(task: DownloadTask): Promise<void> {
+    /**
+     * One attempt at fetching `task`. `counted` carries how many of this file's bytes are already
+     * included in `downloadedBytes`, so progress stays right when an attempt resumes or restarts.
+     */
+    private async performDownload(task: DownloadTask, id: number, counted: { bytes: number }): Promise<void> {
         const partFile = `${task.destination}.part`;
         let startByte = 0;
 
@@ -154,7 +205,9 @@ export class AssetDownloader extends EventEmitter {
         const config: AxiosRequestConfig = {
             responseType: 'stream',
             timeout: 30000, // 30s timeout
-            headers: {}
+            headers: {},
+            // 416 means the .part file already holds the whole file
+            validateStatus: status => (status >= 200 && status < 300) || status === 416
         };
 
         if (startByte > 0) {
@@ -164,38 +217,82 @@ export class AssetDownloader extends EventEmitter {
 
         const response = await axios.get(task.url, config);
 
+        if (response.status === 416) {
+            response.data.destroy();
+            if (task.size && startByte === task.size) {
+                this.account(counted, startByte);
+                fs.renameSync(partFile, task.destination);
+                return;
+            }
+            fs.unlinkSync(partFile);
+            throw new Error('Server rejected the resume range');
+        }
+
         // Handle range mismatch (server might not support range, sends 200 instead of 206)
         // If we requested partial but got full (200), we must overwrite partFile
-        if (startByte > 0 && response.status === 200) {
+        const rangeStart = Number(/^bytes (\d+)-/.exec(response.headers['content-range'] || '')?.[1]);
+        if (startByte > 0 && (response.status !== 206 || rangeStart !== startByte)) {
             console.warn(`[Downloader] Server does not support resume for ${task.url}, restarting.`);
             startByte = 0; // Reset
-            // Truncate part file
-            fs.writeFileSync(partFile, '');
         }
 
-        let localDownloaded = 0;
+        const contentLength = Number(response.headers['content-length']) || 0;
+        const total = task.size || (contentLength ? startByte + contentLength : 0);
+        this.account(counted, startByte);
+        DownloadManager.getInstance().restart(id, total, startByte);
+
+        let received = startByte;
         let lastEmitTime = 0;
 
-        const writer = createWriteStream(partFile, { flags: startByte > 0 ? 'a' : 'w' });
+        // Responses that stop sending without closing would otherwise hang until the OS gives up
+        let stallTimer: NodeJS.Timeout | null = null;
+        const armStallTimer = () => {
+            if (stallTimer) clearTimeout(stallTimer);
+            stallTimer = setTimeout(() => response.data.destroy(new Error('Download stalled')), STALL_TIMEOUT_MS);
+        };
 
-        response.data.on('data', (chunk: Buffer) => {
-            localDownloaded += chunk.length;
-            this.downloadedBytes += chunk.length;
+        const meter = new Transform({
+            transform: (chunk: Buffer, _encoding, callback) => {
+                // Time spent waiting on the speed limit isn't a stall
+                if (stallTimer) clearTimeout(stallTimer);
+                limiter.take(chunk.length).then(() => {
+                    armStallTimer();
+                    received += chunk.length;
+                    this.account(counted, counted.bytes + chunk.length);
+                    DownloadManager.getInstance().progress(id, received);
 
-            const now = Date.now();
-            if (now - lastEmitTime > 100) {
-                console.log(`[Downloader] Progress: ${this.downloadedBytes}/${this.totalBytes}`);
-                this.emit('progress', { total: this.totalBytes, current: this.downloadedBytes });
-                lastEmitTime = now;
+                    const now = Date.now();
+                    if (now - lastEmitTime > 100) {
+                        this.emit('progress', { total: this.totalBytes, current: this.downloadedBytes });
+                        lastEmitTime = now;
+                    }
+                    callback(null, chunk);
+                }, callback);
             }
         });
 
-        await pipeline(response.data, writer);
+        const writer = createWriteStream(partFile, { flags: startByte > 0 ? 'a' : 'w' });
+
+        armStallTimer();
+        try {
+            await pipeline(response.data, meter, writer);
+        } finally {
+            if (stallTimer) clearTimeout(stallTimer);
+        }
+
+        if (total && received < total) {
+            throw new Error(`Connection closed early (${received}/${total} bytes)`);
+        }
 
         // Rename part to final
         fs.renameSync(partFile, task.destination);
     }
 
+    private account(counted: { bytes: number }, bytes: number) {
+        this.downloadedBytes += bytes - counted.bytes;
+        counted.bytes = bytes;
+    }
+
     private verifyFile(filePath: string, sha1: string): Promise<boolean> {
         return new Promise((resolve) => {
             const hash = crypto.createHash('sha1');
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ConfigManager } from '../managers/ConfigManager';
+
+const METADATA_URL = 'https://authlib-injector.yushi.moe/artifact/latest.json';
+
+interface ArtifactMetadata {
+    build_number: number;
+    version: string;
+    download_url: string;
+    checksums: { sha256: string };
+}
+
+/**
+ * authlib-injector (https://github.com/yushijinhun/authlib-injector) redirects the game's Mojang
+ * authentication and skin requests to a Yggdrasil-compatible server, so servers can verify players
+ * and show their skins without an extra mod.
+ */
+export class AuthlibInjector {
+    private static ready: Promise<string> | null = null;
+
+    /**
+     * Path to a verified agent jar. Checks for a newer build once per run; an already downloaded
+     * jar keeps working when the artifact server can't be reached.
+     */
+    static ensureAgent(): Promise<string> {
+        if (!this.ready) {
+            this.ready = this.download().catch(error => {
+                this.ready = null;
+                throw error;
+            });
+        }
+        return this.ready;
+    }
+
+    /** JVM arguments that load the agent and point it at `apiRoot`. */
+    static async getJvmArgs(apiRoot: string): Promise<string[]> {
+        const jar = await this.ensureAgent();
+        const args = [`-javaagent:${jar}=${apiRoot}`];
+
+        // Handing over the API metadata saves the agent a blocking request during startup
+        try {
+            const res = await fetch(apiRoot, { signal: AbortSignal.timeout(5000) });
+            if (res.ok) {
+                const metadata = await res.text();
+                args.push(`-Dauthlibinjector.yggdrasil.prefetched=${Buffer.from(metadata).toString('base64')}`);
+            }
+        } catch (e) {
+            console.warn('[Authlib] Could not prefetch Yggdrasil metadata, the agent will fetch it itself', e);
+        }
+        return args;
+    }
+
+    private static async download(): Promise<string> {
+        const dir = path.join(ConfigManager.getDataPath(), 'authlib-injector');
+        const jarPath = path.join(dir, 'authlib-injector.jar');
+        const metaPath = path.join(dir, 'authlib-injector.json');
+        const local: ArtifactMetadata | null = fs.existsSync(metaPath)
+            ? JSON.parse(fs.readFileSync(metaPath, 'utf-8'))
+            : null;
+
+        let latest: ArtifactMetadata;
+        try {
+            const res = await fetch(METADATA_URL);
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            latest = await res.json();
+        } catch (e) {
+            if (local && this.verify(jarPath, local.checksums.sha256)) {
+                console.warn(`[Authlib] Could not check for updates, using ${local.version}`, e);
+                return jarPath;
+            }
+            throw new Error(`Failed to fetch authlib-injector metadata: ${e}`);
+        }
+
+        if (local?.build_number === latest.build_number && this.verify(jarPath, latest.checksums.sha256)) {
+            return jarPath;
+        }
+
+        console.log(`[Authlib] Downloading authlib-injector ${latest.version}...`);
+        const res = await fetch(latest.download_url);
+        if (!res.ok) throw new Error(`Failed to download authlib-injector: HTTP ${res.status}`);
+        const data = Buffer.from(await res.arrayBuffer());
+        if (crypto.createHash('sha256').update(data).digest('hex') !== latest.checksums.sha256) {
+            throw new Error('Checksum mismatch for authlib-injector');
+        }
+
+        await fs.promises.mkdir(dir, { recursive: true });
+        await fs.promises.writeFile(jarPath, data);
+        await fs.promises.writeFile(metaPath, JSON.stringify(latest, null, 2));
+        return jarPath;
+    }
+
+    private static verify(filePath: string, sha256: string): boolean {
+        if (!fs.existsSync(filePath)) return false;
+        return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex') === sha256;
+    }
+}
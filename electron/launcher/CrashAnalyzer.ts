@@ -1,45 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigManager } from '../managers/ConfigManager';
+import { ModJarReader } from '../utils/ModJarReader';
+import { CrashRule, CrashRuleFile, DEFAULT_CRASH_RULES } from './CrashRules';
+
+const RULES_FILE = 'crash-rules.json';
+const MAX_REPORT_CHARS = 200_000;
+
+// Ids that show up in loader output but aren't mod jars you could disable
+const NON_MOD_IDS = new Set(['minecraft', 'java', 'fabricloader', 'fabric-loader', 'quilt_loader', 'forge', 'neoforge', 'fml', 'mixin']);
+
+export interface SuspectedMod {
+    modId: string;
+    name?: string;
+    file?: string; // Jar in the instance's mods folder, when it could be found
+    reason: string;
+}
+
+export type CrashAction =
+    | { type: 'disable-mod'; label: string; file: string }
+    | { type: 'switch-java'; label: string; major: string };
+
 export interface CrashAnalysis {
     cause: string;
     details: string;
     suggestion: string;
     isDetected: boolean;
+    ruleId?: string;
+    suspectedMods: SuspectedMod[];
+    actions: CrashAction[];
+    crashReport?: { file: string; content: string }; // crash-reports/*.txt or hs_err_pid*.log written by this run
 }
 
 export class CrashAnalyzer {
-    private static PATTERNS: { regex: RegExp; cause: string; suggestion: string; details?: string }[] = [
-        {
-            regex: /Mixin transformation of .* failed/,
-            cause: 'Mod Incompatibility (Mixin Failure)',
-            suggestion: 'A mod is failing to apply its changes to the game code. This usually means a mod is incompatible with this version of Minecraft or another mod. Check the stacktrace for mod names.'
-        },
-        {
-            regex: /java\.lang\.OutOfMemoryError/,
-            cause: 'Out of Memory',
-            suggestion: 'The game ran out of RAM. Go to Settings and allocate more memory (recommend 4GB+ for modded).'
-        },
-        {
-            regex: /Class file version 6[0-9]\.0/,
-            cause: 'Java Version Mismatch',
-            suggestion: 'You are using an older Java version to run mods that require a newer one. Try changing the Java Runtime in Settings to Java 17 or 21.'
-        },
-        {
-            regex: /org\.spongepowered\.asm\.mixin\.injection\.throwables\.InvalidInjectionException/,
-            cause: 'Mixin Injection Failure',
-            suggestion: 'A mod is trying to modify code that doesn\'t exist or has changed. This is common when using mods meant for a different Minecraft version.'
-        },
-        {
-            regex: /VideoCardHelper/,
-            cause: 'Graphics Driver Issue',
-            suggestion: 'Your graphics drivers may be outdated. Please search for "Intel/Nvidia/AMD Driver Update" and install the latest drivers.'
+    /**
+     * Works out why the game exited with `exitCode`. Besides the captured log, reads the crash report
+     * and JVM fatal error log the game wrote to `gameDir` after `launchedAt`, names the mods they blame
+     * and matches the known-issue rules.
+     */
+    public static analyze(exitCode: number, logLines: string[], gameDir?: string, launchedAt = 0): CrashAnalysis {
+        const crashReport = gameDir ? this.findReport(path.join(gameDir, 'crash-reports'), /^crash-.*\.txt$/, launchedAt) : undefined;
+        const jvmError = gameDir ? this.findReport(gameDir, /^hs_err_pid\d+\.log$/, launchedAt) : undefined;
+        const fullLog = [logLines.join('\n'), crashReport?.content, jvmError?.content].filter(Boolean).join('\n');
+
+        const suspectedMods = this.findSuspects(fullLog);
+        if (gameDir && suspectedMods.length > 0) {
+            this.locateJars(suspectedMods, path.join(gameDir, 'mods'));
         }
-    ];
 
-    public static analyze(exitCode: number, logLines: string[]): CrashAnalysis {
-        const fullLog = logLines.join('\n');
+        const actions: CrashAction[] = suspectedMods
+            .filter(mod => mod.file)
+            .slice(0, 5)
+            .map(mod => ({ type: 'disable-mod' as const, label: `Disable ${mod.name || mod.modId}`, file: mod.file! }));
+        const blame = suspectedMods.length > 0
+            ? `Likely caused by: ${suspectedMods.map(mod => mod.name || mod.modId).join(', ')}`
+            : '';
+        const base = { suspectedMods, actions, crashReport: crashReport || jvmError };
 
         // 1. Check strict exit codes
         if (exitCode === -1073740791) {
             return {
+                ...base,
                 cause: 'Graphics Driver Crash (0xC0000409)',
                 details: 'Status Stack Buffer Overrun',
                 suggestion: 'Update your graphics drivers (Nvidia/Intel/AMD). If using Nvidia, try a "Clean Install".',
@@ -47,35 +68,188 @@ export class CrashAnalyzer {
             };
         }
 
-        // 2. Scan Regex Patterns
-        for (const pattern of this.PATTERNS) {
-            if (pattern.regex.test(fullLog)) {
-
-                // Specific Logic for mod names in Mixin errors
-                let extraDet = '';
-                if (pattern.cause.includes('Mixin')) {
-                    // Try to find "from mod X"
-                    const modMatch = fullLog.match(/from mod ([a-zA-Z0-9_-]+)/);
-                    if (modMatch) {
-                        extraDet = `Likely caused by mod: "${modMatch[1]}"`;
-                    }
-                }
+        // 2. Known issues
+        for (const rule of this.loadRules()) {
+            let regex: RegExp;
+            try {
+                regex = new RegExp(rule.pattern, rule.flags);
+            } catch (e) {
+                console.warn(`[CrashAnalyzer] Skipping rule ${rule.id} with an invalid pattern`, e);
+                continue;
+            }
+            if (!regex.test(fullLog)) continue;
 
-                return {
-                    cause: pattern.cause,
-                    details: extraDet || pattern.details || 'Detected identifying error pattern in logs.',
-                    suggestion: pattern.suggestion,
-                    isDetected: true
-                };
+            for (const action of rule.actions || []) {
+                if (action.type === 'switch-java') {
+                    actions.unshift({ type: 'switch-java', label: `Switch to Java ${action.major}`, major: action.major });
+                }
             }
+            return {
+                ...base,
+                cause: rule.cause,
+                details: blame || rule.details || 'Detected identifying error pattern in logs.',
+                suggestion: rule.suggestion,
+                isDetected: true,
+                ruleId: rule.id
+            };
         }
 
-        // 3. Fallback
+        // 3. A mod was blamed even though the error itself is unknown
+        if (suspectedMods.length > 0) {
+            return {
+                ...base,
+                cause: 'Mod Error',
+                details: blame,
+                suggestion: 'The crash points at the mods below. Try updating or disabling them, then launch again.',
+                isDetected: true
+            };
+        }
+
+        // 4. Fallback
         return {
+            ...base,
             cause: 'Unknown Crash',
             details: `Exit Code: ${exitCode}`,
             suggestion: 'We couldn\'t automatically identify the cause. Please check the raw logs or report this to the modpack author.',
             isDetected: false
         };
     }
+
+    /**
+     * Built-in rules with the data folder's rule file layered on top: same id replaces, new ids
+     * are checked first.
+     */
+    public static loadRules(): CrashRule[] {
+        const rulesPath = path.join(ConfigManager.getDataPath(), RULES_FILE);
+        if (!fs.existsSync(rulesPath)) return DEFAULT_CRASH_RULES;
+
+        try {
+            const custom: CrashRuleFile = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+            const overrides = new Map(custom.rules.map(rule => [rule.id, rule]));
+            const merged = DEFAULT_CRASH_RULES.map(rule => overrides.get(rule.id) || rule);
+            const added = custom.rules.filter(rule => !DEFAULT_CRASH_RULES.some(d => d.id === rule.id));
+            return [...added, ...merged];
+        } catch (e) {
+            console.warn('[CrashAnalyzer] Ignoring unreadable crash rule file', e);
+            return DEFAULT_CRASH_RULES;
+        }
+    }
+
+    /**
+     * Replaces the rule file with a newer one from `VITE_CRASH_RULES_URL`, if configured.
+     * Called in the background at startup; the rules on disk keep working when it fails.
+     */
+    public static async updateRules(): Promise<boolean> {
+        const url = process.env.VITE_CRASH_RULES_URL;
+        if (!url) return false;
+
+        try {
+            const res = await fetch(url);
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            const remote: CrashRuleFile = await res.json();
+            if (!Array.isArray(remote.rules) || typeof remote.version !== 'number') {
+                throw new Error('Malformed rule file');
+            }
+
+            const rulesPath = path.join(ConfigManager.getDataPath(), RULES_FILE);
+            if (fs.existsSync(rulesPath)) {
+                const current: CrashRuleFile = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+                if (current.version >= remote.version) return false;
+            }
+            fs.writeFileSync(rulesPath, JSON.stringify(remote, null, 2));
+            console.log(`[CrashAnalyzer] Updated crash rules to version ${remote.version}`);
+            return true;
+        } catch (e) {
+            console.warn('[CrashAnalyzer] Failed to update crash rules', e);
+            return false;
+        }
+    }
+
+    // Newest file in `dir` matching `pattern` that was written after the game started
+    private static findReport(dir: string, pattern: RegExp, since: number): { file: string; content: string } | undefined {
+        if (!fs.existsSync(dir)) return undefined;
+        let newest: { file: string; mtime: number } | undefined;
+        for (const file of fs.readdirSync(dir)) {
+            if (!pattern.test(file)) continue;
+            const mtime = fs.statSync(path.join(dir, file)).mtimeMs;
+            if (mtime >= since && (!newest || mtime > newest.mtime)) newest = { file, mtime };
+        }
+        if (!newest) return undefined;
+
+        const content = fs.readFileSync(path.join(dir, newest.file), 'utf-8');
+        return { file: newest.file, content: content.slice(0, MAX_REPORT_CHARS) };
+    }
+
+    /**
+     * Mods named by the loader or the crash report: the "Suspected Mods" section, mixin errors,
+     * Fabric's incompatible mod set and Forge/NeoForge mod loading failures.
+     */
+    private static findSuspects(text: string): SuspectedMod[] {
+        const suspects = new Map<string, SuspectedMod>();
+        const add = (modId: string, reason: string, name?: string, file?: string) => {
+            if (NON_MOD_IDS.has(modId) || suspects.has(modId)) return;
+            suspects.set(modId, { modId, name, file, reason });
+        };
+
+        // Crash report "Suspected Mods:" section (1.20+): "\tSodium (sodium), Version: 0.5.8"
+        const lines = text.split(/\r?\n/);
+        lines.forEach((line, i) => {
+            if (!/^Suspected Mods?:/i.test(line)) return;
+            for (let j = i + 1; j < lines.length && /^\s/.test(lines[j]); j++) {
+                const match = lines[j].match(/^\s+(.+?) \(([\w.-]+)\), Version: (.+)$/);
+                if (match) add(match[2], 'Named in the crash report', match[1]);
+            }
+        });
+
+        // Fabric: " - Mod 'Sodium' (sodium) 0.5.8 requires ..." below an incompatible mod set error
+        if (/Incompatible mods? (?:set|found)|Some of your mods are incompatible/.test(text)) {
+            for (const line of lines) {
+                const match = line.match(/^\s*- (?:Mod|Replace mod|Remove mod) '([^']+)' \(([\w.-]+)\)/);
+                if (match) add(match[2], line.trim().replace(/^- /, ''), match[1]);
+            }
+        }
+
+        // Forge/NeoForge mod loading errors
+        for (const match of text.matchAll(/-- MOD ([\w.-]+) --\s*\n\s*Details:\s*\n\s*Mod File: (.+)\n\s*Failure message: (.+)/g)) {
+            const file = /\.jar$/.test(match[2].trim()) ? path.basename(match[2].trim()) : undefined;
+            add(match[1], match[3].trim(), undefined, file);
+        }
+        for (const match of text.matchAll(/ModLoadingException: (.+?) \(([\w.-]+)\) (?:has failed to load correctly|encountered an error)/g)) {
+            add(match[2], 'Failed to load', match[1]);
+        }
+        for (const match of text.matchAll(/Mod ID: '([\w.-]+)', Requested by: '([\w.-]+)', Expected range: '([^']*)', Actual version: '([^']*)'/g)) {
+            add(match[2], `Needs ${match[1]} ${match[3]} (found ${match[4]})`);
+        }
+        for (const match of text.matchAll(/Mod ([\w.-]+) requires ([\w.-]+) (.+)/g)) {
+            add(match[1], `Requires ${match[2]} ${match[3].trim()}`);
+        }
+
+        // Mixin failures: "Mixin [sodium.mixins.json:...] from mod sodium failed". Only trusted when a
+        // mixin error actually happened, since warnings use the same wording.
+        if (/MixinApplyError|MixinTransformerError|InvalidInjectionException|Mixin transformation of/.test(text)) {
+            for (const match of text.matchAll(/(?:from mod|Mixin apply for mod) ([\w.-]+)/g)) {
+                add(match[1], 'Mixin failure');
+            }
+        }
+
+        return [...suspects.values()];
+    }
+
+    // Fills in `file` for suspects by reading the mod ids out of the enabled jars
+    private static locateJars(suspects: SuspectedMod[], modsDir: string) {
+        if (!fs.existsSync(modsDir)) return;
+        const pending = new Map(suspects.filter(mod => !mod.file).map(mod => [mod.modId, mod]));
+        if (pending.size === 0) return;
+
+        for (const file of fs.readdirSync(modsDir)) {
+            if (!file.endsWith('.jar')) continue;
+            const info = ModJarReader.read(path.join(modsDir, file));
+            const mod = info && pending.get(info.modId);
+            if (!mod) continue;
+            mod.file = file;
+            mod.name ||= info!.name;
+            pending.delete(info!.modId);
+            if (pending.size === 0) break;
+        }
+    }
 }
@@ -0,0 +1,118 @@
+export type CrashRuleAction =
+    | { type: 'switch-java'; major: string };
+
+/**
+ * A known issue. `pattern` is a regex source so rules can live in JSON: the built-in list
+ * below, plus `crash-rules.json` in the data folder, which overrides built-ins by id.
+ */
+export interface CrashRule {
+    id: string;
+    pattern: string;
+    flags?: string;
+    cause: string;
+    suggestion: string;
+    details?: string;
+    actions?: CrashRuleAction[];
+}
+
+export interface CrashRuleFile {
+    version: number;
+    rules: CrashRule[];
+}
+
+export const DEFAULT_CRASH_RULES: CrashRule[] = [
+    {
+        id: 'fabric-incompatible-mods',
+        pattern: 'Incompatible mods? (?:set|found)|Some of your mods are incompatible',
+        cause: 'Incompatible Mods',
+        suggestion: 'Fabric refused to start because some mods conflict or are missing dependencies. Update, replace or disable the mods listed below.'
+    },
+    {
+        id: 'forge-missing-dependencies',
+        pattern: 'Missing or unsupported mandatory dependencies|requires [\\w.-]+ .+\\n\\s*Currently, [\\w.-]+ is not installed',
+        cause: 'Missing Mod Dependencies',
+        suggestion: 'Some mods need other mods (or other versions of them) that are not installed. Install the required mods or disable the ones listed below.'
+    },
+    {
+        id: 'java-21-required',
+        pattern: 'class file version 65\\.0',
+        cause: 'Java Version Mismatch',
+        suggestion: 'A mod or the game was built for Java 21, but an older Java was used.',
+        actions: [{ type: 'switch-java', major: '21' }]
+    },
+    {
+        id: 'java-17-required',
+        pattern: 'class file version 61\\.0',
+        cause: 'Java Version Mismatch',
+        suggestion: 'A mod or the game was built for Java 17, but an older Java was used.',
+        actions: [{ type: 'switch-java', major: '17' }]
+    },
+    {
+        id: 'java-newer-required',
+        pattern: 'Class file version 6[0-9]\\.0',
+        flags: 'i',
+        cause: 'Java Version Mismatch',
+        suggestion: 'You are using an older Java version to run mods that require a newer one. Try changing the Java Runtime in Settings to Java 17 or 21.'
+    },
+    {
+        id: 'java-8-required',
+        pattern: 'ClassLoaders\\$AppClassLoader cannot be cast to (?:class )?java\\.net\\.URLClassLoader',
+        cause: 'Java Too New',
+        suggestion: 'This version of Minecraft or its mod loader only runs on Java 8.',
+        actions: [{ type: 'switch-java', major: '8' }]
+    },
+    {
+        id: 'java-too-new-asm',
+        pattern: 'Unsupported class file major version \\d+',
+        cause: 'Java Too New',
+        suggestion: 'The mod loader cannot read classes from this Java version. Use the Java version this Minecraft version asks for instead of a newer one.'
+    },
+    {
+        id: 'out-of-memory',
+        pattern: 'java\\.lang\\.OutOfMemoryError',
+        cause: 'Out of Memory',
+        suggestion: 'The game ran out of RAM. Go to Settings and allocate more memory (recommend 4GB+ for modded).'
+    },
+    {
+        id: 'heap-reservation-failed',
+        pattern: 'Could not reserve enough space for .*object heap|Invalid maximum heap size',
+        cause: 'Memory Setting Too High',
+        suggestion: 'Java could not allocate the requested memory. Lower the maximum RAM, or use a 64-bit Java if it is set above 1.5GB.'
+    },
+    {
+        id: 'mixin-transformation',
+        pattern: 'Mixin transformation of .* failed',
+        cause: 'Mod Incompatibility (Mixin Failure)',
+        suggestion: 'A mod is failing to apply its changes to the game code. This usually means a mod is incompatible with this version of Minecraft or another mod. Check the stacktrace for mod names.'
+    },
+    {
+        id: 'mixin-injection',
+        pattern: 'org\\.spongepowered\\.asm\\.mixin\\.injection\\.throwables\\.InvalidInjectionException',
+        cause: 'Mixin Injection Failure',
+        suggestion: 'A mod is trying to modify code that doesn\'t exist or has changed. This is common when using mods meant for a different Minecraft version.'
+    },
+    {
+        id: 'fabric-api-missing',
+        pattern: 'NoClassDefFoundError: net/fabricmc/fabric/api',
+        cause: 'Fabric API Missing',
+        suggestion: 'A mod needs Fabric API. Install Fabric API for this Minecraft version from the mod browser.'
+    },
+    {
+        id: 'graphics-driver-native',
+        pattern: '# C\\s+\\[(?:ig\\w+|atio\\w+|atig\\w+|nvoglv\\w+|amdxc\\w+)\\.dll',
+        cause: 'Graphics Driver Crash',
+        suggestion: 'The game crashed inside the graphics driver. Update your Nvidia/AMD/Intel drivers, and make sure the game runs on your dedicated GPU.'
+    },
+    {
+        id: 'pixel-format',
+        pattern: 'Pixel format not accelerated|WGL: The driver does not appear to support OpenGL',
+        cause: 'OpenGL Not Supported',
+        suggestion: 'Your graphics driver does not provide OpenGL. Install the driver from your GPU vendor instead of the one Windows installed.'
+    },
+    {
+        id: 'video-card-helper',
+        pattern: 'VideoCardHelper',
+        cause: 'Graphics Driver Issue',
+        suggestion: 'Your graphics drivers may be outdated. Please search for "Intel/Nvidia/AMD Driver Update" and install the latest drivers.'
+    }
+];
@@ -1,41 +1,154 @@
+import { ipcMain } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { spawn } from 'child_process';
 import AdmZip from 'adm-zip';
-import { AssetDownloader } from './AssetDownloader';
+import { AssetDownloader, DownloadTask } from './AssetDownloader';
 import axios from 'axios';
 import { ConfigManager } from '../managers/ConfigManager';
-
-// Map Java major version to download URLs
-const JAVA_DOWNLOADS: Record<string, string> = {
-    '8': 'https://api.adoptium.net/v3/binary/latest/8/ga/windows/x64/jdk/hotspot/normal/eclipse',
-    '17': 'https://api.adoptium.net/v3/binary/latest/17/ga/windows/x64/jdk/hotspot/normal/eclipse',
-    '21': 'https://api.adoptium.net/v3/binary/latest/21/ga/windows/x64/jdk/hotspot/normal/eclipse',
+import { InstanceManager } from '../managers/InstanceManager';
+
+// Mojang's runtime index, the same one the official launcher uses
+const RUNTIME_MANIFEST_URL = 'https://launchermeta.mojang.com/v1/products/java-runtime/2ec0cc96c44e5a76b9c8b7c39df7210883d12871/all.json';
+const ADOPTIUM_API = 'https://api.adoptium.net/v3';
+const RUNTIME_INFO_FILE = '.whoap-runtime.json';
+
+// Mojang component to use for a Java major when the version JSON doesn't name one
+const DEFAULT_COMPONENTS: Record<string, string> = {
+    '8': 'jre-legacy',
+    '16': 'java-runtime-alpha',
+    '17': 'java-runtime-gamma',
+    '21': 'java-runtime-delta'
 };
 
+export type RuntimeVendor = 'mojang' | 'adoptium';
+
+/** A Java runtime the launcher downloaded into its runtimes folder. */
+export interface ManagedRuntime {
+    id: string; // Folder name under the runtimes folder
+    vendor: RuntimeVendor;
+    component?: string; // Mojang component, e.g. "java-runtime-gamma"
+    major: string;
+    version: string; // Full version, e.g. "17.0.8"; empty for runtimes from before this was tracked
+    arch: string;
+    path: string; // The java binary
+    installedAt: number;
+    files?: Record<string, string>; // Relative path -> sha1, for runtimes whose source publishes per-file hashes
+}
+
+export interface AvailableRuntime {
+    vendor: RuntimeVendor;
+    component?: string;
+    major: string;
+    version: string;
+}
+
+type ProgressCallback = (status: string, progress: number) => void;
+
 export class JavaManager {
+    private static handlersRegistered = false;
     private javaPath: string;
-    private downloader: AssetDownloader;
 
     constructor() {
-        this.javaPath = path.join(ConfigManager.getDataPath(), 'runtimes');
-        this.downloader = new AssetDownloader();
+        this.javaPath = ConfigManager.getRuntimesPath();
         if (!fs.existsSync(this.javaPath)) {
             fs.mkdirSync(this.javaPath, { recursive: true });
         }
+        if (!JavaManager.handlersRegistered) {
+            this.registerListeners();
+            JavaManager.handlersRegistered = true;
+        }
+    }
+
+    private registerListeners() {
+        ipcMain.handle('java:list-runtimes', async () => {
+            try {
+                const runtimes = await this.listRuntimes();
+                const autoPaths: Record<string, string> = {};
+                for (const major of new Set(runtimes.map(r => r.major))) {
+                    const picked = await this.findRuntime(major);
+                    if (picked) autoPaths[major] = picked.path;
+                }
+                const usage = await InstanceManager.getInstance().getJavaUsage(autoPaths);
+                return {
+                    success: true,
+                    runtimes: runtimes.map(({ files, ...runtime }) => ({ ...runtime, usedBy: usage[runtime.path] || [] }))
+                };
+            } catch (error) {
+                console.error("Failed to list Java runtimes:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('java:get-available', async () => {
+            try {
+                return { success: true, runtimes: await this.getAvailableRuntimes() };
+            } catch (error) {
+                console.error("Failed to fetch available Java runtimes:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('java:install-runtime', async (event, runtime: AvailableRuntime) => {
+            try {
+                const installed = await this.installRuntime(runtime, (status, progress) => {
+                    event.sender.send('java:runtime-progress', { status, progress });
+                });
+                return { success: true, runtime: installed };
+            } catch (error) {
+                console.error("Failed to install Java runtime:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('java:update-runtime', async (event, id: string) => {
+            try {
+                const result = await this.updateRuntime(id, (status, progress) => {
+                    event.sender.send('java:runtime-progress', { status, progress });
+                });
+                return { success: true, ...result };
+            } catch (error) {
+                console.error("Failed to update Java runtime:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        // Runtime for a major version, downloading one without asking (the user picked it explicitly)
+        ipcMain.handle('java:ensure-runtime', async (event, majorVersion: string) => {
+            try {
+                const javaPath = await this.ensureJava(majorVersion, (status, progress) => {
+                    event.sender.send('java:runtime-progress', { status, progress });
+                });
+                return { success: true, path: javaPath };
+            } catch (error) {
+                console.error("Failed to get Java runtime:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('java:remove-runtime', async (_, id: string) => {
+            try {
+                await this.removeRuntime(id);
+                return { success: true };
+            } catch (error) {
+                console.error("Failed to remove Java runtime:", error);
+                return { success: false, error: String(error) };
+            }
+        });
     }
 
     async ensureJava(
         majorVersion: string,
-        onProgress?: (status: string, progress: number) => void,
-        onConfirm?: (version: string, size: number) => Promise<'install' | 'skip' | 'cancel'>
+        onProgress?: ProgressCallback,
+        onConfirm?: (version: string, size: number) => Promise<'install' | 'skip' | 'cancel'>,
+        component?: string
     ): Promise<string> {
         // 1. Check if we already downloaded it
-        const targetDir = path.join(this.javaPath, `java-${majorVersion}`);
-        const cachedJava = this.findJavaBinary(targetDir);
-        if (cachedJava) {
-            console.log(`[Java] Found cached Java ${majorVersion} at ${cachedJava}`);
-            return cachedJava;
+        const cached = await this.findRuntime(majorVersion, component);
+        if (cached) {
+            console.log(`[Java] Found managed Java ${majorVersion} at ${cached.path}`);
+            return cached.path;
         }
 
         // 2. Check System Java
@@ -47,23 +160,29 @@ export class JavaManager {
             return systemJava;
         }
 
-        // 3. Download if missing
+        // 3. Download if missing: Mojang's build first, Adoptium when Mojang has none for this platform
         console.log(`[Java] Java ${majorVersion} missing.`);
 
-        const url = JAVA_DOWNLOADS[majorVersion];
-        if (!url) throw new Error(`Unsupported Java version: ${majorVersion}`);
-
-        // Get size
+        const mojangComponent = component || DEFAULT_COMPONENTS[majorVersion];
+        let source: AvailableRuntime | null = null;
         let size = 0;
         try {
-            const headRes = await axios.head(url);
-            size = parseInt(headRes.headers['content-length'] || '0');
-            console.log(`[JavaManager] Detected size for ${majorVersion}: ${size} bytes`);
+            const mojang = mojangComponent ? await this.getMojangRuntime(mojangComponent) : null;
+            if (mojang) {
+                source = { vendor: 'mojang', component: mojangComponent, major: majorVersion, version: mojang.version.name };
+                const files = Object.values<any>((await this.getMojangFileList(mojang)).files);
+                size = files.reduce((sum, entry) => sum + (entry.downloads?.raw.size || 0), 0);
+            }
         } catch (e) {
-            console.warn("Failed to get Java download size", e);
+            console.warn("[Java] Mojang runtime index unavailable, falling back to Adoptium", e);
         }
+        if (!source) {
+            const adoptium = await this.getAdoptiumPackage(majorVersion);
+            source = { vendor: 'adoptium', major: majorVersion, version: adoptium.version };
+            size = adoptium.size;
+        }
+        console.log(`[JavaManager] Detected size for ${majorVersion}: ${size} bytes`);
 
-        // 4. Ask for Permission
         // 4. Ask for Permission
         if (onConfirm) {
             const action = await onConfirm(majorVersion, size);
@@ -72,101 +191,383 @@ export class JavaManager {
             }
             if (action === 'skip') {
                 console.warn(`[Java] User skipped installation for Java ${majorVersion}. Attempting to proceed...`);
-                return 'java'; // Fallback to system java (hope for best) or just return a dummy path? 
+                return 'java'; // Fallback to system java (hope for best) or just return a dummy path?
                 // Return 'java' assumes it's in path, or let the game fail later if it's truly missing.
             }
         }
 
         console.log(`[Java] Downloading...`);
-        return await this.downloadJava(majorVersion, targetDir, size, onProgress);
+        try {
+            return (await this.installRuntime(source, onProgress)).path;
+        } catch (e) {
+            if (source.vendor === 'adoptium') throw e;
+            console.warn(`[Java] Mojang runtime install failed, trying Adoptium:`, e);
+            return (await this.installRuntime({ vendor: 'adoptium', major: majorVersion, version: '' }, onProgress)).path;
+        }
     }
 
-    private findJavaBinary(root: string): string | null {
-        if (!fs.existsSync(root)) return null;
+    /** All runtimes in the runtimes folder, newest major first. */
+    async listRuntimes(): Promise<ManagedRuntime[]> {
+        const runtimes: ManagedRuntime[] = [];
+        let entries: string[];
+        try {
+            entries = await fs.promises.readdir(this.javaPath);
+        } catch {
+            return runtimes;
+        }
 
-        // Direct check
-        const directBin = path.join(root, 'bin', 'java.exe');
-        if (fs.existsSync(directBin)) return directBin;
+        for (const id of entries) {
+            const root = path.join(this.javaPath, id);
+            const infoPath = path.join(root, RUNTIME_INFO_FILE);
+            if (fs.existsSync(infoPath)) {
+                try {
+                    const info: ManagedRuntime = JSON.parse(await fs.promises.readFile(infoPath, 'utf-8'));
+                    runtimes.push({ ...info, id, path: this.findJavaBinary(root) || info.path });
+                } catch (e) {
+                    console.warn(`[Java] Unreadable runtime info in ${id}`, e);
+                }
+                continue;
+            }
+
+            // Runtimes installed before runtime info existed were all Adoptium builds in java-<major>
+            const legacy = /^java-(\d+)$/.exec(id);
+            const bin = legacy && this.findJavaBinary(root);
+            if (legacy && bin) {
+                runtimes.push({ id, vendor: 'adoptium', major: legacy[1], version: '', arch: process.arch, path: bin, installedAt: 0 });
+            }
+        }
+
+        return runtimes.sort((a, b) => parseInt(b.major) - parseInt(a.major));
+    }
+
+    /** Runtimes that can be installed on this platform from each vendor. */
+    async getAvailableRuntimes(): Promise<AvailableRuntime[]> {
+        const available: AvailableRuntime[] = [];
 
-        // Nested check
         try {
-            const files = fs.readdirSync(root);
-            for (const file of files) {
-                const nested = path.join(root, file, 'bin', 'java.exe');
-                if (fs.existsSync(nested)) return nested;
+            const index = await this.getMojangIndex();
+            for (const [component, builds] of Object.entries(index[this.getMojangPlatform()] || {})) {
+                const build = builds[0];
+                if (!build) continue;
+                available.push({ vendor: 'mojang', component, major: this.parseMajor(build.version.name), version: build.version.name });
             }
-        } catch { }
+        } catch (e) {
+            console.warn("[Java] Failed to load Mojang runtime index", e);
+        }
 
-        return null;
+        try {
+            const releases = (await axios.get(`${ADOPTIUM_API}/info/available_releases`)).data;
+            for (const major of releases.available_lts_releases as number[]) {
+                if (major >= 8) available.push({ vendor: 'adoptium', major: String(major), version: '' });
+            }
+        } catch (e) {
+            console.warn("[Java] Failed to load Adoptium releases", e);
+        }
+
+        return available.sort((a, b) => parseInt(b.major) - parseInt(a.major));
+    }
+
+    async installRuntime(runtime: AvailableRuntime, onProgress?: ProgressCallback): Promise<ManagedRuntime> {
+        const id = runtime.vendor === 'mojang' ? `mojang-${runtime.component}` : `adoptium-${runtime.major}`;
+        const targetDir = path.join(this.javaPath, id);
+        // Install next to the old copy and swap at the end, so a failed download leaves it usable
+        const stagingDir = `${targetDir}.tmp`;
+        await fs.promises.rm(stagingDir, { recursive: true, force: true });
+        await fs.promises.mkdir(stagingDir, { recursive: true });
+
+        try {
+            const info = runtime.vendor === 'mojang'
+                ? await this.installMojang(runtime.component!, stagingDir, onProgress)
+                : await this.installAdoptium(runtime.major, stagingDir, onProgress);
+
+            await fs.promises.writeFile(path.join(stagingDir, RUNTIME_INFO_FILE), JSON.stringify({ ...info, id }, null, 2));
+            await fs.promises.rm(targetDir, { recursive: true, force: true });
+            await fs.promises.rename(stagingDir, targetDir);
+        } catch (e) {
+            await fs.promises.rm(stagingDir, { recursive: true, force: true });
+            throw e;
+        }
+
+        const bin = this.findJavaBinary(targetDir);
+        if (!bin) throw new Error("Java installed but executable not found.");
+        console.log(`[Java] Installed ${id} at ${bin}`);
+        return (await this.listRuntimes()).find(r => r.id === id)!;
+    }
+
+    /** Reinstalls a runtime if its vendor has a newer build. */
+    async updateRuntime(id: string, onProgress?: ProgressCallback): Promise<{ updated: boolean; runtime: ManagedRuntime }> {
+        const current = (await this.listRuntimes()).find(r => r.id === id);
+        if (!current) throw new Error(`Runtime ${id} is not installed`);
+
+        let latest: string;
+        if (current.vendor === 'mojang') {
+            const build = await this.getMojangRuntime(current.component!);
+            if (!build) throw new Error(`${current.component} is no longer offered for this platform`);
+            latest = build.version.name;
+        } else {
+            latest = (await this.getAdoptiumPackage(current.major)).version;
+        }
+
+        if (current.version === latest) return { updated: false, runtime: current };
+        const runtime = await this.installRuntime({ vendor: current.vendor, component: current.component, major: current.major, version: latest }, onProgress);
+        return { updated: true, runtime };
+    }
+
+    async removeRuntime(id: string) {
+        const root = path.join(this.javaPath, id);
+        // Only folders directly inside the runtimes folder
+        if (path.dirname(root) !== path.normalize(this.javaPath) || !fs.existsSync(root)) {
+            throw new Error(`Runtime ${id} is not installed`);
+        }
+        await fs.promises.rm(root, { recursive: true, force: true });
+        console.log(`[Java] Removed runtime ${id}`);
+    }
+
+    /**
+     * State of the managed runtime `ensureJava` would pick for `majorVersion`: 'missing' if there
+     * is none, 'broken' if its java binary doesn't run or a file no longer matches its checksum.
+     */
+    async checkRuntime(majorVersion: string, component?: string): Promise<{ status: 'ok' | 'missing' | 'broken'; runtime?: ManagedRuntime }> {
+        const runtime = await this.findRuntime(majorVersion, component, false);
+        if (!runtime) return { status: 'missing' };
+
+        const root = path.join(this.javaPath, runtime.id);
+        if (!fs.existsSync(runtime.path) || !await this.checkJavaVersion(runtime.path, majorVersion)) {
+            return { status: 'broken', runtime };
+        }
+        for (const [rel, sha1] of Object.entries(runtime.files || {})) {
+            const filePath = path.join(root, rel);
+            if (!fs.existsSync(filePath) || await this.hashFile(filePath, 'sha1') !== sha1) {
+                return { status: 'broken', runtime };
+            }
+        }
+        return { status: 'ok', runtime };
+    }
+
+    /** Throws away the managed runtime for `majorVersion` and installs the same one from scratch. */
+    async reinstallRuntime(majorVersion: string, onProgress?: ProgressCallback, component?: string): Promise<string> {
+        const current = await this.findRuntime(majorVersion, component, false);
+        const runtime: AvailableRuntime = current
+            ? { vendor: current.vendor, component: current.component, major: majorVersion, version: current.version }
+            : { vendor: 'adoptium', major: majorVersion, version: '' };
+        return (await this.installRuntime(runtime, onProgress)).path;
+    }
+
+    /**
+     * The managed runtime to use for `majorVersion`: the requested Mojang component if installed,
+     * otherwise any runtime of that major, preferring Mojang builds.
+     */
+    private async findRuntime(majorVersion: string, component?: string, requireBinary = true): Promise<ManagedRuntime | null> {
+        const runtimes = (await this.listRuntimes())
+            .filter(r => r.major === majorVersion && (!requireBinary || fs.existsSync(r.path)));
+        return runtimes.find(r => component && r.component === component)
+            || runtimes.find(r => r.vendor === 'mojang')
+            || runtimes[0]
+            || null;
+    }
+
+    private async installMojang(component: string, targetDir: string, onProgress?: ProgressCallback): Promise<Omit<ManagedRuntime, 'id'>> {
+        const build = await this.getMojangRuntime(component);
+        if (!build) throw new Error(`Mojang has no ${component} runtime for ${this.getMojangPlatform()}`);
+
+        const manifest = await this.getMojangFileList(build);
+
+        const tasks: DownloadTask[] = [];
+        const files: Record<string, string> = {};
+        const executables: string[] = [];
+        const links: { path: string; target: string }[] = [];
+
+        for (const [rel, entry] of Object.entries<any>(manifest.files)) {
+            const dest = path.join(targetDir, rel);
+            if (entry.type === 'directory') {
+                await fs.promises.mkdir(dest, { recursive: true });
+            } else if (entry.type === 'file') {
+                const raw = entry.downloads.raw;
+                tasks.push({ url: raw.url, destination: dest, sha1: raw.sha1, size: raw.size });
+                files[rel] = raw.sha1;
+                if (entry.executable) executables.push(dest);
+            } else if (entry.type === 'link') {
+                links.push({ path: dest, target: entry.target });
+            }
+        }
+
+        // Every file is checked against its sha1 by the downloader
+        await this.download(tasks, `Java ${build.version.name}`, onProgress);
+
+        if (process.platform !== 'win32') {
+            for (const file of executables) await fs.promises.chmod(file, 0o755);
+        }
+        for (const link of links) {
+            try {
+                await fs.promises.mkdir(path.dirname(link.path), { recursive: true });
+                await fs.promises.symlink(link.target, link.path);
+            } catch (e) {
+                console.warn(`[Java] Could not create link ${link.path}`, e);
+            }
+        }
+
+        return {
+            vendor: 'mojang',
+            component,
+            major: this.parseMajor(build.version.name),
+            version: build.version.name,
+            arch: process.arch,
+            path: this.findJavaBinary(targetDir) || '',
+            installedAt: Date.now(),
+            files
+        };
     }
 
-    private async downloadJava(version: string, targetDir: string, totalSize: number, onProgress?: (status: string, progress: number) => void): Promise<string> {
-        const url = JAVA_DOWNLOADS[version]; // Already validated in ensureJava
-        const zipPath = path.join(this.javaPath, `temp-${version}.zip`);
+    private async installAdoptium(majorVersion: string, targetDir: string, onProgress?: ProgressCallback): Promise<Omit<ManagedRuntime, 'id'>> {
+        const pkg = await this.getAdoptiumPackage(majorVersion);
+        const archivePath = path.join(this.javaPath, pkg.name);
 
-        // Download
-        console.log(`[Java] Downloading from ${url}`);
+        try {
+            await this.download([{ url: pkg.link, destination: archivePath, size: pkg.size, priority: 100 }], `Java ${majorVersion}`, onProgress);
+
+            if (await this.hashFile(archivePath, 'sha256') !== pkg.checksum) {
+                throw new Error(`Checksum mismatch for ${pkg.name}`);
+            }
 
-        await new Promise<void>((resolve, reject) => {
-            // Get size for progress calculation
-            // Pass size if we had it, but AssetDownloader recalculates or updates
+            // Extract
+            console.log(`[Java] Extracting to ${targetDir}...`);
+            if (onProgress) onProgress(`Extracting Java ${majorVersion}...`, 100); // 100% download, extracting
+            if (pkg.name.endsWith('.zip')) {
+                new AdmZip(archivePath).extractAllTo(targetDir, true);
+            } else {
+                await this.extractTarball(archivePath, targetDir);
+            }
+        } finally {
+            if (fs.existsSync(archivePath)) fs.unlinkSync(archivePath);
+        }
 
-            this.downloader.addToQueue([{
-                url,
-                destination: zipPath,
-                priority: 100,
-                size: totalSize
-            }]);
+        return {
+            vendor: 'adoptium',
+            major: majorVersion,
+            version: pkg.version,
+            arch: process.arch,
+            path: this.findJavaBinary(targetDir) || '',
+            installedAt: Date.now()
+        };
+    }
 
-            this.downloader.on('done', resolve);
-            this.downloader.on('error', reject);
+    private download(tasks: DownloadTask[], label: string, onProgress?: ProgressCallback): Promise<void> {
+        // A fresh downloader per install, so its listeners don't pile up across installs
+        const downloader = new AssetDownloader();
+        return new Promise<void>((resolve, reject) => {
+            downloader.on('done', resolve);
+            downloader.on('error', reject);
 
             let lastUpdate = 0;
-            const progressListener = (p: any) => {
+            downloader.on('progress', (p: { total: number; current: number }) => {
                 const now = Date.now();
-                if (now - lastUpdate > 100) {
-                    // Need to calculate percentage relative to this file only? 
-                    // AssetDownloader emits global progress for queue.
-                    // The p object has { total, current }
-
+                if (onProgress && now - lastUpdate > 100) {
                     const totalMB = (p.total / 1024 / 1024).toFixed(1);
                     const currentMB = (p.current / 1024 / 1024).toFixed(1);
                     const percent = p.total > 0 ? (p.current / p.total) * 100 : 0;
-
-                    if (onProgress) onProgress(`Downloading Java ${version} (${currentMB}/${totalMB} MB)...`, percent);
-
-                    // Also dispatch granular event for the modal if needed via onProgress?
-                    // Currently onProgress is passed from LaunchProcess which sends 'launch:progress'
-                    // The Modal listens to 'java-install-progress'. We might need to handle that mapping in LaunchProcess.
+                    onProgress(`Downloading ${label} (${currentMB}/${totalMB} MB)...`, percent);
                     lastUpdate = now;
                 }
-            };
+            });
 
-            this.downloader.on('progress', progressListener);
+            downloader.addToQueue(tasks);
+        });
+    }
 
-            // Cleanup listener on finish to avoid leaks if reusing downloader?
-            // AssetDownloader is one-off per JavaManager? No, reused.
-            // We should use 'once' for done/error but 'on' for progress, and remove listeners.
-            // Simplified for now assuming sequential operations or single active Java download.
+    private extractTarball(archivePath: string, targetDir: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const proc = spawn('tar', ['-xzf', archivePath, '-C', targetDir]);
+            proc.on('error', reject);
+            proc.on('close', code => code === 0 ? resolve() : reject(new Error(`tar exited with code ${code}`)));
         });
+    }
 
-        // Extract
-        console.log(`[Java] Extracting to ${targetDir}...`);
-        if (onProgress) onProgress(`Extracting Java ${version}...`, 100); // 100% download, extracting
+    private async getMojangIndex(): Promise<Record<string, Record<string, any[]>>> {
+        return (await axios.get(RUNTIME_MANIFEST_URL)).data;
+    }
 
-        try {
-            const zip = new AdmZip(zipPath);
-            zip.extractAllTo(targetDir, true);
-        } catch (e) {
-            throw new Error(`Failed to extract Java: ${e}`);
-        } finally {
-            if (fs.existsSync(zipPath)) fs.unlinkSync(zipPath);
+    private async getMojangRuntime(component: string): Promise<{ manifest: { sha1: string; size: number; url: string }; version: { name: string } } | null> {
+        const index = await this.getMojangIndex();
+        return index[this.getMojangPlatform()]?.[component]?.[0] || null;
+    }
+
+    private async getMojangFileList(build: { manifest: { sha1: string; url: string } }): Promise<{ files: Record<string, any> }> {
+        const data = (await axios.get(build.manifest.url, { responseType: 'arraybuffer' })).data;
+        if (crypto.createHash('sha1').update(data).digest('hex') !== build.manifest.sha1) {
+            throw new Error('Checksum mismatch for the runtime file list');
         }
+        return JSON.parse(Buffer.from(data).toString('utf-8'));
+    }
 
-        const bin = this.findJavaBinary(targetDir);
-        if (!bin) throw new Error("Java installed but executable not found.");
+    private async getAdoptiumPackage(majorVersion: string): Promise<{ link: string; checksum: string; size: number; name: string; version: string }> {
+        const os = process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'mac' : 'linux';
+        const arch = process.arch === 'arm64' ? 'aarch64' : process.arch === 'ia32' ? 'x86' : 'x64';
+
+        // Not every major has a JRE build (16 only shipped JDKs)
+        for (const imageType of ['jre', 'jdk']) {
+            const res = await axios.get(`${ADOPTIUM_API}/assets/latest/${majorVersion}/hotspot`, {
+                params: { architecture: arch, image_type: imageType, os, vendor: 'eclipse' }
+            });
+            const asset = res.data[0];
+            if (asset) {
+                return { ...asset.binary.package, version: asset.version.semver || asset.version.openjdk_version };
+            }
+        }
+        throw new Error(`Unsupported Java version: ${majorVersion}`);
+    }
 
-        return bin;
+    private getMojangPlatform(): string {
+        if (process.platform === 'win32') {
+            return process.arch === 'arm64' ? 'windows-arm64' : process.arch === 'ia32' ? 'windows-x86' : 'windows-x64';
+        }
+        if (process.platform === 'darwin') {
+            return process.arch === 'arm64' ? 'mac-os-arm64' : 'mac-os';
+        }
+        return process.arch === 'ia32' ? 'linux-i386' : 'linux';
+    }
+
+    // "1.8.0_51" -> "8", "17.0.8" -> "17"
+    private parseMajor(version: string): string {
+        const match = /^1\.(\d+)/.exec(version) || /^(\d+)/.exec(version);
+        return match ? match[1] : version;
+    }
+
+    private findJavaBinary(root: string): string | null {
+        if (!fs.existsSync(root)) return null;
+
+        const binName = process.platform === 'win32' ? 'java.exe' : 'java';
+        const candidates = (dir: string) => [
+            path.join(dir, 'bin', binName),
+            path.join(dir, 'Contents', 'Home', 'bin', binName), // macOS bundles
+            path.join(dir, 'jre.bundle', 'Contents', 'Home', 'bin', binName) // Mojang's macOS runtimes
+        ];
+
+        // Direct check
+        for (const bin of candidates(root)) {
+            if (fs.existsSync(bin)) return bin;
+        }
+
+        // Nested check (archives unpack into a versioned folder)
+        try {
+            const files = fs.readdirSync(root);
+            for (const file of files) {
+                for (const bin of candidates(path.join(root, file))) {
+                    if (fs.existsSync(bin)) return bin;
+                }
+            }
+        } catch { }
+
+        return null;
+    }
+
+    private hashFile(filePath: string, algorithm: 'sha1' | 'sha256'): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = crypto.createHash(algorithm);
+            fs.createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
     }
 
     private async detectSystemJava(majorVersion: string): Promise<string | null> {
@@ -212,24 +613,23 @@ export class JavaManager {
         return null;
     }
 
-    private checkJavaVersion(bin: string, requiredMajor: string): Promise<boolean> {
+    private async checkJavaVersion(bin: string, requiredMajor: string): Promise<boolean> {
+        return await this.getJavaMajor(bin) === requiredMajor;
+    }
+
+    /** Major version of the Java at `bin` ("8" for 1.8.x), or null if it doesn't run. */
+    getJavaMajor(bin: string): Promise<string | null> {
         return new Promise((resolve) => {
             const proc = spawn(bin, ['-version']);
             let output = '';
             proc.stderr.on('data', (d) => output += d.toString());
             proc.stdout.on('data', (d) => output += d.toString());
 
-            proc.on('error', () => resolve(false));
+            proc.on('error', () => resolve(null));
             proc.on('close', () => {
-                if (output.includes(`version "${requiredMajor}`)) return resolve(true);
-                if (requiredMajor === '8' && output.includes('version "1.8')) return resolve(true);
-
-                const vMatch = output.match(/version "(\d+)\.(\d+)/);
-                if (vMatch) {
-                    const major = vMatch[1] === '1' ? vMatch[2] : vMatch[1];
-                    if (major === requiredMajor) return resolve(true);
-                }
-                resolve(false);
+                const vMatch = output.match(/version "(\d+)(?:\.(\d+))?/);
+                if (!vMatch) return resolve(null);
+                resolve(vMatch[1] === '1' ? vMatch[2] : vMatch[1]);
             });
         });
     }
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { VersionManager } from './VersionManager';
+import { ModJarReader } from '../utils/ModJarReader';
+
+export interface JavaRequirement {
+    major: string; // The runtime automatic selection should use
+    min: number;
+    max?: number;
+    reasons: string[]; // Why min/max differ from what the version JSON asks for
+    conflict?: string; // Set when no Java version satisfies everything
+}
+
+export class JavaSelector {
+    // Declared Java ranges per mod jar, reused while the jar's mtime and size are unchanged
+    private static jarCache = new Map<string, { mtimeMs: number; size: number; ranges?: string[] }>();
+
+    /**
+     * Works out which Java an instance can run on before launching it: the version JSON's
+     * `javaVersion` (or the version heuristic), loader limits, and the `java` dependency that
+     * Fabric and Quilt mods declare in their metadata.
+     */
+    static resolve(versionData: any, versionId: string, modsDir?: string): JavaRequirement {
+        const base = parseInt(VersionManager.getRequiredJavaVersion(versionData, versionId));
+        const requirement: JavaRequirement = { major: String(base), min: base, reasons: [] };
+
+        // LaunchWrapper casts the system class loader to URLClassLoader, which stopped working in Java 9
+        if (versionData.mainClass === 'net.minecraft.launchwrapper.Launch') {
+            requirement.max = 8;
+            requirement.reasons.push('LaunchWrapper-based loaders only run on Java 8');
+        }
+
+        if (modsDir && fs.existsSync(modsDir)) {
+            for (const file of fs.readdirSync(modsDir)) {
+                if (!file.endsWith('.jar')) continue;
+                const ranges = JavaSelector.javaVersions(path.join(modsDir, file));
+                if (!ranges?.length) continue;
+
+                const { min, max } = JavaSelector.parseRanges(ranges);
+                if (min !== undefined && min > requirement.min) {
+                    requirement.min = min;
+                    requirement.reasons.push(`${file} requires Java ${ranges.join(' or ')}`);
+                }
+                if (max !== undefined && (requirement.max === undefined || max < requirement.max)) {
+                    requirement.max = max;
+                    requirement.reasons.push(`${file} requires Java ${ranges.join(' or ')}`);
+                }
+            }
+        }
+
+        if (requirement.max !== undefined && requirement.min > requirement.max) {
+            requirement.conflict = `No Java version satisfies all requirements (${requirement.reasons.join('; ')})`;
+        } else if (requirement.min > base) {
+            requirement.major = String(requirement.min);
+        } else if (requirement.max !== undefined && requirement.max < base) {
+            requirement.major = String(requirement.max);
+        }
+
+        return requirement;
+    }
+
+    private static javaVersions(jarPath: string): string[] | undefined {
+        let stats: fs.Stats;
+        try {
+            stats = fs.statSync(jarPath);
+        } catch {
+            return undefined; // Removed since the folder was listed, or a broken link
+        }
+        const { mtimeMs, size } = stats;
+        const cached = JavaSelector.jarCache.get(jarPath);
+        if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return cached.ranges;
+
+        const ranges = ModJarReader.read(jarPath)?.javaVersions;
+        JavaSelector.jarCache.set(jarPath, { mtimeMs, size, ranges });
+        return ranges;
+    }
+
+    static accepts(requirement: JavaRequirement, major: number): boolean {
+        return major >= requirement.min && (requirement.max === undefined || major <= requirement.max);
+    }
+
+    /**
+     * Bounds of a list of alternative version predicates (">=17", ">16 <22", "1.8", "*").
+     * Only the major matters; "1.x" versions are read as Java x.
+     */
+    private static parseRanges(ranges: string[]): { min?: number; max?: number } {
+        const bounds = ranges.map(range => {
+            let min: number | undefined;
+            let max: number | undefined;
+            for (const token of range.trim().split(/\s+/)) {
+                const match = token.match(/^(>=|<=|>|<|=|\^|~)?v?(\d+)(?:\.(\d+))?/);
+                if (!match) continue;
+                const major = match[2] === '1' && match[3] ? parseInt(match[3]) : parseInt(match[2]);
+                switch (match[1]) {
+                    case '>=': min = major; break;
+                    case '>': min = major + 1; break;
+                    case '<=': max = major; break;
+                    case '<': max = major - 1; break;
+                    default: min = max = major;
+                }
+            }
+            return { min, max };
+        });
+
+        // Any alternative is acceptable, so take the loosest bound on each side
+        const mins = bounds.map(b => b.min);
+        const maxes = bounds.map(b => b.max);
+        return {
+            min: mins.includes(undefined) ? undefined : Math.min(...(mins as number[])),
+            max: maxes.includes(undefined) ? undefined : Math.max(...(maxes as number[]))
+        };
+    }
+}
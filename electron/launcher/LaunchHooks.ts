@@ -0,0 +1,90 @@
+import { spawn } from 'child_process';
+import { LogWindowManager } from '../managers/LogWindowManager';
+
+export interface HookContext {
+    instanceId: string;
+    instanceName: string;
+    instancePath: string;
+    mcVersion: string;
+    javaPath: string;
+    env?: Record<string, string>;
+}
+
+export class LaunchHooks {
+    /**
+     * Runs a user-defined hook command through the system shell.
+     * Output is forwarded to the instance's log window. Resolves with the exit code.
+     */
+    static run(label: string, command: string, ctx: HookContext): Promise<number> {
+        console.log(`[Hooks] Running ${label} command for ${ctx.instanceId}: ${command}`);
+        LogWindowManager.send(ctx.instanceId, `[${label}] $ ${command}`, 'info');
+
+        return new Promise((resolve) => {
+            const proc = spawn(command, {
+                cwd: ctx.instancePath,
+                shell: true,
+                windowsHide: true,
+                env: { ...process.env, ...LaunchHooks.buildEnv(ctx) }
+            });
+
+            proc.stdout.on('data', (d) => LogWindowManager.send(ctx.instanceId, `[${label}] ${d.toString()}`, 'stdout'));
+            proc.stderr.on('data', (d) => LogWindowManager.send(ctx.instanceId, `[${label}] ${d.toString()}`, 'stderr'));
+
+            proc.on('error', (err) => {
+                console.error(`[Hooks] ${label} command failed to start:`, err);
+                LogWindowManager.send(ctx.instanceId, `[${label}] Failed to start: ${err.message}`, 'stderr');
+                resolve(-1);
+            });
+
+            proc.on('close', (code) => {
+                const exitCode = code ?? -1;
+                LogWindowManager.send(ctx.instanceId, `[${label}] Exited with code ${exitCode}`, exitCode === 0 ? 'info' : 'stderr');
+                resolve(exitCode);
+            });
+        });
+    }
+
+    /**
+     * Variables exposed to hook commands, named like MultiMC/Prism so existing scripts keep working.
+     */
+    static buildEnv(ctx: HookContext): Record<string, string> {
+        return {
+            ...(ctx.env || {}),
+            INST_ID: ctx.instanceId,
+            INST_NAME: ctx.instanceName,
+            INST_DIR: ctx.instancePath,
+            INST_MC_DIR: ctx.instancePath,
+            INST_MC_VERSION: ctx.mcVersion,
+            INST_JAVA: ctx.javaPath
+        };
+    }
+
+    /**
+     * Splits a wrapper command line (e.g. `prime-run` or `gamemoderun "my tool"`) into argv parts.
+     * Supports single and double quotes; no other shell syntax.
+     */
+    static splitCommand(command: string): string[] {
+        const parts: string[] = [];
+        let current = '';
+        let quote: string | null = null;
+
+        for (const ch of command.trim()) {
+            if (quote) {
+                if (ch === quote) quote = null;
+                else current += ch;
+            } else if (ch === '"' || ch === "'") {
+                quote = ch;
+            } else if (/\s/.test(ch)) {
+                if (current) {
+                    parts.push(current);
+                    current = '';
+                }
+            } else {
+                current += ch;
+            }
+        }
+        if (current) parts.push(current);
+
+        return parts;
+    }
+}
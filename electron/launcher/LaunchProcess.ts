@@ -1,33 +1,188 @@
-import { app, ipcMain, BrowserWindow } from 'electron';
+import { app, ipcMain, BrowserWindow, WebContents } from 'electron';
 import path from 'path';
 import fs from 'fs';
 import { AssetDownloader, DownloadTask } from './AssetDownloader';
 import { JavaManager } from './JavaManager';
-import { spawn } from 'child_process';
+import { JavaSelector } from './JavaSelector';
+import { AuthlibInjector } from './AuthlibInjector';
+import { LaunchHooks, HookContext } from './LaunchHooks';
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
 import { VersionManager } from './VersionManager';
 import { ConfigManager } from '../managers/ConfigManager';
 import { LogWindowManager } from '../managers/LogWindowManager';
+import { GameLogManager } from '../managers/GameLogManager';
 import { CloudManager } from '../managers/CloudManager';
 import { DiscordManager } from '../managers/DiscordManager';
 import { InstanceManager } from '../managers/InstanceManager';
+import { AuthManager } from '../managers/AuthManager';
+import { VersionUtils } from '../utils/VersionUtils';
+
+/** Optional Quick Play target: join a server or open a singleplayer world right after startup. */
+export type QuickPlayTarget =
+    | { type: 'multiplayer'; address: string }
+    | { type: 'singleplayer'; worldId: string };
+
+export interface RunningGameInfo {
+    instanceId: string;
+    instanceName: string;
+    versionId: string;
+    pid?: number;
+    startTime: number;
+}
+
+interface RunningGame extends RunningGameInfo {
+    process: ChildProcess;
+    sender: WebContents;
+    authData: any;
+    target?: QuickPlayTarget;
+    killRequested: boolean;
+    exited: Promise<void>;
+}
 
 export class LaunchProcess {
-    private downloader: AssetDownloader;
     private javaManager: JavaManager;
-    private static _gameIsRunning: boolean = false;
+    private static runningGames: Map<string, RunningGame> = new Map();
+    private static launching = new Set<string>();
+
+    /**
+     * Emits 'running-changed' with the current RunningGameInfo[] whenever a game starts or exits,
+     * plus 'game-started' (instanceId) and 'game-exited' (instanceId, exitCode) for the instance itself.
+     */
+    public static readonly events = new EventEmitter();
 
     public static get gameIsRunning(): boolean {
-        return LaunchProcess._gameIsRunning;
+        return LaunchProcess.runningGames.size > 0;
+    }
+
+    public static getRunningGames(): RunningGameInfo[] {
+        return Array.from(LaunchProcess.runningGames.values()).map(game => ({
+            instanceId: game.instanceId,
+            instanceName: game.instanceName,
+            versionId: game.versionId,
+            pid: game.pid,
+            startTime: game.startTime
+        }));
+    }
+
+    public static isRunning(instanceId: string): boolean {
+        return LaunchProcess.runningGames.has(instanceId);
+    }
+
+    /**
+     * Force-kills a running game (and its child processes on Windows).
+     * Resolves once the process has exited.
+     */
+    public static async killGame(instanceId: string): Promise<boolean> {
+        const game = LaunchProcess.runningGames.get(instanceId);
+        if (!game) return false;
+
+        console.log(`[Launch] Killing game process for ${instanceId} (pid ${game.pid})`);
+        game.killRequested = true;
+
+        if (process.platform === 'win32' && game.pid) {
+            // Kill the whole tree so wrapper commands don't leave java behind
+            spawn('taskkill', ['/pid', String(game.pid), '/T', '/F'], { windowsHide: true });
+        } else {
+            game.process.kill('SIGKILL');
+        }
+
+        await game.exited;
+        return true;
+    }
+
+    /** Extracts an old-style natives jar into `nativesDir`, skipping the entries its library excludes. */
+    public static extractNative(jarPath: string, exclude: string[], nativesDir: string) {
+        try {
+            const AdmZip = require('adm-zip');
+            const zip = new AdmZip(jarPath);
+            const entries = zip.getEntries();
+
+            for (const entry of entries) {
+                // Check if entry should be excluded
+                const shouldExclude = exclude.some((pattern: string) => {
+                    if (pattern.endsWith('/')) {
+                        return entry.entryName.startsWith(pattern);
+                    }
+                    return entry.entryName === pattern;
+                });
+
+                if (!shouldExclude && !entry.isDirectory) {
+                    zip.extractEntryTo(entry, nativesDir, false, true);
+                }
+            }
+            console.log(`[Launch] Extracted native: ${path.basename(jarPath)}`);
+        } catch (extractError) {
+            console.error(`[Launch] Failed to extract native ${jarPath}:`, extractError);
+        }
+    }
+
+    private static notifyRunningChanged() {
+        const games = LaunchProcess.getRunningGames();
+        LaunchProcess.events.emit('running-changed', games);
+        for (const win of BrowserWindow.getAllWindows()) {
+            if (!win.isDestroyed()) {
+                win.webContents.send('game:running-changed', games);
+            }
+        }
     }
 
     constructor() {
-        this.downloader = new AssetDownloader();
         this.javaManager = new JavaManager();
         this.registerListeners();
     }
 
     private registerListeners() {
-        ipcMain.handle('game:launch', async (event, instanceId: string, _unusedPath: string, versionId: string, authData: any) => {
+        ipcMain.handle('game:launch', async (event, instanceId: string, versionId: string, authData: any, target?: QuickPlayTarget) => {
+            return await this.launch(event, instanceId, versionId, authData, target);
+        });
+
+        ipcMain.handle('game:list-running', () => {
+            return LaunchProcess.getRunningGames();
+        });
+
+        ipcMain.handle('game:kill', async (_, instanceId: string) => {
+            try {
+                const killed = await LaunchProcess.killGame(instanceId);
+                return killed ? { success: true } : { success: false, error: 'Game is not running' };
+            } catch (error) {
+                console.error("[Launch] Failed to kill game", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('game:restart', async (_, instanceId: string) => {
+            const game = LaunchProcess.runningGames.get(instanceId);
+            if (!game) return { success: false, error: 'Game is not running' };
+
+            try {
+                await LaunchProcess.killGame(instanceId);
+                return await this.launch({ sender: game.sender }, instanceId, game.versionId, game.authData, game.target);
+            } catch (error) {
+                console.error("[Launch] Failed to restart game", error);
+                return { success: false, error: String(error) };
+            }
+        });
+    }
+
+    private async launch(event: { sender: WebContents }, instanceId: string, versionId: string, authData: any, target?: QuickPlayTarget) {
+        // Reserved until the game is running (or the launch failed), so a second launch of the
+        // same instance can't slip in while this one is still downloading
+        if (LaunchProcess.runningGames.has(instanceId) || LaunchProcess.launching.has(instanceId)) {
+            return { success: false, error: 'This instance is already running' };
+        }
+        LaunchProcess.launching.add(instanceId);
+
+        try {
+            // The renderer only knows which account to use; the token comes from the session store,
+            // refreshed first for Microsoft accounts
+            try {
+                const account = authData?.uuid ? await AuthManager.getLaunchSession(authData.uuid) : undefined;
+                if (account) authData = { ...authData, name: account.name, token: account.token };
+            } catch (error) {
+                return { success: false, error: String(error) };
+            }
+
             // Trigger Cloud Sync
             try {
                 // Construct synthetic instance object for sync
@@ -69,6 +224,7 @@ export class LaunchProcess {
             const instanceRootPath = path.join(instancesRoot, instanceId);
             let isNativeInstance = fs.existsSync(instanceRootPath);
             let useExternalPath = false;
+            let externalGameDir: string | null = null;
 
             if (isNativeInstance) {
                 const configPath = path.join(instanceRootPath, 'instance.json');
@@ -78,6 +234,10 @@ export class LaunchProcess {
                         if (config.useExternalPath) {
                             useExternalPath = true;
                         }
+                        // Instances imported by reference keep playing out of the other launcher's folder
+                        if (config.gameDir && fs.existsSync(config.gameDir)) {
+                            externalGameDir = config.gameDir;
+                        }
                     } catch (e) {
                         console.error("[Launch] Failed to read instance config", e);
                     }
@@ -96,9 +256,9 @@ export class LaunchProcess {
             // - Native Instance -> Isolated in instances/<id>
             // - Imported Version WITH mods/config -> Use version folder (TLauncher style)
             // - Imported Version without custom content -> Use shared .minecraft
-            let instancePath = (isNativeInstance && !useExternalPath)
+            let instancePath = externalGameDir || ((isNativeInstance && !useExternalPath)
                 ? instanceRootPath
-                : (useExternalPath || versionHasCustomContent ? versionFolder : gamePath);
+                : (useExternalPath || versionHasCustomContent ? versionFolder : gamePath));
 
             try {
                 // Load instance config for custom settings
@@ -114,108 +274,7 @@ export class LaunchProcess {
                 }
 
                 // 1. Fetch Version Data
-                let versionData: any = null;
-
-                // Check for custom version JSON first (custom clients)
-                if (instanceConfig?.customVersionJson && fs.existsSync(instanceConfig.customVersionJson)) {
-                    console.log("[Launch] Loading custom version JSON:", instanceConfig.customVersionJson);
-                    try {
-                        versionData = JSON.parse(fs.readFileSync(instanceConfig.customVersionJson, 'utf-8'));
-                    } catch (e) {
-                        console.error("[Launch] Failed to parse custom version JSON", e);
-                    }
-                }
-
-                // Try remote if no custom JSON
-                if (!versionData) {
-                    try {
-                        versionData = await VersionManager.getVersionDetails(versionId);
-                    } catch (e) {
-                        console.warn("[Launch] Failed to fetch remote version details, falling back to local:", e);
-                    }
-                }
-
-                // Fallback: Local JSON in versions folder
-                if (!versionData) {
-                    const localJsonPath = path.join(gamePath, 'versions', versionId, `${versionId}.json`);
-                    if (fs.existsSync(localJsonPath)) {
-                        console.log("Loading local version JSON...");
-                        try {
-                            versionData = JSON.parse(fs.readFileSync(localJsonPath, 'utf-8'));
-                        } catch (e) {
-                            console.error("Failed to parse local JSON", e);
-                        }
-                    }
-                }
-
-                if (!versionData) throw new Error("Could not fetch or find version details");
-
-                // Helper to deduplicate libraries by artifact ID
-                const deduplicateLibraries = (libs: any[]) => {
-                    const libMap = new Map<string, any>();
-
-                    libs.forEach(lib => {
-                        if (!lib.name) return; // Should not happen for standard libraries
-
-                        // Parse "group:artifact:version:classifier"
-                        const parts = lib.name.split(':');
-                        if (parts.length < 3) return;
-
-                        // IDKey = group:artifact[:classifier]
-                        // We must preserve natives/classifiers, but deduplicate versions of the same artifact.
-                        let key = `${parts[0]}:${parts[1]}`;
-                        if (parts.length > 3) {
-                            key += `:${parts[3]}`;
-                        }
-
-                        // Overwrite with latest
-                        libMap.set(key, lib);
-                    });
-
-                    return Array.from(libMap.values());
-                };
-
-                // Resolve Inheritance (e.g. Fabric -> Vanilla)
-                // We do this concurrently to ensure we have all data (libraries, client jar, etc.)
-                const resolveInheritance = async (data: any): Promise<any> => {
-                    if (data.inheritsFrom) {
-                        let parentData = await VersionManager.getVersionDetails(data.inheritsFrom);
-
-                        if (!parentData) {
-                            const parentLocalPath = path.join(gamePath, 'versions', data.inheritsFrom, `${data.inheritsFrom}.json`);
-                            if (fs.existsSync(parentLocalPath)) {
-                                try { parentData = JSON.parse(fs.readFileSync(parentLocalPath, 'utf-8')); } catch { }
-                            }
-                        }
-
-                        if (parentData) {
-                            parentData = await resolveInheritance(parentData); // Recursive
-
-                            // Merge and Deduplicate Libraries
-                            const allLibraries = [...(parentData.libraries || []), ...(data.libraries || [])];
-                            const uniqueLibraries = deduplicateLibraries(allLibraries);
-
-                            const merged = {
-                                ...parentData,
-                                ...data, // Child overrides parent
-                                libraries: uniqueLibraries,
-                                arguments: { // Merge args complex object
-                                    game: [...(parentData.arguments?.game || []), ...(data.arguments?.game || [])],
-                                    jvm: [...(parentData.arguments?.jvm || []), ...(data.arguments?.jvm || [])]
-                                }
-                            };
-                            return merged;
-                        } else {
-                            console.error(`[Launch] Failed to find parent version ${data.inheritsFrom}!`);
-                            throw new Error(`Parent version ${data.inheritsFrom} not found/resolved. Cannot launch.`);
-                        }
-                    } else {
-                        console.log(`[Launch] No inheritance for ${data.id}`);
-                    }
-                    return data;
-                };
-
-                versionData = await resolveInheritance(versionData);
+                const versionData = await VersionManager.loadVersionData(versionId, gamePath, instanceConfig?.customVersionJson);
 
                 // Reuse shared folders
                 const librariesDir = path.join(gamePath, 'libraries');
@@ -304,129 +363,27 @@ export class LaunchProcess {
                 const cpLibraries: string[] = [];
                 const nativesToExtract: { path: string; exclude: string[] }[] = [];
                 
-                // Helper to get current platform name
-                const getPlatformName = () => {
-                    if (process.platform === 'win32') return 'windows';
-                    if (process.platform === 'darwin') return 'osx';
-                    return 'linux';
-                };
-                
-                const getPlatformArch = () => {
-                    return process.arch === 'x64' ? '64' : '32';
-                };
-                
-                if (versionData.libraries) {
-                    versionData.libraries.forEach((lib: any) => {
-                        // Rules Check
-                        if (lib.rules) {
-                            let allowed = false;
-                            if (lib.rules.some((r: any) => r.action === 'allow' && !r.os)) allowed = true;
-                            const osName = getPlatformName();
-                            if (lib.rules.some((r: any) => r.action === 'allow' && r.os?.name === osName)) allowed = true;
-                            if (lib.rules.some((r: any) => r.action === 'disallow' && r.os?.name === osName)) allowed = false;
-                            if (!allowed) return;
-                        }
-
-                        // Path Resolution
-                        let libPath = '';
-                        let libUrl = '';
-                        let libSha1 = '';
-                        let libSize = 0;
-                        let isNative = false;
-                        let extractExclude: string[] = [];
-
-                        // Check for native library first
-                        if (lib.natives) {
-                            const platform = getPlatformName();
-                            const arch = getPlatformArch();
-                            
-                            // natives[platform] gives us the classifier pattern (e.g., "natives-windows" or "natives-windows-${arch}")
-                            // We need to look up the actual URL in classifies using the resolved classifier name
-                            const classifierPattern = lib.natives[platform];
-                            
-                            if (classifierPattern && lib.classifies) {
-                                // The pattern might be just "natives-windows" or have arch placeholder like "natives-windows-${arch}"
-                                // First try without arch suffix
-                                let classifierKey = classifierPattern.replace('natives-', '');
-                                let classifierData = lib.classifies[classifierKey];
-                                
-                                // If not found and pattern has ${arch}, try with arch
-                                if (!classifierData && classifierPattern.includes('${arch}')) {
-                                    classifierKey = classifierPattern.replace('natives-', '').replace('-${arch}', `-${arch}`);
-                                    classifierData = lib.classifies[classifierKey];
-                                }
-                                
-                                if (classifierData) {
-                                    isNative = true;
-                                    libPath = path.join(nativesDir, path.basename(classifierData.url));
-                                    libUrl = classifierData.url;
-                                    libSha1 = classifierData.sha1;
-                                    libSize = classifierData.size;
-                                    extractExclude = lib.extract?.exclude || [];
-                                }
-                            }
-                        }
-                        
-                        // Standard artifact
-                        if (!isNative && lib.downloads && lib.downloads.artifact) {
-                            libPath = path.join(librariesDir, lib.downloads.artifact.path);
-                            libUrl = lib.downloads.artifact.url;
-                            libSha1 = lib.downloads.artifact.sha1;
-                            libSize = lib.downloads.artifact.size;
-                        } else if (!isNative && lib.artifact) {
-                            // Alternative format (some custom JSONs)
-                            const parts = lib.name.split(':');
-                            const group = parts[0].replace(/\./g, path.sep);
-                            const artifactId = parts[1];
-                            const version = parts[2];
-                            const filename = `${artifactId}-${version}.jar`;
-                            const artifactPath = path.join(group, artifactId, version, filename);
-                            libPath = path.join(librariesDir, lib.artifact.path || artifactPath);
-                            libUrl = lib.artifact.url;
-                            libSha1 = lib.artifact.sha1;
-                            libSize = lib.artifact.size;
-                        } else if (!isNative && lib.name) {
-                            // Legacy / Maven Format (TLauncher/Forge)
-                            // Format: group:name:version
-                            const parts = lib.name.split(':');
-                            const group = parts[0].replace(/\./g, path.sep);
-                            const artifactId = parts[1];
-                            const version = parts[2];
-                            const filename = `${artifactId}-${version}.jar`;
-
-                            libPath = path.join(librariesDir, group, artifactId, version, filename);
-
-                            if (lib.url) {
-                                libUrl = lib.url + `${group.replace(/\\/g, '/')}/${artifactId}/${version}/${filename}`;
-                            } else {
-                                libUrl = `https://libraries.minecraft.net/${group.replace(/\\/g, '/')}/${artifactId}/${version}/${filename}`;
-                            }
-                        }
-
-                        if (libPath) {
-                            if (isNative) {
-                                // Native libraries need to be extracted, not added to classpath
-                                nativesToExtract.push({ path: libPath, exclude: extractExclude });
-                            } else {
-                                cpLibraries.push(libPath);
-                            }
+                for (const lib of VersionManager.resolveLibraries(versionData, librariesDir, nativesDir)) {
+                    if (lib.native) {
+                        // Native libraries need to be extracted, not added to classpath
+                        nativesToExtract.push({ path: lib.path, exclude: lib.extractExclude });
+                    } else {
+                        cpLibraries.push(lib.path);
+                    }
 
-                            // Download if missing or check validity
-                            const exists = fs.existsSync(libPath);
-                            if (!exists) {
-                                if (libUrl) {
-                                    downloads.push({
-                                        url: libUrl,
-                                        destination: libPath,
-                                        sha1: libSha1,
-                                        size: libSize
-                                    });
-                                } else {
-                                    console.warn(`[Launch] Missing library ${lib.name} and no URL found.`);
-                                }
-                            }
+                    // Download if missing or check validity
+                    if (!fs.existsSync(lib.path)) {
+                        if (lib.url) {
+                            downloads.push({
+                                url: lib.url,
+                                destination: lib.path,
+                                sha1: lib.sha1,
+                                size: lib.size
+                            });
+                        } else {
+                            console.warn(`[Launch] Missing library ${lib.name} and no URL found.`);
                         }
-                    });
+                    }
                 }
 
                 // 3. Start Downloads
@@ -439,14 +396,16 @@ export class LaunchProcess {
                     DiscordManager.getInstance().setDownloadingPresence(instanceId);
 
                     event.sender.send('launch:progress', { status: 'Downloading files...', progress: 0, total: downloads.length });
-                    this.downloader.addToQueue(downloads);
+                    // Each launch gets its own downloader, so concurrent launches don't share listeners
+                    const downloader = new AssetDownloader();
+                    downloader.addToQueue(downloads);
 
                     try {
                         await new Promise<void>((resolve, reject) => {
-                            this.downloader.on('done', resolve);
-                            this.downloader.on('error', reject);
+                            downloader.on('done', resolve);
+                            downloader.on('error', reject);
                             let lastProgress = 0;
-                            this.downloader.on('progress', (p) => {
+                            downloader.on('progress', (p) => {
                                 const now = Date.now();
                                 if (now - lastProgress > 200) {
                                     event.sender.send('launch:progress', {
@@ -476,28 +435,7 @@ export class LaunchProcess {
                         
                         for (const native of nativesToExtract) {
                             if (fs.existsSync(native.path)) {
-                                try {
-                                    const AdmZip = require('adm-zip');
-                                    const zip = new AdmZip(native.path);
-                                    const entries = zip.getEntries();
-                                    
-                                    for (const entry of entries) {
-                                        // Check if entry should be excluded
-                                        const shouldExclude = native.exclude.some((pattern: string) => {
-                                            if (pattern.endsWith('/')) {
-                                                return entry.entryName.startsWith(pattern);
-                                            }
-                                            return entry.entryName === pattern;
-                                        });
-                                        
-                                        if (!shouldExclude && !entry.isDirectory) {
-                                            zip.extractEntryTo(entry, nativesDir, false, true);
-                                        }
-                                    }
-                                    console.log(`[Launch] Extracted native: ${path.basename(native.path)}`);
-                                } catch (extractError) {
-                                    console.error(`[Launch] Failed to extract native ${native.path}:`, extractError);
-                                }
+                                LaunchProcess.extractNative(native.path, native.exclude, nativesDir);
                             }
                         }
                     }
@@ -578,7 +516,8 @@ export class LaunchProcess {
                                 total: assetDownloads.length
                             });
 
-                            this.downloader.addToQueue(assetDownloads);
+                            const downloader = new AssetDownloader();
+                            downloader.addToQueue(assetDownloads);
 
                             // For assets, if we are offline, we might want to skip downloading and try launching anyway?
                             // Minecraft might look broken (missing textures) but it might run.
@@ -586,10 +525,10 @@ export class LaunchProcess {
                             // Let's wrapping this too.
                             try {
                                 await new Promise<void>((resolve, reject) => {
-                                    this.downloader.on('done', resolve);
-                                    this.downloader.on('error', reject);
+                                    downloader.on('done', resolve);
+                                    downloader.on('error', reject);
                                     let lastProgress = 0;
-                                    this.downloader.on('progress', (p) => {
+                                    downloader.on('progress', (p) => {
                                         const now = Date.now();
                                         if (now - lastProgress > 200) {
                                             event.sender.send('launch:progress', {
@@ -618,69 +557,86 @@ export class LaunchProcess {
                 // 5. Get Java
                 event.sender.send('launch:progress', { status: 'Verifying Java...', progress: 99, total: 100 });
 
-                // Determine required Java version from version data
-                let requiredJavaVersion = versionData.javaVersion?.majorVersion?.toString();
-
-                if (!requiredJavaVersion) {
-                    // Fallback to heuristic based on version number if metadata is missing (common with modloaders)
-                    const v = versionId.match(/1\.(\d+)/);
-                    if (v && v[1]) {
-                        const minor = parseInt(v[1]);
-                        if (minor >= 21) requiredJavaVersion = '21'; // 1.21+ needs Java 21
-                        else if (minor >= 20 && versionId.includes('1.20.5')) requiredJavaVersion = '21'; // 1.20.5+ needs Java 21
-                        else if (minor >= 18) requiredJavaVersion = '17'; // 1.18+ needs Java 17
-                        else if (minor === 17) requiredJavaVersion = '16'; // 1.17 needs Java 16
-                        else requiredJavaVersion = '8'; // Older needs Java 8
+                // Determine required Java from the version JSON, loader and mod metadata
+                const javaRequirement = JavaSelector.resolve(versionData, versionId, path.join(instancePath, 'mods'));
+                const requiredJavaVersion = javaRequirement.major;
+                console.log(`[Launch] Java ${requiredJavaVersion} required for ${versionId}`, javaRequirement.reasons);
+                const launchWarnings: string[] = [];
+                if (javaRequirement.conflict) launchWarnings.push(javaRequirement.conflict);
+
+                // Custom Java path (instance-specific first, then global config), unless it's known not to fit
+                let javaPath: string | null = null;
+                const configJavaPath = ConfigManager.getJavaPath(requiredJavaVersion);
+                const customJavaPath = instanceConfig?.javaPath && fs.existsSync(instanceConfig.javaPath)
+                    ? instanceConfig.javaPath
+                    : (configJavaPath && configJavaPath !== 'auto' ? configJavaPath : null);
+
+                if (customJavaPath) {
+                    const customMajor = await this.javaManager.getJavaMajor(customJavaPath);
+                    if (customMajor && !javaRequirement.conflict && !JavaSelector.accepts(javaRequirement, parseInt(customMajor))) {
+                        const why = javaRequirement.reasons.length > 0 ? javaRequirement.reasons.join('; ') : `${versionId} needs Java ${requiredJavaVersion}`;
+                        launchWarnings.push(`Selected Java ${customMajor} can't run this instance (${why}). Switched to Java ${requiredJavaVersion} for this launch.`);
                     } else {
-                        requiredJavaVersion = '8';
+                        console.log(`[Launch] Using custom Java: ${customJavaPath}`);
+                        javaPath = customJavaPath;
                     }
-                    console.log(`[Launch] Heuristic determined Java version ${requiredJavaVersion} for ${versionId}`);
                 }
 
-                // Check for custom Java path (instance-specific first, then global config)
-                let javaPath: string;
-                
-                if (instanceConfig?.javaPath && fs.existsSync(instanceConfig.javaPath)) {
-                    // Use instance-specific Java path
-                    console.log(`[Launch] Using instance-specific Java: ${instanceConfig.javaPath}`);
-                    javaPath = instanceConfig.javaPath;
-                } else {
-                    const configJavaPath = ConfigManager.getJavaPath(requiredJavaVersion);
-                    
-                    if (configJavaPath && configJavaPath !== 'auto') {
-                        javaPath = configJavaPath;
-                    } else {
-                        javaPath = await this.javaManager.ensureJava(requiredJavaVersion, (status, progress) => {
-                            event.sender.send('launch:progress', {
-                                status: status,
-                                progress: progress,
-                                total: 100
-                            });
-                            // Forward specific java progress to the modal too, if it's open
-                            event.sender.send('java-install-progress', { status, progress });
-                        }, async (ver, size) => {
-                            console.log(`[Launch] Asking user consent for Java ${ver} (${size} bytes)`);
-                            event.sender.send('java-install-request', { version: ver, sizeInBytes: size });
-
-                            return new Promise<'install' | 'skip' | 'cancel'>((resolve) => {
-                                // Listen for one-time consent response
-                                ipcMain.once('java-install-consent', (_, action: 'install' | 'skip' | 'cancel') => {
-                                    resolve(action);
-                                    // Also notify frontend that we are done/start (handled by progress events mostly)
-                                    if (action !== 'install') event.sender.send('java-install-done');
-                                });
+                if (!javaPath) {
+                    // The version's Mojang component only applies when we run the Java it asked for
+                    const component = requiredJavaVersion === VersionManager.getRequiredJavaVersion(versionData, versionId)
+                        ? versionData.javaVersion?.component
+                        : undefined;
+                    javaPath = await this.javaManager.ensureJava(requiredJavaVersion, (status, progress) => {
+                        event.sender.send('launch:progress', {
+                            status: status,
+                            progress: progress,
+                            total: 100
+                        });
+                        // Forward specific java progress to the modal too, if it's open
+                        event.sender.send('java-install-progress', { status, progress });
+                    }, async (ver, size) => {
+                        console.log(`[Launch] Asking user consent for Java ${ver} (${size} bytes)`);
+                        event.sender.send('java-install-request', { version: ver, sizeInBytes: size });
+
+                        return new Promise<'install' | 'skip' | 'cancel'>((resolve) => {
+                            // Listen for one-time consent response
+                            ipcMain.once('java-install-consent', (_, action: 'install' | 'skip' | 'cancel') => {
+                                resolve(action);
+                                // Also notify frontend that we are done/start (handled by progress events mostly)
+                                if (action !== 'install') event.sender.send('java-install-done');
                             });
                         });
+                    }, component);
+
+                    event.sender.send('java-install-done');
+                }
 
-                        event.sender.send('java-install-done');
+                // Whoap accounts sign in to servers through authlib-injector when a Yggdrasil server is configured
+                const authlib = ConfigManager.getAuthlibInjector();
+                let authlibArgs: string[] = [];
+                if (authData.type === 'whoap' && authlib.enabled && authlib.apiRoot) {
+                    event.sender.send('launch:progress', { status: 'Preparing authlib-injector...', progress: 99, total: 100 });
+                    try {
+                        authlibArgs = await AuthlibInjector.getJvmArgs(authlib.apiRoot);
+                    } catch (e) {
+                        console.error('[Launch] authlib-injector unavailable', e);
+                        launchWarnings.push(`authlib-injector could not be prepared (${e}). Servers won't be able to verify this account.`);
                     }
                 }
 
-                // Get RAM settings and JVM Preset
-                const jvmPreset = ConfigManager.getJvmPreset();
-                const customJvmArgs = ConfigManager.getJvmArgs();
-                let minRam = ConfigManager.getMinRam();
-                let maxRam = ConfigManager.getMaxRam();
+                for (const warning of launchWarnings) {
+                    console.warn(`[Launch] ${warning}`);
+                    event.sender.send('launch:warning', { instanceId, message: warning });
+                }
+
+                // Get RAM settings and JVM Preset (instance overrides take precedence over globals)
+                const jvmPreset = instanceConfig?.jvmPreset || ConfigManager.getJvmPreset();
+                const customJvmArgs = [...ConfigManager.getJvmArgs(), ...(instanceConfig?.jvmArgs || [])];
+                const customGameArgs: string[] = instanceConfig?.gameArgs || [];
+                let minRam = instanceConfig?.minRam || ConfigManager.getMinRam();
+                let maxRam = instanceConfig?.maxRam || ConfigManager.getMaxRam();
+                if (minRam > maxRam) minRam = maxRam;
 
                 // Preset mappings
                 const presetFlags: Record<string, string[]> = {
@@ -776,6 +732,7 @@ export class LaunchProcess {
                     ...proxyArgs,
                     ...(presetFlags[jvmPreset] || []),
                     ...customJvmArgs,
+                    ...authlibArgs,
                     `-Djava.library.path=${nativesDir}`,
                     '-Dminecraft.launcher.brand=whoap',
                     '-Dminecraft.launcher.version=2.0.0',
@@ -791,7 +748,9 @@ export class LaunchProcess {
                     // Access token for server authentication
                     '--accessToken', authData.token || '0',
                     '--userType', 'mojang',
-                    '--versionType', versionData.type || 'release'
+                    '--versionType', versionData.type || 'release',
+                    ...this.buildQuickPlayArgs(target, instanceConfig?.version || versionData.inheritsFrom || versionId, versionData, instancePath),
+                    ...customGameArgs
                 ];
 
                 const launchBehavior = ConfigManager.getLaunchBehavior();
@@ -815,7 +774,11 @@ export class LaunchProcess {
                     LogWindowManager.create(instanceId);
                     LogWindowManager.send(instanceId, `Starting ${instanceId} (${versionId})...`, 'info');
                     LogWindowManager.send(instanceId, `Java: ${javaPath}`, 'info');
-                    LogWindowManager.send(instanceId, `RAM: ${minRam}MB - ${maxRam}MB`, 'info');
+                    launchWarnings.forEach(warning => LogWindowManager.send(instanceId, warning, 'stderr'));
+                    LogWindowManager.send(instanceId, `RAM: ${minRam}MB - ${maxRam}MB (${jvmPreset})`, 'info');
+                    if (target) {
+                        LogWindowManager.send(instanceId, `Quick Play: ${target.type === 'multiplayer' ? target.address : target.worldId}`, 'info');
+                    }
                 }
 
                 // Use javaw.exe on windows to avoid console window creation
@@ -823,8 +786,28 @@ export class LaunchProcess {
                     javaPath = javaPath.replace('java.exe', 'javaw.exe');
                 }
 
-                // Auto-configure Skin Loader if present
-                await this.ensureSkinConfig(instancePath, authData);
+                // Pre-launch hook: a non-zero exit aborts the launch
+                const hookContext: HookContext = {
+                    instanceId,
+                    instanceName: instanceConfig?.name || instanceId,
+                    instancePath,
+                    mcVersion: instanceConfig?.version || versionId,
+                    javaPath,
+                    env: instanceConfig?.envVars
+                };
+
+                if (instanceConfig?.preLaunchCommand?.trim()) {
+                    event.sender.send('launch:progress', { status: 'Running pre-launch command...', progress: 99, total: 100 });
+                    const hookCode = await LaunchHooks.run('Pre-launch', instanceConfig.preLaunchCommand, hookContext);
+                    if (hookCode !== 0) {
+                        throw new Error(`Pre-launch command failed with exit code ${hookCode}. Launch aborted.`);
+                    }
+                }
+
+                // Auto-configure Skin Loader if present; with authlib-injector skins come from the Yggdrasil server
+                if (authlibArgs.length === 0) {
+                    await this.ensureSkinConfig(instancePath, authData);
+                }
 
                 // Get instance config to check loader
                 let instanceLoader: string | undefined;
@@ -844,19 +827,60 @@ export class LaunchProcess {
                 let currentServer: string | undefined;
                 let isMultiplayer = false;
 
-                // Mark game as running
-                LaunchProcess._gameIsRunning = true;
+                // Wrapper command (e.g. gamemoderun, prime-run) prefixes the java invocation
+                let command = javaPath;
+                let commandArgs = jvmArgs;
+                const wrapperParts = instanceConfig?.wrapperCommand ? LaunchHooks.splitCommand(instanceConfig.wrapperCommand) : [];
+                if (wrapperParts.length > 0) {
+                    command = wrapperParts[0];
+                    commandArgs = [...wrapperParts.slice(1), javaPath, ...jvmArgs];
+                    console.log(`[Launch] Using wrapper command: ${wrapperParts.join(' ')}`);
+                    if (showConsole) {
+                        LogWindowManager.send(instanceId, `Wrapper: ${wrapperParts.join(' ')}`, 'info');
+                    }
+                }
                 
-                const gameProcess = spawn(javaPath, jvmArgs, {
+                const gameProcess = spawn(command, commandArgs, {
                     cwd: instancePath,
+                    env: { ...process.env, ...(instanceConfig?.envVars || {}) },
                     detached: false, // Keep attached to main process to avoid new terminal window
                     stdio: 'pipe'
                 });
 
+                // Register in the running-games registry until the process exits
+                let markExited: () => void = () => { };
+                const runningGame: RunningGame = {
+                    instanceId,
+                    instanceName: instanceConfig?.name || instanceId,
+                    versionId,
+                    pid: gameProcess.pid,
+                    startTime: Date.now(),
+                    process: gameProcess,
+                    sender: event.sender,
+                    authData,
+                    target,
+                    killRequested: false,
+                    exited: new Promise<void>(resolve => { markExited = resolve; })
+                };
+                const unregister = () => {
+                    if (LaunchProcess.runningGames.get(instanceId) === runningGame) {
+                        LaunchProcess.runningGames.delete(instanceId);
+                        LaunchProcess.notifyRunningChanged();
+                    }
+                    markExited();
+                };
+                LaunchProcess.runningGames.set(instanceId, runningGame);
+                LaunchProcess.notifyRunningChanged();
+                LaunchProcess.events.emit('game-started', instanceId);
+
                 const logBuffer: string[] = [];
                 const MAX_LOG_LINES = 500;
 
+                // Everything the game prints also goes to the per-instance session archive
+                const sessionLog = GameLogManager.startSession(instanceId);
+
                 const appendLog = (data: string) => {
+                    sessionLog.write(data);
                     const lines = data.split('\n');
                     logBuffer.push(...lines);
                     if (logBuffer.length > MAX_LOG_LINES) {
@@ -941,7 +965,7 @@ export class LaunchProcess {
                 gameProcess.on('error', (err) => {
                     console.error("Failed to start game process", err);
                     // Mark game as not running since it failed to start
-                    LaunchProcess._gameIsRunning = false;
+                    unregister();
                     event.sender.send('launch:error', err.message);
                     if (showConsole) {
                         LogWindowManager.send(instanceId, `Launch Error: ${err.message}`, 'stderr');
@@ -958,7 +982,15 @@ export class LaunchProcess {
 
                 gameProcess.on('close', async (code) => {
                     // Mark game as no longer running
-                    LaunchProcess._gameIsRunning = false;
+                    unregister();
+                    sessionLog.close();
+                    LaunchProcess.events.emit('game-exited', instanceId, code);
+
+                    if (showConsole) {
+                        LogWindowManager.send(instanceId, runningGame.killRequested
+                            ? 'Game process was stopped by the launcher.'
+                            : `Game exited with code ${code}`, 'info');
+                    }
                     
                     // Calculate and save playtime
                     sessionPlayTime = Math.floor((Date.now() - startTime) / 1000);
@@ -967,11 +999,12 @@ export class LaunchProcess {
                         await InstanceManager.getInstance().addPlayTime(instanceId, sessionPlayTime);
                     }
 
-                    if (code !== 0) {
+                    if (code !== 0 && !runningGame.killRequested) {
                         console.log("Game crashed! Analyzing...");
                         import('./CrashAnalyzer').then(({ CrashAnalyzer }) => {
-                            const report = CrashAnalyzer.analyze(code || 1, logBuffer);
+                            const report = CrashAnalyzer.analyze(code || 1, logBuffer, instancePath, startTime);
                             event.sender.send('launch:crash', {
+                                instanceId,
                                 report,
                                 log: logBuffer.slice(-100).join('\n') // Send last 100 lines for quick view
                             });
@@ -991,6 +1024,14 @@ export class LaunchProcess {
 
                     // Restore Menu Presence
                     DiscordManager.getInstance().setMenuPresence();
+
+                    // Post-exit hook: failures are logged but don't affect anything else
+                    if (instanceConfig?.postExitCommand?.trim()) {
+                        await LaunchHooks.run('Post-exit', instanceConfig.postExitCommand, {
+                            ...hookContext,
+                            env: { ...(hookContext.env || {}), INST_EXIT_CODE: String(code ?? '') }
+                        });
+                    }
                 });
 
                 gameProcess.unref();
@@ -1003,7 +1044,41 @@ export class LaunchProcess {
                 mainWindow?.show();
                 return { success: false, error: String(error) };
             }
-        });
+        } finally {
+            LaunchProcess.launching.delete(instanceId);
+        }
+    }
+
+    /**
+     * Builds the game arguments for a Quick Play target.
+     * 1.20+ uses --quickPlayMultiplayer/--quickPlaySingleplayer; older versions only support
+     * joining a server through --server/--port.
+     */
+    private buildQuickPlayArgs(target: QuickPlayTarget | undefined, mcVersion: string, versionData: any, instancePath: string): string[] {
+        if (!target) return [];
+
+        const quickPlay = VersionUtils.supportsQuickPlay(mcVersion, versionData);
+
+        if (target.type === 'multiplayer') {
+            const address = target.address.trim();
+            if (!address) throw new Error('No server address given for Quick Play');
+
+            if (quickPlay) {
+                return ['--quickPlayMultiplayer', address];
+            }
+
+            // Legacy: split "host:port" (IPv6 literals are not supported by --server anyway)
+            const [host, port] = address.split(':');
+            return ['--server', host, '--port', port || '25565'];
+        }
+
+        if (!quickPlay) {
+            throw new Error(`Launching directly into a world requires Minecraft 1.20 or newer (this instance is ${mcVersion}).`);
+        }
+        if (!fs.existsSync(path.join(instancePath, 'saves', target.worldId, 'level.dat'))) {
+            throw new Error(`World "${target.worldId}" was not found in this instance.`);
+        }
+        return ['--quickPlaySingleplayer', target.worldId];
     }
 
     /**
@@ -1,4 +1,6 @@
 import { ipcMain, net } from 'electron';
+import path from 'path';
+import fs from 'fs';
 import { CacheManager } from '../utils/CacheManager';
 
 const VANILLA_MANIFEST_URL = 'https://piston-meta.mojang.com/mc/game/version_manifest_v2.json';
@@ -7,6 +9,17 @@ const FABRIC_GAME_URL = 'https://meta.fabricmc.net/v2/versions/game';
 const FORGE_MANIFEST_URL = 'https://files.minecraftforge.net/net/minecraftforge/forge/maven-metadata.xml';
 const NEOFORGE_MANIFEST_URL = 'https://maven.neoforged.net/releases/net/neoforged/neoforge/maven-metadata.xml';
 
+/** A library from a version JSON, resolved to where it lives on disk and where to fetch it from. */
+export interface ResolvedLibrary {
+    name: string;
+    path: string;
+    url?: string;
+    sha1?: string;
+    size?: number;
+    native: boolean; // Native jars are extracted into the natives folder instead of going on the classpath
+    extractExclude: string[];
+}
+
 // Cache keys
 const CACHE_KEYS = {
     VANILLA_MANIFEST: 'vanilla_manifest',
@@ -359,4 +372,236 @@ export class VersionManager {
             return null;
         }
     }
+
+    /**
+     * Loads the version JSON for `versionId` (custom JSON first, then Mojang, then the local
+     * versions folder) and merges in everything it inherits from, e.g. Fabric -> Vanilla.
+     */
+    static async loadVersionData(versionId: string, gamePath: string, customVersionJson?: string): Promise<any> {
+        let versionData: any = null;
+
+        // Check for custom version JSON first (custom clients)
+        if (customVersionJson && fs.existsSync(customVersionJson)) {
+            console.log("[Launch] Loading custom version JSON:", customVersionJson);
+            try {
+                versionData = JSON.parse(fs.readFileSync(customVersionJson, 'utf-8'));
+            } catch (e) {
+                console.error("[Launch] Failed to parse custom version JSON", e);
+            }
+        }
+
+        // Try remote if no custom JSON
+        if (!versionData) {
+            try {
+                versionData = await VersionManager.getVersionDetails(versionId);
+            } catch (e) {
+                console.warn("[Launch] Failed to fetch remote version details, falling back to local:", e);
+            }
+        }
+
+        // Fallback: Local JSON in versions folder
+        if (!versionData) {
+            const localJsonPath = path.join(gamePath, 'versions', versionId, `${versionId}.json`);
+            if (fs.existsSync(localJsonPath)) {
+                console.log("Loading local version JSON...");
+                try {
+                    versionData = JSON.parse(fs.readFileSync(localJsonPath, 'utf-8'));
+                } catch (e) {
+                    console.error("Failed to parse local JSON", e);
+                }
+            }
+        }
+
+        if (!versionData) throw new Error("Could not fetch or find version details");
+
+        return VersionManager.resolveInheritance(versionData, gamePath);
+    }
+
+    private static async resolveInheritance(data: any, gamePath: string): Promise<any> {
+        if (!data.inheritsFrom) {
+            console.log(`[Launch] No inheritance for ${data.id}`);
+            return data;
+        }
+
+        let parentData = await VersionManager.getVersionDetails(data.inheritsFrom);
+
+        if (!parentData) {
+            const parentLocalPath = path.join(gamePath, 'versions', data.inheritsFrom, `${data.inheritsFrom}.json`);
+            if (fs.existsSync(parentLocalPath)) {
+                try { parentData = JSON.parse(fs.readFileSync(parentLocalPath, 'utf-8')); } catch { }
+            }
+        }
+
+        if (!parentData) {
+            console.error(`[Launch] Failed to find parent version ${data.inheritsFrom}!`);
+            throw new Error(`Parent version ${data.inheritsFrom} not found/resolved. Cannot launch.`);
+        }
+
+        parentData = await VersionManager.resolveInheritance(parentData, gamePath); // Recursive
+
+        // Merge and Deduplicate Libraries
+        const allLibraries = [...(parentData.libraries || []), ...(data.libraries || [])];
+
+        return {
+            ...parentData,
+            ...data, // Child overrides parent
+            libraries: VersionManager.deduplicateLibraries(allLibraries),
+            arguments: { // Merge args complex object
+                game: [...(parentData.arguments?.game || []), ...(data.arguments?.game || [])],
+                jvm: [...(parentData.arguments?.jvm || []), ...(data.arguments?.jvm || [])]
+            }
+        };
+    }
+
+    // Deduplicate libraries by artifact ID
+    private static deduplicateLibraries(libs: any[]): any[] {
+        const libMap = new Map<string, any>();
+
+        libs.forEach(lib => {
+            if (!lib.name) return; // Should not happen for standard libraries
+
+            // Parse "group:artifact:version:classifier"
+            const parts = lib.name.split(':');
+            if (parts.length < 3) return;
+
+            // IDKey = group:artifact[:classifier]
+            // We must preserve natives/classifiers, but deduplicate versions of the same artifact.
+            let key = `${parts[0]}:${parts[1]}`;
+            if (parts.length > 3) {
+                key += `:${parts[3]}`;
+            }
+
+            // Overwrite with latest
+            libMap.set(key, lib);
+        });
+
+        return Array.from(libMap.values());
+    }
+
+    /** Java major version a version needs, from its metadata or guessed from the version number. */
+    static getRequiredJavaVersion(versionData: any, versionId: string): string {
+        const fromMetadata = versionData.javaVersion?.majorVersion?.toString();
+        if (fromMetadata) return fromMetadata;
+
+        // Fallback to heuristic based on version number if metadata is missing (common with modloaders)
+        let requiredJavaVersion = '8';
+        const v = versionId.match(/1\.(\d+)/);
+        if (v && v[1]) {
+            const minor = parseInt(v[1]);
+            if (minor >= 21) requiredJavaVersion = '21'; // 1.21+ needs Java 21
+            else if (minor >= 20 && versionId.includes('1.20.5')) requiredJavaVersion = '21'; // 1.20.5+ needs Java 21
+            else if (minor >= 18) requiredJavaVersion = '17'; // 1.18+ needs Java 17
+            else if (minor === 17) requiredJavaVersion = '16'; // 1.17 needs Java 16
+            else requiredJavaVersion = '8'; // Older needs Java 8
+        }
+        return requiredJavaVersion;
+    }
+
+    /**
+     * Resolves the libraries of a (merged) version JSON that apply to this OS. Old-style native
+     * jars resolve into `nativesDir`; everything else into `librariesDir`.
+     */
+    static resolveLibraries(versionData: any, librariesDir: string, nativesDir: string): ResolvedLibrary[] {
+        const resolved: ResolvedLibrary[] = [];
+        const platform = process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'osx' : 'linux';
+        const arch = process.arch === 'x64' ? '64' : '32';
+
+        (versionData.libraries || []).forEach((lib: any) => {
+            // Rules Check
+            if (lib.rules) {
+                let allowed = false;
+                if (lib.rules.some((r: any) => r.action === 'allow' && !r.os)) allowed = true;
+                if (lib.rules.some((r: any) => r.action === 'allow' && r.os?.name === platform)) allowed = true;
+                if (lib.rules.some((r: any) => r.action === 'disallow' && r.os?.name === platform)) allowed = false;
+                if (!allowed) return;
+            }
+
+            // Path Resolution
+            let libPath = '';
+            let libUrl: string | undefined;
+            let libSha1: string | undefined;
+            let libSize: number | undefined;
+            let isNative = false;
+            let extractExclude: string[] = [];
+
+            // Check for native library first
+            if (lib.natives) {
+                // natives[platform] gives us the classifier pattern (e.g., "natives-windows" or "natives-windows-${arch}")
+                // We need to look up the actual URL in classifies using the resolved classifier name
+                const classifierPattern = lib.natives[platform];
+
+                if (classifierPattern && lib.classifies) {
+                    // The pattern might be just "natives-windows" or have arch placeholder like "natives-windows-${arch}"
+                    // First try without arch suffix
+                    let classifierKey = classifierPattern.replace('natives-', '');
+                    let classifierData = lib.classifies[classifierKey];
+
+                    // If not found and pattern has ${arch}, try with arch
+                    if (!classifierData && classifierPattern.includes('${arch}')) {
+                        classifierKey = classifierPattern.replace('natives-', '').replace('-${arch}', `-${arch}`);
+                        classifierData = lib.classifies[classifierKey];
+                    }
+
+                    if (classifierData) {
+                        isNative = true;
+                        libPath = path.join(nativesDir, path.basename(classifierData.url));
+                        libUrl = classifierData.url;
+                        libSha1 = classifierData.sha1;
+                        libSize = classifierData.size;
+                        extractExclude = lib.extract?.exclude || [];
+                    }
+                }
+            }
+
+            // Standard artifact
+            if (!isNative && lib.downloads && lib.downloads.artifact) {
+                libPath = path.join(librariesDir, lib.downloads.artifact.path);
+                libUrl = lib.downloads.artifact.url;
+                libSha1 = lib.downloads.artifact.sha1;
+                libSize = lib.downloads.artifact.size;
+            } else if (!isNative && lib.artifact) {
+                // Alternative format (some custom JSONs)
+                const parts = lib.name.split(':');
+                const group = parts[0].replace(/\./g, path.sep);
+                const artifactId = parts[1];
+                const version = parts[2];
+                const filename = `${artifactId}-${version}.jar`;
+                const artifactPath = path.join(group, artifactId, version, filename);
+                libPath = path.join(librariesDir, lib.artifact.path || artifactPath);
+                libUrl = lib.artifact.url;
+                libSha1 = lib.artifact.sha1;
+                libSize = lib.artifact.size;
+            } else if (!isNative && lib.name) {
+                // Legacy / Maven Format (TLauncher/Forge)
+                // Format: group:name:version
+                const parts = lib.name.split(':');
+                const group = parts[0].replace(/\./g, path.sep);
+                const artifactId = parts[1];
+                const version = parts[2];
+                const filename = `${artifactId}-${version}.jar`;
+
+                libPath = path.join(librariesDir, group, artifactId, version, filename);
+
+                if (lib.url) {
+                    libUrl = lib.url + `${group.replace(/\\/g, '/')}/${artifactId}/${version}/${filename}`;
+                } else {
+                    libUrl = `https://libraries.minecraft.net/${group.replace(/\\/g, '/')}/${artifactId}/${version}/${filename}`;
+                }
+            }
+
+            if (libPath) {
+                resolved.push({
+                    name: lib.name,
+                    path: libPath,
+                    url: libUrl || undefined,
+                    sha1: libSha1 || undefined,
+                    size: libSize || undefined,
+                    native: isNative,
+                    extractExclude
+                });
+            }
+        });
+
+        return resolved;
+    }
 }
@@ -40,9 +40,11 @@ async function isInternetConnected(): Promise<boolean> {
 
 // Managers Import
 import { AuthManager } from './managers/AuthManager';
+import { SessionStore } from './managers/SessionStore';
 import { InstanceManager } from './managers/InstanceManager';
 import { VersionManager } from './launcher/VersionManager';
 import { LaunchProcess } from './launcher/LaunchProcess';
+import { CrashAnalyzer } from './launcher/CrashAnalyzer';
 import { ConfigManager } from './managers/ConfigManager';
 import { LogWindowManager } from './managers/LogWindowManager';
 import { CloudManager } from './managers/CloudManager';
@@ -53,9 +55,14 @@ import { NetworkManager } from './managers/NetworkManager';
 import { DiscordManager } from './managers/DiscordManager';
 import { ScreenshotManager } from './managers/ScreenshotManager';
 import { ModPlatformManager } from './managers/ModPlatformManager';
+import { CurseForgeManager } from './managers/CurseForgeManager';
+import { DownloadManager } from './managers/DownloadManager';
 import { ResourcePackManager } from './managers/ResourcePackManager';
 import { ShaderPackManager } from './managers/ShaderPackManager';
 import { ModMetadataManager } from './managers/ModMetadataManager';
+import { WorldBackupManager } from './managers/WorldBackupManager';
+import { ContentUpdateManager } from './managers/ContentUpdateManager';
+import { GameLogManager } from './managers/GameLogManager';
 import { backgroundSync } from './background-sync';
 
 // Paths Configuration
@@ -91,7 +98,12 @@ let screenshotManager: ScreenshotManager | null = null;
 let cloudManager: CloudManager | null = null;
 let discordManager: DiscordManager | null = null;
 let modPlatformManager: ModPlatformManager | null = null;
+let curseForgeManager: CurseForgeManager | null = null;
+let downloadManager: DownloadManager | null = null;
 let modMetadataManager: ModMetadataManager | null = null;
+let worldBackupManager: WorldBackupManager | null = null;
+let contentUpdateManager: ContentUpdateManager | null = null;
+let gameLogManager: GameLogManager | null = null;
 
 // --- Helper: Get Icon Path ---
 function getIconPath() {
@@ -220,12 +232,19 @@ function createTray() {
             { type: 'separator' }
         ];
 
-        // Add game status if running
-        if (LaunchProcess.gameIsRunning) {
+        // Add a stop entry per running game
+        const runningGames = LaunchProcess.getRunningGames();
+        if (runningGames.length > 0) {
             template.push({
-                label: 'Game is Running',
+                label: runningGames.length === 1 ? 'Game is Running' : `${runningGames.length} Games Running`,
                 enabled: false
             });
+            for (const game of runningGames) {
+                template.push({
+                    label: `Stop ${game.instanceName}`,
+                    click: () => LaunchProcess.killGame(game.instanceId)
+                });
+            }
         }
 
         template.push(
@@ -242,6 +261,7 @@ function createTray() {
 
     // Update menu periodically to reflect game status
     setInterval(updateTrayMenu, 5000);
+    LaunchProcess.events.on('running-changed', updateTrayMenu);
 
     tray.on('click', () => {
         if (!win) return;
@@ -357,7 +377,12 @@ if (!app.requestSingleInstanceLock()) {
         cloudManager = CloudManager.getInstance();
         discordManager = DiscordManager.getInstance();
         modPlatformManager = ModPlatformManager.getInstance();
+        curseForgeManager = CurseForgeManager.getInstance();
+        downloadManager = DownloadManager.getInstance();
         modMetadataManager = new ModMetadataManager();
+        worldBackupManager = new WorldBackupManager();
+        contentUpdateManager = new ContentUpdateManager();
+        gameLogManager = new GameLogManager();
 
         registerIpcHandlers();
         registerProtocolHandlers();
@@ -366,6 +391,9 @@ if (!app.requestSingleInstanceLock()) {
         backgroundSync.start();
         console.log('[Main] Background sync service started');
 
+        CrashAnalyzer.updateRules();
+        AuthManager.refreshAll();
+
         createMainWindow();
         createTray();
     });
@@ -544,8 +572,8 @@ function registerIpcHandlers() {
         console.log(`[Renderer] ${message}`);
     });
 
-    // Skin Import
-    ipcMain.handle('skin:import', async (_, username?: string) => {
+    // Skin Import: the renderer validates (and may fix) the picked file before saving it with skin:save
+    ipcMain.handle('skin:pick', async () => {
         const { dialog } = require('electron');
         const result = await dialog.showOpenDialog({
             title: 'Import Skin',
@@ -557,30 +585,34 @@ function registerIpcHandlers() {
             return { success: false, canceled: true };
         }
 
-        const srcPath = result.filePaths[0];
+        try {
+            const srcPath = result.filePaths[0];
+            const dataUrl = `data:image/png;base64,${fs.readFileSync(srcPath).toString('base64')}`;
+            return { success: true, dataUrl, name: path.basename(srcPath) };
+        } catch (e) {
+            console.error('[Skin] Failed to read skin:', e);
+            return { success: false, error: String(e) };
+        }
+    });
+
+    ipcMain.handle('skin:save', async (_, dataUrl: string, name: string) => {
         const skinsDir = ConfigManager.getSkinsPath();
 
         if (!fs.existsSync(skinsDir)) {
             fs.mkdirSync(skinsDir, { recursive: true });
         }
 
-        let fileName;
-        if (username) {
-            const safeName = username.replace(/[^a-zA-Z0-9_-]/g, '');
-            const timestamp = Date.now().toString().slice(-6);
-            fileName = `${safeName}_${timestamp}.png`;
-        } else {
-            fileName = path.basename(srcPath);
-        }
-
-        const destPath = path.join(skinsDir, fileName);
+        const safeName = path.basename(name, '.png').replace(/[^a-zA-Z0-9_-]/g, '') || 'skin';
+        const timestamp = Date.now().toString().slice(-6);
+        const fileName = `${safeName}_${timestamp}.png`;
 
         try {
-            fs.copyFileSync(srcPath, destPath);
-            console.log(`[Skin] Imported skin: ${fileName}`);
-            return { success: true, fileName, filePath: destPath };
+            const base64 = dataUrl.replace(/^data:image\/png;base64,/, '');
+            fs.writeFileSync(path.join(skinsDir, fileName), Buffer.from(base64, 'base64'));
+            console.log(`[Skin] Saved skin: ${fileName}`);
+            return { success: true, fileName };
         } catch (e) {
-            console.error('[Skin] Failed to import skin:', e);
+            console.error('[Skin] Failed to save skin:', e);
             return { success: false, error: String(e) };
         }
     });
@@ -712,8 +744,9 @@ function registerIpcHandlers() {
             switch (action.type) {
                 case 'instance:create':
                 case 'instance:update': {
+                    // Actions queued before tokens were kept out of the renderer still carry one
                     const { instance, userId, token } = action.payload;
-                    const result = await cloudManager.syncInstance(instance, userId, token);
+                    const result = await cloudManager.syncInstance(instance, userId, token || SessionStore.getAccount(userId)?.token);
                     return { success: result.success, error: result.error };
                 }
 
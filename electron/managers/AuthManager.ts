@@ -1,8 +1,13 @@
-import { ipcMain } from 'electron';
-import { Auth } from 'msmc';
-import { SessionStore, StoredSession } from './SessionStore';
+import { ipcMain, BrowserWindow } from 'electron';
+import { Auth, Minecraft } from 'msmc';
+import { SessionStore, StoredSession, PublicSession } from './SessionStore';
+
+// Microsoft tokens this close to expiry are refreshed before use
+const REFRESH_MARGIN = 5 * 60 * 1000;
 
 export class AuthManager {
+    private static refreshing = new Map<string, Promise<StoredSession>>();
+
     constructor() {
         this.registerListeners();
     }
@@ -12,7 +17,7 @@ export class AuthManager {
         ipcMain.handle('auth:get-session', async () => {
             const session = SessionStore.get();
             if (session && SessionStore.isValid()) {
-                return { success: true, profile: session };
+                return { success: true, profile: SessionStore.toPublic(session) };
             }
             return { success: false };
         });
@@ -29,28 +34,10 @@ export class AuthManager {
                 const xboxManager = await authManager.launch("electron");
                 const token = await xboxManager.getMinecraft();
 
-                if (!token.profile) {
-                    throw new Error("Failed to fetch minecraft profile");
-                }
-
-                const session: StoredSession = {
-                    type: 'microsoft',
-                    name: token.profile.name,
-                    uuid: token.profile.id,
-                    token: token.mcToken
-                };
-
+                const session = AuthManager.toSession(token, xboxManager.save());
                 SessionStore.save(session);
 
-                return {
-                    success: true,
-                    profile: {
-                        name: token.profile.name,
-                        uuid: token.profile.id,
-                        token: token.mcToken,
-                        type: 'microsoft' as const
-                    }
-                };
+                return { success: true, profile: SessionStore.toPublic(session) };
             } catch (error) {
                 console.error("Login failed", error);
                 return { success: false, error: String(error) };
@@ -71,15 +58,7 @@ export class AuthManager {
 
             SessionStore.save(session);
 
-            return {
-                success: true,
-                profile: {
-                    name: username,
-                    uuid: offlineUuid,
-                    token: '',
-                    type: 'offline' as const
-                }
-            };
+            return { success: true, profile: SessionStore.toPublic(session) };
         });
 
         ipcMain.handle('auth:save-whoap-session', async (_, sessionData: { name: string; uuid: string; token: string; refreshToken?: string }) => {
@@ -95,20 +74,167 @@ export class AuthManager {
             return { success: true };
         });
 
-        ipcMain.handle('auth:set-session', async (_, session: StoredSession) => {
-            SessionStore.save(session);
-            return { success: true };
-        });
-
         // Update existing session (e.g. after token refresh)
         ipcMain.handle('auth:update-session', async (_, updateData: Partial<StoredSession>) => {
             const current = SessionStore.get();
             if (current) {
-                const updated = { ...current, ...updateData };
-                SessionStore.save(updated);
+                SessionStore.update(current.uuid, updateData);
                 return { success: true };
             }
             return { success: false, error: 'No active session to update' };
         });
+
+        // Supabase runs in the renderer, so a Whoap account's own tokens are handed back to restore its
+        // session there. Minecraft tokens never leave the main process.
+        ipcMain.handle('auth:get-cloud-session', async () => {
+            const session = SessionStore.get();
+            if (session?.type !== 'whoap' || !session.token) return { success: false };
+            return { success: true, accessToken: session.token, refreshToken: session.refreshToken };
+        });
+
+        ipcMain.handle('auth:list-accounts', async () => {
+            return {
+                success: true,
+                accounts: SessionStore.getAccounts().map(SessionStore.toPublic),
+                activeUuid: SessionStore.get()?.uuid || null
+            };
+        });
+
+        // Makes a saved account active. Microsoft accounts are refreshed first, which re-checks
+        // that the account still owns the game and picks up name changes.
+        ipcMain.handle('auth:switch-account', async (_, uuid: string) => {
+            try {
+                const account = SessionStore.getAccount(uuid);
+                if (!account) throw new Error('Account not found');
+
+                const profile = account.type === 'microsoft'
+                    ? await AuthManager.refreshAccount(uuid, true)
+                    : account;
+                SessionStore.setActive(uuid);
+                return { success: true, profile: SessionStore.toPublic(profile) };
+            } catch (error) {
+                console.error("Failed to switch account", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('auth:refresh-account', async (_, uuid: string) => {
+            try {
+                return { success: true, profile: SessionStore.toPublic(await AuthManager.refreshAccount(uuid, true)) };
+            } catch (error) {
+                console.error("Failed to refresh account", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('auth:remove-account', async (_, uuid: string) => {
+            SessionStore.remove(uuid);
+            return { success: true };
+        });
+
+        ipcMain.handle('auth:update-account', async (_, uuid: string, data: Pick<StoredSession, 'preferredSkin' | 'preferredCape'>) => {
+            SessionStore.update(uuid, {
+                ...('preferredSkin' in data && { preferredSkin: data.preferredSkin }),
+                ...('preferredCape' in data && { preferredCape: data.preferredCape })
+            });
+            return { success: true };
+        });
+
+        // One-time move of the account list the renderer used to keep in localStorage
+        ipcMain.handle('auth:import-accounts', async (_, accounts: StoredSession[]) => {
+            for (const account of accounts) {
+                if (!SessionStore.getAccount(account.uuid)) SessionStore.upsert(account);
+            }
+            return { success: true };
+        });
+    }
+
+    /**
+     * Refreshes a Microsoft account's Minecraft token with its stored msmc refresh token, unless it
+     * is still valid for a while and `force` is off. Concurrent calls for one account share a request.
+     */
+    static refreshAccount(uuid: string, force = false): Promise<StoredSession> {
+        const account = SessionStore.getAccount(uuid);
+        if (!account) return Promise.reject(new Error('Account not found'));
+        if (account.type !== 'microsoft') return Promise.resolve(account);
+        if (!force && account.expiresAt && account.expiresAt - REFRESH_MARGIN > Date.now()) {
+            return Promise.resolve(account);
+        }
+        if (!account.refreshToken) {
+            return Promise.reject(new Error('This account was added before token refresh was supported. Please sign in again.'));
+        }
+
+        let pending = AuthManager.refreshing.get(uuid);
+        if (!pending) {
+            pending = (async () => {
+                const xbox = await new Auth("select_account").refresh(account.refreshToken!);
+                const session = AuthManager.toSession(await xbox.getMinecraft(), xbox.save());
+                if (session.uuid !== uuid) {
+                    throw new Error('The refresh token belongs to a different Minecraft profile');
+                }
+                SessionStore.upsert(session);
+
+                const updated = SessionStore.getAccount(uuid)!;
+                AuthManager.notifyUpdated(SessionStore.toPublic(updated));
+                return updated;
+            })().finally(() => AuthManager.refreshing.delete(uuid));
+            AuthManager.refreshing.set(uuid, pending);
+        }
+        return pending;
+    }
+
+    /** Refreshes every saved Microsoft account in the background at startup. */
+    static async refreshAll() {
+        for (const account of SessionStore.getAccounts()) {
+            if (account.type !== 'microsoft' || !account.refreshToken) continue;
+            try {
+                await AuthManager.refreshAccount(account.uuid, true);
+            } catch (e) {
+                console.warn(`[Auth] Failed to refresh ${account.name}:`, e);
+            }
+        }
+    }
+
+    /**
+     * The account to launch with, credentials included: for Microsoft a token with some life left,
+     * refreshed if needed.
+     * A refresh failure is only fatal once the current token has actually expired (e.g. offline play).
+     */
+    static async getLaunchSession(uuid: string): Promise<StoredSession | undefined> {
+        const account = SessionStore.getAccount(uuid);
+        if (!account || account.type !== 'microsoft') return account;
+
+        try {
+            return await AuthManager.refreshAccount(uuid);
+        } catch (e) {
+            // Accounts saved before expiry was tracked have no expiresAt; let the game decide
+            if (account.token && (!account.expiresAt || account.expiresAt > Date.now())) {
+                console.warn('[Auth] Token refresh failed, launching with the current token:', e);
+                return account;
+            }
+            throw new Error(`Your Microsoft session has expired and could not be refreshed. Please sign in again. (${e})`);
+        }
+    }
+
+    private static toSession(token: Minecraft, refreshToken: string): StoredSession {
+        if (!token.profile || token.isDemo()) {
+            throw new Error("Failed to fetch minecraft profile");
+        }
+        return {
+            type: 'microsoft',
+            name: token.profile.name,
+            uuid: token.profile.id,
+            token: token.mcToken,
+            refreshToken,
+            expiresAt: token.exp
+        };
+    }
+
+    private static notifyUpdated(account: PublicSession) {
+        for (const win of BrowserWindow.getAllWindows()) {
+            if (!win.isDestroyed()) {
+                win.webContents.send('auth:account-updated', account);
+            }
+        }
     }
 }
@@ -3,6 +3,7 @@ import { app, ipcMain, dialog } from 'electron';
 import path from 'path';
 import fs from 'fs';
 import { VersionUtils } from '../utils/VersionUtils';
+import { ContentStore } from '../utils/ContentStore';
 
 interface JavaPaths {
     [version: string]: string;
@@ -17,6 +18,11 @@ interface ProxyConfig {
     password?: string;
 }
 
+interface AuthlibInjectorConfig {
+    enabled: boolean;
+    apiRoot: string; // Yggdrasil API root that Whoap accounts authenticate against
+}
+
 interface AppConfig {
     dataPath: string;
     gamePath: string;
@@ -32,6 +38,11 @@ interface AppConfig {
     jvmPreset: 'potato' | 'standard' | 'pro' | 'extreme' | 'custom';
     jvmArgs: string[];
     proxy: ProxyConfig;
+    curseforgeApiKey: string;
+    downloadConcurrency: number;
+    downloadSpeedLimit: number; // KB/s shared by all downloads, 0 = unlimited
+    pasteEndpoint: string; // mclo.gs-compatible API used to share logs
+    authlibInjector: AuthlibInjectorConfig;
     onboardingCompleted: boolean;
     firstLaunchDate: string | null;
 }
@@ -93,6 +104,14 @@ function getUserConfigStore(): Store<AppConfig> {
                     port: 8080,
                     type: 'http'
                 },
+                curseforgeApiKey: '',
+                downloadConcurrency: 5,
+                downloadSpeedLimit: 0,
+                pasteEndpoint: 'https://api.mclo.gs',
+                authlibInjector: {
+                    enabled: false,
+                    apiRoot: ''
+                },
                 onboardingCompleted: false,
                 firstLaunchDate: null
             }
@@ -333,7 +352,8 @@ export class ConfigManager {
             try {
                 const dataPath = ConfigManager.getDataPath();
                 
-                async function getFolderSize(folderPath: string): Promise<number> {
+                // Hard-linked files (the shared content store) are counted once per walk
+                async function getFolderSize(folderPath: string, seen = new Set<string>()): Promise<number> {
                     if (!fs.existsSync(folderPath)) return 0;
                     
                     let size = 0;
@@ -344,7 +364,12 @@ export class ConfigManager {
                         const stats = fs.statSync(filePath);
                         
                         if (stats.isDirectory()) {
-                            size += await getFolderSize(filePath);
+                            size += await getFolderSize(filePath, seen);
+                        } else if (stats.nlink > 1) {
+                            const inode = `${stats.dev}:${stats.ino}`;
+                            if (seen.has(inode)) continue;
+                            seen.add(inode);
+                            size += stats.size;
                         } else {
                             size += stats.size;
                         }
@@ -353,12 +378,13 @@ export class ConfigManager {
                     return size;
                 }
 
-                const [totalSize, instancesSize, gameDataSize, skinsSize, capesSize] = await Promise.all([
+                const [totalSize, instancesSize, gameDataSize, skinsSize, capesSize, store] = await Promise.all([
                     getFolderSize(dataPath),
                     getFolderSize(ConfigManager.getInstancesPath()),
                     getFolderSize(ConfigManager.getGamePath()),
                     getFolderSize(ConfigManager.getSkinsPath()),
-                    getFolderSize(ConfigManager.getCapesPath())
+                    getFolderSize(ConfigManager.getCapesPath()),
+                    ContentStore.getStats()
                 ]);
 
                 return {
@@ -369,13 +395,24 @@ export class ConfigManager {
                         instances: instancesSize,
                         gameData: gameDataSize,
                         skins: skinsSize,
-                        capes: capesSize
+                        capes: capesSize,
+                        store: store.size,
+                        saved: store.saved
                     }
                 };
             } catch (error) {
                 return { success: false, error: String(error) };
             }
         });
+
+        // Remove stored content no instance uses any more
+        ipcMain.handle('config:clean-store', async () => {
+            try {
+                return { success: true, ...(await ContentStore.collectGarbage()) };
+            } catch (error) {
+                return { success: false, error: String(error) };
+            }
+        });
     }
 
     // Static getters
@@ -498,6 +535,46 @@ export class ConfigManager {
         }
     }
 
+    static getCurseForgeApiKey(): string {
+        try {
+            return getUserConfigStore().get('curseforgeApiKey') || '';
+        } catch {
+            return '';
+        }
+    }
+
+    static getDownloadConcurrency(): number {
+        try {
+            return Math.max(1, Math.min(16, getUserConfigStore().get('downloadConcurrency') || 5));
+        } catch {
+            return 5;
+        }
+    }
+
+    static getDownloadSpeedLimit(): number {
+        try {
+            return Math.max(0, getUserConfigStore().get('downloadSpeedLimit') || 0);
+        } catch {
+            return 0;
+        }
+    }
+
+    static getPasteEndpoint(): string {
+        try {
+            return getUserConfigStore().get('pasteEndpoint') || 'https://api.mclo.gs';
+        } catch {
+            return 'https://api.mclo.gs';
+        }
+    }
+
+    static getAuthlibInjector(): AuthlibInjectorConfig {
+        try {
+            return getUserConfigStore().get('authlibInjector') || { enabled: false, apiRoot: '' };
+        } catch {
+            return { enabled: false, apiRoot: '' };
+        }
+    }
+
     static isOnboardingCompleted(): boolean {
         // Onboarding is disabled - always return true
         return true;
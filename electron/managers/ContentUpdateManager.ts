@@ -0,0 +1,345 @@
+import { ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { ConfigManager } from './ConfigManager';
+import { ModMetadata, ModMetadataManager } from './ModMetadataManager';
+import { ModPlatformManager, ModrinthVersion } from './ModPlatformManager';
+import { LaunchProcess } from '../launcher/LaunchProcess';
+import { ContentStore } from '../utils/ContentStore';
+import { InstanceManager } from './InstanceManager';
+
+type ContentType = 'mod' | 'resourcepack' | 'shader';
+
+export interface ContentUpdate {
+    type: ContentType;
+    projectId: string;
+    title: string;
+    iconUrl?: string;
+    currentFilename: string; // Metadata key, without a .disabled suffix
+    currentVersionNumber: string;
+    newVersionId: string;
+    newVersionNumber: string;
+    newFilename: string;
+    changelog?: string;
+    datePublished?: string;
+    enabled: boolean;
+}
+
+interface RollbackEntry {
+    type: ContentType;
+    oldFilename: string;
+    newFilename: string;
+    enabled: boolean;
+    oldMetadata: ModMetadata;
+}
+
+export interface RollbackSnapshot {
+    id: string;
+    createdAt: number;
+    // Set once the game has exited cleanly after the update, so crashes only offer recent, unproven updates
+    verified: boolean;
+    entries: RollbackEntry[];
+}
+
+const TYPES: { type: ContentType; dir: string; category: 'mods' | 'resourcepacks' | 'shaderpacks' }[] = [
+    { type: 'mod', dir: 'mods', category: 'mods' },
+    { type: 'resourcepack', dir: 'resourcepacks', category: 'resourcepacks' },
+    { type: 'shader', dir: 'shaderpacks', category: 'shaderpacks' }
+];
+
+const SHADER_LOADERS = ['iris', 'optifine', 'canvas', 'vanilla'];
+const MAX_SNAPSHOTS = 3;
+
+/**
+ * Instance-wide update pass for Modrinth-tracked content, with a rollback snapshot per update.
+ */
+export class ContentUpdateManager {
+    constructor() {
+        this.registerListeners();
+
+        LaunchProcess.events.on('game-exited', (instanceId: string, code: number | null) => {
+            if (code === 0) {
+                this.markVerified(instanceId).catch(e => console.warn('[Updates] Failed to mark rollback verified:', e));
+            }
+        });
+    }
+
+    private registerListeners() {
+        ipcMain.handle('content:check-updates', async (_, instanceId: string) => {
+            try {
+                const updates = await this.checkUpdates(instanceId);
+                return { success: true, updates };
+            } catch (error: any) {
+                console.error('Failed to check content updates:', error);
+                return { success: false, error: error.message };
+            }
+        });
+
+        ipcMain.handle('content:apply-updates', async (event, instanceId: string, updates: ContentUpdate[]) => {
+            try {
+                return await this.applyUpdates(instanceId, updates, (status) => {
+                    event.sender.send('content:update-progress', status);
+                });
+            } catch (error: any) {
+                console.error('Failed to apply content updates:', error);
+                return { success: false, error: error.message };
+            }
+        });
+
+        ipcMain.handle('content:list-rollbacks', async (_, instanceId: string) => {
+            try {
+                return await this.listSnapshots(instanceId);
+            } catch (error) {
+                console.error('Failed to list rollbacks:', error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('content:rollback', async (_, instanceId: string, snapshotId: string) => {
+            try {
+                return await this.rollback(instanceId, snapshotId);
+            } catch (error: any) {
+                console.error('Failed to roll back update:', error);
+                return { success: false, error: error.message };
+            }
+        });
+    }
+
+    // The game data folder, so updates reach the files the game loads (another launcher's for reference imports)
+    private getInstancePath(instanceId: string): string {
+        return InstanceManager.getInstance().resolveGameDir(instanceId) || path.join(ConfigManager.getInstancesPath(), instanceId);
+    }
+
+    private getRollbackPath(instanceId: string): string {
+        return path.join(this.getInstancePath(instanceId), '.whoap-rollback');
+    }
+
+    // Snapshot ids are creation timestamps; anything else (e.g. `..` from the renderer) is refused
+    private getSnapshotPath(instanceId: string, snapshotId: string): string | null {
+        if (typeof snapshotId !== 'string' || !/^\d+$/.test(snapshotId)) return null;
+        const rollbackPath = path.resolve(this.getRollbackPath(instanceId));
+        const snapshotPath = path.resolve(rollbackPath, snapshotId);
+        return path.dirname(snapshotPath) === rollbackPath ? snapshotPath : null;
+    }
+
+    private async sha1(filePath: string): Promise<string> {
+        const hash = createHash('sha1');
+        await pipeline(createReadStream(filePath), hash);
+        return hash.digest('hex');
+    }
+
+    // ==================== CHECK ====================
+
+    async checkUpdates(instanceId: string): Promise<ContentUpdate[]> {
+        const platform = ModPlatformManager.getInstance();
+        const target = await platform.getInstanceTarget(instanceId);
+        if (!target) throw new Error('Instance version not found');
+
+        const metadata = await ModMetadataManager.getAllMetadata(instanceId);
+        const candidates: { type: ContentType; hash: string; filename: string; enabled: boolean; meta: ModMetadata; version: ModrinthVersion }[] = [];
+
+        for (const { type, dir, category } of TYPES) {
+            const dirPath = path.join(this.getInstancePath(instanceId), dir);
+            const byHash = new Map<string, { filename: string; enabled: boolean; meta: ModMetadata }>();
+
+            for (const [filename, meta] of Object.entries(metadata[category] || {})) {
+                const enabledPath = path.join(dirPath, filename);
+                const disabledPath = `${enabledPath}.disabled`;
+                const filePath = existsSync(enabledPath) ? enabledPath : existsSync(disabledPath) ? disabledPath : null;
+                if (!filePath) continue;
+                byHash.set(await this.sha1(filePath), { filename, enabled: filePath === enabledPath, meta });
+            }
+            if (byHash.size === 0) continue;
+
+            const loaders = type === 'mod'
+                ? platform.acceptedLoaders(target.loader)
+                : type === 'resourcepack' ? ['minecraft'] : SHADER_LOADERS;
+
+            const latest = await platform.getLatestVersionsFromHashes(Array.from(byHash.keys()), loaders, [target.version]);
+            for (const [hash, version] of Object.entries(latest)) {
+                const local = byHash.get(hash);
+                if (!local || version.id === local.meta.versionId) continue;
+                // The endpoint answers with the newest match, which can be the file we already have
+                const files = version.files || [];
+                if (files.some(f => f.hashes.sha1 === hash)) continue;
+                candidates.push({ type, hash, ...local, version });
+            }
+        }
+
+        const projects = await platform.getProjects(Array.from(new Set(candidates.map(c => c.version.project_id))));
+        const projectById = new Map<string, any>(projects.map((p: any) => [p.id, p]));
+
+        return candidates.map(({ type, filename, enabled, meta, version }) => {
+            const project = projectById.get(version.project_id);
+            const file = version.files.find(f => f.primary) || version.files[0];
+            return {
+                type,
+                projectId: version.project_id,
+                title: project?.title || filename,
+                iconUrl: project?.icon_url,
+                currentFilename: filename,
+                currentVersionNumber: meta.versionNumber,
+                newVersionId: version.id,
+                newVersionNumber: version.version_number,
+                newFilename: file.filename,
+                changelog: version.changelog,
+                datePublished: version.date_published,
+                enabled
+            };
+        });
+    }
+
+    // ==================== APPLY ====================
+
+    async applyUpdates(
+        instanceId: string,
+        updates: ContentUpdate[],
+        progress: (status: { name: string; index: number; total: number }) => void
+    ): Promise<{ success: boolean; snapshotId?: string; failed: string[] }> {
+        const platform = ModPlatformManager.getInstance();
+        const versions = await platform.getVersions(updates.map(u => u.newVersionId));
+        const versionById = new Map(versions.map(v => [v.id, v]));
+
+        const snapshot: RollbackSnapshot = { id: String(Date.now()), createdAt: Date.now(), verified: false, entries: [] };
+        const snapshotPath = path.join(this.getRollbackPath(instanceId), snapshot.id);
+        await fs.mkdir(snapshotPath, { recursive: true });
+
+        const failed: string[] = [];
+
+        for (let i = 0; i < updates.length; i++) {
+            const update = updates[i];
+            progress({ name: update.title, index: i, total: updates.length });
+
+            const dir = TYPES.find(t => t.type === update.type)!.dir;
+            const dirPath = path.join(this.getInstancePath(instanceId), dir);
+            const suffix = update.enabled ? '' : '.disabled';
+            const oldPath = path.join(dirPath, update.currentFilename + suffix);
+            const version = versionById.get(update.newVersionId);
+            const oldMetadata = await ModMetadataManager.getMetadata(instanceId, update.type, update.currentFilename);
+
+            if (!version || !oldMetadata || !existsSync(oldPath)) {
+                failed.push(update.title);
+                continue;
+            }
+
+            const file = version.files.find(f => f.primary) || version.files[0];
+            const newPath = path.join(dirPath, file.filename + suffix);
+            const tmpPath = `${newPath}.part`;
+
+            try {
+                await ContentStore.install(file.url, tmpPath, file.hashes?.sha1);
+
+                // Old file goes into the snapshot before the new one takes its place (names can match)
+                await fs.rename(oldPath, path.join(snapshotPath, path.basename(oldPath)));
+                await fs.rename(tmpPath, newPath);
+
+                await ModMetadataManager.removeMetadata(instanceId, update.type, update.currentFilename);
+                await ModMetadataManager.saveMetadata(instanceId, update.type, {
+                    projectId: version.project_id,
+                    versionId: version.id,
+                    versionNumber: version.version_number,
+                    filename: file.filename,
+                    installedAt: new Date().toISOString(),
+                    gameVersion: version.game_versions[0],
+                    loaders: version.loaders
+                });
+
+                snapshot.entries.push({
+                    type: update.type,
+                    oldFilename: update.currentFilename,
+                    newFilename: file.filename,
+                    enabled: update.enabled,
+                    oldMetadata
+                });
+            } catch (e) {
+                console.error(`[Updates] Failed to update ${update.title}:`, e);
+                await fs.rm(tmpPath, { force: true });
+                failed.push(update.title);
+            }
+        }
+
+        if (snapshot.entries.length === 0) {
+            await fs.rm(snapshotPath, { recursive: true, force: true });
+            return { success: failed.length === 0, failed };
+        }
+
+        await fs.writeFile(path.join(snapshotPath, 'manifest.json'), JSON.stringify(snapshot, null, 2));
+        await this.pruneSnapshots(instanceId);
+        return { success: failed.length === 0, snapshotId: snapshot.id, failed };
+    }
+
+    // ==================== ROLLBACK ====================
+
+    async listSnapshots(instanceId: string): Promise<RollbackSnapshot[]> {
+        const rollbackPath = this.getRollbackPath(instanceId);
+        if (!existsSync(rollbackPath)) return [];
+
+        const snapshots: RollbackSnapshot[] = [];
+        for (const id of await fs.readdir(rollbackPath)) {
+            const manifestPath = path.join(rollbackPath, id, 'manifest.json');
+            if (!existsSync(manifestPath)) continue;
+            try {
+                snapshots.push(JSON.parse(await fs.readFile(manifestPath, 'utf-8')));
+            } catch (e) {
+                console.warn(`[Updates] Unreadable rollback manifest ${id}:`, e);
+            }
+        }
+        return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    async rollback(instanceId: string, snapshotId: string): Promise<{ success: boolean; error?: string }> {
+        const snapshotPath = this.getSnapshotPath(instanceId, snapshotId);
+        if (!snapshotPath) {
+            return { success: false, error: 'Invalid snapshot id' };
+        }
+        const manifestPath = path.join(snapshotPath, 'manifest.json');
+        if (!existsSync(manifestPath)) {
+            return { success: false, error: 'Rollback snapshot not found' };
+        }
+
+        const snapshot: RollbackSnapshot = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+        for (const entry of snapshot.entries) {
+            const dirPath = path.join(this.getInstancePath(instanceId), TYPES.find(t => t.type === entry.type)!.dir);
+            const suffix = entry.enabled ? '' : '.disabled';
+
+            // The user may have toggled the updated file since, so clear both names
+            for (const name of [entry.newFilename, `${entry.newFilename}.disabled`]) {
+                await fs.rm(path.join(dirPath, name), { force: true });
+            }
+            await ModMetadataManager.removeMetadata(instanceId, entry.type, entry.newFilename);
+
+            const savedPath = path.join(snapshotPath, entry.oldFilename + suffix);
+            if (existsSync(savedPath)) {
+                await fs.rename(savedPath, path.join(dirPath, entry.oldFilename + suffix));
+                await ModMetadataManager.saveMetadata(instanceId, entry.type, entry.oldMetadata);
+            }
+        }
+
+        await fs.rm(snapshotPath, { recursive: true, force: true });
+        console.log(`[Updates] Rolled back ${snapshot.entries.length} updates for ${instanceId}`);
+        return { success: true };
+    }
+
+    private async pruneSnapshots(instanceId: string) {
+        const snapshots = await this.listSnapshots(instanceId);
+        for (const old of snapshots.slice(MAX_SNAPSHOTS)) {
+            const snapshotPath = this.getSnapshotPath(instanceId, old.id);
+            if (snapshotPath) await fs.rm(snapshotPath, { recursive: true, force: true });
+        }
+    }
+
+    private async markVerified(instanceId: string) {
+        for (const snapshot of await this.listSnapshots(instanceId)) {
+            const snapshotPath = this.getSnapshotPath(instanceId, snapshot.id);
+            if (snapshot.verified || !snapshotPath) continue;
+            snapshot.verified = true;
+            await fs.writeFile(
+                path.join(snapshotPath, 'manifest.json'),
+                JSON.stringify(snapshot, null, 2)
+            );
+        }
+    }
+}
@@ -0,0 +1,525 @@
+import { ipcMain, dialog, app } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import {
+    CurseForgeApi, CurseForgeClass, CurseForgeFile, CurseForgeMod, CURSEFORGE_CLASSES,
+    RELATION_OPTIONAL, RELATION_REQUIRED, RELATION_INCOMPATIBLE
+} from '../api/CurseForgeApi';
+import { ConfigManager } from './ConfigManager';
+import { ModMetadataManager } from './ModMetadataManager';
+import { InstallPlan, ModPlatformManager } from './ModPlatformManager';
+import { ContentStore } from '../utils/ContentStore';
+import { LinkedFile } from '../utils/LinkedFile';
+import { InstanceManager } from './InstanceManager';
+
+type ContentType = 'mod' | 'resourcepack' | 'shader';
+
+interface InstallStatus {
+    modName: string;
+    status: 'pending' | 'downloading' | 'installed' | 'skipped' | 'failed';
+    error?: string;
+}
+
+/**
+ * A file whose author disabled third-party downloads. The user fetches it from curseforge.com;
+ * we pick it up from their Downloads folder (or a file they choose) and move it into place.
+ */
+export interface ManualDownload {
+    projectId: string;
+    fileId: string;
+    title: string;
+    fileName: string;
+    url: string; // Download page on curseforge.com
+    destPath: string;
+    fingerprint: number; // Used to check the user got the right file
+    instanceId: string;
+    // Set for content installs, so metadata can be saved once the file arrives
+    type?: ContentType;
+    versionNumber?: string;
+    iconUrl?: string;
+    gameVersion?: string;
+    loader?: string;
+}
+
+const TYPE_DIRS: Record<ContentType, string> = {
+    mod: 'mods',
+    resourcepack: 'resourcepacks',
+    shader: 'shaderpacks'
+};
+
+// Which folder a CurseForge project's files belong in, by class id
+export const CLASS_FOLDERS: Record<number, string> = {
+    [CURSEFORGE_CLASSES.mod]: 'mods',
+    [CURSEFORGE_CLASSES.resourcepack]: 'resourcepacks',
+    [CURSEFORGE_CLASSES.shader]: 'shaderpacks'
+};
+
+const RELEASE_TYPES = ['release', 'beta', 'alpha'];
+const LOADER_NAMES = ['forge', 'fabric', 'quilt', 'neoforge'];
+const DEPENDENCY_TYPES: Record<number, string> = {
+    1: 'embedded',
+    [RELATION_OPTIONAL]: 'optional',
+    [RELATION_REQUIRED]: 'required',
+    [RELATION_INCOMPATIBLE]: 'incompatible'
+};
+
+/**
+ * CurseForge as a second content source. Search results and files are returned in the same
+ * shape as Modrinth's, so the browsers can switch sources by switching IPC prefix
+ * (`curseforge:*` mirrors `platform:*`).
+ */
+export class CurseForgeManager {
+    private static instance: CurseForgeManager;
+    // Manual downloads waiting for their file, by file id. The renderer only ever sends back ids,
+    // so it can't choose where a file ends up.
+    private pendingManual = new Map<string, ManualDownload>();
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): CurseForgeManager {
+        if (!CurseForgeManager.instance) {
+            CurseForgeManager.instance = new CurseForgeManager();
+        }
+        return CurseForgeManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('curseforge:status', () => ({ hasApiKey: CurseForgeApi.hasApiKey() }));
+
+        ipcMain.handle('curseforge:search', async (_, query: string, type: CurseForgeClass, filters: { version?: string; loader?: string; offset?: number; limit?: number }) => {
+            return await this.searchProjects(query, type, filters);
+        });
+
+        ipcMain.handle('curseforge:get-versions', async (_, projectId: string, type: ContentType, filters: { version: string; loader: string }) => {
+            try {
+                return await this.getProjectVersions(projectId, type, filters);
+            } catch (error) {
+                console.error('[CurseForge] Failed to fetch files:', error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('curseforge:get-projects', async (_, projectIds: string[]) => {
+            try {
+                const mods = await CurseForgeApi.getMods(projectIds.map(Number));
+                return mods.map(mod => ({ id: String(mod.id), title: mod.name, icon_url: mod.logo?.thumbnailUrl }));
+            } catch (error) {
+                console.error('[CurseForge] Failed to fetch projects:', error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('curseforge:resolve-install', async (_, instanceId: string, fileId: string, type: ContentType = 'mod') => {
+            try {
+                const plan = await this.resolveInstallPlan(instanceId, fileId, type);
+                return { success: true, plan };
+            } catch (error: any) {
+                console.error('[CurseForge] Dependency resolution failed:', error);
+                return { success: false, error: error.message };
+            }
+        });
+
+        ipcMain.handle('curseforge:install-plan', async (event, instanceId: string, fileIds: string[], type: ContentType = 'mod') => {
+            try {
+                const { results, manual } = await this.installFiles(instanceId, fileIds, type, (status) => {
+                    event.sender.send('platform:install-progress', status);
+                });
+                return { success: true, results, manual };
+            } catch (error: any) {
+                console.error('[CurseForge] Install failed:', error);
+                return { success: false, error: error.message };
+            }
+        });
+
+        // Looks for manually downloaded files in the Downloads folder; returns the keys now in place
+        ipcMain.handle('curseforge:check-manual', async (_, keys: string[]) => {
+            try {
+                const done: string[] = [];
+                for (const key of keys) {
+                    const download = this.pendingManual.get(key);
+                    if (!download) continue;
+                    if (existsSync(download.destPath)) {
+                        this.pendingManual.delete(key);
+                        done.push(key);
+                        continue;
+                    }
+                    const candidate = path.join(app.getPath('downloads'), download.fileName);
+                    if (existsSync(candidate) && await this.acceptManualFile(download, candidate, true)) {
+                        done.push(key);
+                    }
+                }
+                return { success: true, done };
+            } catch (error) {
+                console.error('Failed to check manual downloads:', error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        // Fallback when the browser saved the file somewhere else
+        ipcMain.handle('curseforge:pick-manual', async (_, key: string) => {
+            const download = this.pendingManual.get(key);
+            if (!download) return { success: false, error: 'This download is no longer pending.' };
+
+            const { canceled, filePaths } = await dialog.showOpenDialog({
+                title: `Select ${download.fileName}`,
+                defaultPath: app.getPath('downloads'),
+                properties: ['openFile'],
+                filters: [{ name: 'Minecraft content', extensions: ['jar', 'zip'] }]
+            });
+            if (canceled || filePaths.length === 0) return { success: false, canceled: true };
+
+            try {
+                const accepted = await this.acceptManualFile(download, filePaths[0], false);
+                return accepted ? { success: true } : { success: false, error: `That file doesn't match ${download.fileName}.` };
+            } catch (error) {
+                console.error('Failed to place manual download:', error);
+                return { success: false, error: String(error) };
+            }
+        });
+    }
+
+    // ==================== BROWSE ====================
+
+    public async searchProjects(query: string, type: CurseForgeClass, filters: { version?: string; loader?: string; offset?: number; limit?: number } = {}) {
+        const result = await CurseForgeApi.search(query, type, {
+            gameVersion: filters.version,
+            loader: filters.loader,
+            offset: filters.offset,
+            limit: filters.limit
+        });
+        return {
+            hits: result.data.map(mod => this.toProject(mod)),
+            total_hits: result.totalCount,
+            offset: filters.offset || 0,
+            limit: filters.limit || 20
+        };
+    }
+
+    public async getProject(projectId: string) {
+        const [mod, body] = await Promise.all([
+            CurseForgeApi.getMod(Number(projectId)),
+            CurseForgeApi.getModDescription(Number(projectId)).catch(() => '')
+        ]);
+        return { ...this.toProject(mod), body: body || mod.summary };
+    }
+
+    /**
+     * Files for a project, newest first. Mods are filtered by loader; Quilt instances fall back
+     * to Fabric files like they do on Modrinth.
+     */
+    public async getProjectVersions(projectId: string, type: ContentType | 'modpack', filters: { version?: string; loader?: string } = {}) {
+        let files: CurseForgeFile[] = [];
+        if (type === 'mod' && filters.loader) {
+            for (const loader of ModPlatformManager.getInstance().acceptedLoaders(filters.loader)) {
+                files = await CurseForgeApi.getModFiles(Number(projectId), { gameVersion: filters.version, loader });
+                if (files.length > 0) break;
+            }
+        } else {
+            files = await CurseForgeApi.getModFiles(Number(projectId), { gameVersion: filters.version });
+        }
+        return files.map(file => this.toVersion(file));
+    }
+
+    private toProject(mod: CurseForgeMod) {
+        return {
+            project_id: String(mod.id),
+            slug: mod.slug,
+            title: mod.name,
+            description: mod.summary,
+            categories: mod.categories?.map(c => c.name) || [],
+            downloads: mod.downloadCount,
+            follows: mod.thumbsUpCount,
+            icon_url: mod.logo?.thumbnailUrl,
+            author: mod.authors?.[0]?.name || 'Unknown',
+            date_modified: mod.dateModified,
+            platform: 'curseforge' as const
+        };
+    }
+
+    private toVersion(file: CurseForgeFile) {
+        return {
+            id: String(file.id),
+            project_id: String(file.modId),
+            name: file.displayName,
+            version_number: file.displayName,
+            version_type: RELEASE_TYPES[file.releaseType - 1] || 'release',
+            date_published: file.fileDate,
+            game_versions: file.gameVersions.filter(v => /^\d+\.\d+/.test(v)),
+            loaders: file.gameVersions.map(v => v.toLowerCase()).filter(v => LOADER_NAMES.includes(v)),
+            files: [{
+                url: file.downloadUrl || '',
+                filename: file.fileName,
+                size: file.fileLength,
+                primary: true,
+                hashes: { sha1: CurseForgeApi.getSha1(file) || '' }
+            }],
+            dependencies: file.dependencies
+                .filter(d => DEPENDENCY_TYPES[d.relationType])
+                .map(d => ({ project_id: String(d.modId), dependency_type: DEPENDENCY_TYPES[d.relationType] })),
+            manual: !file.downloadUrl
+        };
+    }
+
+    // ==================== INSTALL ====================
+
+    /**
+     * Same plan shape as ModPlatformManager.resolveInstallPlan: the requested file plus the
+     * newest compatible file of every required dependency that isn't installed yet.
+     */
+    public async resolveInstallPlan(instanceId: string, fileId: string, type: ContentType): Promise<InstallPlan> {
+        const target = await ModPlatformManager.getInstance().getInstanceTarget(instanceId);
+        if (!target) throw new Error('Instance version not found');
+
+        const [root] = await CurseForgeApi.getFilesInfo([Number(fileId)]);
+        if (!root) throw new Error('File not found on CurseForge');
+
+        const installed = type === 'mod' ? await this.getInstalledProjects(instanceId) : new Map<number, string>();
+        const planned = new Map<number, { file: CurseForgeFile; requiredBy?: number }>([[root.modId, { file: root }]]);
+        const satisfied = new Map<number, string>();
+        const optional: { modId: number; requiredBy: number }[] = [];
+        const unresolved: { modId: number; requiredBy: number }[] = [];
+        const incompatible: { modId: number; declaredBy: number }[] = [];
+
+        const queue = [root];
+        while (queue.length > 0) {
+            const file = queue.shift()!;
+            for (const dep of file.dependencies) {
+                if (dep.relationType === RELATION_REQUIRED) {
+                    if (planned.has(dep.modId)) continue;
+                    if (installed.has(dep.modId)) {
+                        satisfied.set(dep.modId, installed.get(dep.modId)!);
+                        continue;
+                    }
+                    const match = await this.findCompatibleFile(dep.modId, type, target);
+                    if (!match) {
+                        unresolved.push({ modId: dep.modId, requiredBy: file.modId });
+                        continue;
+                    }
+                    planned.set(dep.modId, { file: match, requiredBy: file.modId });
+                    queue.push(match);
+                } else if (dep.relationType === RELATION_OPTIONAL) {
+                    optional.push({ modId: dep.modId, requiredBy: file.modId });
+                } else if (dep.relationType === RELATION_INCOMPATIBLE && installed.has(dep.modId)) {
+                    incompatible.push({ modId: dep.modId, declaredBy: file.modId });
+                }
+            }
+        }
+
+        const ids = new Set<number>([...planned.keys(), ...satisfied.keys(), ...unresolved.map(u => u.modId), ...optional.map(o => o.modId), ...incompatible.map(i => i.modId)]);
+        const titles = new Map<number, string>();
+        try {
+            for (const mod of await CurseForgeApi.getMods([...ids])) titles.set(mod.id, mod.name);
+        } catch (e) {
+            console.warn('[CurseForge] Failed to fetch project names:', e);
+        }
+        const titleOf = (modId: number) => titles.get(modId) || `Project ${modId}`;
+
+        const entries = [...planned.values()].map(({ file, requiredBy }) => ({
+            projectId: String(file.modId),
+            versionId: String(file.id),
+            versionNumber: file.displayName,
+            title: titleOf(file.modId),
+            filename: file.fileName,
+            size: file.fileLength,
+            requiredBy: requiredBy !== undefined ? titleOf(requiredBy) : undefined
+        }));
+
+        const optionalById = new Map<number, { modId: number; requiredBy: number }>();
+        for (const o of optional) {
+            if (!planned.has(o.modId) && !installed.has(o.modId) && !optionalById.has(o.modId)) optionalById.set(o.modId, o);
+        }
+
+        return {
+            gameVersion: target.version,
+            loader: target.loader,
+            entries,
+            satisfied: [...satisfied].map(([modId, filename]) => ({ projectId: String(modId), title: titleOf(modId), filename })),
+            optional: [...optionalById.values()].map(o => ({ projectId: String(o.modId), title: titleOf(o.modId), requiredBy: titleOf(o.requiredBy) })),
+            issues: [
+                ...unresolved.map(u => ({
+                    type: 'unresolved' as const,
+                    projectId: String(u.modId),
+                    title: titleOf(u.modId),
+                    message: `No ${target.loader} ${target.version} file of ${titleOf(u.modId)} (required by ${titleOf(u.requiredBy)})`
+                })),
+                ...incompatible.map(i => ({
+                    type: 'incompatible' as const,
+                    projectId: String(i.modId),
+                    title: titleOf(i.modId),
+                    message: `${titleOf(i.declaredBy)} is incompatible with ${titleOf(i.modId)} (installed as ${installed.get(i.modId)})`
+                }))
+            ],
+            totalSize: entries.reduce((sum, e) => sum + e.size, 0)
+        };
+    }
+
+    public async installFiles(
+        instanceId: string,
+        fileIds: string[],
+        type: ContentType,
+        progressCallback: (status: InstallStatus) => void
+    ): Promise<{ results: InstallStatus[]; manual: ManualDownload[] }> {
+        const target = await ModPlatformManager.getInstance().getInstanceTarget(instanceId);
+        const files = await CurseForgeApi.getFilesInfo(fileIds.map(Number));
+        const mods = new Map<number, CurseForgeMod>();
+        try {
+            for (const mod of await CurseForgeApi.getMods([...new Set(files.map(f => f.modId))])) mods.set(mod.id, mod);
+        } catch (e) {
+            console.warn('[CurseForge] Failed to fetch project details:', e);
+        }
+
+        const targetDir = path.join(this.getGameDir(instanceId), TYPE_DIRS[type]);
+        await fs.mkdir(targetDir, { recursive: true });
+
+        const results: InstallStatus[] = [];
+        const manual: ManualDownload[] = [];
+        const report = (status: InstallStatus) => {
+            results.push(status);
+            progressCallback(status);
+        };
+
+        for (const file of files) {
+            const mod = mods.get(file.modId);
+            const modName = mod?.name || file.displayName;
+            const destPath = path.join(targetDir, file.fileName);
+
+            if (existsSync(destPath) || existsSync(`${destPath}.disabled`)) {
+                report({ modName, status: 'skipped' });
+                continue;
+            }
+
+            const url = CurseForgeApi.getDownloadUrl(file);
+            if (!url) {
+                manual.push({
+                    projectId: String(file.modId),
+                    fileId: String(file.id),
+                    title: modName,
+                    fileName: file.fileName,
+                    url: CurseForgeApi.getManualDownloadUrl(file, mod),
+                    destPath,
+                    fingerprint: file.fileFingerprint,
+                    instanceId,
+                    type,
+                    versionNumber: file.displayName,
+                    iconUrl: mod?.logo?.thumbnailUrl,
+                    gameVersion: target?.version,
+                    loader: target?.loader
+                });
+                report({ modName, status: 'pending', error: 'Manual download required' });
+                continue;
+            }
+
+            progressCallback({ modName, status: 'downloading' });
+            try {
+                await ContentStore.install(url, destPath, CurseForgeApi.getSha1(file) || undefined);
+                await ModMetadataManager.saveMetadata(instanceId, type, {
+                    projectId: String(file.modId),
+                    versionId: String(file.id),
+                    versionNumber: file.displayName,
+                    filename: file.fileName,
+                    installedAt: new Date().toISOString(),
+                    gameVersion: target?.version || '',
+                    loaders: target ? [target.loader] : [],
+                    source: 'curseforge',
+                    title: modName,
+                    iconUrl: mod?.logo?.thumbnailUrl
+                });
+                report({ modName, status: 'installed' });
+            } catch (e: any) {
+                await fs.rm(destPath, { force: true });
+                report({ modName, status: 'failed', error: e.message });
+            }
+        }
+
+        this.addManualDownloads(manual);
+        return { results, manual };
+    }
+
+    private async findCompatibleFile(modId: number, type: ContentType, target: { version: string; loader: string }): Promise<CurseForgeFile | null> {
+        const loaders = type === 'mod' ? ModPlatformManager.getInstance().acceptedLoaders(target.loader) : [undefined];
+        for (const loader of loaders) {
+            const files = await CurseForgeApi.getModFiles(modId, { gameVersion: target.version, loader });
+            if (files.length > 0) {
+                return files.find(f => f.releaseType === 1) || files[0];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * CurseForge projects present in the instance's mods folder, by project id. Jars are matched
+     * by fingerprint, so mods installed from Modrinth or by hand count as well.
+     */
+    private async getInstalledProjects(instanceId: string): Promise<Map<number, string>> {
+        const result = new Map<number, string>();
+        const modsDir = path.join(this.getGameDir(instanceId), 'mods');
+        if (!existsSync(modsDir)) return result;
+
+        const byFingerprint = new Map<number, string>();
+        for (const filename of await fs.readdir(modsDir)) {
+            if (!/\.jar(\.disabled)?$/.test(filename)) continue;
+            byFingerprint.set(CurseForgeApi.computeFingerprint(await fs.readFile(path.join(modsDir, filename))), filename.replace(/\.disabled$/, ''));
+        }
+
+        try {
+            for (const match of await CurseForgeApi.getFingerprintMatches([...byFingerprint.keys()])) {
+                result.set(match.id, byFingerprint.get(match.file.fileFingerprint)!);
+            }
+        } catch (e) {
+            console.warn('[CurseForge] Fingerprint lookup failed, falling back to saved metadata:', e);
+        }
+
+        const present = new Set(byFingerprint.values());
+        const metadata = await ModMetadataManager.getAllMetadata(instanceId);
+        for (const [filename, meta] of Object.entries(metadata.mods || {})) {
+            if (meta.source === 'curseforge' && present.has(filename)) {
+                result.set(Number(meta.projectId), filename);
+            }
+        }
+        return result;
+    }
+
+    private getGameDir(instanceId: string): string {
+        return InstanceManager.getInstance().resolveGameDir(instanceId) || path.join(ConfigManager.getInstancesPath(), instanceId);
+    }
+
+    /**
+     * Remembers manual downloads so the renderer can refer to them by `instanceId:fileId`
+     * (two instances can wait for the same file).
+     */
+    public addManualDownloads(downloads: ManualDownload[]) {
+        for (const download of downloads) this.pendingManual.set(`${download.instanceId}:${download.fileId}`, download);
+    }
+
+    private async acceptManualFile(download: ManualDownload, filePath: string, move: boolean): Promise<boolean> {
+        if (CurseForgeApi.computeFingerprint(await fs.readFile(filePath)) !== download.fingerprint) {
+            console.warn(`[CurseForge] ${filePath} doesn't match the expected fingerprint for ${download.fileName}`);
+            return false;
+        }
+
+        await fs.mkdir(path.dirname(download.destPath), { recursive: true });
+        await LinkedFile.copy(filePath, download.destPath);
+        if (move) await fs.rm(filePath, { force: true });
+        this.pendingManual.delete(`${download.instanceId}:${download.fileId}`);
+
+        if (download.type) {
+            await ModMetadataManager.saveMetadata(download.instanceId, download.type, {
+                projectId: download.projectId,
+                versionId: download.fileId,
+                versionNumber: download.versionNumber || download.fileName,
+                filename: download.fileName,
+                installedAt: new Date().toISOString(),
+                gameVersion: download.gameVersion || '',
+                loaders: download.loader ? [download.loader] : [],
+                source: 'curseforge',
+                title: download.title,
+                iconUrl: download.iconUrl
+            });
+        }
+        console.log(`[CurseForge] Placed manual download ${download.fileName}`);
+        return true;
+    }
+}
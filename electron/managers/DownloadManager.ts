@@ -0,0 +1,166 @@
+import { ipcMain, BrowserWindow } from 'electron';
+
+export interface DownloadEntry {
+    id: number;
+    name: string;
+    url: string;
+    total: number;
+    received: number;
+    resumedFrom: number;
+    speed: number; // bytes per second
+    eta: number | null; // seconds, null while unknown
+    status: 'downloading' | 'verifying' | 'done' | 'failed';
+    error?: string;
+    startedAt: number;
+    finishedAt?: number;
+}
+
+export interface DownloadSnapshot {
+    active: DownloadEntry[];
+    recent: DownloadEntry[];
+    queued: number;
+    speed: number;
+}
+
+const RECENT_LIMIT = 50;
+const BROADCAST_INTERVAL_MS = 250;
+const SPEED_SAMPLE_MS = 500;
+
+/**
+ * Per-file view of everything AssetDownloader is fetching, across all downloader instances.
+ * Launches queue thousands of small asset files, so only running downloads are kept in full;
+ * waiting ones are a count and finished ones a short history.
+ */
+export class DownloadManager {
+    private static instance: DownloadManager;
+
+    private active = new Map<number, DownloadEntry>();
+    private samples = new Map<number, { time: number; received: number }>();
+    private recent: DownloadEntry[] = [];
+    private queued = 0;
+    private nextId = 1;
+    private broadcastTimer: NodeJS.Timeout | null = null;
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): DownloadManager {
+        if (!DownloadManager.instance) {
+            DownloadManager.instance = new DownloadManager();
+        }
+        return DownloadManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('downloads:get', () => this.snapshot());
+
+        ipcMain.handle('downloads:clear', () => {
+            this.recent = [];
+            this.scheduleBroadcast();
+            return { success: true };
+        });
+    }
+
+    public enqueue(count: number) {
+        this.queued += count;
+        this.scheduleBroadcast();
+    }
+
+    /** A queued task that turned out to be cached and never hit the network. */
+    public skip() {
+        this.queued = Math.max(0, this.queued - 1);
+        this.scheduleBroadcast();
+    }
+
+    public begin(name: string, url: string): number {
+        const id = this.nextId++;
+        this.queued = Math.max(0, this.queued - 1);
+        this.active.set(id, {
+            id,
+            name,
+            url,
+            total: 0,
+            received: 0,
+            resumedFrom: 0,
+            speed: 0,
+            eta: null,
+            status: 'downloading',
+            startedAt: Date.now()
+        });
+        this.scheduleBroadcast();
+        return id;
+    }
+
+    /** Called at the start of every attempt; `resumedFrom` is how much of the .part file was kept. */
+    public restart(id: number, total: number, resumedFrom: number) {
+        const entry = this.active.get(id);
+        if (!entry) return;
+        entry.total = total;
+        entry.received = resumedFrom;
+        entry.resumedFrom = resumedFrom;
+        entry.error = undefined;
+        this.samples.set(id, { time: Date.now(), received: resumedFrom });
+        this.scheduleBroadcast();
+    }
+
+    public progress(id: number, received: number) {
+        const entry = this.active.get(id);
+        if (!entry) return;
+        entry.received = received;
+
+        const now = Date.now();
+        const sample = this.samples.get(id);
+        if (!sample) {
+            this.samples.set(id, { time: now, received });
+        } else if (now - sample.time >= SPEED_SAMPLE_MS) {
+            const current = (received - sample.received) / ((now - sample.time) / 1000);
+            // Smooth so a single slow chunk doesn't make the ETA jump around
+            entry.speed = entry.speed > 0 ? entry.speed * 0.7 + current * 0.3 : current;
+            entry.eta = entry.total > 0 && entry.speed > 0 ? Math.round((entry.total - received) / entry.speed) : null;
+            this.samples.set(id, { time: now, received });
+        }
+        this.scheduleBroadcast();
+    }
+
+    public setStatus(id: number, status: DownloadEntry['status'], error?: string) {
+        const entry = this.active.get(id);
+        if (!entry) return;
+        entry.status = status;
+        entry.error = error;
+
+        if (status === 'done' || status === 'failed') {
+            entry.speed = 0;
+            entry.eta = null;
+            entry.finishedAt = Date.now();
+            this.active.delete(id);
+            this.samples.delete(id);
+            this.recent.unshift(entry);
+            this.recent.length = Math.min(this.recent.length, RECENT_LIMIT);
+        }
+        this.scheduleBroadcast();
+    }
+
+    public snapshot(): DownloadSnapshot {
+        const active = Array.from(this.active.values());
+        return {
+            active,
+            recent: this.recent,
+            queued: this.queued,
+            speed: active.reduce((sum, e) => sum + e.speed, 0)
+        };
+    }
+
+    private scheduleBroadcast() {
+        if (this.broadcastTimer) return;
+        this.broadcastTimer = setTimeout(() => {
+            this.broadcastTimer = null;
+            const snapshot = this.snapshot();
+            for (const win of BrowserWindow.getAllWindows()) {
+                if (!win.isDestroyed()) {
+                    win.webContents.send('downloads:changed', snapshot);
+                }
+            }
+        }, BROADCAST_INTERVAL_MS);
+    }
+}
@@ -0,0 +1,174 @@
+import { ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync, mkdirSync, createWriteStream, createReadStream, WriteStream } from 'fs';
+import { createGzip, gunzipSync } from 'zlib';
+import { pipeline } from 'stream/promises';
+import os from 'os';
+import { ConfigManager } from './ConfigManager';
+import { InstanceManager } from './InstanceManager';
+
+const MAX_SESSIONS = 20; // Archived sessions kept per instance
+const MAX_READ_BYTES = 20 * 1024 * 1024;
+
+export interface GameLogFile {
+    name: string;
+    path: string;
+    source: 'game' | 'session'; // The game's own logs folder, or the launcher's session archive
+    size: number;
+    modifiedAt: number;
+}
+
+/** One game session's stdout/stderr, written to the archive as it arrives. */
+export class LogSession {
+    private stream: WriteStream;
+
+    constructor(readonly filePath: string) {
+        this.stream = createWriteStream(filePath, { flags: 'a' });
+        this.stream.on('error', (e) => console.warn('[GameLog] Failed to write session log:', e));
+    }
+
+    write(data: string) {
+        if (!this.stream.destroyed) this.stream.write(data);
+    }
+
+    /** Compresses the finished session and drops the oldest ones past the limit. */
+    async close() {
+        await new Promise<void>(resolve => this.stream.end(resolve));
+        try {
+            await pipeline(createReadStream(this.filePath), createGzip(), createWriteStream(`${this.filePath}.gz`));
+            await fs.unlink(this.filePath);
+        } catch (e) {
+            console.warn('[GameLog] Failed to compress session log:', e);
+        }
+        await GameLogManager.prune(path.dirname(this.filePath));
+    }
+}
+
+export class GameLogManager {
+    constructor() {
+        this.registerListeners();
+    }
+
+    private registerListeners() {
+        ipcMain.handle('logs:list', async (_, instanceId: string) => {
+            try {
+                return { success: true, files: await GameLogManager.listLogs(instanceId) };
+            } catch (error) {
+                console.error("Failed to list logs:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('logs:read', async (_, instanceId: string, filePath: string) => {
+            try {
+                return { success: true, content: await GameLogManager.readLog(instanceId, filePath) };
+            } catch (error) {
+                console.error("Failed to read log:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('logs:share', async (_, content: string) => {
+            try {
+                return { success: true, url: await GameLogManager.share(content) };
+            } catch (error) {
+                console.error("Failed to share log:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+    }
+
+    static startSession(instanceId: string): LogSession {
+        const dir = GameLogManager.getArchivePath(instanceId);
+        mkdirSync(dir, { recursive: true });
+        const stamp = new Date().toISOString().replace(/:/g, '-').replace(/\..+$/, '');
+        return new LogSession(path.join(dir, `session-${stamp}.log`));
+    }
+
+    static async prune(dir: string) {
+        const sessions = (await fs.readdir(dir))
+            .filter(name => name.startsWith('session-') && name.endsWith('.log.gz'))
+            .sort()
+            .reverse();
+        for (const name of sessions.slice(MAX_SESSIONS)) {
+            await fs.unlink(path.join(dir, name)).catch(() => { });
+        }
+    }
+
+    /** latest.log and the rotated *.log.gz files from the game, plus archived launcher sessions. */
+    static async listLogs(instanceId: string): Promise<GameLogFile[]> {
+        const files: GameLogFile[] = [];
+        const collect = async (dir: string, source: GameLogFile['source']) => {
+            if (!existsSync(dir)) return;
+            for (const name of await fs.readdir(dir)) {
+                if (!/\.log(\.gz)?$/.test(name)) continue;
+                const filePath = path.join(dir, name);
+                const stats = await fs.stat(filePath);
+                files.push({ name, path: filePath, source, size: stats.size, modifiedAt: stats.mtimeMs });
+            }
+        };
+
+        const gameDir = InstanceManager.getInstance().resolveGameDir(instanceId);
+        if (gameDir) await collect(path.join(gameDir, 'logs'), 'game');
+        await collect(GameLogManager.getArchivePath(instanceId), 'session');
+
+        return files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+    }
+
+    static async readLog(instanceId: string, filePath: string): Promise<string> {
+        // Only files listLogs would offer for this instance
+        const known = await GameLogManager.listLogs(instanceId);
+        if (!known.some(file => file.path === filePath)) {
+            throw new Error('Not a log file of this instance');
+        }
+
+        let data = await fs.readFile(filePath);
+        if (filePath.endsWith('.gz')) data = gunzipSync(data);
+        if (data.length > MAX_READ_BYTES) data = data.subarray(data.length - MAX_READ_BYTES);
+        return data.toString('utf-8');
+    }
+
+    /** Uploads a redacted copy to the configured mclo.gs-compatible paste service and returns its URL. */
+    static async share(content: string): Promise<string> {
+        const endpoint = ConfigManager.getPasteEndpoint().replace(/\/+$/, '');
+        const res = await fetch(`${endpoint}/1/log`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ content: GameLogManager.redact(content) }).toString()
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok || !data?.success) {
+            throw new Error(data?.error || `Paste service returned HTTP ${res.status}`);
+        }
+        return data.url;
+    }
+
+    /** Strips access tokens, account ids, the player name and the OS user name from a log. */
+    static redact(content: string): string {
+        const players = new Set<string>();
+        for (const match of content.matchAll(/(?:Setting user: |--username[ =])([\w.-]{2,16})\b/g)) {
+            players.add(match[1]);
+        }
+
+        let redacted = content
+            .replace(/(--(?:accessToken|uuid|xuid|clientId)[ =])\S+/g, '$1[redacted]')
+            .replace(/(Session ID is )\S+/g, '$1[redacted]')
+            .replace(/\btoken:[\w.-]+/g, 'token:[redacted]')
+            .replace(/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, '[redacted]')
+            .replace(/([\\/](?:Users|home)[\\/])[^\\/\s]+/g, '$1[user]');
+
+        const replaceWord = (word: string, replacement: string) => {
+            const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            redacted = redacted.replace(new RegExp(`\\b${escaped}\\b`, 'g'), replacement);
+        };
+        players.forEach(name => replaceWord(name, '[player]'));
+        const osUser = os.userInfo().username;
+        if (osUser.length > 2) replaceWord(osUser, '[user]');
+        return redacted;
+    }
+
+    private static getArchivePath(instanceId: string): string {
+        return path.join(ConfigManager.getDataPath(), 'logs', instanceId);
+    }
+}
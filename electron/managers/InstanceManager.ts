@@ -4,9 +4,14 @@ import fs from 'fs/promises';
 import { existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
 import { ConfigManager } from './ConfigManager';
 import { VersionUtils } from '../utils/VersionUtils';
+import { LevelDatReader, LevelInfo } from '../utils/LevelDatReader';
 import { VersionManager } from '../launcher/VersionManager';
 import AdmZip from 'adm-zip';
 import { dialog } from 'electron';
+import { ModpackExporter, ExportOptions } from '../utils/ModpackExporter';
+import { LauncherImporter, ExternalInstance, LauncherSource } from '../utils/LauncherImporter';
+import { ContentStore } from '../utils/ContentStore';
+import { InstanceVerifier } from '../utils/InstanceVerifier';
 
 export interface Instance {
     id: string;
@@ -19,7 +24,10 @@ export interface Instance {
     isFavorite?: boolean;
     isImported?: boolean;
     launchVersionId?: string; // The actual ID to launch (e.g. fabric-loader-x.x.x-1.20.1)
+    loaderVersion?: string; // Set by modpack installs; otherwise derived from launchVersionId
     useExternalPath?: boolean; // If true, launch using the original version folder as gameDir
+    gameDir?: string; // Another launcher's game folder, used in place of the instance folder
+    importedFrom?: LauncherSource; // Set when migrated from another launcher
     icon?: string; // URL to custom icon (for Discord)
     iconLocal?: string; // Local file path to cached icon (for UI)
     playTime?: number; // Total playtime in seconds
@@ -28,8 +36,25 @@ export interface Instance {
     customClientJar?: string; // Path to custom client JAR
     javaPath?: string; // Custom Java executable path
     javaVersion?: string; // Required Java version (e.g., "8", "17", "21")
+    // Per-instance launch overrides (fall back to global config when unset)
+    minRam?: number; // Minimum heap in MB
+    maxRam?: number; // Maximum heap in MB
+    jvmPreset?: 'potato' | 'standard' | 'pro' | 'extreme' | 'custom';
+    jvmArgs?: string[]; // Extra JVM arguments, appended after the preset flags
+    gameArgs?: string[]; // Extra game arguments, appended after the launcher's own
+    envVars?: Record<string, string>; // Environment variables for the game process
+    // Launch hooks (run through the system shell in the instance folder)
+    preLaunchCommand?: string; // Runs before the game starts; non-zero exit aborts the launch
+    wrapperCommand?: string; // Prefixed to the java command (e.g. "gamemoderun", "prime-run")
+    postExitCommand?: string; // Runs after the game process exits
 }
 
+export type InstanceLaunchSettings = Pick<Instance, 'minRam' | 'maxRam' | 'jvmPreset' | 'jvmArgs' | 'gameArgs' | 'envVars' | 'preLaunchCommand' | 'wrapperCommand' | 'postExitCommand'>;
+
+// Settings that can run arbitrary commands on launch. They never leave this machine in an export,
+// and are dropped from imported archives, so opening a shared zip can't execute anything.
+const MACHINE_SETTINGS = ['jvmArgs', 'envVars', 'preLaunchCommand', 'wrapperCommand', 'postExitCommand'] as const;
+
 export class InstanceManager {
     private static instance: InstanceManager;
     private instancesPath: string;
@@ -124,7 +149,7 @@ export class InstanceManager {
 
         ipcMain.handle('instance:open-folder', async (_, instanceId: string) => {
             const { shell } = require('electron');
-            const instancePath = this.resolveInstancePath(instanceId);
+            const instancePath = this.resolveGameDir(instanceId);
 
             if (instancePath) {
                 await shell.openPath(instancePath);
@@ -152,15 +177,24 @@ export class InstanceManager {
         });
 
 
-        ipcMain.handle('instance:export', async (_, instanceId: string) => {
+        ipcMain.handle('instance:export', async (_, instanceId: string, options?: ExportOptions) => {
             try {
-                return await this.exportInstance(instanceId);
+                return await this.exportInstance(instanceId, options);
             } catch (error) {
                 console.error("Failed to export instance:", error);
                 return { success: false, error: String(error) };
             }
         });
 
+        ipcMain.handle('instance:get-export-entries', async (_, instanceId: string) => {
+            try {
+                return await this.getExportEntries(instanceId);
+            } catch (error) {
+                console.error("Failed to list export entries:", error);
+                return [];
+            }
+        });
+
         ipcMain.handle('instance:import', async (event) => {
             try {
                 return await this.importInstance(event);
@@ -170,6 +204,24 @@ export class InstanceManager {
             }
         });
 
+        ipcMain.handle('instance:scan-launcher', async (_, folder?: string) => {
+            try {
+                return await this.scanLauncherFolder(folder);
+            } catch (error) {
+                console.error("Failed to scan launcher folder:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:import-launcher', async (event, instances: ExternalInstance[], mode: 'copy' | 'reference') => {
+            try {
+                return await this.importFromLauncher(event, instances, mode);
+            } catch (error) {
+                console.error("Failed to import from launcher:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
         ipcMain.handle('instance:rename', async (_, instanceId: string, newName: string) => {
             console.log(`IPC instance:rename called for ${instanceId} -> ${newName}`);
             try {
@@ -208,15 +260,6 @@ export class InstanceManager {
             }
         });
 
-        ipcMain.handle('worlds:backup', async (_, instanceId: string, worldId: string) => {
-            try {
-                return await this.backupWorld(instanceId, worldId);
-            } catch (error) {
-                console.error("Failed to backup world:", error);
-                return { success: false, error: String(error) };
-            }
-        });
-
         ipcMain.handle('worlds:delete', async (_, instanceId: string, worldId: string) => {
             try {
                 return await this.deleteWorld(instanceId, worldId);
@@ -226,9 +269,9 @@ export class InstanceManager {
             }
         });
 
-        ipcMain.handle('worlds:transfer', async (_, instanceId: string, worldId: string, targetInstanceId: string) => {
+        ipcMain.handle('worlds:transfer', async (_, instanceId: string, worldId: string, targetInstanceId: string, force?: boolean) => {
             try {
-                return await this.transferWorld(instanceId, worldId, targetInstanceId);
+                return await this.transferWorld(instanceId, worldId, targetInstanceId, force);
             } catch (error) {
                 console.error("Failed to transfer world:", error);
                 return { success: false, error: String(error) };
@@ -244,33 +287,6 @@ export class InstanceManager {
             }
         });
 
-        ipcMain.handle('worlds:list-backups', async () => {
-            try {
-                return await this.listBackups();
-            } catch (error) {
-                console.error("Failed to list backups:", error);
-                return [];
-            }
-        });
-
-        ipcMain.handle('worlds:restore-backup', async (_, backupId: string) => {
-            try {
-                return await this.restoreBackup(backupId);
-            } catch (error) {
-                console.error("Failed to restore backup:", error);
-                return { success: false, error: String(error) };
-            }
-        });
-
-        ipcMain.handle('worlds:delete-backup', async (_, backupId: string) => {
-            try {
-                return await this.deleteBackup(backupId);
-            } catch (error) {
-                console.error("Failed to delete backup:", error);
-                return { success: false, error: String(error) };
-            }
-        });
-
         ipcMain.handle('worlds:list-all', async () => {
             try {
                 const allWorlds: any[] = [];
@@ -308,6 +324,40 @@ export class InstanceManager {
             }
         });
 
+        ipcMain.handle('instance:update-launch-settings', async (_, instanceId: string, settings: InstanceLaunchSettings) => {
+            try {
+                return await this.updateLaunchSettings(instanceId, settings);
+            } catch (error) {
+                console.error("Failed to update launch settings:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        // File integrity: verify reports problems, repair redownloads what the last verify found
+        ipcMain.handle('instance:verify', async (event, instanceId: string) => {
+            try {
+                const report = await InstanceVerifier.verify(instanceId, (status, current, total) => {
+                    event.sender.send('instance:verify-progress', { instanceId, status, current, total });
+                });
+                return { success: true, report };
+            } catch (error) {
+                console.error("Failed to verify instance:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:repair', async (event, instanceId: string) => {
+            try {
+                const result = await InstanceVerifier.repair(instanceId, (status, current, total) => {
+                    event.sender.send('instance:verify-progress', { instanceId, status, current, total });
+                });
+                return { success: true, ...result };
+            } catch (error) {
+                console.error("Failed to repair instance:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
         ipcMain.handle('java:scan-system', async () => {
             try {
                 return await this.scanSystemJava();
@@ -318,7 +368,27 @@ export class InstanceManager {
         });
     }
 
-    private resolveInstancePath(instanceId: string): string | null {
+    /**
+     * Folder holding the instance's game data (saves, logs, mods...). For instances imported by
+     * reference that is the other launcher's folder, which must never be renamed into or deleted:
+     * everything that manages the instance itself goes through resolveInstancePath instead.
+     */
+    public resolveGameDir(instanceId: string): string | null {
+        return this.getReferencedGameDir(instanceId) || this.resolveInstancePath(instanceId);
+    }
+
+    private getReferencedGameDir(instanceId: string): string | null {
+        const configPath = path.join(this.instancesPath, instanceId, 'instance.json');
+        if (!existsSync(configPath)) return null;
+        try {
+            const config: Instance = JSON.parse(readFileSync(configPath, 'utf-8'));
+            return config.gameDir && existsSync(config.gameDir) ? config.gameDir : null;
+        } catch {
+            return null;
+        }
+    }
+
+    public resolveInstancePath(instanceId: string): string | null {
         console.log(`Resolving path for ID: ${instanceId}`);
         // 1. Check local instances (Whoap/instances)
         let p = path.join(this.instancesPath, instanceId);
@@ -442,7 +512,32 @@ export class InstanceManager {
             throw new Error("Instance with this name/folder already exists.");
         }
 
-        // Install Mod Loader if requested
+        const launchVersionId = await this.prepareLoader(version, loader, loaderVersion);
+
+        const instanceData: Instance = {
+            id: folderName,
+            name: name,
+            version: version,
+            loader: loader as 'vanilla' | 'fabric' | 'forge' | 'neoforge' | 'quilt',
+            created: Date.now(),
+            lastPlayed: 0,
+            type: 'created',
+            launchVersionId: launchVersionId
+        };
+
+        await fs.mkdir(instancePath, { recursive: true });
+        await fs.writeFile(
+            path.join(instancePath, 'instance.json'),
+            JSON.stringify(instanceData, null, 4)
+        );
+
+        return { success: true, instance: instanceData };
+    }
+
+    /**
+     * Installs the loader profile where we can (Fabric/Quilt) and returns the version id to launch.
+     */
+    public async prepareLoader(version: string, loader: string, loaderVersion?: string): Promise<string> {
         let launchVersionId = version; // Default to vanilla version
 
         if (loader === 'fabric' || loader === 'quilt') {
@@ -504,26 +599,10 @@ export class InstanceManager {
             }
         }
 
-        const instanceData: Instance = {
-            id: folderName,
-            name: name,
-            version: version,
-            loader: loader as 'vanilla' | 'fabric' | 'forge' | 'neoforge' | 'quilt',
-            created: Date.now(),
-            lastPlayed: 0,
-            type: 'created',
-            launchVersionId: launchVersionId
-        };
-
-        await fs.mkdir(instancePath, { recursive: true });
-        await fs.writeFile(
-            path.join(instancePath, 'instance.json'),
-            JSON.stringify(instanceData, null, 4)
-        );
-
-        return { success: true, instance: instanceData };
+        return launchVersionId;
     }
 
+    // For instances imported by reference this only removes our folder; the game data stays with the other launcher
     async deleteInstance(instanceId: string) {
         const instancePath = this.resolveInstancePath(instanceId);
 
@@ -532,6 +611,8 @@ export class InstanceManager {
             // Or allow deleting external versions too? User asked for "really delete".
             // Let's allow it but maybe careful.
             await fs.rm(instancePath, { recursive: true, force: true });
+            // Mods only this instance used are now unreferenced in the shared store
+            ContentStore.collectGarbage().catch(e => console.warn('[InstanceManager] Store cleanup failed:', e));
             return { success: true };
         }
         return { success: false, error: "Instance not found" };
@@ -736,7 +817,7 @@ export class InstanceManager {
         });
     }
 
-    private detectLoader(jsonPath: string, id: string): string {
+    private detectLoader(jsonPath: string, id: string): Instance['loader'] {
         const info = VersionUtils.getInfo(jsonPath, id);
         return info.loader;
     }
@@ -747,7 +828,8 @@ export class InstanceManager {
     }
 
     async duplicateInstance(instanceId: string, newName: string) {
-        const sourcePath = this.resolveInstancePath(instanceId);
+        const referencedGameDir = this.getReferencedGameDir(instanceId);
+        const sourcePath = referencedGameDir || this.resolveInstancePath(instanceId);
 
         if (!sourcePath) {
             throw new Error('Source instance not found');
@@ -772,9 +854,16 @@ export class InstanceManager {
         // Update or Create instance.json
         const configPath = path.join(destPath, 'instance.json');
 
+        // The copy of a reference import owns its data; any instance.json in the other launcher's
+        // folder (ATLauncher keeps one) is theirs, not ours
+        if (referencedGameDir) {
+            await fs.copyFile(path.join(this.instancesPath, instanceId, 'instance.json'), configPath);
+        }
+
         if (existsSync(configPath)) {
             const content = await fs.readFile(configPath, 'utf-8');
             const data = JSON.parse(content);
+            delete data.gameDir;
             data.id = newFolderName;
             data.name = newName;
             data.created = Date.now();
@@ -833,56 +922,109 @@ export class InstanceManager {
 
 
 
-    async exportInstance(instanceId: string) {
-        const instancePath = this.resolveInstancePath(instanceId);
+    async getExportEntries(instanceId: string): Promise<{ name: string; isDirectory: boolean }[]> {
+        const instancePath = this.resolveGameDir(instanceId);
+        if (!instancePath) return [];
+
+        const entries = await fs.readdir(instancePath, { withFileTypes: true });
+        return entries
+            .filter(e => ModpackExporter.isExportable(e.name))
+            .map(e => ({ name: e.name, isDirectory: e.isDirectory() }))
+            .sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+    }
 
-        if (!instancePath) {
+    /**
+     * Exports as a Whoap zip (the default, restorable with importInstance), a Modrinth .mrpack
+     * or a CurseForge modpack zip. `options.include` limits which top-level entries go in;
+     * without options the whole folder is exported as before.
+     */
+    async exportInstance(instanceId: string, options?: ExportOptions) {
+        const ownPath = this.resolveInstancePath(instanceId);
+        const instancePath = this.resolveGameDir(instanceId);
+
+        if (!ownPath || !instancePath) {
             throw new Error('Instance not found');
         }
+        const isReference = !!this.getReferencedGameDir(instanceId);
 
+        const format = options?.format || 'whoap';
+        const baseName = (options?.name || instanceId).replace(/[<>:"/\\|?*]/g, '_');
         const { filePath } = await dialog.showSaveDialog({
             title: 'Export Instance',
-            defaultPath: `${instanceId}.zip`,
-            filters: [{ name: 'Zip Files', extensions: ['zip'] }]
+            defaultPath: format === 'mrpack' ? `${baseName}.mrpack` : `${baseName}.zip`,
+            filters: format === 'mrpack'
+                ? [{ name: 'Modrinth Modpack', extensions: ['mrpack'] }]
+                : [{ name: 'Zip Files', extensions: ['zip'] }]
         });
 
         if (!filePath) return { success: false, canceled: true };
 
-        const zip = new AdmZip();
-        zip.addLocalFolder(instancePath);
+        const instance = await this.readInstanceConfig(instanceId, isReference ? ownPath : instancePath);
+        if (isReference) delete instance.gameDir;
+        for (const key of MACHINE_SETTINGS) delete instance[key];
 
-        // Check if instance.json exists, if not, generate and add it
-        const configPath = path.join(instancePath, 'instance.json');
-        if (!existsSync(configPath)) {
-            let version = 'unknown';
-            let loader = 'vanilla';
-            try {
-                const entries = await fs.readdir(instancePath);
-                const jsonFile = entries.find(f => f.endsWith('.json') && f !== 'instance.json');
-                if (jsonFile) {
-                    const jsonPath = path.join(instancePath, jsonFile);
-                    version = this.extractVersion(jsonPath, instanceId);
-                    loader = this.detectLoader(jsonPath, instanceId);
-                }
-            } catch (e) { }
+        if (format === 'mrpack') {
+            const result = await ModpackExporter.exportModrinth(instancePath, instance, options!, filePath);
+            return { success: true, filePath, ...result };
+        }
+        if (format === 'curseforge') {
+            const result = await ModpackExporter.exportCurseForge(instancePath, instance, options!, filePath);
+            return { success: true, filePath, ...result };
+        }
 
-            const data: Instance = {
-                id: instanceId, // Use original ID/Name for export
-                name: instanceId,
-                version: version,
-                loader: loader as any,
-                created: Date.now(),
-                lastPlayed: 0,
-                type: 'created'
-            };
-            zip.addFile('instance.json', Buffer.from(JSON.stringify(data, null, 4)));
+        const zip = new AdmZip();
+        if (options) {
+            for (const entry of await fs.readdir(instancePath, { withFileTypes: true })) {
+                const keep = options.include.includes(entry.name) || entry.name === '.whoap-mods.json';
+                if (!keep || entry.name === 'instance.json') continue;
+                const entryPath = path.join(instancePath, entry.name);
+                if (entry.isDirectory()) zip.addLocalFolder(entryPath, entry.name);
+                else zip.addLocalFile(entryPath);
+            }
+        } else {
+            zip.addLocalFolder(instancePath, '', (entry: string) => entry !== 'instance.json');
         }
 
+        // Always ship our own instance.json (generated for profiles that don't have one)
+        zip.addFile('instance.json', Buffer.from(JSON.stringify(instance, null, 4)));
+
         zip.writeZip(filePath);
 
         return { success: true, filePath };
     }
 
+    private async readInstanceConfig(instanceId: string, instancePath: string): Promise<Instance> {
+        const configPath = path.join(instancePath, 'instance.json');
+        if (existsSync(configPath)) {
+            return JSON.parse(await fs.readFile(configPath, 'utf-8'));
+        }
+
+        let version = 'unknown';
+        let loader: Instance['loader'] = 'vanilla';
+        let launchVersionId: string | undefined;
+        try {
+            const entries = await fs.readdir(instancePath);
+            const jsonFile = entries.find(f => f.endsWith('.json') && f !== 'instance.json');
+            if (jsonFile) {
+                const jsonPath = path.join(instancePath, jsonFile);
+                version = this.extractVersion(jsonPath, instanceId);
+                loader = this.detectLoader(jsonPath, instanceId);
+                launchVersionId = path.basename(jsonFile, '.json');
+            }
+        } catch (e) { }
+
+        return {
+            id: instanceId, // Use original ID/Name for export
+            name: instanceId,
+            version: version,
+            loader: loader,
+            created: Date.now(),
+            lastPlayed: 0,
+            type: 'created',
+            launchVersionId
+        };
+    }
+
     async importInstance(event?: any) {
         const { filePaths } = await dialog.showOpenDialog({
             title: 'Import Instance / Modpack',
@@ -947,12 +1089,12 @@ export class InstanceManager {
         const destPath = path.join(this.instancesPath, newInstanceId);
         zip.extractAllTo(destPath, true);
 
-        // Update ID in the extracted config if it changed
-        if (config.id !== newInstanceId) {
-            config.id = newInstanceId;
-            // Optionally update name if duplicated? Keep name same for now.
-            await fs.writeFile(path.join(destPath, 'instance.json'), JSON.stringify(config, null, 4));
-        }
+        // Rewrite the extracted config with the new ID and without settings that would run commands
+        // or reach outside the instance folder
+        config.id = newInstanceId;
+        for (const key of MACHINE_SETTINGS) delete config[key];
+        delete config.gameDir;
+        await fs.writeFile(path.join(destPath, 'instance.json'), JSON.stringify(config, null, 4));
 
         event?.sender.send('instance:import-progress', { status: 'Finalizing...', progress: 100 });
 
@@ -1029,21 +1171,98 @@ export class InstanceManager {
         return { success: true, results };
     }
 
-    // ==================== WORLD MANAGEMENT ====================
+    async scanLauncherFolder(folder?: string) {
+        if (!folder) {
+            const { filePaths } = await dialog.showOpenDialog({
+                title: 'Select a Prism, MultiMC, CurseForge, ATLauncher or .minecraft folder',
+                properties: ['openDirectory']
+            });
+            if (!filePaths || filePaths.length === 0) return { success: false, canceled: true };
+            folder = filePaths[0];
+        }
 
-    private getBackupsPath(): string {
-        return path.join(ConfigManager.getDataPath(), 'world-backups');
+        const instances = await LauncherImporter.scan(folder);
+        return { success: true, folder, instances };
     }
 
-    private ensureBackupsDirectory() {
-        const backupsPath = this.getBackupsPath();
-        if (!existsSync(backupsPath)) {
-            mkdirSync(backupsPath, { recursive: true });
+    /**
+     * Creates instances for what LauncherImporter found. "copy" duplicates the game folder into
+     * our instances directory; "reference" keeps using the other launcher's folder via gameDir.
+     */
+    async importFromLauncher(event: any, instances: ExternalInstance[], mode: 'copy' | 'reference') {
+        const results: { success: boolean; name: string; id?: string; error?: string }[] = [];
+
+        for (let i = 0; i < instances.length; i++) {
+            const ext = instances[i];
+            event?.sender.send('instance:import-progress', {
+                status: `Importing ${ext.name} (${i + 1}/${instances.length})...`,
+                progress: Math.round((i / instances.length) * 100)
+            });
+
+            try {
+                if (!ext.version) throw new Error('Unknown Minecraft version');
+
+                const baseId = ext.name.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'imported';
+                let id = baseId;
+                let counter = 1;
+                while (existsSync(path.join(this.instancesPath, id))) {
+                    id = `${baseId}_${counter++}`;
+                }
+                const destPath = path.join(this.instancesPath, id);
+
+                // Reuse the source launcher's version JSON when it has one (official launcher profiles)
+                let launchVersionId: string;
+                if (ext.launchVersionId && ext.versionJsonPath) {
+                    launchVersionId = ext.launchVersionId;
+                    const versionDir = path.join(ConfigManager.getGamePath(), 'versions', launchVersionId);
+                    if (!existsSync(path.join(versionDir, `${launchVersionId}.json`))) {
+                        await fs.mkdir(versionDir, { recursive: true });
+                        await fs.copyFile(ext.versionJsonPath, path.join(versionDir, `${launchVersionId}.json`));
+                    }
+                } else {
+                    launchVersionId = await this.prepareLoader(ext.version, ext.loader, ext.loaderVersion);
+                }
+
+                await fs.mkdir(destPath, { recursive: true });
+                if (mode === 'copy' && existsSync(ext.gameDir)) {
+                    await this.copyDirectory(ext.gameDir, destPath);
+                }
+
+                const data: Instance = {
+                    id,
+                    name: ext.name,
+                    version: ext.version,
+                    loader: ext.loader,
+                    loaderVersion: ext.loaderVersion,
+                    created: Date.now(),
+                    lastPlayed: 0,
+                    type: 'created',
+                    launchVersionId,
+                    gameDir: mode === 'reference' ? ext.gameDir : undefined,
+                    importedFrom: ext.source,
+                    javaPath: ext.javaPath,
+                    minRam: ext.minRam,
+                    maxRam: ext.maxRam,
+                    jvmArgs: ext.jvmArgs && ext.jvmArgs.length > 0 ? ext.jvmArgs : undefined
+                };
+
+                // An instance.json copied from ATLauncher would otherwise be left in place
+                await fs.writeFile(path.join(destPath, 'instance.json'), JSON.stringify(data, null, 4));
+                results.push({ success: true, name: ext.name, id });
+            } catch (e) {
+                console.error(`[InstanceManager] Failed to import ${ext.name} from ${ext.source}:`, e);
+                results.push({ success: false, name: ext.name, error: String(e) });
+            }
         }
+
+        event?.sender.send('instance:import-progress', { status: 'Complete!', progress: 100 });
+        return { success: true, results };
     }
 
+    // ==================== WORLD MANAGEMENT ====================
+
     async listWorlds(instanceId: string): Promise<any[]> {
-        const instancePath = this.resolveInstancePath(instanceId);
+        const instancePath = this.resolveGameDir(instanceId);
         if (!instancePath) return [];
 
         const savesPath = path.join(instancePath, 'saves');
@@ -1073,12 +1292,26 @@ export class InstanceManager {
                             }
                         }
 
+                        let level: LevelInfo | undefined;
+                        try {
+                            level = await LevelDatReader.read(worldPath);
+                        } catch (e) {
+                            console.warn(`Failed to parse level.dat for world ${entry.name}:`, e);
+                        }
+
                         worlds.push({
                             id: entry.name,
-                            name: entry.name,
+                            name: level?.levelName || entry.name,
                             size: await this.getFolderSize(worldPath),
-                            lastPlayed: stats.mtime.getTime(),
-                            gameMode: 'Unknown', // Would need to parse level.dat for this
+                            lastPlayed: level?.lastPlayed || stats.mtime.getTime(),
+                            gameMode: level?.gameMode || 'Unknown',
+                            hardcore: level?.hardcore ?? false,
+                            difficulty: level?.difficulty || 'Unknown',
+                            seed: level?.seed,
+                            mcVersion: level?.mcVersion,
+                            dataVersion: level?.dataVersion,
+                            cheats: level?.cheats ?? false,
+                            spawn: level?.spawn,
                             icon: iconDataUrl
                         });
                     } catch (e) {
@@ -1091,50 +1324,9 @@ export class InstanceManager {
         return worlds.sort((a, b) => b.lastPlayed - a.lastPlayed);
     }
 
-    async backupWorld(instanceId: string, worldId: string): Promise<{ success: boolean; error?: string }> {
-        try {
-            const instancePath = this.resolveInstancePath(instanceId);
-            if (!instancePath) {
-                return { success: false, error: 'Instance not found' };
-            }
-
-            const worldPath = path.join(instancePath, 'saves', worldId);
-            if (!existsSync(worldPath)) {
-                return { success: false, error: 'World not found' };
-            }
-
-            this.ensureBackupsDirectory();
-            const timestamp = Date.now();
-            const backupId = `${instanceId}_${worldId}_${timestamp}`;
-            const backupPath = path.join(this.getBackupsPath(), `${backupId}.zip`);
-
-            const zip = new AdmZip();
-            zip.addLocalFolder(worldPath);
-            zip.writeZip(backupPath);
-
-            // Save backup metadata
-            const metaPath = path.join(this.getBackupsPath(), `${backupId}.json`);
-            const metadata = {
-                id: backupId,
-                worldName: worldId,
-                instanceId,
-                instanceName: instanceId, // Would need to look this up
-                createdAt: timestamp,
-                size: (await fs.stat(backupPath)).size,
-                path: backupPath
-            };
-            await fs.writeFile(metaPath, JSON.stringify(metadata, null, 4));
-
-            return { success: true };
-        } catch (error) {
-            console.error('Failed to backup world:', error);
-            return { success: false, error: String(error) };
-        }
-    }
-
     async deleteWorld(instanceId: string, worldId: string): Promise<{ success: boolean; error?: string }> {
         try {
-            const instancePath = this.resolveInstancePath(instanceId);
+            const instancePath = this.resolveGameDir(instanceId);
             if (!instancePath) {
                 return { success: false, error: 'Instance not found' };
             }
@@ -1152,10 +1344,10 @@ export class InstanceManager {
         }
     }
 
-    async transferWorld(instanceId: string, worldId: string, targetInstanceId: string): Promise<{ success: boolean; error?: string }> {
+    async transferWorld(instanceId: string, worldId: string, targetInstanceId: string, force = false): Promise<{ success: boolean; error?: string; warning?: string }> {
         try {
-            const sourcePath = this.resolveInstancePath(instanceId);
-            const targetPath = this.resolveInstancePath(targetInstanceId);
+            const sourcePath = this.resolveGameDir(instanceId);
+            const targetPath = this.resolveGameDir(targetInstanceId);
 
             if (!sourcePath) {
                 return { success: false, error: 'Source instance not found' };
@@ -1171,6 +1363,15 @@ export class InstanceManager {
                 return { success: false, error: 'World not found in source' };
             }
 
+            // Opening a world in an older version than it was saved with can corrupt it,
+            // so ask the caller to confirm (force) before copying.
+            if (!force) {
+                const warning = await this.checkWorldDowngrade(sourceWorldPath, targetInstanceId);
+                if (warning) {
+                    return { success: false, warning };
+                }
+            }
+
             // Ensure saves directory exists in target
             const targetSavesPath = path.join(targetPath, 'saves');
             if (!existsSync(targetSavesPath)) {
@@ -1194,120 +1395,44 @@ export class InstanceManager {
         }
     }
 
-    async openWorldFolder(instanceId: string, worldId: string): Promise<{ success: boolean; error?: string }> {
+    private async checkWorldDowngrade(worldPath: string, targetInstanceId: string): Promise<string | undefined> {
+        let level: LevelInfo;
         try {
-            const { shell } = require('electron');
-            const instancePath = this.resolveInstancePath(instanceId);
-            if (!instancePath) {
-                return { success: false, error: 'Instance not found' };
-            }
-
-            const worldPath = path.join(instancePath, 'saves', worldId);
-            if (!existsSync(worldPath)) {
-                return { success: false, error: 'World not found' };
-            }
-
-            await shell.openPath(worldPath);
-            return { success: true };
-        } catch (error) {
-            console.error('Failed to open world folder:', error);
-            return { success: false, error: String(error) };
+            level = await LevelDatReader.read(worldPath);
+        } catch (e) {
+            console.warn('Could not read level.dat for version check:', e);
+            return undefined;
         }
-    }
-
-    async listBackups(): Promise<any[]> {
-        try {
-            this.ensureBackupsDirectory();
-            const backupsPath = this.getBackupsPath();
-            const backups: any[] = [];
-
-            const entries = await fs.readdir(backupsPath, { withFileTypes: true });
-
-            for (const entry of entries) {
-                if (entry.isFile() && entry.name.endsWith('.json')) {
-                    try {
-                        const metaPath = path.join(backupsPath, entry.name);
-                        const content = await fs.readFile(metaPath, 'utf-8');
-                        const metadata = JSON.parse(content);
-
-                        // Get instance name
-                        const instanceConfigPath = path.join(this.instancesPath, metadata.instanceId, 'instance.json');
-                        if (existsSync(instanceConfigPath)) {
-                            const instanceData = JSON.parse(await fs.readFile(instanceConfigPath, 'utf-8'));
-                            metadata.instanceName = instanceData.name || metadata.instanceId;
-                        }
 
-                        backups.push(metadata);
-                    } catch (e) {
-                        console.warn('Failed to read backup metadata:', e);
-                    }
-                }
-            }
+        const target = (await this.getInstances()).find(i => i.id === targetInstanceId);
+        const release = /^\d+\.\d+(\.\d+)?$/;
+        if (!target || !level.mcVersion || level.snapshot || !release.test(level.mcVersion) || !release.test(target.version)) {
+            return undefined;
+        }
 
-            return backups.sort((a, b) => b.createdAt - a.createdAt);
-        } catch (error) {
-            console.error('Failed to list backups:', error);
-            return [];
+        if (VersionUtils.compareVersions(level.mcVersion, target.version) > 0) {
+            return `"${level.levelName || path.basename(worldPath)}" was last played on ${level.mcVersion}, but "${target.name}" runs ${target.version}. Opening it in an older version may corrupt the world.`;
         }
+        return undefined;
     }
 
-    async restoreBackup(backupId: string): Promise<{ success: boolean; error?: string }> {
+    async openWorldFolder(instanceId: string, worldId: string): Promise<{ success: boolean; error?: string }> {
         try {
-            const backupsPath = this.getBackupsPath();
-            const metaPath = path.join(backupsPath, `${backupId}.json`);
-            const zipPath = path.join(backupsPath, `${backupId}.zip`);
-
-            if (!existsSync(metaPath) || !existsSync(zipPath)) {
-                return { success: false, error: 'Backup not found' };
-            }
-
-            const metadata = JSON.parse(await fs.readFile(metaPath, 'utf-8'));
-            const instancePath = this.resolveInstancePath(metadata.instanceId);
-
+            const { shell } = require('electron');
+            const instancePath = this.resolveGameDir(instanceId);
             if (!instancePath) {
                 return { success: false, error: 'Instance not found' };
             }
 
-            const savesPath = path.join(instancePath, 'saves');
-            if (!existsSync(savesPath)) {
-                await fs.mkdir(savesPath, { recursive: true });
-            }
-
-            const worldPath = path.join(savesPath, metadata.worldName);
-
-            // If world exists, rename it as backup
-            if (existsSync(worldPath)) {
-                const backupName = `${metadata.worldName}_backup_${Date.now()}`;
-                await fs.rename(worldPath, path.join(savesPath, backupName));
-            }
-
-            // Extract backup
-            const zip = new AdmZip(zipPath);
-            zip.extractAllTo(worldPath, true);
-
-            return { success: true };
-        } catch (error) {
-            console.error('Failed to restore backup:', error);
-            return { success: false, error: String(error) };
-        }
-    }
-
-    async deleteBackup(backupId: string): Promise<{ success: boolean; error?: string }> {
-        try {
-            const backupsPath = this.getBackupsPath();
-            const metaPath = path.join(backupsPath, `${backupId}.json`);
-            const zipPath = path.join(backupsPath, `${backupId}.zip`);
-
-            if (existsSync(metaPath)) {
-                await fs.unlink(metaPath);
-            }
-            if (existsSync(zipPath)) {
-                await fs.unlink(zipPath);
+            const worldPath = path.join(instancePath, 'saves', worldId);
+            if (!existsSync(worldPath)) {
+                return { success: false, error: 'World not found' };
             }
 
+            await shell.openPath(worldPath);
             return { success: true };
         } catch (error) {
-            console.error('Failed to delete backup:', error);
+            console.error('Failed to open world folder:', error);
             return { success: false, error: String(error) };
         }
     }
@@ -1441,8 +1566,54 @@ export class InstanceManager {
         }
     }
 
-    async scanSystemJava(): Promise<{ version: string; path: string }[]> {
-        const javaInstallations: { version: string; path: string }[] = [];
+    async updateLaunchSettings(instanceId: string, settings: InstanceLaunchSettings): Promise<{ success: boolean; error?: string }> {
+        try {
+            const configPath = path.join(this.instancesPath, instanceId, 'instance.json');
+
+            if (!existsSync(configPath)) {
+                return { success: false, error: 'Instance not found' };
+            }
+
+            const config: Instance = JSON.parse(await fs.readFile(configPath, 'utf8'));
+            const keys: (keyof InstanceLaunchSettings)[] = [
+                'minRam', 'maxRam', 'jvmPreset', 'jvmArgs', 'gameArgs', 'envVars',
+                'preLaunchCommand', 'wrapperCommand', 'postExitCommand'
+            ];
+
+            const assign = <K extends keyof InstanceLaunchSettings>(key: K, value: Instance[K]) => {
+                config[key] = value;
+            };
+
+            // Empty values clear the override so the global setting applies again
+            for (const key of keys) {
+                if (!(key in settings)) continue;
+                const value = settings[key];
+                const isEmpty = value === null || value === undefined ||
+                    (typeof value === 'string' && value.trim() === '') ||
+                    (Array.isArray(value) && value.length === 0) ||
+                    (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0);
+
+                if (isEmpty) {
+                    delete config[key];
+                } else {
+                    assign(key, value);
+                }
+            }
+
+            if (config.minRam && config.maxRam && config.minRam > config.maxRam) {
+                return { success: false, error: 'Minimum RAM cannot exceed maximum RAM' };
+            }
+
+            await fs.writeFile(configPath, JSON.stringify(config, null, 4));
+            return { success: true };
+        } catch (error) {
+            console.error('Failed to update launch settings:', error);
+            return { success: false, error: String(error) };
+        }
+    }
+
+    async scanSystemJava(): Promise<{ version: string; path: string; arch: string | null; usedBy: string[] }[]> {
+        const javaInstallations: { version: string; path: string; arch: string | null; usedBy: string[] }[] = [];
         const foundPaths = new Set<string>();
 
         const scanRoots = [
@@ -1479,10 +1650,10 @@ export class InstanceManager {
 
                     for (const binPath of possibleBins) {
                         if (existsSync(binPath) && !foundPaths.has(binPath)) {
-                            const version = await this.getJavaVersion(binPath);
-                            if (version) {
+                            const info = await this.getJavaInfo(binPath);
+                            if (info) {
                                 foundPaths.add(binPath);
-                                javaInstallations.push({ version, path: binPath });
+                                javaInstallations.push({ ...info, path: binPath, usedBy: [] });
                             }
                         }
                     }
@@ -1491,26 +1662,38 @@ export class InstanceManager {
         }
 
         // Also check system PATH
-        try {
-            const { execSync } = require('child_process');
-            const output = execSync('java -version 2>&1', { encoding: 'utf8' });
-            const versionMatch = output.match(/version "?(\d+)(?:\.(\d+))?/);
-            if (versionMatch) {
-                const major = versionMatch[1] === '1' ? versionMatch[2] : versionMatch[1];
-                const javaPath = process.platform === 'win32' ? 'java.exe' : 'java';
-                if (!foundPaths.has(javaPath)) {
-                    javaInstallations.unshift({ version: major, path: 'java' });
-                }
-            }
-        } catch (e) { }
+        const pathJava = await this.getJavaInfo('java');
+        if (pathJava) {
+            javaInstallations.unshift({ ...pathJava, path: 'java', usedBy: [] });
+        }
+
+        const usage = await this.getJavaUsage();
+        javaInstallations.forEach(java => java.usedBy = usage[java.path] || []);
 
         return javaInstallations.sort((a, b) => parseInt(b.version) - parseInt(a.version));
     }
 
-    private async getJavaVersion(javaPath: string): Promise<string | null> {
+    /**
+     * Which instances launch with which Java, keyed by binary path. Instances left on automatic
+     * count towards `autoPaths[major]`, the runtime automatic selection would pick for them.
+     */
+    public async getJavaUsage(autoPaths: Record<string, string> = {}): Promise<Record<string, string[]>> {
+        const usage: Record<string, string[]> = {};
+        for (const instance of await this.getInstances()) {
+            const major = instance.javaVersion || VersionManager.getRequiredJavaVersion({}, instance.version);
+            const configured = ConfigManager.getJavaPath(major);
+            const javaPath = instance.javaPath
+                || (configured && configured !== 'auto' ? configured : autoPaths[major]);
+            if (javaPath) (usage[javaPath] ||= []).push(instance.name);
+        }
+        return usage;
+    }
+
+    private async getJavaInfo(javaPath: string): Promise<{ version: string; arch: string | null } | null> {
         return new Promise((resolve) => {
             const { spawn } = require('child_process');
-            const proc = spawn(javaPath, ['-version']);
+            // Printing the system properties is the only portable way to get the JVM's architecture
+            const proc = spawn(javaPath, ['-XshowSettings:properties', '-version']);
             let output = '';
             proc.stderr.on('data', (d: Buffer) => output += d.toString());
             proc.stdout.on('data', (d: Buffer) => output += d.toString());
@@ -1520,7 +1703,13 @@ export class InstanceManager {
                 const match = output.match(/version "?(\d+)(?:\.(\d+))?/);
                 if (match) {
                     const major = match[1] === '1' ? match[2] : match[1];
-                    resolve(major);
+                    const arch = output.match(/os\.arch = (\S+)/)?.[1] || null;
+                    // Same names as process.arch, which is what managed runtimes report
+                    const normalized = arch === 'amd64' || arch === 'x86_64' ? 'x64'
+                        : arch === 'aarch64' ? 'arm64'
+                            : arch && /^(x86|i[3-6]86)$/.test(arch) ? 'ia32'
+                                : arch;
+                    resolve({ version: major, arch: normalized });
                 } else {
                     resolve(null);
                 }
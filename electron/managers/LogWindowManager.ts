@@ -106,6 +106,10 @@ export class LogWindowManager {
                     }
                     .btn:hover { background: rgba(255, 255, 255, 0.08); color: white; }
                     .btn.close:hover { background: #e81123; }
+                    .btn.stop { width: auto; padding: 0 10px; gap: 6px; font-size: 11px; font-weight: 600; color: #ff5555; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+                    .btn.stop:hover { background: rgba(255, 85, 85, 0.15); color: #ff7777; }
+                    .btn.stop:disabled { opacity: 0.4; cursor: default; }
+                    .btn.stop.hidden { display: none; }
                     
                     /* Log Area */
                     #logs {
@@ -129,6 +133,10 @@ export class LogWindowManager {
                 <div class="titlebar">
                     <div class="title">Game Output</div>
                     <div class="controls">
+                        <button class="btn stop hidden" id="stopBtn" title="Force-stop the game">
+                            <svg width="8" height="8" viewBox="0 0 8 8" fill="currentColor"><rect width="8" height="8" rx="1"/></svg>
+                            Stop
+                        </button>
                         <button class="btn" id="minBtn">
                             <svg width="10" height="1" viewBox="0 0 10 1" fill="currentColor"><rect width="10" height="1"/></svg>
                         </button>
@@ -148,6 +156,21 @@ export class LogWindowManager {
                     document.getElementById('minBtn').onclick = () => ipcRenderer.send('log-window-minimize');
                     document.getElementById('closeBtn').onclick = () => ipcRenderer.send('log-window-close');
 
+                    // Stop button - only visible while this instance's game is running
+                    const instanceId = ${JSON.stringify(instanceId)};
+                    const stopBtn = document.getElementById('stopBtn');
+                    stopBtn.onclick = async () => {
+                        stopBtn.disabled = true;
+                        await ipcRenderer.invoke('game:kill', instanceId);
+                    };
+                    const updateStopBtn = (games) => {
+                        const running = games.some(g => g.instanceId === instanceId);
+                        stopBtn.classList.toggle('hidden', !running);
+                        if (running) stopBtn.disabled = false;
+                    };
+                    ipcRenderer.on('game:running-changed', (e, games) => updateStopBtn(games));
+                    ipcRenderer.invoke('game:list-running').then(updateStopBtn);
+
                     // Log messages
                     ipcRenderer.on('game:log', (e, data) => {
                         const div = document.createElement('div');
@@ -4,7 +4,7 @@ import fs from 'fs/promises';
 import { existsSync } from 'fs';
 import { ConfigManager } from './ConfigManager';
 
-interface ModMetadata {
+export interface ModMetadata {
   projectId: string;
   versionId: string;
   versionNumber: string;
@@ -12,6 +12,13 @@ interface ModMetadata {
   installedAt: string;
   gameVersion: string;
   loaders: string[];
+  // Filled in when a file is identified after the fact (see ModsManager)
+  source?: 'modrinth' | 'curseforge' | 'local'; // 'local' entries have no projectId/versionId; CurseForge ids are numeric strings
+  title?: string;
+  iconUrl?: string;
+  modId?: string;
+  sha1?: string;
+  sha512?: string;
 }
 
 interface ModsMetadata {
@@ -122,6 +129,17 @@ export class ModMetadataManager {
     await ModMetadataManager.saveMetadataFile(instanceId, allMetadata);
   }
 
+  static async saveMetadataBatch(instanceId: string, type: 'mod' | 'resourcepack' | 'shader', entries: ModMetadata[]): Promise<void> {
+    if (entries.length === 0) return;
+    const allMetadata = await ModMetadataManager.loadMetadata(instanceId);
+    const category = type === 'mod' ? 'mods' : type === 'resourcepack' ? 'resourcepacks' : 'shaderpacks';
+
+    for (const metadata of entries) {
+      allMetadata[category][metadata.filename] = metadata;
+    }
+    await ModMetadataManager.saveMetadataFile(instanceId, allMetadata);
+  }
+
   static async getMetadata(instanceId: string, type: 'mod' | 'resourcepack' | 'shader', filename: string): Promise<ModMetadata | null> {
     const allMetadata = await ModMetadataManager.loadMetadata(instanceId);
     const category = type === 'mod' ? 'mods' : type === 'resourcepack' ? 'resourcepacks' : 'shaderpacks';
@@ -2,11 +2,11 @@ import { ipcMain } from 'electron';
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
-import { createWriteStream } from 'fs';
-import { pipeline } from 'stream/promises';
+import { existsSync } from 'fs';
 import { InstanceManager } from './InstanceManager';
 import { ConfigManager } from './ConfigManager';
 import { ModMetadataManager } from './ModMetadataManager';
+import { ContentStore } from '../utils/ContentStore';
 
 const API_BASE = 'https://api.modrinth.com/v2';
 const USER_AGENT = 'WhoapLauncher/2.3.1 (contact@whoap.gg)'; // Replace with real contact if available
@@ -24,13 +24,16 @@ interface ModrinthProject {
     server_side: string;
 }
 
-interface ModrinthVersion {
+export interface ModrinthVersion {
     id: string;
     project_id: string;
     author_id: string;
     featured: boolean;
     name: string;
     version_number: string;
+    version_type?: 'release' | 'beta' | 'alpha';
+    changelog?: string;
+    date_published?: string;
     game_versions: string[];
     loaders: string[];
     files: {
@@ -54,6 +57,33 @@ interface InstallStatus {
     error?: string;
 }
 
+export interface InstallPlanEntry {
+    projectId: string;
+    versionId: string;
+    versionNumber: string;
+    title: string;
+    filename: string;
+    size: number;
+    requiredBy?: string; // Title of the project that pulled this in; unset for the requested project
+}
+
+export interface InstallPlanIssue {
+    type: 'incompatible' | 'unresolved';
+    projectId: string;
+    title: string;
+    message: string;
+}
+
+export interface InstallPlan {
+    gameVersion: string;
+    loader: string;
+    entries: InstallPlanEntry[];
+    satisfied: { projectId: string; title: string; filename: string }[]; // Required deps already in the instance
+    optional: { projectId: string; title: string; requiredBy: string }[];
+    issues: InstallPlanIssue[];
+    totalSize: number;
+}
+
 export class ModPlatformManager {
     private static instance: ModPlatformManager;
 
@@ -84,6 +114,31 @@ export class ModPlatformManager {
             return await this.getProjects(projectIds);
         });
 
+        // Dependency resolution: returns the full set of versions to install plus any conflicts
+        ipcMain.handle('platform:resolve-install', async (_, instanceId: string, versionId: string, type: 'mod' | 'resourcepack' | 'shader' = 'mod') => {
+            try {
+                const plan = await this.resolveInstallPlan(instanceId, versionId, type);
+                return { success: true, plan };
+            } catch (error: any) {
+                console.error("Dependency resolution failed:", error);
+                return { success: false, error: error.message };
+            }
+        });
+
+        // Installs exactly the versions of an accepted plan, without resolving again
+        ipcMain.handle('platform:install-plan', async (event, instanceId: string, versionIds: string[], type: 'mod' | 'resourcepack' | 'shader' = 'mod') => {
+            try {
+                const versions = await this.getVersions(versionIds);
+                const results = await this.installVersions(instanceId, versions, type, (status) => {
+                    event.sender.send('platform:install-progress', status);
+                });
+                return { success: true, results };
+            } catch (error: any) {
+                console.error("Plan install failed:", error);
+                return { success: false, error: error.message };
+            }
+        });
+
         // Generalized Install
         ipcMain.handle('platform:install', async (event, instanceId: string, versionId: string, type: 'mod' | 'resourcepack' | 'shader' = 'mod') => {
             try {
@@ -188,8 +243,49 @@ export class ModPlatformManager {
         return response.data;
     }
 
+    public async getVersions(versionIds: string[]): Promise<ModrinthVersion[]> {
+        if (versionIds.length === 0) return [];
+        const response = await axios.get(`${API_BASE}/versions`, {
+            params: { ids: JSON.stringify(versionIds) },
+            headers: { 'User-Agent': USER_AGENT }
+        });
+        return response.data;
+    }
+
     /**
-     * Recursively resolves dependencies and installs them.
+     * Identifies files by hash. Keys of the result are the hashes that matched a Modrinth version.
+     */
+    public async getVersionsFromHashes(hashes: string[], algorithm: 'sha1' | 'sha512' = 'sha1'): Promise<Record<string, ModrinthVersion>> {
+        if (hashes.length === 0) return {};
+        const response = await axios.post(`${API_BASE}/version_files`, {
+            hashes,
+            algorithm
+        }, {
+            headers: { 'User-Agent': USER_AGENT }
+        });
+        return response.data;
+    }
+
+    /**
+     * Batch update lookup: for each sha1 hash, the newest version of that file's project
+     * matching the given loaders and game versions. Hashes with no match are omitted.
+     */
+    public async getLatestVersionsFromHashes(hashes: string[], loaders: string[], gameVersions: string[]): Promise<Record<string, ModrinthVersion>> {
+        if (hashes.length === 0) return {};
+        const response = await axios.post(`${API_BASE}/version_files/update`, {
+            hashes,
+            algorithm: 'sha1',
+            loaders,
+            game_versions: gameVersions
+        }, {
+            headers: { 'User-Agent': USER_AGENT }
+        });
+        return response.data;
+    }
+
+    /**
+     * Resolves dependencies and installs everything without asking. Used by callers that
+     * don't show a plan (e.g. the starter mods in CreateInstanceModal).
      */
     private async smartInstall(
         instanceId: string,
@@ -197,56 +293,186 @@ export class ModPlatformManager {
         type: 'mod' | 'resourcepack' | 'shader',
         progressCallback: (status: InstallStatus) => void
     ): Promise<InstallStatus[]> {
-        const instancePath = path.join(ConfigManager.getInstancesPath(), instanceId);
+        progressCallback({ modName: 'Resolving dependencies...', status: 'pending' });
+        const plan = await this.resolveInstallPlan(instanceId, rootVersionId, type);
+        const versions = await this.getVersions(plan.entries.map(e => e.versionId));
+        return this.installVersions(instanceId, versions, type, progressCallback);
+    }
 
-        let targetDirName = 'mods';
-        if (type === 'resourcepack') targetDirName = 'resourcepacks';
-        else if (type === 'shader') targetDirName = 'shaderpacks';
+    /**
+     * Builds an install plan for a version: walks required dependencies recursively, picking
+     * versions for the instance's game version and loader, and checks `incompatible` relations
+     * in both directions against mods already installed (as tracked by ModMetadataManager).
+     */
+    public async resolveInstallPlan(instanceId: string, rootVersionId: string, type: 'mod' | 'resourcepack' | 'shader'): Promise<InstallPlan> {
+        const root = await this.getVersion(rootVersionId);
+        const target = await this.getInstanceTarget(instanceId);
+        const gameVersion = target?.version || root.game_versions[0];
+        const loader = target?.loader || root.loaders[0];
+
+        const plan: InstallPlan = { gameVersion, loader, entries: [], satisfied: [], optional: [], issues: [], totalSize: 0 };
+        const planned = new Map<string, { version: ModrinthVersion; requiredBy?: string }>();
+
+        // project id -> filename of what's already installed
+        const installed = type === 'mod' ? await this.getInstalledProjects(instanceId) : new Map<string, { filename: string; versionId: string }>();
+
+        const unresolved: { projectId: string; requiredBy: string }[] = [];
+        const incompatibleWith: { projectId: string; declaredBy: string }[] = [];
+        const optional: { projectId: string; requiredBy: string }[] = [];
+        const satisfied = new Set<string>();
+
+        const visit = async (version: ModrinthVersion, requiredBy?: string) => {
+            if (planned.has(version.project_id)) return;
+            planned.set(version.project_id, { version, requiredBy });
+            if (type !== 'mod') return;
+
+            for (const dep of version.dependencies) {
+                if (dep.dependency_type === 'incompatible' && dep.project_id) {
+                    incompatibleWith.push({ projectId: dep.project_id, declaredBy: version.project_id });
+                    continue;
+                }
+                if (!dep.project_id && !dep.version_id) continue;
 
-        const targetDir = path.join(instancePath, targetDirName);
-        await fs.mkdir(targetDir, { recursive: true });
+                if (dep.dependency_type === 'optional' && dep.project_id) {
+                    if (!installed.has(dep.project_id)) optional.push({ projectId: dep.project_id, requiredBy: version.project_id });
+                    continue;
+                }
+                if (dep.dependency_type !== 'required') continue;
+
+                let depVersion: ModrinthVersion | null = null;
+                let depProjectId = dep.project_id;
+                if (dep.version_id) {
+                    const pinned = await this.getVersion(dep.version_id);
+                    depProjectId = pinned.project_id;
+                    if (this.isCompatible(pinned, gameVersion, loader)) depVersion = pinned;
+                }
+                if (!depProjectId) continue;
 
-        const installed = new Set<string>();
-        const installQueue: ModrinthVersion[] = [];
+                if (installed.has(depProjectId)) {
+                    satisfied.add(depProjectId);
+                    continue;
+                }
+                if (planned.has(depProjectId)) continue;
 
-        // 1. Resolve Phase
-        const resolve = async (vId: string) => {
-            progressCallback({ modName: 'Resolving dependencies...', status: 'pending' });
+                if (!depVersion) {
+                    depVersion = await this.findCompatibleVersion(depProjectId, gameVersion, loader);
+                }
+                if (depVersion) {
+                    await visit(depVersion, version.project_id);
+                } else {
+                    unresolved.push({ projectId: depProjectId, requiredBy: version.project_id });
+                }
+            }
+        };
+
+        await visit(root);
 
+        // Installed mods can also declare the new ones incompatible
+        if (type === 'mod' && installed.size > 0) {
             try {
-                const version = await this.getVersion(vId);
-
-                if (installed.has(version.project_id)) return;
-                installed.add(version.project_id);
-
-                installQueue.push(version);
-
-                // Check dependencies (Only recursive for mods)
-                if (type === 'mod') {
-                    for (const dep of version.dependencies) {
-                        if (dep.dependency_type === 'required') {
-                            if (dep.version_id) {
-                                await resolve(dep.version_id);
-                            } else if (dep.project_id) {
-                                const bestDepVersion = await this.findCompatibleVersion(dep.project_id, version.game_versions[0], version.loaders[0]);
-                                if (bestDepVersion) {
-                                    await resolve(bestDepVersion.id);
-                                }
-                            }
+                const installedVersions = await this.getVersions(Array.from(installed.values()).map(i => i.versionId));
+                for (const v of installedVersions) {
+                    for (const dep of v.dependencies) {
+                        if (dep.dependency_type === 'incompatible' && dep.project_id && planned.has(dep.project_id)) {
+                            incompatibleWith.push({ projectId: dep.project_id, declaredBy: v.project_id });
                         }
                     }
                 }
             } catch (e) {
-                console.error(`Failed to resolve version ${vId}`, e);
+                console.warn('[Resolver] Could not fetch installed versions for conflict check:', e);
             }
-        };
+        }
+
+        // Resolve titles for everything we're about to show in one request
+        const projectIds = new Set<string>([
+            ...planned.keys(),
+            ...satisfied,
+            ...unresolved.map(u => u.projectId),
+            ...optional.map(o => o.projectId),
+            ...incompatibleWith.flatMap(i => [i.projectId, i.declaredBy])
+        ]);
+        const titles = new Map<string, string>();
+        for (const project of await this.getProjects(Array.from(projectIds))) {
+            titles.set(project.id, project.title);
+        }
+        const titleOf = (id: string) => titles.get(id) || id;
+
+        for (const [projectId, { version, requiredBy }] of planned) {
+            const file = version.files.find(f => f.primary) || version.files[0];
+            if (!file) {
+                plan.issues.push({ type: 'unresolved', projectId, title: titleOf(projectId), message: `${titleOf(projectId)} ${version.version_number} has no downloadable file` });
+                continue;
+            }
+            plan.entries.push({
+                projectId,
+                versionId: version.id,
+                versionNumber: version.version_number,
+                title: titleOf(projectId),
+                filename: file.filename,
+                size: file.size,
+                requiredBy: requiredBy ? titleOf(requiredBy) : undefined
+            });
+            plan.totalSize += file.size;
+        }
+
+        for (const projectId of satisfied) {
+            plan.satisfied.push({ projectId, title: titleOf(projectId), filename: installed.get(projectId)!.filename });
+        }
+
+        for (const { projectId, requiredBy } of unresolved) {
+            plan.issues.push({
+                type: 'unresolved',
+                projectId,
+                title: titleOf(projectId),
+                message: `${titleOf(requiredBy)} requires ${titleOf(projectId)}, but no version supports ${loader} ${gameVersion}`
+            });
+        }
+
+        const seenConflicts = new Set<string>();
+        for (const { projectId, declaredBy } of incompatibleWith) {
+            const other = planned.has(projectId) ? projectId : declaredBy;
+            const present = installed.has(projectId) || planned.has(projectId);
+            const key = [projectId, declaredBy].sort().join('|');
+            if (!present || projectId === declaredBy || seenConflicts.has(key)) continue;
+            seenConflicts.add(key);
+
+            const installedFile = installed.get(projectId)?.filename || installed.get(declaredBy)?.filename;
+            plan.issues.push({
+                type: 'incompatible',
+                projectId: other,
+                title: titleOf(other),
+                message: `${titleOf(declaredBy)} is incompatible with ${titleOf(projectId)}${installedFile ? ` (installed as ${installedFile})` : ''}`
+            });
+        }
+
+        const seenOptional = new Set<string>();
+        for (const { projectId, requiredBy } of optional) {
+            if (planned.has(projectId) || seenOptional.has(projectId)) continue;
+            seenOptional.add(projectId);
+            plan.optional.push({ projectId, title: titleOf(projectId), requiredBy: titleOf(requiredBy) });
+        }
+
+        return plan;
+    }
+
+    private async installVersions(
+        instanceId: string,
+        versions: ModrinthVersion[],
+        type: 'mod' | 'resourcepack' | 'shader',
+        progressCallback: (status: InstallStatus) => void
+    ): Promise<InstallStatus[]> {
+        const instancePath = this.getGameDir(instanceId);
 
-        await resolve(rootVersionId);
+        let targetDirName = 'mods';
+        if (type === 'resourcepack') targetDirName = 'resourcepacks';
+        else if (type === 'shader') targetDirName = 'shaderpacks';
+
+        const targetDir = path.join(instancePath, targetDirName);
+        await fs.mkdir(targetDir, { recursive: true });
 
-        // 2. Install Phase
         const results: InstallStatus[] = [];
-        
-        for (const ver of installQueue) {
+
+        for (const ver of versions) {
             const primaryFile = ver.files.find(f => f.primary) || ver.files[0];
             const destPath = path.join(targetDir, primaryFile.filename);
 
@@ -257,8 +483,7 @@ export class ModPlatformManager {
             } catch {
                 progressCallback({ modName: ver.name, status: 'downloading' });
                 try {
-                    const response = await axios.get(primaryFile.url, { responseType: 'stream' });
-                    await pipeline(response.data, createWriteStream(destPath));
+                    await ContentStore.install(primaryFile.url, destPath, primaryFile.hashes?.sha1);
                     
                     // Save metadata for tracking
                     await ModMetadataManager.saveMetadata(instanceId, type, {
@@ -282,8 +507,57 @@ export class ModPlatformManager {
         return results;
     }
 
+    // Where content goes: for instances imported by reference that's the other launcher's folder
+    private getGameDir(instanceId: string): string {
+        return InstanceManager.getInstance().resolveGameDir(instanceId) || path.join(ConfigManager.getInstancesPath(), instanceId);
+    }
+
+    public async getInstanceTarget(instanceId: string): Promise<{ version: string; loader: string } | null> {
+        try {
+            const configPath = path.join(ConfigManager.getInstancesPath(), instanceId, 'instance.json');
+            const data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+            if (!data.version) return null;
+            return { version: data.version, loader: data.loader || 'vanilla' };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Mods present in the instance with known Modrinth metadata, by project id.
+     * Disabled mods count: re-enabling them should not produce a duplicate.
+     */
+    private async getInstalledProjects(instanceId: string): Promise<Map<string, { filename: string; versionId: string }>> {
+        const result = new Map<string, { filename: string; versionId: string }>();
+        const modsDir = path.join(this.getGameDir(instanceId), 'mods');
+        const metadata = await ModMetadataManager.getAllMetadata(instanceId);
+
+        for (const [filename, meta] of Object.entries(metadata.mods || {})) {
+            const present = existsSync(path.join(modsDir, filename)) || existsSync(path.join(modsDir, `${filename}.disabled`));
+            if (present && meta.projectId) {
+                result.set(meta.projectId, { filename, versionId: meta.versionId });
+            }
+        }
+        return result;
+    }
+
+    private isCompatible(version: ModrinthVersion, gameVersion: string, loader: string): boolean {
+        return version.game_versions.includes(gameVersion) && this.acceptedLoaders(loader).some(l => version.loaders.includes(l));
+    }
+
+    // Quilt loads Fabric mods, so fall back to them when no Quilt build exists
+    public acceptedLoaders(loader: string): string[] {
+        return loader === 'quilt' ? ['quilt', 'fabric'] : [loader];
+    }
+
     private async findCompatibleVersion(projectId: string, gameVersion: string, loader: string): Promise<ModrinthVersion | null> {
-        const versions = await this.getProjectVersions(projectId, 'mod', { version: gameVersion, loader });
-        return versions.length > 0 ? versions[0] : null;
+        for (const candidate of this.acceptedLoaders(loader)) {
+            const versions = await this.getProjectVersions(projectId, 'mod', { version: gameVersion, loader: candidate });
+            if (versions.length > 0) {
+                // Newest first; prefer a release over betas and alphas when there is one
+                return versions.find(v => !v.version_type || v.version_type === 'release') || versions[0];
+            }
+        }
+        return null;
     }
 }
@@ -1,5 +1,8 @@
 import { ipcMain, BrowserWindow } from 'electron';
 import { ModpackInstaller } from '../utils/ModpackInstaller';
+import { ModpackUpdater, ModpackUpdateOptions } from '../utils/ModpackUpdater';
+import { InstanceManager } from './InstanceManager';
+import { CurseForgeManager } from './CurseForgeManager';
 import axios from 'axios';
 
 const MODRINTH_API = 'https://api.modrinth.com/v2';
@@ -18,8 +21,19 @@ export class ModpackManager {
             index?: string;
             limit?: number;
             offset?: number;
+            platform?: 'modrinth' | 'curseforge';
         } = {}) => {
             try {
+                if (options.platform === 'curseforge') {
+                    const result = await CurseForgeManager.getInstance().searchProjects(query, 'modpack', {
+                        version: options.gameVersion,
+                        loader: options.loader,
+                        offset: options.offset,
+                        limit: options.limit
+                    });
+                    return { success: true, ...result };
+                }
+
                 const facets: string[][] = [['project_type:modpack']];
 
                 if (options.loader) {
@@ -54,8 +68,11 @@ export class ModpackManager {
         });
 
         // Get Project Details
-        ipcMain.handle('modpack:get-project', async (_, projectId: string) => {
+        ipcMain.handle('modpack:get-project', async (_, projectId: string, platform: 'modrinth' | 'curseforge' = 'modrinth') => {
             try {
+                if (platform === 'curseforge') {
+                    return { success: true, project: await CurseForgeManager.getInstance().getProject(projectId) };
+                }
                 const response = await axios.get(`${MODRINTH_API}/project/${projectId}`, {
                     headers: { 'User-Agent': USER_AGENT }
                 });
@@ -70,8 +87,17 @@ export class ModpackManager {
         ipcMain.handle('modpack:get-versions', async (_, projectId: string, options: {
             loaders?: string[];
             gameVersions?: string[];
+            platform?: 'modrinth' | 'curseforge';
         } = {}) => {
             try {
+                if (options.platform === 'curseforge') {
+                    const versions = await CurseForgeManager.getInstance().getProjectVersions(projectId, 'modpack', {
+                        version: options.gameVersions?.[0],
+                        loader: options.loaders?.[0]
+                    });
+                    return { success: true, versions };
+                }
+
                 const params: any = {};
                 if (options.loaders?.length) {
                     params.loaders = JSON.stringify(options.loaders);
@@ -97,6 +123,7 @@ export class ModpackManager {
             projectId: string;
             projectName: string;
             iconUrl?: string;
+            platform?: 'modrinth' | 'curseforge';
         }) => {
             try {
                 console.log(`[ModpackManager] Installing ${data.projectName}...`);
@@ -107,24 +134,62 @@ export class ModpackManager {
                     win?.webContents.send('modpack:install-progress', { status, progress: percent });
                 };
 
-                const result = await ModpackInstaller.installFromModrinth(
-                    data.versionId,
-                    data.projectId,
-                    data.projectName,
-                    data.iconUrl,
-                    onProgress
-                );
+                const result = data.platform === 'curseforge'
+                    ? await ModpackInstaller.installFromCurseForge(data.versionId, data.projectName, data.iconUrl, onProgress)
+                    : await ModpackInstaller.installFromModrinth(data.versionId, data.projectId, data.projectName, data.iconUrl, onProgress);
 
-                return { success: true, instanceId: result.instanceId };
+                return { success: true, instanceId: result.instanceId, manual: result.manual };
             } catch (error: any) {
                 console.error('[ModpackManager] Install failed:', error.message);
                 return { success: false, error: error.message };
             }
         });
 
+        // Pack an instance was installed from, or null
+        ipcMain.handle('modpack:get-source', async (_, instanceId: string) => {
+            const instanceDir = InstanceManager.getInstance().resolveInstancePath(instanceId);
+            return instanceDir ? await ModpackUpdater.getSource(instanceDir) : null;
+        });
+
+        ipcMain.handle('modpack:check-update', async (_, instanceId: string) => {
+            try {
+                const { source, versions } = await ModpackUpdater.checkForUpdate(this.requireInstanceDir(instanceId));
+                return { success: true, source, versions };
+            } catch (error: any) {
+                console.error('[ModpackManager] Update check failed:', error.message);
+                return { success: false, error: error.message };
+            }
+        });
+
+        ipcMain.handle('modpack:preview-update', async (_, instanceId: string, versionId: string, options: ModpackUpdateOptions = {}) => {
+            try {
+                const plan = await ModpackUpdater.previewUpdate(this.requireInstanceDir(instanceId), versionId, options);
+                return { success: true, plan };
+            } catch (error: any) {
+                console.error('[ModpackManager] Update preview failed:', error.message);
+                return { success: false, error: error.message };
+            }
+        });
+
+        ipcMain.handle('modpack:apply-update', async (event, instanceId: string, versionId: string, options: ModpackUpdateOptions = {}) => {
+            try {
+                const plan = await ModpackUpdater.applyUpdate(instanceId, this.requireInstanceDir(instanceId), versionId, options, (status, progress) => {
+                    event.sender.send('modpack:update-progress', { status, progress });
+                });
+                return { success: true, plan };
+            } catch (error: any) {
+                console.error('[ModpackManager] Update failed:', error.message);
+                return { success: false, error: error.message };
+            }
+        });
+
         // Get featured/trending modpacks
-        ipcMain.handle('modpack:get-featured', async () => {
+        ipcMain.handle('modpack:get-featured', async (_, platform: 'modrinth' | 'curseforge' = 'modrinth') => {
             try {
+                if (platform === 'curseforge') {
+                    const result = await CurseForgeManager.getInstance().searchProjects('', 'modpack', { limit: 10 });
+                    return { success: true, hits: result.hits };
+                }
                 const response = await axios.get(`${MODRINTH_API}/search`, {
                     params: {
                         facets: JSON.stringify([['project_type:modpack']]),
@@ -139,4 +204,10 @@ export class ModpackManager {
             }
         });
     }
+
+    private requireInstanceDir(instanceId: string): string {
+        const instanceDir = InstanceManager.getInstance().resolveInstancePath(instanceId);
+        if (!instanceDir) throw new Error('Instance not found');
+        return instanceDir;
+    }
 }
@@ -1,17 +1,30 @@
 import { ipcMain, dialog } from 'electron';
 import path from 'path';
 import fs from 'fs/promises';
-import { existsSync, readdirSync, statSync } from 'fs';
+import { existsSync, readdirSync, statSync, createReadStream } from 'fs';
+import crypto from 'crypto';
 import { ConfigManager } from './ConfigManager';
+import { LinkedFile } from '../utils/LinkedFile';
+import { ModMetadata, ModMetadataManager } from './ModMetadataManager';
+import { ModPlatformManager } from './ModPlatformManager';
+import { ModJarReader } from '../utils/ModJarReader';
 
 export interface Mod {
     name: string;
     path: string;
     size: number;
     isEnabled: boolean;
+    title?: string;
+    version?: string;
+    iconUrl?: string;
+    projectId?: string;
+    source?: 'modrinth' | 'curseforge' | 'local';
 }
 
 export class ModsManager {
+    // One identification pass per instance at a time; concurrent mods:list calls share it
+    private identifying = new Map<string, Promise<Record<string, ModMetadata>>>();
+
     constructor() {
         this.registerListeners();
     }
@@ -61,7 +74,7 @@ export class ModsManager {
 
                     for (const filePath of result.filePaths) {
                         const fileName = path.basename(filePath);
-                        await fs.copyFile(filePath, path.join(modsPath, fileName));
+                        await LinkedFile.copy(filePath, path.join(modsPath, fileName));
                     }
                     return { success: true };
                 }
@@ -85,6 +98,10 @@ export class ModsManager {
                     ? require('fs').readFileSync(configPath, 'utf8')
                     : '{}');
 
+                if (data.gameDir) {
+                    return path.join(data.gameDir, 'mods');
+                }
+
                 if (data.useExternalPath) {
                     const gamePath = ConfigManager.getGamePath();
                     return path.join(gamePath, 'versions', instanceId, 'mods');
@@ -125,7 +142,152 @@ export class ModsManager {
                 }
             }
         }
-        return mods;
+
+        if (mods.length === 0) return mods;
+
+        const known = await this.identifyMods(instanceId, mods).catch(e => {
+            console.error(`[ModsManager] Failed to identify mods in ${instanceId}:`, e);
+            return {} as Record<string, ModMetadata>;
+        });
+        return mods.map(mod => {
+            const meta = known[mod.name.replace(/\.disabled$/, '')];
+            if (!meta) return mod;
+            return {
+                ...mod,
+                title: meta.title,
+                version: meta.versionNumber || undefined,
+                iconUrl: meta.iconUrl,
+                projectId: meta.projectId || undefined,
+                source: meta.source || 'modrinth'
+            };
+        });
+    }
+
+    private identifyMods(instanceId: string, mods: Mod[]): Promise<Record<string, ModMetadata>> {
+        const pending = this.identifying.get(instanceId);
+        if (pending) return pending;
+
+        const task = this.backfillMetadata(instanceId, mods).finally(() => this.identifying.delete(instanceId));
+        this.identifying.set(instanceId, task);
+        return task;
+    }
+
+    /**
+     * Fills in metadata for jars that weren't installed through the launcher: hashes are
+     * looked up on Modrinth in one request, and anything unknown there falls back to the
+     * loader metadata inside the jar. Entries that were saved without a title (older
+     * installs) get their project name and icon filled in as well.
+     */
+    private async backfillMetadata(instanceId: string, mods: Mod[]): Promise<Record<string, ModMetadata>> {
+        const known = { ...(await ModMetadataManager.getAllMetadata(instanceId)).mods };
+        const unknown = mods.filter(mod => !known[mod.name.replace(/\.disabled$/, '')]);
+        const untitled = Object.values(known).filter(meta => meta.projectId && !meta.title);
+        if (unknown.length === 0 && untitled.length === 0) return known;
+
+        const platform = ModPlatformManager.getInstance();
+        const hashed = await Promise.all(unknown.map(async mod => ({
+            mod,
+            filename: mod.name.replace(/\.disabled$/, ''),
+            ...(await this.hashFile(mod.path))
+        })));
+
+        // When Modrinth can't be reached, show what the jars say but don't persist it,
+        // so the next listing gets another chance to identify them properly
+        let online = true;
+        let versions: Awaited<ReturnType<ModPlatformManager['getVersionsFromHashes']>> = {};
+        try {
+            versions = await platform.getVersionsFromHashes(hashed.map(h => h.sha1));
+        } catch (e) {
+            console.warn('[ModsManager] Modrinth hash lookup failed, using jar metadata only:', e);
+            online = false;
+        }
+
+        const projectIds = new Set<string>(untitled.map(meta => meta.projectId));
+        for (const version of Object.values(versions)) projectIds.add(version.project_id);
+        const projects = new Map<string, { title: string; icon_url?: string }>();
+        for (const project of await platform.getProjects([...projectIds])) {
+            projects.set(project.id, project);
+        }
+
+        const target = await platform.getInstanceTarget(instanceId);
+        const identified: ModMetadata[] = [];
+        const offline: ModMetadata[] = [];
+
+        for (const meta of untitled) {
+            const project = projects.get(meta.projectId);
+            if (project) identified.push({ ...meta, source: 'modrinth', title: project.title, iconUrl: project.icon_url });
+        }
+
+        for (const { mod, filename, sha1, sha512 } of hashed) {
+            const version = versions[sha1];
+            if (version) {
+                const project = projects.get(version.project_id);
+                identified.push({
+                    projectId: version.project_id,
+                    versionId: version.id,
+                    versionNumber: version.version_number,
+                    filename,
+                    installedAt: new Date().toISOString(),
+                    gameVersion: target?.version || version.game_versions[0] || '',
+                    loaders: version.loaders,
+                    source: 'modrinth',
+                    title: project?.title,
+                    iconUrl: project?.icon_url,
+                    sha1,
+                    sha512
+                });
+                continue;
+            }
+
+            const info = ModJarReader.read(mod.path);
+            (online ? identified : offline).push({
+                projectId: '',
+                versionId: '',
+                versionNumber: info?.version || '',
+                filename,
+                installedAt: new Date().toISOString(),
+                gameVersion: target?.version || '',
+                loaders: info ? [info.loader] : [],
+                source: 'local',
+                title: info?.name,
+                iconUrl: info?.icon ? await this.cacheIcon(sha1, info.icon) : undefined,
+                modId: info?.modId,
+                sha1,
+                sha512
+            });
+        }
+
+        if (identified.length > 0) {
+            await ModMetadataManager.saveMetadataBatch(instanceId, 'mod', identified);
+            console.log(`[ModsManager] Backfilled metadata for ${identified.length} mod(s) in ${instanceId}`);
+        }
+
+        for (const meta of [...identified, ...offline]) known[meta.filename] = meta;
+        return known;
+    }
+
+    private hashFile(filePath: string): Promise<{ sha1: string; sha512: string }> {
+        return new Promise((resolve, reject) => {
+            const sha1 = crypto.createHash('sha1');
+            const sha512 = crypto.createHash('sha512');
+            createReadStream(filePath)
+                .on('data', chunk => {
+                    sha1.update(chunk);
+                    sha512.update(chunk);
+                })
+                .on('end', () => resolve({ sha1: sha1.digest('hex'), sha512: sha512.digest('hex') }))
+                .on('error', reject);
+        });
+    }
+
+    private async cacheIcon(sha1: string, png: Buffer): Promise<string> {
+        const iconDir = path.join(ConfigManager.getDataPath(), 'cache', 'mod-icons');
+        const iconPath = path.join(iconDir, `${sha1}.png`);
+        if (!existsSync(iconPath)) {
+            await fs.mkdir(iconDir, { recursive: true });
+            await fs.writeFile(iconPath, png);
+        }
+        return `whoap-icon://icon/?path=${encodeURIComponent(iconPath)}`;
     }
 
     private async toggleMod(instanceId: string, modName: string) {
@@ -3,6 +3,7 @@ import path from 'path';
 import fs from 'fs/promises';
 import { existsSync, readdirSync } from 'fs';
 import { ConfigManager } from './ConfigManager';
+import { LinkedFile } from '../utils/LinkedFile';
 
 export interface ResourcePack {
     name: string;
@@ -67,7 +68,7 @@ export class ResourcePackManager {
                         const fileName = path.basename(filePath);
                         const destPath = path.join(packsPath, fileName);
                         console.log(`[ResourcePackManager] Copying ${filePath} to ${destPath}`);
-                        await fs.copyFile(filePath, destPath);
+                        await LinkedFile.copy(filePath, destPath);
                     }
                     return { success: true };
                 }
@@ -92,6 +93,10 @@ export class ResourcePackManager {
                     ? require('fs').readFileSync(configPath, 'utf8')
                     : '{}');
 
+                if (data.gameDir) {
+                    return path.join(data.gameDir, 'resourcepacks');
+                }
+
                 if (data.useExternalPath) {
                     const gamePath = ConfigManager.getGamePath();
                     return path.join(gamePath, 'versions', instanceId, 'resourcepacks');
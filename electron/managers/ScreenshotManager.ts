@@ -158,6 +158,11 @@ export class ScreenshotManager {
         const localInstancePath = path.join(instancesPath, instance.id, 'screenshots');
         paths.push(localInstancePath);
 
+        // Instances imported by reference from another launcher
+        if (instance.gameDir) {
+            paths.push(path.join(instance.gameDir, 'screenshots'));
+        }
+
         // 2. For imported instances (useExternalPath = true), check the external versions folder
         if (instance.useExternalPath || instance.isImported || instance.type === 'imported') {
             // Screenshots in external versions folder: .minecraft/versions/<id>/screenshots
@@ -1,49 +1,194 @@
 import Store from 'electron-store';
+import { app, safeStorage } from 'electron';
+import fs from 'fs';
+import path from 'path';
 
 export interface StoredSession {
     type: 'microsoft' | 'offline' | 'whoap';
     name: string;
     uuid: string;
     token: string;
-    refreshToken?: string;
+    refreshToken?: string; // msmc refresh token for Microsoft accounts, Supabase refresh token for Whoap
     expiresAt?: number;
     preferredSkin?: string;
     preferredCape?: string;
 }
 
+/** What the renderer gets to see of an account. */
+export type PublicSession = Omit<StoredSession, 'token' | 'refreshToken'>;
+
+interface Credentials {
+    token: string;
+    refreshToken?: string;
+}
+
+type AccountRecord = PublicSession & {
+    credentials?: string; // safeStorage-encrypted Credentials JSON, base64
+};
+
 interface StoreSchema {
-    session: StoredSession | null;
+    accounts: AccountRecord[];
+    activeUuid: string | null;
 }
 
-const store = new Store<StoreSchema>({
-    name: 'whoap-session',
-    encryptionKey: 'whoap-secure-key-2026',
-    defaults: {
-        session: null
+/**
+ * Credentials are encrypted with Electron's safeStorage, i.e. the OS keychain (Keychain on macOS,
+ * DPAPI on Windows, libsecret/KWallet on Linux). On Linux without a keyring safeStorage only offers
+ * 'basic_text' with a hardcoded key, so there credentials are kept in memory for the current run
+ * and not written to disk: accounts stay listed, but have to sign in again after a restart.
+ */
+const memoryCredentials = new Map<string, Credentials>();
+
+let store: Store<StoreSchema> | null = null;
+let keyring: boolean | null = null;
+
+const hasKeyring = (): boolean => {
+    if (keyring === null) {
+        keyring = safeStorage.isEncryptionAvailable()
+            && (process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text');
+        if (!keyring) {
+            console.warn('[SessionStore] No OS keyring available, credentials will not be saved across restarts');
+        }
+    }
+    return keyring;
+};
+
+const toRecord = (session: StoredSession): AccountRecord => {
+    const { token, refreshToken, ...account } = session;
+    if (!token && !refreshToken) return account;
+
+    if (hasKeyring()) {
+        const credentials: Credentials = { token, refreshToken };
+        return { ...account, credentials: safeStorage.encryptString(JSON.stringify(credentials)).toString('base64') };
+    }
+    memoryCredentials.set(session.uuid, { token, refreshToken });
+    return account;
+};
+
+const fromRecord = (record: AccountRecord): StoredSession => {
+    const { credentials, ...account } = record;
+    let secrets = memoryCredentials.get(record.uuid);
+    if (!secrets && credentials) {
+        try {
+            secrets = JSON.parse(safeStorage.decryptString(Buffer.from(credentials, 'base64')));
+        } catch (e) {
+            // Keyring reset or data folder copied from another machine
+            console.warn(`[SessionStore] Could not decrypt credentials for ${record.name}`, e);
+        }
+    }
+    return { ...account, token: secrets?.token || '', refreshToken: secrets?.refreshToken };
+};
+
+// Moves accounts out of the old 'whoap-session' file, which was encrypted with a key built into the app
+const migrateLegacyStore = (target: Store<StoreSchema>) => {
+    const legacyPath = path.join(app.getPath('userData'), 'whoap-session.json');
+    if (!fs.existsSync(legacyPath)) return;
+
+    try {
+        const legacy = new Store<any>({ name: 'whoap-session', encryptionKey: 'whoap-secure-key-2026' });
+        const accounts: StoredSession[] = legacy.get('accounts') || [];
+        const session: StoredSession | null = legacy.get('session');
+        if (session && !accounts.some(a => a.uuid === session.uuid)) accounts.push(session);
+
+        const known = new Set(target.get('accounts').map(a => a.uuid));
+        target.set('accounts', [...target.get('accounts'), ...accounts.filter(a => !known.has(a.uuid)).map(toRecord)]);
+        const activeUuid = legacy.get('activeUuid') || session?.uuid;
+        if (activeUuid && !target.get('activeUuid')) target.set('activeUuid', activeUuid);
+
+        fs.unlinkSync(legacyPath);
+        console.log(`[SessionStore] Migrated ${accounts.length} account(s) to keychain-backed storage`);
+    } catch (e) {
+        console.error('[SessionStore] Failed to migrate saved accounts', e);
+    }
+};
+
+// Opened on first use: safeStorage only works once the app is ready
+const getStore = (): Store<StoreSchema> => {
+    if (!store) {
+        store = new Store<StoreSchema>({
+            name: 'whoap-accounts',
+            defaults: {
+                accounts: [],
+                activeUuid: null
+            }
+        });
+        migrateLegacyStore(store);
     }
-});
+    return store;
+};
 
 export const SessionStore = {
+    /** Adds the account, or updates the one with the same uuid, and makes it active. */
     save: (session: StoredSession) => {
-        store.set('session', session);
+        SessionStore.upsert(session);
+        getStore().set('activeUuid', session.uuid);
+    },
+
+    /** Adds or merges an account without changing which one is active. */
+    upsert: (session: StoredSession) => {
+        const accounts = getStore().get('accounts');
+        const index = accounts.findIndex(a => a.uuid === session.uuid);
+        if (index !== -1) {
+            accounts[index] = toRecord({ ...fromRecord(accounts[index]), ...session });
+        } else {
+            accounts.push(toRecord(session));
+        }
+        getStore().set('accounts', accounts);
     },
 
     get: (): StoredSession | null => {
-        return store.get('session');
+        const uuid = getStore().get('activeUuid');
+        return (uuid && SessionStore.getAccount(uuid)) || null;
     },
 
+    // Signs out of the active account; it stays in the list for switching back
     clear: () => {
-        store.delete('session');
+        getStore().set('activeUuid', null);
     },
 
     isValid: (): boolean => {
-        const session = store.get('session');
+        const session = SessionStore.get();
         if (!session) return false;
 
-        if (session.expiresAt && Date.now() > session.expiresAt) {
+        // Credentials that didn't survive a restart (no keyring) or a keyring change
+        if (session.type !== 'offline' && !session.token && !session.refreshToken) {
             return false;
         }
 
+        // Expired Microsoft tokens are refreshed before use
+        if (session.expiresAt && Date.now() > session.expiresAt) {
+            return session.type === 'microsoft' && !!session.refreshToken;
+        }
+
         return true;
+    },
+
+    getAccounts: (): StoredSession[] => {
+        return getStore().get('accounts').map(fromRecord);
+    },
+
+    getAccount: (uuid: string): StoredSession | undefined => {
+        const record = getStore().get('accounts').find(a => a.uuid === uuid);
+        return record && fromRecord(record);
+    },
+
+    update: (uuid: string, data: Partial<StoredSession>) => {
+        const account = SessionStore.getAccount(uuid);
+        if (account) SessionStore.upsert({ ...account, ...data, uuid });
+    },
+
+    setActive: (uuid: string) => {
+        getStore().set('activeUuid', uuid);
+    },
+
+    remove: (uuid: string) => {
+        memoryCredentials.delete(uuid);
+        getStore().set('accounts', getStore().get('accounts').filter(a => a.uuid !== uuid));
+        if (getStore().get('activeUuid') === uuid) getStore().set('activeUuid', null);
+    },
+
+    toPublic: (session: StoredSession): PublicSession => {
+        const { token, refreshToken, ...account } = session;
+        return account;
     }
 };
@@ -3,6 +3,7 @@ import path from 'path';
 import fs from 'fs/promises';
 import { existsSync, readdirSync } from 'fs';
 import { ConfigManager } from './ConfigManager';
+import { LinkedFile } from '../utils/LinkedFile';
 
 export interface ShaderPack {
     name: string;
@@ -63,7 +64,7 @@ export class ShaderPackManager {
 
                     for (const filePath of result.filePaths) {
                         const fileName = path.basename(filePath);
-                        await fs.copyFile(filePath, path.join(packsPath, fileName));
+                        await LinkedFile.copy(filePath, path.join(packsPath, fileName));
                     }
                     return { success: true };
                 }
@@ -88,6 +89,10 @@ export class ShaderPackManager {
                     ? require('fs').readFileSync(configPath, 'utf8')
                     : '{}');
 
+                if (data.gameDir) {
+                    return path.join(data.gameDir, 'shaderpacks');
+                }
+
                 if (data.useExternalPath) {
                     const gamePath = ConfigManager.getGamePath();
                     return path.join(gamePath, 'versions', instanceId, 'shaderpacks');
@@ -0,0 +1,758 @@
+import { ipcMain, BrowserWindow } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync, mkdirSync } from 'fs';
+import { createHash } from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import AdmZip from 'adm-zip';
+import { ConfigManager } from './ConfigManager';
+import { InstanceManager } from './InstanceManager';
+import { LaunchProcess } from '../launcher/LaunchProcess';
+import { LevelDatReader } from '../utils/LevelDatReader';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export type BackupTrigger = 'manual' | 'exit' | 'interval' | 'daily';
+
+export interface WorldBackupPolicy {
+    onExit: boolean;
+    intervalMinutes: number; // While the game is running; 0 disables
+    daily: boolean;
+    keepLast: number;
+    keepDaily: number;
+    keepWeekly: number;
+}
+
+export interface WorldBackup {
+    id: string;
+    format: 'snapshot' | 'zip';
+    worldName: string; // Folder name inside saves/
+    levelName?: string;
+    mcVersion?: string;
+    instanceId: string;
+    instanceName: string;
+    createdAt: number;
+    trigger: BackupTrigger;
+    size: number; // Uncompressed size of the world at backup time
+    addedSize: number; // Bytes this backup actually added to disk
+}
+
+interface SnapshotFile {
+    path: string; // Relative to the world folder, always '/'-separated
+    size: number;
+    mtime: number;
+    chunks: string[];
+}
+
+interface SnapshotManifest extends Omit<WorldBackup, 'instanceName' | 'format'> {
+    files: SnapshotFile[];
+}
+
+const DEFAULT_POLICY: WorldBackupPolicy = {
+    onExit: false,
+    intervalMinutes: 0,
+    daily: false,
+    keepLast: 10,
+    keepDaily: 7,
+    keepWeekly: 4
+};
+
+// Region files are written in 4 KiB sectors, so fixed-size chunks line up with what Minecraft rewrites
+const CHUNK_SIZE = 256 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Incremental world backups.
+ *
+ * Each backup is a manifest listing the world's files as content-addressed chunks
+ * stored once under objects/. Unchanged chunks are shared between snapshots, so
+ * a backup of a large world only costs the regions that changed since the last one.
+ * Older full-zip backups (<id>.zip + <id>.json) are still listed, restored and deleted.
+ */
+export class WorldBackupManager {
+    private inProgress = new Set<string>();
+    private gcPending = false;
+    private gcRunning: Promise<void> | null = null;
+    private intervalTimers = new Map<string, NodeJS.Timeout>();
+    private lastIntervalRun = new Map<string, number>();
+
+    constructor() {
+        this.registerListeners();
+
+        LaunchProcess.events.on('game-started', (instanceId: string) => this.startIntervalTimer(instanceId));
+        LaunchProcess.events.on('game-exited', (instanceId: string) => {
+            this.stopIntervalTimer(instanceId);
+            this.runInstanceBackups(instanceId, 'exit').catch(e => console.error('[Backups] Exit backups failed:', e));
+        });
+
+        // Daily backups catch up on startup, then get checked periodically
+        setTimeout(() => this.runDailyBackups(), 60 * 1000);
+        setInterval(() => this.runDailyBackups(), 15 * 60 * 1000);
+    }
+
+    private registerListeners() {
+        ipcMain.handle('worlds:backup', async (_, instanceId: string, worldId: string) => {
+            return await this.createBackup(instanceId, worldId, 'manual');
+        });
+
+        ipcMain.handle('worlds:list-backups', async () => {
+            try {
+                return await this.listBackups();
+            } catch (error) {
+                console.error('Failed to list backups:', error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('worlds:restore-backup', async (_, backupId: string, newName?: string) => {
+            return await this.restoreBackup(backupId, newName);
+        });
+
+        ipcMain.handle('worlds:delete-backup', async (_, backupId: string) => {
+            return await this.deleteBackup(backupId);
+        });
+
+        ipcMain.handle('worlds:get-backup-policy', async (_, instanceId: string, worldId: string) => {
+            return await this.getPolicy(instanceId, worldId);
+        });
+
+        ipcMain.handle('worlds:set-backup-policy', async (_, instanceId: string, worldId: string, policy: Partial<WorldBackupPolicy>) => {
+            try {
+                await this.setPolicy(instanceId, worldId, policy);
+                if (LaunchProcess.isRunning(instanceId)) {
+                    this.startIntervalTimer(instanceId);
+                }
+                return { success: true };
+            } catch (error) {
+                console.error('Failed to save backup policy:', error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('worlds:backup-stats', async () => {
+            try {
+                return await this.getStats();
+            } catch (error) {
+                console.error('Failed to compute backup stats:', error);
+                return { totalSize: 0, storedSize: 0 };
+            }
+        });
+    }
+
+    // ==================== PATHS ====================
+
+    private getBackupsPath(): string {
+        return path.join(ConfigManager.getDataPath(), 'world-backups');
+    }
+
+    private getSnapshotsPath(): string {
+        return path.join(this.getBackupsPath(), 'snapshots');
+    }
+
+    private getObjectsPath(): string {
+        return path.join(this.getBackupsPath(), 'objects');
+    }
+
+    private getObjectPath(hash: string): string {
+        return path.join(this.getObjectsPath(), hash.slice(0, 2), hash);
+    }
+
+    private ensureDirectories() {
+        for (const dir of [this.getBackupsPath(), this.getSnapshotsPath(), this.getObjectsPath()]) {
+            if (!existsSync(dir)) {
+                mkdirSync(dir, { recursive: true });
+            }
+        }
+    }
+
+    private getWorldPath(instanceId: string, worldId: string): string | null {
+        const instancePath = InstanceManager.getInstance().resolveGameDir(instanceId);
+        return instancePath ? path.join(instancePath, 'saves', worldId) : null;
+    }
+
+    // ==================== BACKUP ====================
+
+    async createBackup(instanceId: string, worldId: string, trigger: BackupTrigger): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+        const key = `${instanceId}/${worldId}`;
+        if (this.inProgress.has(key)) {
+            return { success: false, error: 'A backup of this world is already in progress' };
+        }
+
+        this.inProgress.add(key);
+        try {
+            // No new GC starts while a backup is in progress, but one already sweeping could delete
+            // objects this backup is about to reuse
+            if (this.gcRunning) await this.gcRunning.catch(() => { });
+
+            const worldPath = this.getWorldPath(instanceId, worldId);
+            if (!worldPath || !existsSync(worldPath)) {
+                return { success: false, error: 'World not found' };
+            }
+
+            this.ensureDirectories();
+            const previous = (await this.loadManifests())
+                .filter(m => m.instanceId === instanceId && m.worldName === worldId)
+                .sort((a, b) => b.createdAt - a.createdAt)[0];
+            const previousFiles = new Map((previous?.files || []).map(f => [f.path, f]));
+
+            const files: SnapshotFile[] = [];
+            let size = 0;
+            let addedSize = 0;
+            let changed = !previous || previous.files.length === 0;
+
+            for (const relPath of await this.walk(worldPath)) {
+                // session.lock is held open by a running game and is meaningless in a backup
+                if (relPath === 'session.lock') continue;
+
+                const absPath = path.join(worldPath, ...relPath.split('/'));
+                const stats = await fs.stat(absPath);
+                const prev = previousFiles.get(relPath);
+                size += stats.size;
+
+                if (prev && prev.size === stats.size && prev.mtime === stats.mtimeMs) {
+                    files.push(prev);
+                    continue;
+                }
+
+                const stored = await this.storeFile(absPath);
+                addedSize += stored.addedSize;
+                files.push({ path: relPath, size: stats.size, mtime: stats.mtimeMs, chunks: stored.chunks });
+                if (!prev || prev.chunks.join() !== stored.chunks.join()) {
+                    changed = true;
+                }
+            }
+            if (previous && files.length !== previous.files.length) {
+                changed = true;
+            }
+
+            // Automatic backups of a world nobody touched would only clutter the timeline
+            if (!changed && trigger !== 'manual') {
+                console.log(`[Backups] ${key} unchanged since last backup, skipping ${trigger} backup`);
+                return { success: true, skipped: true };
+            }
+
+            let levelName: string | undefined;
+            let mcVersion: string | undefined;
+            try {
+                const level = await LevelDatReader.read(worldPath);
+                levelName = level.levelName || undefined;
+                mcVersion = level.mcVersion;
+            } catch (e) {
+                console.warn(`[Backups] Could not read level.dat for ${key}:`, e);
+            }
+
+            const createdAt = Date.now();
+            const manifest: SnapshotManifest = {
+                id: `${instanceId}_${worldId}_${createdAt}`,
+                worldName: worldId,
+                levelName,
+                mcVersion,
+                instanceId,
+                createdAt,
+                trigger,
+                size,
+                addedSize,
+                files
+            };
+            await fs.writeFile(path.join(this.getSnapshotsPath(), `${manifest.id}.json`), JSON.stringify(manifest));
+            console.log(`[Backups] ${trigger} backup of ${key}: ${files.length} files, ${addedSize} new bytes`);
+
+            if (trigger !== 'manual') {
+                await this.applyRetention(instanceId, worldId);
+            }
+
+            this.notifyChanged();
+            return { success: true };
+        } catch (error) {
+            console.error('Failed to backup world:', error);
+            return { success: false, error: String(error) };
+        } finally {
+            this.inProgress.delete(key);
+            if (this.gcPending && this.inProgress.size === 0) {
+                this.collectGarbage().catch(e => console.error('[Backups] GC failed:', e));
+            }
+        }
+    }
+
+    /**
+     * Splits a file into fixed-size chunks and stores any chunk not already in objects/.
+     */
+    private async storeFile(filePath: string): Promise<{ chunks: string[]; addedSize: number }> {
+        const chunks: string[] = [];
+        let addedSize = 0;
+        const handle = await fs.open(filePath, 'r');
+
+        try {
+            const buffer = Buffer.alloc(CHUNK_SIZE);
+            for (;;) {
+                const { bytesRead } = await handle.read(buffer, 0, CHUNK_SIZE, null);
+                if (bytesRead === 0) break;
+
+                const data = buffer.subarray(0, bytesRead);
+                const hash = createHash('sha256').update(data).digest('hex');
+                chunks.push(hash);
+
+                const objectPath = this.getObjectPath(hash);
+                if (!existsSync(objectPath)) {
+                    const compressed = await gzip(data);
+                    await fs.mkdir(path.dirname(objectPath), { recursive: true });
+                    // Write then rename so an interrupted backup never leaves a truncated object behind
+                    const tmpPath = `${objectPath}.tmp`;
+                    await fs.writeFile(tmpPath, compressed);
+                    await fs.rename(tmpPath, objectPath);
+                    addedSize += compressed.length;
+                }
+            }
+        } finally {
+            await handle.close();
+        }
+
+        return { chunks, addedSize };
+    }
+
+    private async walk(dir: string, prefix = ''): Promise<string[]> {
+        const result: string[] = [];
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+            const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                result.push(...await this.walk(path.join(dir, entry.name), relPath));
+            } else if (entry.isFile()) {
+                result.push(relPath);
+            }
+        }
+        return result;
+    }
+
+    // ==================== LISTING ====================
+
+    private async loadManifests(): Promise<SnapshotManifest[]> {
+        const snapshotsPath = this.getSnapshotsPath();
+        if (!existsSync(snapshotsPath)) return [];
+
+        const manifests: SnapshotManifest[] = [];
+        for (const file of await fs.readdir(snapshotsPath)) {
+            if (!file.endsWith('.json')) continue;
+            try {
+                manifests.push(JSON.parse(await fs.readFile(path.join(snapshotsPath, file), 'utf-8')));
+            } catch (e) {
+                console.warn(`[Backups] Skipping unreadable manifest ${file}:`, e);
+            }
+        }
+        return manifests;
+    }
+
+    private async loadLegacyBackups(): Promise<any[]> {
+        const backupsPath = this.getBackupsPath();
+        if (!existsSync(backupsPath)) return [];
+
+        const backups: any[] = [];
+        const entries = await fs.readdir(backupsPath, { withFileTypes: true });
+        for (const entry of entries) {
+            if (entry.isFile() && entry.name.endsWith('.json') && entry.name !== 'policies.json') {
+                try {
+                    backups.push(JSON.parse(await fs.readFile(path.join(backupsPath, entry.name), 'utf-8')));
+                } catch (e) {
+                    console.warn('Failed to read backup metadata:', e);
+                }
+            }
+        }
+        return backups;
+    }
+
+    async listBackups(): Promise<WorldBackup[]> {
+        const instances = await InstanceManager.getInstance().getInstances();
+        const nameOf = (id: string) => instances.find(i => i.id === id)?.name || id;
+
+        const snapshots: WorldBackup[] = (await this.loadManifests()).map(({ files, ...meta }) => ({
+            ...meta,
+            format: 'snapshot',
+            instanceName: nameOf(meta.instanceId)
+        }));
+
+        const legacy: WorldBackup[] = (await this.loadLegacyBackups()).map(meta => ({
+            id: meta.id,
+            format: 'zip',
+            worldName: meta.worldName,
+            instanceId: meta.instanceId,
+            instanceName: nameOf(meta.instanceId),
+            createdAt: meta.createdAt,
+            trigger: 'manual',
+            size: meta.size,
+            addedSize: meta.size
+        }));
+
+        return [...snapshots, ...legacy].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    async getStats(): Promise<{ totalSize: number; storedSize: number }> {
+        const backups = await this.listBackups();
+        const totalSize = backups.reduce((sum, b) => sum + b.size, 0);
+
+        let storedSize = backups.filter(b => b.format === 'zip').reduce((sum, b) => sum + b.size, 0);
+        const objectsPath = this.getObjectsPath();
+        if (existsSync(objectsPath)) {
+            for (const relPath of await this.walk(objectsPath)) {
+                storedSize += (await fs.stat(path.join(objectsPath, relPath))).size;
+            }
+        }
+
+        return { totalSize, storedSize };
+    }
+
+    // ==================== RESTORE / DELETE ====================
+
+    /**
+     * Restores a backup. Without a name the original world is replaced (the current copy is
+     * renamed aside first); with a name the backup becomes a new world next to it.
+     */
+    async restoreBackup(backupId: string, newName?: string): Promise<{ success: boolean; worldId?: string; error?: string }> {
+        try {
+            if (!this.isValidBackupId(backupId)) {
+                return { success: false, error: 'Invalid backup id' };
+            }
+            const manifestPath = path.join(this.getSnapshotsPath(), `${backupId}.json`);
+            const legacyMetaPath = path.join(this.getBackupsPath(), `${backupId}.json`);
+            const legacyZipPath = path.join(this.getBackupsPath(), `${backupId}.zip`);
+
+            let manifest: SnapshotManifest | null = null;
+            let meta: { instanceId: string; worldName: string };
+            if (existsSync(manifestPath)) {
+                manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+                meta = manifest!;
+            } else if (existsSync(legacyMetaPath) && existsSync(legacyZipPath)) {
+                meta = JSON.parse(await fs.readFile(legacyMetaPath, 'utf-8'));
+            } else {
+                return { success: false, error: 'Backup not found' };
+            }
+
+            const instancePath = InstanceManager.getInstance().resolveGameDir(meta.instanceId);
+            if (!instancePath) {
+                return { success: false, error: 'Instance not found' };
+            }
+
+            const savesPath = path.join(instancePath, 'saves');
+            if (!existsSync(savesPath)) {
+                await fs.mkdir(savesPath, { recursive: true });
+            }
+
+            let worldId = meta.worldName;
+            if (newName !== undefined) {
+                worldId = newName.trim().replace(/[\\/:*?"<>|]/g, '_').replace(/^\.+/, '');
+                if (!worldId) {
+                    return { success: false, error: 'Invalid world name' };
+                }
+                if (existsSync(path.join(savesPath, worldId))) {
+                    return { success: false, error: `A world folder named "${worldId}" already exists` };
+                }
+            } else {
+                if (LaunchProcess.isRunning(meta.instanceId)) {
+                    return { success: false, error: 'Close the game before overwriting a world it may have open' };
+                }
+                const currentPath = path.join(savesPath, worldId);
+                if (existsSync(currentPath)) {
+                    await fs.rename(currentPath, path.join(savesPath, `${worldId}_backup_${Date.now()}`));
+                }
+            }
+
+            const worldPath = path.join(savesPath, worldId);
+            if (manifest) {
+                await this.restoreSnapshot(manifest, worldPath);
+            } else {
+                new AdmZip(legacyZipPath).extractAllTo(worldPath, true);
+            }
+
+            if (newName !== undefined) {
+                try {
+                    await this.setLevelName(worldPath, newName.trim());
+                } catch (e) {
+                    console.warn('[Backups] Restored world but could not rename it in level.dat:', e);
+                }
+            }
+
+            return { success: true, worldId };
+        } catch (error) {
+            console.error('Failed to restore backup:', error);
+            return { success: false, error: String(error) };
+        }
+    }
+
+    private async restoreSnapshot(manifest: SnapshotManifest, worldPath: string) {
+        for (const file of manifest.files) {
+            const target = path.join(worldPath, ...file.path.split('/'));
+            await fs.mkdir(path.dirname(target), { recursive: true });
+
+            const handle = await fs.open(target, 'w');
+            try {
+                for (const hash of file.chunks) {
+                    const data = await gunzip(await fs.readFile(this.getObjectPath(hash)));
+                    await handle.write(data);
+                }
+            } finally {
+                await handle.close();
+            }
+        }
+    }
+
+    /**
+     * Rewrites the LevelName string in level.dat in place so a restored copy
+     * doesn't show up in-game with the same name as the original.
+     */
+    private async setLevelName(worldPath: string, name: string) {
+        const levelDatPath = path.join(worldPath, 'level.dat');
+        const data = await gunzip(await fs.readFile(levelDatPath));
+
+        const tagName = Buffer.from('LevelName');
+        const header = Buffer.concat([Buffer.from([8, 0, tagName.length]), tagName]);
+        const at = data.indexOf(header);
+        if (at < 0) throw new Error('LevelName tag not found');
+
+        const valueStart = at + header.length;
+        const oldLength = data.readUInt16BE(valueStart);
+        const value = Buffer.from(name, 'utf8');
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(value.length);
+
+        const patched = Buffer.concat([
+            data.subarray(0, valueStart),
+            length,
+            value,
+            data.subarray(valueStart + 2 + oldLength)
+        ]);
+        await fs.writeFile(levelDatPath, await gzip(patched));
+    }
+
+    async deleteBackup(backupId: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            if (!this.isValidBackupId(backupId)) {
+                return { success: false, error: 'Invalid backup id' };
+            }
+            const manifestPath = path.join(this.getSnapshotsPath(), `${backupId}.json`);
+            const legacyMetaPath = path.join(this.getBackupsPath(), `${backupId}.json`);
+            const legacyZipPath = path.join(this.getBackupsPath(), `${backupId}.zip`);
+
+            for (const file of [manifestPath, legacyMetaPath, legacyZipPath]) {
+                if (existsSync(file)) {
+                    await fs.unlink(file);
+                }
+            }
+
+            await this.collectGarbage();
+            return { success: true };
+        } catch (error) {
+            console.error('Failed to delete backup:', error);
+            return { success: false, error: String(error) };
+        }
+    }
+
+    /**
+     * Removes chunk objects no longer referenced by any manifest.
+     * Deferred while a backup is writing objects that aren't in a manifest yet; backups that start
+     * during a sweep wait for it to finish (see createBackup).
+     */
+    private collectGarbage(): Promise<void> {
+        if (this.inProgress.size > 0 || this.gcRunning) {
+            this.gcPending = true;
+            return this.gcRunning || Promise.resolve();
+        }
+        this.gcPending = false;
+
+        this.gcRunning = this.sweepObjects().finally(() => {
+            this.gcRunning = null;
+            if (this.gcPending && this.inProgress.size === 0) {
+                this.collectGarbage().catch(e => console.error('[Backups] GC failed:', e));
+            }
+        });
+        return this.gcRunning;
+    }
+
+    private async sweepObjects() {
+        const objectsPath = this.getObjectsPath();
+        if (!existsSync(objectsPath)) return;
+
+        const referenced = new Set<string>();
+        for (const manifest of await this.loadManifests()) {
+            for (const file of manifest.files) {
+                file.chunks.forEach(hash => referenced.add(hash));
+            }
+        }
+
+        let removed = 0;
+        for (const relPath of await this.walk(objectsPath)) {
+            if (!referenced.has(path.basename(relPath))) {
+                await fs.unlink(path.join(objectsPath, relPath));
+                removed++;
+            }
+        }
+        if (removed > 0) {
+            console.log(`[Backups] GC removed ${removed} unreferenced chunks`);
+        }
+    }
+
+    // Backup ids come from the renderer and are used as file names
+    private isValidBackupId(backupId: string): boolean {
+        return typeof backupId === 'string' && /^[^\\/]+$/.test(backupId) && backupId !== '.' && backupId !== '..';
+    }
+
+    // ==================== POLICIES & SCHEDULING ====================
+
+    private getPoliciesPath(): string {
+        return path.join(this.getBackupsPath(), 'policies.json');
+    }
+
+    private async loadPolicies(): Promise<Record<string, Partial<WorldBackupPolicy>>> {
+        try {
+            if (existsSync(this.getPoliciesPath())) {
+                return JSON.parse(await fs.readFile(this.getPoliciesPath(), 'utf-8'));
+            }
+        } catch (e) {
+            console.warn('[Backups] Failed to read backup policies:', e);
+        }
+        return {};
+    }
+
+    async getPolicy(instanceId: string, worldId: string): Promise<WorldBackupPolicy> {
+        const policies = await this.loadPolicies();
+        return { ...DEFAULT_POLICY, ...(policies[`${instanceId}/${worldId}`] || {}) };
+    }
+
+    async setPolicy(instanceId: string, worldId: string, policy: Partial<WorldBackupPolicy>) {
+        this.ensureDirectories();
+        const policies = await this.loadPolicies();
+        const merged = { ...DEFAULT_POLICY, ...(policies[`${instanceId}/${worldId}`] || {}), ...policy };
+
+        for (const key of ['intervalMinutes', 'keepLast', 'keepDaily', 'keepWeekly'] as const) {
+            merged[key] = Math.max(0, Math.floor(Number(merged[key]) || 0));
+        }
+
+        policies[`${instanceId}/${worldId}`] = merged;
+        await fs.writeFile(this.getPoliciesPath(), JSON.stringify(policies, null, 4));
+    }
+
+    /**
+     * Keeps every manual backup, plus the newest N automatic backups and the newest
+     * automatic backup of each of the last N days and N weeks. All zeros keeps everything.
+     */
+    private async applyRetention(instanceId: string, worldId: string) {
+        const policy = await this.getPolicy(instanceId, worldId);
+        if (policy.keepLast + policy.keepDaily + policy.keepWeekly === 0) return;
+
+        const automatic = (await this.loadManifests())
+            .filter(m => m.instanceId === instanceId && m.worldName === worldId && m.trigger !== 'manual')
+            .sort((a, b) => b.createdAt - a.createdAt);
+
+        const keep = new Set(automatic.slice(0, policy.keepLast).map(m => m.id));
+        const keepNewestPer = (bucket: (date: Date) => string, count: number) => {
+            const seen = new Set<string>();
+            for (const manifest of automatic) {
+                if (seen.size >= count) break;
+                const key = bucket(new Date(manifest.createdAt));
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    keep.add(manifest.id);
+                }
+            }
+        };
+        keepNewestPer(d => d.toDateString(), policy.keepDaily);
+        keepNewestPer(d => {
+            // Week starting Monday, local time
+            const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7));
+            return monday.toDateString();
+        }, policy.keepWeekly);
+
+        const expired = automatic.filter(m => !keep.has(m.id));
+        for (const manifest of expired) {
+            await fs.unlink(path.join(this.getSnapshotsPath(), `${manifest.id}.json`));
+        }
+        if (expired.length > 0) {
+            console.log(`[Backups] Retention removed ${expired.length} backups of ${instanceId}/${worldId}`);
+            await this.collectGarbage();
+        }
+    }
+
+    private async listWorldIds(instanceId: string): Promise<string[]> {
+        const instancePath = InstanceManager.getInstance().resolveGameDir(instanceId);
+        if (!instancePath) return [];
+
+        const savesPath = path.join(instancePath, 'saves');
+        if (!existsSync(savesPath)) return [];
+
+        const entries = await fs.readdir(savesPath, { withFileTypes: true });
+        return entries
+            .filter(e => e.isDirectory() && existsSync(path.join(savesPath, e.name, 'level.dat')))
+            .map(e => e.name);
+    }
+
+    private async runInstanceBackups(instanceId: string, trigger: 'exit' | 'interval') {
+        const now = Date.now();
+        for (const worldId of await this.listWorldIds(instanceId)) {
+            const policy = await this.getPolicy(instanceId, worldId);
+            const key = `${instanceId}/${worldId}`;
+
+            if (trigger === 'exit' && !policy.onExit) continue;
+            if (trigger === 'interval') {
+                if (policy.intervalMinutes <= 0) continue;
+                const last = this.lastIntervalRun.get(key) || now;
+                if (!this.lastIntervalRun.has(key)) this.lastIntervalRun.set(key, now);
+                if (now - last < policy.intervalMinutes * 60 * 1000) continue;
+                this.lastIntervalRun.set(key, now);
+            }
+
+            await this.createBackup(instanceId, worldId, trigger);
+        }
+    }
+
+    private startIntervalTimer(instanceId: string) {
+        this.stopIntervalTimer(instanceId);
+        // Ticks every minute; each world decides from its own interval whether it's due
+        this.intervalTimers.set(instanceId, setInterval(() => {
+            this.runInstanceBackups(instanceId, 'interval').catch(e => console.error('[Backups] Interval backups failed:', e));
+        }, 60 * 1000));
+    }
+
+    private stopIntervalTimer(instanceId: string) {
+        const timer = this.intervalTimers.get(instanceId);
+        if (timer) {
+            clearInterval(timer);
+            this.intervalTimers.delete(instanceId);
+        }
+        for (const key of Array.from(this.lastIntervalRun.keys())) {
+            if (key.startsWith(`${instanceId}/`)) this.lastIntervalRun.delete(key);
+        }
+    }
+
+    private async runDailyBackups() {
+        try {
+            const policies = await this.loadPolicies();
+            const manifests = await this.loadManifests();
+
+            for (const [key, policy] of Object.entries(policies)) {
+                if (!policy.daily) continue;
+                const [instanceId, ...rest] = key.split('/');
+                const worldId = rest.join('/');
+
+                const worldPath = this.getWorldPath(instanceId, worldId);
+                if (!worldPath || !existsSync(worldPath)) continue;
+
+                const latest = manifests
+                    .filter(m => m.instanceId === instanceId && m.worldName === worldId)
+                    .reduce((max, m) => Math.max(max, m.createdAt), 0);
+                if (Date.now() - latest >= DAY_MS) {
+                    await this.createBackup(instanceId, worldId, 'daily');
+                }
+            }
+        } catch (e) {
+            console.error('[Backups] Daily backups failed:', e);
+        }
+    }
+
+    private notifyChanged() {
+        for (const win of BrowserWindow.getAllWindows()) {
+            if (!win.isDestroyed()) {
+                win.webContents.send('worlds:backups-changed');
+            }
+        }
+    }
+}
@@ -0,0 +1,185 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import axios from 'axios';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ConfigManager } from '../managers/ConfigManager';
+import { LinkedFile } from './LinkedFile';
+
+const GC_GRACE_MS = 10 * 60 * 1000;
+const SHARED_FOLDERS = ['mods', 'resourcepacks', 'shaderpacks'];
+
+export interface StoreStats {
+    files: number;
+    size: number; // Bytes on disk for the store itself
+    saved: number; // Bytes instances would use on top of that without sharing
+}
+
+/**
+ * Content-addressed store for mods, resource packs and shaders, keyed by SHA-1 under
+ * `<data>/store/ab/abcdef...`. Instances get hard links to the stored file, so a jar used by
+ * ten instances is on disk once. Where hard links aren't possible (another drive, FAT32) the
+ * file is copied instead and the store copy is reclaimed by the next garbage collection.
+ */
+export class ContentStore {
+    static getStorePath(): string {
+        return path.join(ConfigManager.getDataPath(), 'store');
+    }
+
+    /**
+     * Put the file at `url` into the instance at `destPath`, reusing the stored copy when `sha1`
+     * is already known. Without a hash the file is always downloaded, then stored by the hash
+     * computed on the way in.
+     */
+    static async install(url: string, destPath: string, sha1?: string): Promise<void> {
+        const stored = sha1 ? await this.find(sha1) : null;
+        try {
+            await LinkedFile.link(stored || await this.download(url, sha1), destPath);
+        } catch (e: any) {
+            // Garbage collection can remove an unreferenced file between the lookup and the link
+            if (!stored || e.code !== 'ENOENT') throw e;
+            await LinkedFile.link(await this.download(url, sha1), destPath);
+        }
+    }
+
+    /** Whether a file at `relPath` inside an instance belongs in the store (configs and the like don't). */
+    static isShared(relPath: string): boolean {
+        return SHARED_FOLDERS.includes(relPath.split(/[\\/]/)[0]);
+    }
+
+    /** Path of the stored file for `sha1`, or null if it isn't in the store. */
+    static async find(sha1: string): Promise<string | null> {
+        const storePath = this.pathFor(sha1);
+        try {
+            await fs.access(storePath);
+            return storePath;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Drops the stored copy of `sha1` if its contents no longer match. Hard-linked instances share
+     * the stored bytes, so a corrupt mod has to leave the store before it can be reinstalled.
+     */
+    static async discardIfCorrupt(sha1: string): Promise<void> {
+        const stored = await this.find(sha1);
+        if (stored && await this.hashFile(stored) !== sha1.toLowerCase()) {
+            console.warn(`[ContentStore] Stored file ${sha1} is corrupt, discarding it`);
+            await fs.rm(stored, { force: true });
+        }
+    }
+
+    /**
+     * Removes stored files no instance links to any more. A stored file's link count is the
+     * number of instances using it plus one, so anything at one is unreferenced.
+     */
+    static async collectGarbage(): Promise<{ removed: number; freed: number }> {
+        let removed = 0;
+        let freed = 0;
+        for (const filePath of await this.listStoredFiles()) {
+            try {
+                const stats = await fs.stat(filePath);
+                // Recently stored files may be about to be linked by an install that's still running
+                if (stats.nlink <= 1 && Date.now() - stats.mtimeMs > GC_GRACE_MS) {
+                    await fs.rm(filePath, { force: true });
+                    removed++;
+                    freed += stats.size;
+                }
+            } catch {
+                // Removed by someone else in the meantime
+            }
+        }
+        if (removed > 0) console.log(`[ContentStore] Collected ${removed} unused files (${freed} bytes)`);
+        return { removed, freed };
+    }
+
+    static async getStats(): Promise<StoreStats> {
+        const stats: StoreStats = { files: 0, size: 0, saved: 0 };
+        for (const filePath of await this.listStoredFiles()) {
+            try {
+                const { size, nlink } = await fs.stat(filePath);
+                stats.files++;
+                stats.size += size;
+                // One link is the store's own; each instance after the first is a copy we didn't make
+                if (nlink > 2) stats.saved += size * (nlink - 2);
+            } catch {
+                // Ignore files that vanish while scanning
+            }
+        }
+        return stats;
+    }
+
+    private static async download(url: string, expectedSha1?: string): Promise<string> {
+        const tmpDir = path.join(this.getStorePath(), 'tmp');
+        await fs.mkdir(tmpDir, { recursive: true });
+        const tmpPath = path.join(tmpDir, crypto.randomBytes(8).toString('hex'));
+
+        try {
+            const hash = crypto.createHash('sha1');
+            const hasher = new Transform({
+                transform(chunk, _encoding, callback) {
+                    hash.update(chunk);
+                    callback(null, chunk);
+                }
+            });
+            const response = await axios.get(url, { responseType: 'stream', headers: { 'User-Agent': 'WhoapLauncher/1.0' } });
+            await pipeline(response.data, hasher, createWriteStream(tmpPath));
+
+            const sha1 = hash.digest('hex');
+            if (expectedSha1 && sha1 !== expectedSha1.toLowerCase()) {
+                throw new Error(`Hash mismatch for ${path.basename(new URL(url).pathname)}`);
+            }
+
+            // Keep an existing copy: replacing it would detach the instances already linked to it
+            const existing = await this.find(sha1);
+            if (existing) return existing;
+
+            const storePath = this.pathFor(sha1);
+            await fs.mkdir(path.dirname(storePath), { recursive: true });
+            await fs.rename(tmpPath, storePath);
+            return storePath;
+        } finally {
+            await fs.rm(tmpPath, { force: true });
+        }
+    }
+
+    private static hashFile(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = crypto.createHash('sha1');
+            createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+    }
+
+    private static pathFor(sha1: string): string {
+        const hash = sha1.toLowerCase();
+        return path.join(this.getStorePath(), hash.slice(0, 2), hash);
+    }
+
+    private static async listStoredFiles(): Promise<string[]> {
+        const root = this.getStorePath();
+        const files: string[] = [];
+        let buckets: string[];
+        try {
+            buckets = await fs.readdir(root);
+        } catch {
+            return files;
+        }
+        for (const bucket of buckets) {
+            if (bucket === 'tmp') continue;
+            try {
+                for (const name of await fs.readdir(path.join(root, bucket))) {
+                    files.push(path.join(root, bucket, name));
+                }
+            } catch {
+                // Not a directory
+            }
+        }
+        return files;
+    }
+}
@@ -0,0 +1,365 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { ConfigManager } from '../managers/ConfigManager';
+import { ModMetadataManager } from '../managers/ModMetadataManager';
+import { ModPlatformManager } from '../managers/ModPlatformManager';
+import { CurseForgeApi } from '../api/CurseForgeApi';
+import { ContentStore } from './ContentStore';
+import { VersionManager } from '../launcher/VersionManager';
+import { JavaManager } from '../launcher/JavaManager';
+import { AssetDownloader, DownloadTask } from '../launcher/AssetDownloader';
+import { LaunchProcess } from '../launcher/LaunchProcess';
+
+export type VerifyCategory = 'client' | 'library' | 'native' | 'asset' | 'java' | 'mod';
+
+export interface VerifyIssue {
+    category: VerifyCategory;
+    name: string;
+    path: string;
+    problem: 'missing' | 'corrupt';
+    repairable: boolean; // False when there is nothing to download it from (custom jars, user-picked Java, local mods)
+}
+
+export interface VerifyReport {
+    instanceId: string;
+    versionId: string;
+    checked: Record<VerifyCategory, number>;
+    issues: VerifyIssue[];
+    verifiedAt: number;
+}
+
+export interface RepairResult {
+    repaired: number;
+    failed: { name: string; error: string }[];
+}
+
+type ProgressCallback = (status: string, current: number, total: number) => void;
+
+/** What the last verification found broken, so a repair doesn't have to hash everything again. */
+interface RepairPlan {
+    downloads: { task: DownloadTask; name: string }[];
+    natives: { path: string; exclude: string[] }[];
+    nativesDir: string;
+    java?: { major: string; component?: string };
+    mods: { name: string; path: string; sha1: string; source?: string; projectId: string; versionId: string }[];
+}
+
+const CONTENT_FOLDERS = ['mods', 'resourcepacks', 'shaderpacks'] as const;
+
+/**
+ * Checks an instance's files against the hashes the launcher knows for them (version JSON,
+ * asset index, mod metadata) and redownloads the ones that are missing or corrupt.
+ * Launching only checks that files exist; this reads every byte.
+ */
+export class InstanceVerifier {
+    private static plans = new Map<string, RepairPlan>();
+
+    static async verify(instanceId: string, onProgress?: ProgressCallback): Promise<VerifyReport> {
+        const gamePath = ConfigManager.getGamePath();
+        const instanceRootPath = path.join(ConfigManager.getInstancesPath(), instanceId);
+        const isNativeInstance = existsSync(instanceRootPath);
+
+        let instanceConfig: any = null;
+        if (isNativeInstance) {
+            try {
+                instanceConfig = JSON.parse(await fs.readFile(path.join(instanceRootPath, 'instance.json'), 'utf-8'));
+            } catch {
+                // Imported versions have no instance.json of their own
+            }
+        }
+        const versionId: string = instanceConfig?.launchVersionId || instanceConfig?.version || instanceId;
+
+        // Same folder choice as LaunchProcess
+        const versionFolder = path.join(gamePath, 'versions', versionId);
+        const instancePath = instanceConfig?.gameDir && existsSync(instanceConfig.gameDir)
+            ? instanceConfig.gameDir
+            : isNativeInstance
+                ? (instanceConfig?.useExternalPath ? versionFolder : instanceRootPath)
+                : (existsSync(path.join(versionFolder, 'mods')) || existsSync(path.join(versionFolder, 'config')) ? versionFolder : gamePath);
+        const nativesDir = isNativeInstance
+            ? path.join(instancePath, 'natives')
+            : path.join(versionFolder, 'natives');
+
+        onProgress?.('Reading version data...', 0, 0);
+        const versionData = await VersionManager.loadVersionData(versionId, gamePath, instanceConfig?.customVersionJson);
+
+        const report: VerifyReport = {
+            instanceId,
+            versionId,
+            checked: { client: 0, library: 0, native: 0, asset: 0, java: 0, mod: 0 },
+            issues: [],
+            verifiedAt: Date.now()
+        };
+        const plan: RepairPlan = { downloads: [], natives: [], nativesDir, mods: [] };
+
+        // Hash-checks one downloadable file and queues it for repair if it's broken
+        const checkFile = async (category: VerifyCategory, name: string, task: Partial<DownloadTask> & { destination: string }) => {
+            report.checked[category]++;
+            const problem = await this.checkFile(task.destination, task.sha1);
+            if (!problem) return false;
+
+            report.issues.push({ category, name, path: task.destination, problem, repairable: !!task.url });
+            if (task.url) plan.downloads.push({ task: task as DownloadTask, name });
+            return true;
+        };
+
+        // 1. Client jar
+        onProgress?.('Checking client jar...', 0, 0);
+        if (instanceConfig?.customClientJar) {
+            await checkFile('client', path.basename(instanceConfig.customClientJar), { destination: instanceConfig.customClientJar });
+        } else {
+            const client = versionData.downloads?.client;
+            const sharedJarPath = path.join(versionFolder, `${versionId}.jar`);
+            const instanceJarPath = path.join(instanceRootPath, 'client.jar');
+            const useShared = (!isNativeInstance || !client?.url) && existsSync(sharedJarPath);
+
+            // Jars in the versions folder of a modded version may be patched, so they can't be held to the vanilla hash
+            const trustHash = !useShared || !versionData.inheritsFrom;
+            await checkFile('client', `${versionId}.jar`, {
+                url: client?.url,
+                destination: useShared ? sharedJarPath : instanceJarPath,
+                sha1: trustHash ? client?.sha1 : undefined,
+                size: client?.size,
+                priority: 10
+            });
+        }
+
+        // 2. Libraries and natives
+        const libraries = VersionManager.resolveLibraries(versionData, path.join(gamePath, 'libraries'), nativesDir);
+        for (let i = 0; i < libraries.length; i++) {
+            const lib = libraries[i];
+            onProgress?.(`Checking libraries... ${i + 1}/${libraries.length}`, i + 1, libraries.length);
+            const broken = await checkFile(lib.native ? 'native' : 'library', lib.name, {
+                url: lib.url,
+                destination: lib.path,
+                sha1: lib.sha1,
+                size: lib.size
+            });
+            if (broken && lib.native && lib.url) plan.natives.push({ path: lib.path, exclude: lib.extractExclude });
+        }
+
+        // 3. Assets
+        const assetsDir = path.join(gamePath, 'assets');
+        const assetIndexId = versionData.assetIndex?.id || versionData.assets || 'legacy';
+        const assetIndexPath = path.join(assetsDir, 'indexes', `${assetIndexId}.json`);
+        const indexBroken = await checkFile('asset', `indexes/${assetIndexId}.json`, {
+            url: versionData.assetIndex?.url,
+            destination: assetIndexPath,
+            sha1: versionData.assetIndex?.sha1,
+            size: versionData.assetIndex?.size,
+            priority: 15
+        });
+
+        // A broken index can't be trusted to list the objects; the next launch checks them once it's back
+        if (!indexBroken) {
+            try {
+                const objects: Record<string, { hash: string; size: number }> =
+                    JSON.parse(await fs.readFile(assetIndexPath, 'utf-8')).objects || {};
+                const entries = Object.entries(objects);
+                for (let i = 0; i < entries.length; i++) {
+                    const [name, { hash, size }] = entries[i];
+                    if (i % 100 === 0) onProgress?.(`Checking assets... ${i}/${entries.length}`, i, entries.length);
+                    await checkFile('asset', name, {
+                        url: `https://resources.download.minecraft.net/${hash.substring(0, 2)}/${hash}`,
+                        destination: path.join(assetsDir, 'objects', hash.substring(0, 2), hash),
+                        sha1: hash,
+                        size,
+                        priority: 5
+                    });
+                }
+            } catch (e) {
+                console.warn('[Verify] Could not read asset index:', e);
+            }
+        }
+
+        // 4. Java runtime
+        onProgress?.('Checking Java...', 0, 0);
+        const javaVersion = VersionManager.getRequiredJavaVersion(versionData, versionId);
+        const configJavaPath = ConfigManager.getJavaPath(javaVersion);
+        const customJava = instanceConfig?.javaPath || (configJavaPath && configJavaPath !== 'auto' ? configJavaPath : null);
+        report.checked.java++;
+        if (customJava) {
+            if (!existsSync(customJava)) {
+                report.issues.push({ category: 'java', name: `Java ${javaVersion}`, path: customJava, problem: 'missing', repairable: false });
+            }
+        } else {
+            // A runtime that was never downloaded isn't broken: launching finds or installs one
+            const component = versionData.javaVersion?.component;
+            const { status, runtime } = await new JavaManager().checkRuntime(javaVersion, component);
+            if (status === 'broken') {
+                report.issues.push({
+                    category: 'java',
+                    name: `Java ${runtime!.version || javaVersion}`,
+                    path: path.join(ConfigManager.getRuntimesPath(), runtime!.id),
+                    problem: 'corrupt',
+                    repairable: true
+                });
+                plan.java = { major: javaVersion, component };
+            }
+        }
+
+        // 5. Mods, resource packs and shaders with a recorded hash
+        if (isNativeInstance) {
+            const metadata = await ModMetadataManager.getAllMetadata(instanceId);
+            for (const folder of CONTENT_FOLDERS) {
+                const entries = Object.values(metadata[folder] || {}).filter(meta => meta.sha1);
+                for (let i = 0; i < entries.length; i++) {
+                    const meta = entries[i];
+                    onProgress?.(`Checking ${folder}... ${i + 1}/${entries.length}`, i + 1, entries.length);
+
+                    const filePath = path.join(instancePath, folder, meta.filename);
+                    const disabledPath = `${filePath}.disabled`;
+                    const destination = !existsSync(filePath) && existsSync(disabledPath) ? disabledPath : filePath;
+
+                    report.checked.mod++;
+                    const problem = await this.checkFile(destination, meta.sha1);
+                    if (!problem) continue;
+
+                    const repairable = meta.source === 'curseforge' ? CurseForgeApi.hasApiKey() : meta.source !== 'local';
+                    report.issues.push({ category: 'mod', name: meta.title || meta.filename, path: destination, problem, repairable });
+                    if (repairable) {
+                        plan.mods.push({
+                            name: meta.title || meta.filename,
+                            path: destination,
+                            sha1: meta.sha1!,
+                            source: meta.source,
+                            projectId: meta.projectId,
+                            versionId: meta.versionId
+                        });
+                    }
+                }
+            }
+        }
+
+        this.plans.set(instanceId, plan);
+        console.log(`[Verify] ${instanceId}: ${report.issues.length} problem(s) found`);
+        return report;
+    }
+
+    /** Redownloads what the last verification of `instanceId` found broken (verifying first if there wasn't one). */
+    static async repair(instanceId: string, onProgress?: ProgressCallback): Promise<RepairResult> {
+        if (LaunchProcess.isRunning(instanceId)) {
+            throw new Error('Close the game before repairing its files');
+        }
+
+        if (!this.plans.has(instanceId)) await this.verify(instanceId, onProgress);
+        const plan = this.plans.get(instanceId)!;
+        this.plans.delete(instanceId);
+
+        const result: RepairResult = { repaired: 0, failed: [] };
+
+        // 1. Game files
+        if (plan.downloads.length > 0) {
+            const downloader = new AssetDownloader();
+            const errors: string[] = [];
+            await new Promise<void>((resolve) => {
+                // A failed file doesn't stop the rest of the queue
+                downloader.on('error', (e: Error) => errors.push(e.message));
+                downloader.on('progress', (p) => onProgress?.('Downloading files...', p.current, p.total));
+                downloader.on('done', resolve);
+                downloader.addToQueue(plan.downloads.map(d => d.task));
+            });
+
+            // The downloader deletes files that fail their hash check, so whatever exists now is good
+            for (const { task, name } of plan.downloads) {
+                if (existsSync(task.destination)) {
+                    result.repaired++;
+                } else {
+                    const fileName = path.basename(task.destination);
+                    result.failed.push({ name, error: errors.find(e => e.includes(fileName)) || 'Download failed' });
+                }
+            }
+            for (const native of plan.natives) {
+                if (existsSync(native.path)) LaunchProcess.extractNative(native.path, native.exclude, plan.nativesDir);
+            }
+        }
+
+        // 2. Java
+        if (plan.java) {
+            try {
+                await new JavaManager().reinstallRuntime(plan.java.major, (status, progress) => onProgress?.(status, progress, 100), plan.java.component);
+                result.repaired++;
+            } catch (e: any) {
+                result.failed.push({ name: `Java ${plan.java.major}`, error: e.message || String(e) });
+            }
+        }
+
+        // 3. Mods
+        if (plan.mods.length > 0) {
+            onProgress?.('Redownloading mods...', 0, plan.mods.length);
+            const urls = await this.resolveModUrls(plan.mods);
+
+            for (let i = 0; i < plan.mods.length; i++) {
+                const mod = plan.mods[i];
+                onProgress?.(`Redownloading ${mod.name}...`, i + 1, plan.mods.length);
+                const url = urls.get(mod.sha1);
+                if (!url) {
+                    result.failed.push({ name: mod.name, error: 'No download available for this file' });
+                    continue;
+                }
+                try {
+                    await ContentStore.discardIfCorrupt(mod.sha1);
+                    await ContentStore.install(url, mod.path, mod.sha1);
+                    result.repaired++;
+                } catch (e: any) {
+                    result.failed.push({ name: mod.name, error: e.message || String(e) });
+                }
+            }
+        }
+
+        console.log(`[Verify] Repaired ${result.repaired} file(s) in ${instanceId}, ${result.failed.length} failed`);
+        return result;
+    }
+
+    /** Download URLs by sha1: one batch lookup for Modrinth files, per file for CurseForge. */
+    private static async resolveModUrls(mods: RepairPlan['mods']): Promise<Map<string, string>> {
+        const urls = new Map<string, string>();
+
+        const modrinthHashes = mods.filter(m => m.source !== 'curseforge').map(m => m.sha1);
+        if (modrinthHashes.length > 0) {
+            try {
+                const versions = await ModPlatformManager.getInstance().getVersionsFromHashes(modrinthHashes);
+                for (const [sha1, version] of Object.entries(versions)) {
+                    const file = version.files.find(f => f.hashes.sha1 === sha1);
+                    if (file) urls.set(sha1, file.url);
+                }
+            } catch (e) {
+                console.warn('[Verify] Modrinth hash lookup failed:', e);
+            }
+        }
+
+        for (const mod of mods.filter(m => m.source === 'curseforge')) {
+            try {
+                const file = await CurseForgeApi.getFileInfo(Number(mod.projectId), Number(mod.versionId));
+                const url = CurseForgeApi.getDownloadUrl(file);
+                if (url) urls.set(mod.sha1, url);
+            } catch (e) {
+                console.warn(`[Verify] CurseForge lookup failed for ${mod.name}:`, e);
+            }
+        }
+
+        return urls;
+    }
+
+    private static async checkFile(filePath: string, sha1?: string): Promise<'missing' | 'corrupt' | null> {
+        if (!existsSync(filePath)) return 'missing';
+        if (!sha1) return null;
+        try {
+            return await this.hashFile(filePath) === sha1.toLowerCase() ? null : 'corrupt';
+        } catch {
+            return 'corrupt';
+        }
+    }
+
+    private static hashFile(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = createHash('sha1');
+            createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+    }
+}
@@ -0,0 +1,231 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { VersionUtils } from './VersionUtils';
+
+export type LauncherSource = 'prism' | 'curseforge' | 'atlauncher' | 'vanilla';
+
+type Loader = 'vanilla' | 'fabric' | 'forge' | 'neoforge' | 'quilt';
+
+/**
+ * An instance found in another launcher's files, already mapped onto our terms.
+ * InstanceManager turns these into real instances.
+ */
+export interface ExternalInstance {
+    source: LauncherSource;
+    name: string;
+    version: string;
+    loader: Loader;
+    loaderVersion?: string;
+    launchVersionId?: string; // Only when the source launcher already installed a version JSON we can reuse
+    versionJsonPath?: string;
+    gameDir: string; // Folder holding mods/, saves/, config/ ...
+    javaPath?: string;
+    minRam?: number;
+    maxRam?: number;
+    jvmArgs?: string[];
+}
+
+// Prism/MultiMC component uids for the loaders we support
+const PRISM_LOADERS: Record<string, Loader> = {
+    'net.fabricmc.fabric-loader': 'fabric',
+    'org.quiltmc.quilt-loader': 'quilt',
+    'net.minecraftforge': 'forge',
+    'net.neoforged': 'neoforge'
+};
+
+/**
+ * Reads instances created by Prism Launcher / MultiMC, the CurseForge app, ATLauncher and
+ * the official launcher. Accepts either an instance folder, a folder of instances or a
+ * launcher root (which has an "instances"/"Instances" subfolder).
+ */
+export class LauncherImporter {
+    static async scan(folder: string): Promise<ExternalInstance[]> {
+        const direct = await this.readInstance(folder);
+        if (direct.length > 0) return direct;
+
+        const roots = [folder, path.join(folder, 'instances'), path.join(folder, 'Instances')].filter(p => existsSync(p));
+        const found: ExternalInstance[] = [];
+        const seen = new Set<string>();
+
+        for (const root of roots) {
+            const entries = await fs.readdir(root, { withFileTypes: true });
+            for (const entry of entries) {
+                if (!entry.isDirectory()) continue;
+                const dir = path.join(root, entry.name);
+                if (seen.has(dir)) continue;
+                seen.add(dir);
+                found.push(...await this.readInstance(dir));
+            }
+        }
+        return found;
+    }
+
+    private static async readInstance(dir: string): Promise<ExternalInstance[]> {
+        try {
+            if (existsSync(path.join(dir, 'mmc-pack.json'))) return [await this.readPrism(dir)];
+            if (existsSync(path.join(dir, 'minecraftinstance.json'))) return [await this.readCurseForge(dir)];
+            if (existsSync(path.join(dir, 'launcher_profiles.json'))) return await this.readVanilla(dir);
+
+            const atlPath = path.join(dir, 'instance.json');
+            if (existsSync(atlPath)) {
+                const data = JSON.parse(await fs.readFile(atlPath, 'utf-8'));
+                // Our own instance.json has no "launcher" block
+                if (data.launcher) return [this.readATLauncher(dir, data)];
+            }
+        } catch (e) {
+            console.warn(`[LauncherImporter] Failed to read ${dir}:`, e);
+        }
+        return [];
+    }
+
+    private static async readPrism(dir: string): Promise<ExternalInstance> {
+        const pack = JSON.parse(await fs.readFile(path.join(dir, 'mmc-pack.json'), 'utf-8'));
+        const cfgPath = path.join(dir, 'instance.cfg');
+        const cfg = existsSync(cfgPath) ? this.parseIni(await fs.readFile(cfgPath, 'utf-8')) : {};
+
+        let version = '';
+        let loader: Loader = 'vanilla';
+        let loaderVersion: string | undefined;
+        for (const component of pack.components || []) {
+            if (component.uid === 'net.minecraft') {
+                version = component.version || component.cachedVersion;
+            } else if (PRISM_LOADERS[component.uid]) {
+                loader = PRISM_LOADERS[component.uid];
+                loaderVersion = component.version || component.cachedVersion;
+            }
+        }
+
+        const gameDir = [path.join(dir, '.minecraft'), path.join(dir, 'minecraft')].find(p => existsSync(p))
+            || path.join(dir, '.minecraft');
+        const flag = (key: string) => cfg[key] === 'true';
+
+        return {
+            source: 'prism',
+            name: cfg.name || path.basename(dir),
+            version,
+            loader,
+            loaderVersion,
+            gameDir,
+            // Older MultiMC builds use OverrideJava instead of OverrideJavaLocation
+            javaPath: flag('OverrideJavaLocation') || flag('OverrideJava') ? cfg.JavaPath || undefined : undefined,
+            minRam: flag('OverrideMemory') ? parseInt(cfg.MinMemAlloc) || undefined : undefined,
+            maxRam: flag('OverrideMemory') ? parseInt(cfg.MaxMemAlloc) || undefined : undefined,
+            jvmArgs: flag('OverrideJavaArgs') ? this.splitArgs(cfg.JvmArgs) : undefined
+        };
+    }
+
+    private static async readCurseForge(dir: string): Promise<ExternalInstance> {
+        const data = JSON.parse(await fs.readFile(path.join(dir, 'minecraftinstance.json'), 'utf-8'));
+
+        // baseModLoader.name looks like "forge-47.2.0", "neoforge-21.1.77" or "fabric-0.15.11-1.20.1"
+        let loader: Loader = 'vanilla';
+        let loaderVersion: string | undefined;
+        const loaderName: string = data.baseModLoader?.name || '';
+        const match = loaderName.match(/^(neoforge|forge|fabric|quilt)-([^-]+)/);
+        if (match) {
+            loader = match[1] as Loader;
+            loaderVersion = match[2];
+        }
+
+        const memory = parseInt(data.allocatedMemory);
+        return {
+            source: 'curseforge',
+            name: data.name || path.basename(dir),
+            version: data.gameVersion || data.baseModLoader?.minecraftVersion || '',
+            loader,
+            loaderVersion,
+            gameDir: dir,
+            maxRam: data.isMemoryOverride !== false && memory > 0 ? memory : undefined,
+            jvmArgs: data.javaArgsOverride ? this.splitArgs(data.javaArgsOverride) : undefined
+        };
+    }
+
+    private static readATLauncher(dir: string, data: any): ExternalInstance {
+        const launcher = data.launcher || {};
+        const type = String(launcher.loaderVersion?.type || '').toLowerCase();
+        const loader: Loader = (['fabric', 'quilt', 'forge', 'neoforge'] as Loader[]).find(l => l === type) || 'vanilla';
+
+        return {
+            source: 'atlauncher',
+            name: launcher.name || path.basename(dir),
+            version: data.id || data.minecraftVersion || '',
+            loader,
+            loaderVersion: loader !== 'vanilla' ? launcher.loaderVersion?.version : undefined,
+            gameDir: dir,
+            javaPath: launcher.javaPath || undefined,
+            minRam: parseInt(launcher.initialMemory) || undefined,
+            maxRam: parseInt(launcher.maximumMemory) || undefined,
+            jvmArgs: launcher.javaArguments ? this.splitArgs(launcher.javaArguments) : undefined
+        };
+    }
+
+    /**
+     * Official launcher: one candidate per custom profile. "Latest release/snapshot" profiles
+     * don't pin a version and are skipped.
+     */
+    private static async readVanilla(dir: string): Promise<ExternalInstance[]> {
+        const data = JSON.parse(await fs.readFile(path.join(dir, 'launcher_profiles.json'), 'utf-8'));
+        const results: ExternalInstance[] = [];
+
+        for (const [key, profile] of Object.entries<any>(data.profiles || {})) {
+            const versionId: string | undefined = profile.lastVersionId;
+            if (!versionId || versionId.startsWith('latest-')) continue;
+
+            const versionJsonPath = path.join(dir, 'versions', versionId, `${versionId}.json`);
+            const info = existsSync(versionJsonPath)
+                ? VersionUtils.getInfo(versionJsonPath, versionId)
+                : { mcVersion: versionId, loader: 'vanilla' as const };
+
+            const jvmArgs = profile.javaArgs ? this.splitArgs(profile.javaArgs) : [];
+            const memory = (flag: string) => {
+                const arg = jvmArgs.find(a => a.startsWith(flag));
+                return arg ? this.parseMemory(arg.slice(flag.length)) : undefined;
+            };
+
+            results.push({
+                source: 'vanilla',
+                name: profile.name || key,
+                version: info.mcVersion,
+                loader: info.loader,
+                loaderVersion: VersionUtils.getLoaderVersion(info.loader, info.mcVersion, versionId),
+                launchVersionId: versionId,
+                versionJsonPath: existsSync(versionJsonPath) ? versionJsonPath : undefined,
+                gameDir: profile.gameDir || dir,
+                javaPath: profile.javaDir || undefined,
+                minRam: memory('-Xms'),
+                maxRam: memory('-Xmx'),
+                // Heap flags are carried over as minRam/maxRam instead
+                jvmArgs: jvmArgs.filter(a => !a.startsWith('-Xms') && !a.startsWith('-Xmx'))
+            });
+        }
+        return results;
+    }
+
+    private static parseIni(content: string): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const raw of content.split(/\r?\n/)) {
+            const line = raw.trim();
+            if (!line || line.startsWith('[') || line.startsWith('#') || line.startsWith(';')) continue;
+            const eq = line.indexOf('=');
+            if (eq < 0) continue;
+            let value = line.slice(eq + 1).trim();
+            if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+            result[line.slice(0, eq).trim()] = value;
+        }
+        return result;
+    }
+
+    private static splitArgs(args: string | undefined): string[] {
+        return (args || '').match(/(?:[^\s"]+|"[^"]*")+/g)?.map(a => a.replace(/"/g, '')) || [];
+    }
+
+    // "4G" / "4096M" / "4096m" -> MB
+    private static parseMemory(value: string): number | undefined {
+        const match = value.match(/^(\d+)([gGmMkK]?)$/);
+        if (!match) return undefined;
+        const amount = parseInt(match[1]);
+        const unit = match[2].toLowerCase();
+        return unit === 'g' ? amount * 1024 : unit === 'k' ? Math.round(amount / 1024) : amount;
+    }
+}
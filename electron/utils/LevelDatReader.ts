@@ -0,0 +1,100 @@
+import path from 'path';
+import { NbtCompound, NbtReader, NbtValue } from './NbtReader';
+
+export type GameMode = 'Survival' | 'Creative' | 'Adventure' | 'Spectator' | 'Unknown';
+export type Difficulty = 'Peaceful' | 'Easy' | 'Normal' | 'Hard' | 'Unknown';
+
+export interface LevelInfo {
+    levelName: string;
+    gameMode: GameMode;
+    hardcore: boolean;
+    difficulty: Difficulty;
+    difficultyLocked: boolean;
+    /** Kept as a string: world seeds are 64-bit and lose precision as numbers */
+    seed?: string;
+    dataVersion?: number;
+    /** Minecraft version that last saved the world, e.g. "1.20.4". Missing before 1.9 */
+    mcVersion?: string;
+    snapshot: boolean;
+    lastPlayed?: number;
+    cheats: boolean;
+    spawn?: { x: number; y: number; z: number };
+}
+
+const GAME_MODES: GameMode[] = ['Survival', 'Creative', 'Adventure', 'Spectator'];
+const DIFFICULTIES: Difficulty[] = ['Peaceful', 'Easy', 'Normal', 'Hard'];
+
+export class LevelDatReader {
+    /**
+     * Reads <worldPath>/level.dat and extracts the fields shown in world lists.
+     * Handles the layout changes of 1.16 (WorldGenSettings), 1.21 (difficulty_settings) and 1.21.5 (spawn).
+     */
+    static async read(worldPath: string): Promise<LevelInfo> {
+        const root = await NbtReader.readFile(path.join(worldPath, 'level.dat'));
+        return LevelDatReader.fromNbt(root);
+    }
+
+    static fromNbt(root: NbtCompound): LevelInfo {
+        const data = LevelDatReader.compound(root.Data);
+        if (!data) throw new Error('level.dat has no Data compound');
+
+        const version = LevelDatReader.compound(data.Version);
+        const worldGen = LevelDatReader.compound(data.WorldGenSettings);
+        const difficultySettings = LevelDatReader.compound(data.difficulty_settings);
+
+        const gameType = LevelDatReader.number(data.GameType);
+        let difficulty: Difficulty = 'Unknown';
+        if (difficultySettings && typeof difficultySettings.difficulty === 'string') {
+            const name = difficultySettings.difficulty;
+            difficulty = DIFFICULTIES.find(d => d.toLowerCase() === name) || 'Unknown';
+        } else {
+            difficulty = DIFFICULTIES[LevelDatReader.number(data.Difficulty) ?? -1] || 'Unknown';
+        }
+
+        const seed = worldGen?.seed ?? data.RandomSeed;
+        const lastPlayed = data.LastPlayed;
+
+        return {
+            levelName: typeof data.LevelName === 'string' ? data.LevelName : '',
+            gameMode: GAME_MODES[gameType ?? -1] || 'Unknown',
+            hardcore: LevelDatReader.flag(difficultySettings?.hardcore ?? data.hardcore),
+            difficulty,
+            difficultyLocked: LevelDatReader.flag(difficultySettings?.locked ?? data.DifficultyLocked),
+            seed: typeof seed === 'bigint' ? seed.toString() : undefined,
+            dataVersion: LevelDatReader.number(data.DataVersion ?? version?.Id),
+            mcVersion: typeof version?.Name === 'string' ? version.Name : undefined,
+            snapshot: LevelDatReader.flag(version?.Snapshot),
+            lastPlayed: typeof lastPlayed === 'bigint' ? Number(lastPlayed) : undefined,
+            cheats: LevelDatReader.flag(data.allowCommands),
+            spawn: LevelDatReader.readSpawn(data)
+        };
+    }
+
+    private static readSpawn(data: NbtCompound): LevelInfo['spawn'] {
+        const spawn = LevelDatReader.compound(data.spawn);
+        if (spawn && spawn.pos instanceof Int32Array && spawn.pos.length === 3) {
+            return { x: spawn.pos[0], y: spawn.pos[1], z: spawn.pos[2] };
+        }
+
+        const x = LevelDatReader.number(data.SpawnX);
+        const y = LevelDatReader.number(data.SpawnY);
+        const z = LevelDatReader.number(data.SpawnZ);
+        if (x === undefined || y === undefined || z === undefined) return undefined;
+        return { x, y, z };
+    }
+
+    private static compound(value: NbtValue | undefined): NbtCompound | undefined {
+        if (value && typeof value === 'object' && !Array.isArray(value) && !ArrayBuffer.isView(value)) {
+            return value as NbtCompound;
+        }
+        return undefined;
+    }
+
+    private static number(value: NbtValue | undefined): number | undefined {
+        return typeof value === 'number' ? value : undefined;
+    }
+
+    private static flag(value: NbtValue | undefined): boolean {
+        return typeof value === 'number' && value !== 0;
+    }
+}
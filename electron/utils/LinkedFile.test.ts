@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LinkedFile } from './LinkedFile';
+
+// Two instances sharing one stored mod, the way ContentStore.install leaves them
+async function setup() {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'linked-file-'));
+    const stored = path.join(root, 'store', 'ab', 'abcdef');
+    await fs.mkdir(path.dirname(stored), { recursive: true });
+    await fs.writeFile(stored, 'original');
+
+    const first = path.join(root, 'first', 'mods', 'mod.jar');
+    const second = path.join(root, 'second', 'mods', 'mod.jar');
+    await LinkedFile.link(stored, first);
+    await LinkedFile.link(stored, second);
+    return { root, stored, first, second };
+}
+
+test('writing one linked instance leaves the other and the store unchanged', async () => {
+    const { root, stored, first, second } = await setup();
+    try {
+        await LinkedFile.write(first, 'edited');
+
+        assert.equal(await fs.readFile(first, 'utf-8'), 'edited');
+        assert.equal(await fs.readFile(second, 'utf-8'), 'original');
+        assert.equal(await fs.readFile(stored, 'utf-8'), 'original');
+    } finally {
+        await fs.rm(root, { recursive: true, force: true });
+    }
+});
+
+test('copying over one linked instance leaves the other and the store unchanged', async () => {
+    const { root, stored, first, second } = await setup();
+    try {
+        const replacement = path.join(root, 'replacement.jar');
+        await fs.writeFile(replacement, 'replaced');
+        await LinkedFile.copy(replacement, first);
+
+        assert.equal(await fs.readFile(first, 'utf-8'), 'replaced');
+        assert.equal(await fs.readFile(second, 'utf-8'), 'original');
+        assert.equal(await fs.readFile(stored, 'utf-8'), 'original');
+        assert.deepEqual((await fs.readdir(path.dirname(first))).sort(), ['mod.jar']);
+    } finally {
+        await fs.rm(root, { recursive: true, force: true });
+    }
+});
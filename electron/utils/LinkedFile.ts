@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * File operations for instance folders whose files may be hard links into the content store.
+ * Writing into a linked file would change it for the store and every instance sharing it, so
+ * these always put a new file in place (temp file + rename) instead of writing the old inode.
+ */
+export class LinkedFile {
+    /** Links (or copies) `sourcePath` to `destPath`, replacing whatever was there. */
+    static async link(sourcePath: string, destPath: string) {
+        await fs.mkdir(path.dirname(destPath), { recursive: true });
+        await fs.rm(destPath, { force: true });
+        try {
+            await fs.link(sourcePath, destPath);
+        } catch (e: any) {
+            if (!['EXDEV', 'EPERM', 'ENOTSUP', 'EMLINK', 'ENOSYS'].includes(e.code)) throw e;
+            await fs.copyFile(sourcePath, destPath);
+        }
+    }
+
+    /** Writes `data` as a new file at `destPath`, leaving any file linked there untouched. */
+    static async write(destPath: string, data: string | Buffer) {
+        await this.replace(destPath, tmpPath => fs.writeFile(tmpPath, data));
+    }
+
+    /** Copies `sourcePath` to a new file at `destPath`, leaving any file linked there untouched. */
+    static async copy(sourcePath: string, destPath: string) {
+        await this.replace(destPath, tmpPath => fs.copyFile(sourcePath, tmpPath));
+    }
+
+    private static async replace(destPath: string, create: (tmpPath: string) => Promise<void>) {
+        const tmpPath = `${destPath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        try {
+            await create(tmpPath);
+            await fs.rename(tmpPath, destPath);
+        } finally {
+            await fs.rm(tmpPath, { force: true });
+        }
+    }
+}
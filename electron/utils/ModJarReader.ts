@@ -0,0 +1,202 @@
+import AdmZip from 'adm-zip';
+
+export interface LocalModInfo {
+    modId: string;
+    name: string;
+    version?: string;
+    description?: string;
+    authors?: string[];
+    loader: 'fabric' | 'quilt' | 'forge' | 'neoforge';
+    icon?: Buffer; // PNG bundled in the jar, if any
+    javaVersions?: string[]; // Declared `java` dependency ranges (any one of them satisfies the mod)
+}
+
+/**
+ * Reads the loader metadata bundled inside a mod jar: quilt.mod.json, fabric.mod.json,
+ * META-INF/neoforge.mods.toml, META-INF/mods.toml or the legacy mcmod.info.
+ * Used to name mods that can't be identified online.
+ */
+export class ModJarReader {
+    static read(jarPath: string): LocalModInfo | null {
+        let zip: AdmZip;
+        try {
+            zip = new AdmZip(jarPath);
+        } catch (e) {
+            console.warn(`[ModJarReader] Not a readable jar: ${jarPath}`, e);
+            return null;
+        }
+
+        const text = (entryName: string): string | null => {
+            const entry = zip.getEntry(entryName);
+            return entry ? entry.getData().toString('utf-8') : null;
+        };
+
+        let info: LocalModInfo | null = null;
+        let iconPath: string | undefined;
+
+        try {
+            const quilt = text('quilt.mod.json');
+            const fabric = text('fabric.mod.json');
+            const neoforgeToml = text('META-INF/neoforge.mods.toml');
+            const forgeToml = text('META-INF/mods.toml');
+            const mcmodInfo = text('mcmod.info');
+
+            if (quilt) {
+                const data = JSON.parse(quilt).quilt_loader || {};
+                const meta = data.metadata || {};
+                info = {
+                    modId: data.id,
+                    name: meta.name || data.id,
+                    version: data.version,
+                    description: meta.description,
+                    authors: meta.contributors ? Object.keys(meta.contributors) : undefined,
+                    loader: 'quilt',
+                    javaVersions: ModJarReader.quiltJavaVersions(data.depends)
+                };
+                iconPath = ModJarReader.pickIcon(meta.icon);
+            } else if (fabric) {
+                // Some mods ship fabric.mod.json with raw newlines inside strings
+                const data = JSON.parse(fabric.replace(/[\r\n]+/g, ' '));
+                info = {
+                    modId: data.id,
+                    name: data.name || data.id,
+                    version: data.version,
+                    description: data.description,
+                    authors: Array.isArray(data.authors)
+                        ? data.authors.map((a: any) => typeof a === 'string' ? a : a?.name).filter(Boolean)
+                        : undefined,
+                    loader: 'fabric',
+                    javaVersions: ModJarReader.toList(data.depends?.java)
+                };
+                iconPath = ModJarReader.pickIcon(data.icon);
+            } else if (neoforgeToml || forgeToml) {
+                const mod = ModJarReader.parseModsToml(neoforgeToml || forgeToml!);
+                if (mod.modId) {
+                    let version: string | undefined = mod.version;
+                    if (version === '${file.jarVersion}') {
+                        version = ModJarReader.manifestVersion(text('META-INF/MANIFEST.MF'));
+                    }
+                    info = {
+                        modId: mod.modId,
+                        name: mod.displayName || mod.modId,
+                        version,
+                        description: mod.description?.trim(),
+                        authors: mod.authors ? [mod.authors] : undefined,
+                        loader: neoforgeToml ? 'neoforge' : 'forge'
+                    };
+                    iconPath = mod.logoFile;
+                }
+            } else if (mcmodInfo) {
+                const parsed = JSON.parse(mcmodInfo);
+                const data = Array.isArray(parsed) ? parsed[0] : parsed.modList?.[0];
+                if (data?.modid) {
+                    info = {
+                        modId: data.modid,
+                        name: data.name || data.modid,
+                        version: data.version,
+                        description: data.description,
+                        authors: data.authorList,
+                        loader: 'forge'
+                    };
+                    iconPath = data.logoFile;
+                }
+            }
+        } catch (e) {
+            console.warn(`[ModJarReader] Failed to parse metadata in ${jarPath}:`, e);
+            return null;
+        }
+
+        if (!info?.modId) return null;
+
+        if (iconPath) {
+            const entry = zip.getEntry(iconPath.replace(/^\//, ''));
+            if (entry && /\.png$/i.test(iconPath)) {
+                info.icon = entry.getData();
+            }
+        }
+
+        return info;
+    }
+
+    // fabric/quilt allow either a path or a { size: path } map; take the largest
+    private static pickIcon(icon: unknown): string | undefined {
+        if (typeof icon === 'string') return icon;
+        if (icon && typeof icon === 'object') {
+            const sizes = Object.keys(icon).sort((a, b) => Number(b) - Number(a));
+            return sizes.length ? (icon as Record<string, string>)[sizes[0]] : undefined;
+        }
+        return undefined;
+    }
+
+    private static toList(value: unknown): string[] | undefined {
+        if (typeof value === 'string') return [value];
+        if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+        return undefined;
+    }
+
+    // quilt depends: ["id", { id, versions }] where versions is a string, a list or { any: [...] }
+    private static quiltJavaVersions(depends: unknown): string[] | undefined {
+        if (!Array.isArray(depends)) return undefined;
+        const java = depends.find(d => d && typeof d === 'object' && d.id === 'java');
+        if (!java) return undefined;
+        return ModJarReader.toList(java.versions?.any || java.versions);
+    }
+
+    /**
+     * Minimal TOML reading for the first [[mods]] table, plus top-level keys it may inherit
+     * (authors, logoFile). Handles basic, literal and multi-line strings; nothing else is needed here.
+     */
+    private static parseModsToml(toml: string): Record<string, string> {
+        const topLevel: Record<string, string> = {};
+        const mod: Record<string, string> = {};
+        let section: 'top' | 'mods' | 'other' = 'top';
+        let seenMods = false;
+
+        const lines = toml.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (!line || line.startsWith('#')) continue;
+
+            if (line.startsWith('[')) {
+                if (line === '[[mods]]' && !seenMods) {
+                    section = 'mods';
+                    seenMods = true;
+                } else {
+                    section = 'other';
+                }
+                continue;
+            }
+            if (section === 'other') continue;
+
+            const match = line.match(/^([A-Za-z0-9_]+)\s*=\s*(.*)$/);
+            if (!match) continue;
+            const [, key] = match;
+            let raw = match[2];
+
+            let value: string;
+            const multi = raw.startsWith("'''") ? "'''" : raw.startsWith('"""') ? '"""' : null;
+            if (multi) {
+                raw = raw.slice(3);
+                const parts: string[] = [];
+                while (!raw.includes(multi) && i + 1 < lines.length) {
+                    parts.push(raw);
+                    raw = lines[++i];
+                }
+                parts.push(raw.slice(0, raw.indexOf(multi)));
+                value = parts.join('\n');
+            } else {
+                const quoted = raw.match(/^"((?:[^"\\]|\\.)*)"/) || raw.match(/^'([^']*)'/);
+                value = quoted ? quoted[1] : raw.replace(/\s+#.*$/, '');
+            }
+
+            (section === 'mods' ? mod : topLevel)[key] = value;
+        }
+
+        return { authors: topLevel.authors, logoFile: topLevel.logoFile, ...mod };
+    }
+
+    private static manifestVersion(manifest: string | null): string | undefined {
+        const match = manifest?.match(/^Implementation-Version:\s*(.+)$/m);
+        return match ? match[1].trim() : undefined;
+    }
+}
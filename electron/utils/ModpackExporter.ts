@@ -0,0 +1,243 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, existsSync, statSync } from 'fs';
+import crypto from 'crypto';
+import AdmZip from 'adm-zip';
+import type { Instance } from '../managers/InstanceManager';
+import { ModMetadataManager } from '../managers/ModMetadataManager';
+import { ModPlatformManager, ModrinthVersion } from '../managers/ModPlatformManager';
+import { CurseForgeApi } from '../api/CurseForgeApi';
+import { VersionUtils } from './VersionUtils';
+
+export type ExportFormat = 'whoap' | 'mrpack' | 'curseforge';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    include: string[]; // Top-level entries of the instance folder (e.g. "config", "options.txt")
+    name?: string;
+    version?: string;
+    author?: string;
+}
+
+export interface ExportResult {
+    referenced: number; // Files listed in the manifest, downloaded by the importing launcher
+    overrides: number; // Content files that had to be bundled as-is
+}
+
+// Folders whose files can be referenced from a platform instead of being bundled
+const CONTENT_FOLDERS: Record<string, 'mods' | 'resourcepacks' | 'shaderpacks'> = {
+    mods: 'mods',
+    resourcepacks: 'resourcepacks',
+    shaderpacks: 'shaderpacks'
+};
+
+// Never worth shipping: logs, caches and launcher bookkeeping
+const EXCLUDED_ENTRIES = new Set([
+    'instance.json', 'logs', 'crash-reports', 'natives', '.cache', '.fabric', '.quilt', '.mixin.out',
+    'debug', 'modrinth.index.json', 'manifest.json', '.whoap-mods.json', '.whoap-modpack.json', '.whoap-rollback'
+]);
+
+interface ContentFile {
+    folder: string;
+    filename: string;
+    absPath: string;
+    size: number;
+}
+
+/**
+ * Writes instances as shareable modpacks: Modrinth .mrpack or a CurseForge manifest zip.
+ * Files that can be identified on the target platform are referenced by URL/id; everything
+ * else goes into overrides/.
+ */
+export class ModpackExporter {
+    static isExportable(entry: string): boolean {
+        return !EXCLUDED_ENTRIES.has(entry);
+    }
+
+    static async exportModrinth(instancePath: string, instance: Instance, options: ExportOptions, filePath: string): Promise<ExportResult> {
+        const dependencies: Record<string, string> = { minecraft: instance.version };
+        if (instance.loader !== 'vanilla' && instance.loader !== 'custom') {
+            const key = instance.loader === 'fabric' || instance.loader === 'quilt' ? `${instance.loader}-loader` : instance.loader;
+            dependencies[key] = this.requireLoaderVersion(instance);
+        }
+
+        const zip = new AdmZip();
+        const { content, others } = await this.collectEntries(instancePath, options.include);
+
+        // Prefer what ModMetadataManager knows, then fall back to a hash lookup for the rest
+        const metadata = await ModMetadataManager.getAllMetadata(instance.id);
+        const platform = ModPlatformManager.getInstance();
+        const hashes = new Map<ContentFile, { sha1: string; sha512: string }>();
+        for (const file of content) {
+            hashes.set(file, await this.hashFile(file.absPath));
+        }
+
+        const bySha1 = new Map<string, { file: ModrinthVersion['files'][number] }>();
+        try {
+            const versionIds = new Set<string>();
+            for (const file of content) {
+                const meta = this.metadataFor(metadata, file);
+                if (meta?.versionId && meta.source !== 'curseforge') versionIds.add(meta.versionId);
+            }
+            for (const version of await platform.getVersions([...versionIds])) {
+                for (const vf of version.files) bySha1.set(vf.hashes.sha1, { file: vf });
+            }
+
+            const unresolved = content.filter(f => !f.filename.endsWith('.disabled') && !bySha1.has(hashes.get(f)!.sha1));
+            const found = await platform.getVersionsFromHashes(unresolved.map(f => hashes.get(f)!.sha1));
+            for (const version of Object.values(found)) {
+                for (const vf of version.files) bySha1.set(vf.hashes.sha1, { file: vf });
+            }
+        } catch (e) {
+            console.warn('[ModpackExporter] Modrinth lookup failed, bundling all content as overrides:', e);
+        }
+
+        const files: any[] = [];
+        let overrides = 0;
+        for (const file of content) {
+            const { sha1, sha512 } = hashes.get(file)!;
+            const match = bySha1.get(sha1);
+            // Disabled files can't be expressed in the index; ship them as they are
+            if (match && !file.filename.endsWith('.disabled')) {
+                files.push({
+                    path: `${file.folder}/${file.filename}`,
+                    hashes: { sha1, sha512 },
+                    downloads: [match.file.url],
+                    fileSize: file.size
+                });
+            } else {
+                zip.addLocalFile(file.absPath, `overrides/${file.folder}`);
+                overrides++;
+            }
+        }
+        this.addOverrides(zip, instancePath, others);
+
+        const index = {
+            formatVersion: 1,
+            game: 'minecraft',
+            versionId: options.version || '1.0.0',
+            name: options.name || instance.name,
+            files,
+            dependencies
+        };
+        zip.addFile('modrinth.index.json', Buffer.from(JSON.stringify(index, null, 2)));
+
+        await zip.writeZipPromise(filePath);
+        return { referenced: files.length, overrides };
+    }
+
+    static async exportCurseForge(instancePath: string, instance: Instance, options: ExportOptions, filePath: string): Promise<ExportResult> {
+        const modLoaders = instance.loader !== 'vanilla' && instance.loader !== 'custom'
+            ? [{ id: `${instance.loader}-${this.requireLoaderVersion(instance)}`, primary: true }]
+            : [];
+
+        const zip = new AdmZip();
+        const { content, others } = await this.collectEntries(instancePath, options.include);
+
+        // CurseForge manifests only reference mods; packs and disabled files are bundled
+        const candidates = content.filter(f => f.folder === 'mods' && !f.filename.endsWith('.disabled'));
+        const fingerprints = new Map<ContentFile, number>();
+        for (const file of candidates) {
+            fingerprints.set(file, CurseForgeApi.computeFingerprint(await fs.readFile(file.absPath)));
+        }
+
+        const matches = new Map<number, { projectID: number; fileID: number }>();
+        try {
+            for (const match of await CurseForgeApi.getFingerprintMatches([...fingerprints.values()])) {
+                matches.set(match.file.fileFingerprint, { projectID: match.id, fileID: match.file.id });
+            }
+        } catch (e) {
+            console.warn('[ModpackExporter] CurseForge lookup failed, bundling all mods as overrides:', e);
+        }
+
+        const files: { projectID: number; fileID: number; required: boolean }[] = [];
+        let overrides = 0;
+        for (const file of content) {
+            const fingerprint = fingerprints.get(file);
+            const match = fingerprint !== undefined ? matches.get(fingerprint) : undefined;
+            if (match) {
+                files.push({ ...match, required: true });
+            } else {
+                zip.addLocalFile(file.absPath, `overrides/${file.folder}`);
+                overrides++;
+            }
+        }
+        this.addOverrides(zip, instancePath, others);
+
+        const manifest = {
+            minecraft: { version: instance.version, modLoaders },
+            manifestType: 'minecraftModpack',
+            manifestVersion: 1,
+            name: options.name || instance.name,
+            version: options.version || '1.0.0',
+            author: options.author || '',
+            files,
+            overrides: 'overrides'
+        };
+        zip.addFile('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+
+        await zip.writeZipPromise(filePath);
+        return { referenced: files.length, overrides };
+    }
+
+    private static requireLoaderVersion(instance: Instance): string {
+        const version = instance.loaderVersion
+            || VersionUtils.getLoaderVersion(instance.loader, instance.version, instance.launchVersionId || '');
+        if (!version) {
+            throw new Error(`Couldn't determine the ${instance.loader} loader version of this instance.`);
+        }
+        return version;
+    }
+
+    private static async collectEntries(instancePath: string, include: string[]): Promise<{ content: ContentFile[]; others: string[] }> {
+        const present = new Set(await fs.readdir(instancePath));
+        const content: ContentFile[] = [];
+        const others: string[] = [];
+
+        for (const entry of include) {
+            if (!present.has(entry) || !this.isExportable(entry)) continue;
+
+            if (CONTENT_FOLDERS[entry]) {
+                const dir = path.join(instancePath, entry);
+                for (const filename of await fs.readdir(dir)) {
+                    const absPath = path.join(dir, filename);
+                    const stats = await fs.stat(absPath);
+                    if (stats.isFile()) content.push({ folder: entry, filename, absPath, size: stats.size });
+                }
+            } else {
+                others.push(entry);
+            }
+        }
+        return { content, others };
+    }
+
+    private static addOverrides(zip: AdmZip, instancePath: string, entries: string[]) {
+        for (const entry of entries) {
+            const absPath = path.join(instancePath, entry);
+            if (!existsSync(absPath)) continue;
+            if (statSync(absPath).isDirectory()) {
+                zip.addLocalFolder(absPath, `overrides/${entry}`);
+            } else {
+                zip.addLocalFile(absPath, 'overrides');
+            }
+        }
+    }
+
+    private static metadataFor(metadata: Awaited<ReturnType<typeof ModMetadataManager.getAllMetadata>>, file: ContentFile) {
+        return metadata[CONTENT_FOLDERS[file.folder]]?.[file.filename.replace(/\.disabled$/, '')];
+    }
+
+    private static hashFile(filePath: string): Promise<{ sha1: string; sha512: string }> {
+        return new Promise((resolve, reject) => {
+            const sha1 = crypto.createHash('sha1');
+            const sha512 = crypto.createHash('sha512');
+            createReadStream(filePath)
+                .on('data', chunk => {
+                    sha1.update(chunk);
+                    sha512.update(chunk);
+                })
+                .on('end', () => resolve({ sha1: sha1.digest('hex'), sha512: sha512.digest('hex') }))
+                .on('error', reject);
+        });
+    }
+}
@@ -3,9 +3,12 @@ import path from 'path';
 import fs from 'fs';
 import axios from 'axios';
 import AdmZip from 'adm-zip';
-import { CurseForgeApi } from '../api/CurseForgeApi';
+import { CurseForgeApi, CurseForgeMod } from '../api/CurseForgeApi';
 import { ConfigManager } from '../managers/ConfigManager';
+import { CLASS_FOLDERS, CurseForgeManager, ManualDownload } from '../managers/CurseForgeManager';
 import { randomUUID } from 'crypto';
+import { ModpackUpdater } from './ModpackUpdater';
+import { ContentStore } from './ContentStore';
 
 export class ModpackInstaller {
     private static instancesDir = path.join(ConfigManager.getDataPath(), 'instances');
@@ -47,7 +50,11 @@ export class ModpackInstaller {
             const packPath = path.join(instanceDir, 'modpack.mrpack');
             await this.downloadFile(primary.url, packPath);
 
-            const result = await this.installFromLocalZip(packPath, onProgress, projectName, iconUrl);
+            const result = await this.installFromLocalZip(packPath, onProgress, projectName, iconUrl, {
+                projectId,
+                versionId,
+                versionNumber: versionData.data.version_number
+            });
 
             // Clean up the downloaded pack
             if (fs.existsSync(packPath)) fs.unlinkSync(packPath);
@@ -60,6 +67,36 @@ export class ModpackInstaller {
         }
     }
 
+    static async installFromCurseForge(
+        fileId: string,
+        projectName: string,
+        iconUrl: string | undefined,
+        onProgress: (status: string, progress: number, total: number) => void
+    ) {
+        console.log(`[ModpackInstaller] Starting CurseForge install for ${projectName} (File: ${fileId})`);
+
+        onProgress("Fetching file details...", 0, 100);
+        const [file] = await CurseForgeApi.getFilesInfo([Number(fileId)]);
+        if (!file) throw new Error("Modpack file not found on CurseForge.");
+
+        const url = CurseForgeApi.getDownloadUrl(file);
+        if (!url) {
+            throw new Error("The author doesn't allow this modpack to be downloaded by other launchers. Download it from CurseForge and use Import File.");
+        }
+
+        const cacheDir = path.join(ConfigManager.getDataPath(), 'cache', 'modpacks');
+        fs.mkdirSync(cacheDir, { recursive: true });
+        const packPath = path.join(cacheDir, `curseforge-${file.id}.zip`);
+
+        try {
+            onProgress("Downloading modpack configuration...", 10, 100);
+            await this.downloadFile(url, packPath);
+            return await this.installFromLocalZip(packPath, onProgress, projectName, iconUrl);
+        } finally {
+            if (fs.existsSync(packPath)) fs.unlinkSync(packPath);
+        }
+    }
+
     /**
      * Install from a local ZIP / .mrpack file
      */
@@ -67,7 +104,8 @@ export class ModpackInstaller {
         zipPath: string,
         onProgress: (status: string, progress: number, total: number) => void,
         providedName?: string,
-        providedIcon?: string
+        providedIcon?: string,
+        source?: { projectId: string; versionId: string; versionNumber?: string }
     ) {
         console.log(`[ModpackInstaller] Installing from local zip: ${zipPath}`);
 
@@ -100,7 +138,8 @@ export class ModpackInstaller {
             let gameVersion = '';
             let loader = 'vanilla';
             let loaderVersion = '';
-            let filesToDownload: { url: string, path: string, fileSize?: number }[] = [];
+            let filesToDownload: { url: string, path: string, fileSize?: number, sha1?: string }[] = [];
+            const manual: ManualDownload[] = [];
 
             if (isModrinth) {
                 onProgress("Parsing Modrinth manifest...", 15, 100);
@@ -120,7 +159,8 @@ export class ModpackInstaller {
                 filesToDownload = indexData.files.map((f: any) => ({
                     url: f.downloads[0],
                     path: f.path,
-                    fileSize: f.fileSize
+                    fileSize: f.fileSize,
+                    sha1: f.hashes?.sha1
                 }));
 
                 // Handle Overrides
@@ -143,12 +183,13 @@ export class ModpackInstaller {
                     if (primaryLoader.includes('fabric')) {
                         loader = 'fabric';
                         loaderVersion = primaryLoader.replace('fabric-', '');
-                    } else if (primaryLoader.includes('forge')) {
-                        loader = 'forge';
-                        loaderVersion = primaryLoader.replace('forge-', '');
                     } else if (primaryLoader.includes('neoforge')) {
+                        // Checked before forge: "neoforge-..." contains "forge"
                         loader = 'neoforge';
                         loaderVersion = primaryLoader.replace('neoforge-', '');
+                    } else if (primaryLoader.includes('forge')) {
+                        loader = 'forge';
+                        loaderVersion = primaryLoader.replace('forge-', '');
                     } else if (primaryLoader.includes('quilt')) {
                         loader = 'quilt';
                         loaderVersion = primaryLoader.replace('quilt-', '');
@@ -163,11 +204,33 @@ export class ModpackInstaller {
                 // The CF API supports batching file lookups.
                 const resolvedFiles = await CurseForgeApi.getFilesInfo(fileIds);
 
-                filesToDownload = resolvedFiles.map(file => ({
-                    url: CurseForgeApi.getDownloadUrl(file),
-                    path: path.join('mods', file.fileName),
-                    fileSize: file.fileLength
-                }));
+                // Project details tell resource packs and shaders apart from mods
+                const mods = new Map<number, CurseForgeMod>();
+                try {
+                    for (const mod of await CurseForgeApi.getMods([...new Set(resolvedFiles.map(f => f.modId))])) mods.set(mod.id, mod);
+                } catch (e) {
+                    console.warn("Failed to fetch CurseForge project details, installing everything into mods/", e);
+                }
+
+                for (const file of resolvedFiles) {
+                    const mod = mods.get(file.modId);
+                    const relPath = path.join((mod && CLASS_FOLDERS[mod.classId]) || 'mods', file.fileName);
+                    const url = CurseForgeApi.getDownloadUrl(file);
+                    if (url) {
+                        filesToDownload.push({ url, path: relPath, fileSize: file.fileLength, sha1: CurseForgeApi.getSha1(file) || undefined });
+                    } else {
+                        manual.push({
+                            projectId: String(file.modId),
+                            fileId: String(file.id),
+                            title: mod?.name || file.displayName,
+                            fileName: file.fileName,
+                            url: CurseForgeApi.getManualDownloadUrl(file, mod),
+                            destPath: path.join(instanceDir, relPath),
+                            fingerprint: file.fileFingerprint,
+                            instanceId: path.basename(instanceDir)
+                        });
+                    }
+                }
 
                 // Handle Overrides
                 const overridesDir = path.join(instanceDir, manifest.overrides || 'overrides');
@@ -197,7 +260,11 @@ export class ModpackInstaller {
                     if (!fs.existsSync(destFolder)) fs.mkdirSync(destFolder, { recursive: true });
 
                     try {
-                        await this.downloadFile(file.url, destPath);
+                        if (ContentStore.isShared(file.path)) {
+                            await ContentStore.install(file.url, destPath, file.sha1);
+                        } else {
+                            await this.downloadFile(file.url, destPath);
+                        }
                         completed++;
                         bytesDownloaded += (file.fileSize || 0);
 
@@ -266,6 +333,15 @@ export class ModpackInstaller {
 
             fs.writeFileSync(path.join(instanceDir, 'instance.json'), JSON.stringify(instanceConfig, null, 4));
 
+            // Remember the pack so it can be updated in place later
+            if (isModrinth) {
+                try {
+                    await ModpackUpdater.recordSource(instanceDir, zipPath, source || {});
+                } catch (e) {
+                    console.warn("Failed to record modpack source", e);
+                }
+            }
+
             // Clean up manifests to keep it clean
             const toCleanup = ['modrinth.index.json', 'manifest.json', 'overrides', 'client-overrides', 'modpack.mrpack'];
             toCleanup.forEach(f => {
@@ -277,7 +353,8 @@ export class ModpackInstaller {
             });
 
             onProgress("Complete!", 100, 100);
-            return { success: true, instanceId: instanceConfig.id };
+            CurseForgeManager.getInstance().addManualDownloads(manual);
+            return { success: true, instanceId: instanceConfig.id, manual };
 
         } catch (error: any) {
             console.error(`[ModpackInstaller] Local Zip Install Error:`, error);
@@ -0,0 +1,424 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import axios from 'axios';
+import AdmZip from 'adm-zip';
+import { ConfigManager } from '../managers/ConfigManager';
+import { ContentStore } from './ContentStore';
+import { LinkedFile } from './LinkedFile';
+import { InstanceManager } from '../managers/InstanceManager';
+import { ModPlatformManager, ModrinthVersion } from '../managers/ModPlatformManager';
+
+const SOURCE_FILE = '.whoap-modpack.json';
+const USER_AGENT = 'WhoapLauncher/1.0';
+
+/**
+ * Where a pack-installed instance came from, written to <instance>/.whoap-modpack.json.
+ * Hashes are what the pack shipped, so later changes by the user can be told apart.
+ */
+export interface ModpackSource {
+    platform: 'modrinth';
+    projectId?: string;
+    versionId?: string;
+    versionNumber?: string;
+    name: string;
+    gameVersion: string;
+    loader: string;
+    loaderVersion?: string;
+    files: Record<string, string>; // Index files: path -> sha1
+    overrides: Record<string, string>; // Files copied from (client-)overrides: path -> sha1
+    installedAt: number;
+}
+
+export interface ModpackUpdateOptions {
+    overwriteConfigs?: boolean; // Replace override files the user has edited
+    removeAddedMods?: boolean; // Delete mods that weren't part of the old pack
+}
+
+export interface ModpackUpdatePlan {
+    fromVersion?: string;
+    toVersionId: string;
+    toVersion: string;
+    gameVersion: { from: string; to: string };
+    loader: { from: string; to: string };
+    download: string[]; // New or changed pack files
+    remove: string[]; // Pack files the new version dropped
+    kept: string[]; // Dropped by the pack but changed by the user, left in place
+    overrides: string[]; // Override files that will be written
+    conflicts: string[]; // Override files both the user and the pack changed
+    addedMods: string[]; // Mods the user added on top of the pack
+}
+
+interface PackContents {
+    version: ModrinthVersion;
+    name: string;
+    gameVersion: string;
+    loader: string;
+    loaderVersion?: string;
+    files: Map<string, { sha1: string; url: string; size?: number }>;
+    overrides: Map<string, { sha1: string; data: () => Buffer }>;
+}
+
+/**
+ * Moves a Modrinth pack instance to another pack version in place. Anything the user changed
+ * (configs, removed or added mods) is detected against the hashes recorded at install time
+ * and kept unless the options say otherwise.
+ */
+export class ModpackUpdater {
+    static async getSource(instanceDir: string): Promise<ModpackSource | null> {
+        try {
+            return JSON.parse(await fs.readFile(path.join(instanceDir, SOURCE_FILE), 'utf-8'));
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Records the pack an instance was just installed from. Packs imported from a file are
+     * looked up on Modrinth by hash so they can be updated too.
+     */
+    static async recordSource(
+        instanceDir: string,
+        zipPath: string,
+        info: { projectId?: string; versionId?: string; versionNumber?: string }
+    ) {
+        const zip = new AdmZip(zipPath);
+        const index = JSON.parse(zip.readAsText('modrinth.index.json'));
+
+        if (!info.versionId) {
+            try {
+                const sha1 = await this.hashFile(zipPath);
+                const version = (await ModPlatformManager.getInstance().getVersionsFromHashes([sha1]))[sha1];
+                if (version) info = { projectId: version.project_id, versionId: version.id, versionNumber: version.version_number };
+            } catch (e) {
+                console.warn('[ModpackUpdater] Could not identify pack on Modrinth:', e);
+            }
+        }
+
+        const { loader, loaderVersion } = this.readLoader(index.dependencies || {});
+        const source: ModpackSource = {
+            platform: 'modrinth',
+            ...info,
+            versionNumber: info.versionNumber || index.versionId,
+            name: index.name,
+            gameVersion: index.dependencies?.minecraft,
+            loader,
+            loaderVersion,
+            files: Object.fromEntries(this.indexFiles(index).map(f => [f.path, f.hashes.sha1])),
+            overrides: Object.fromEntries([...this.overrideEntries(zip)].map(([p, o]) => [p, o.sha1])),
+            installedAt: Date.now()
+        };
+        await this.saveSource(instanceDir, source);
+        return source;
+    }
+
+    /**
+     * Newer versions of the pack, newest first. Releases are preferred; betas are only
+     * offered when the installed version is itself a pre-release.
+     */
+    static async checkForUpdate(instanceDir: string): Promise<{ source: ModpackSource; versions: ModrinthVersion[] }> {
+        const source = await this.requireSource(instanceDir);
+        const response = await axios.get(`https://api.modrinth.com/v2/project/${source.projectId}/version`, {
+            headers: { 'User-Agent': USER_AGENT }
+        });
+        const all: ModrinthVersion[] = response.data;
+        const currentIndex = all.findIndex(v => v.id === source.versionId);
+        const current = all[currentIndex];
+        const newer = currentIndex >= 0 ? all.slice(0, currentIndex) : all;
+
+        const includePre = current && current.version_type && current.version_type !== 'release';
+        return {
+            source,
+            versions: newer.filter(v => includePre || !v.version_type || v.version_type === 'release')
+        };
+    }
+
+    static async previewUpdate(instanceDir: string, versionId: string, options: ModpackUpdateOptions = {}): Promise<ModpackUpdatePlan> {
+        const source = await this.requireSource(instanceDir);
+        const pack = await this.loadPack(versionId);
+        return this.buildPlan(instanceDir, source, pack, options);
+    }
+
+    static async applyUpdate(
+        instanceId: string,
+        instanceDir: string,
+        versionId: string,
+        options: ModpackUpdateOptions,
+        onProgress: (status: string, progress: number) => void
+    ): Promise<ModpackUpdatePlan> {
+        const source = await this.requireSource(instanceDir);
+        onProgress('Downloading pack...', 5);
+        const pack = await this.loadPack(versionId);
+        const plan = await this.buildPlan(instanceDir, source, pack, options);
+
+        // Everything is downloaded and verified next to its destination before the instance is
+        // touched, so a failed download leaves the old version intact
+        const staged: { previous: string | null; dest: string }[] = [];
+        try {
+            let done = 0;
+            for (const rel of plan.download) {
+                const file = pack.files.get(rel)!;
+                // A mod the user had disabled stays disabled after the update
+                const previous = this.locate(instanceDir, rel);
+                const disabled = previous?.endsWith('.disabled') ?? false;
+                const dest = this.safeJoin(instanceDir, rel) + (disabled ? '.disabled' : '');
+
+                onProgress(`Downloading ${path.basename(rel)} (${++done}/${plan.download.length})`, 5 + Math.floor((done / Math.max(plan.download.length, 1)) * 75));
+                await fs.mkdir(path.dirname(dest), { recursive: true });
+                staged.push({ previous, dest });
+                if (ContentStore.isShared(rel)) {
+                    await ContentStore.install(file.url, dest + '.part', file.sha1);
+                } else {
+                    await this.download(file.url, dest + '.part', file.sha1);
+                }
+            }
+        } catch (e) {
+            for (const { dest } of staged) await fs.rm(dest + '.part', { force: true });
+            throw e;
+        }
+
+        const configPath = path.join(instanceDir, 'instance.json');
+        const config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+        if (config.version !== pack.gameVersion || config.loader !== pack.loader || config.loaderVersion !== pack.loaderVersion) {
+            onProgress(`Installing ${plan.loader.to}...`, 80);
+            try {
+                config.launchVersionId = await InstanceManager.getInstance().prepareLoader(pack.gameVersion, pack.loader, pack.loaderVersion);
+            } catch (e) {
+                for (const { dest } of staged) await fs.rm(dest + '.part', { force: true });
+                throw e;
+            }
+            config.version = pack.gameVersion;
+            config.loader = pack.loader;
+            config.loaderVersion = pack.loaderVersion;
+        }
+
+        onProgress('Replacing files...', 82);
+        for (const rel of [...plan.remove, ...(options.removeAddedMods ? plan.addedMods : [])]) {
+            const current = this.locate(instanceDir, rel);
+            if (current) await fs.rm(current, { force: true });
+        }
+        for (const { previous, dest } of staged) {
+            if (previous) await fs.rm(previous, { force: true });
+            await fs.rename(dest + '.part', dest);
+        }
+
+        onProgress('Applying configuration...', 85);
+        for (const rel of plan.overrides) {
+            const dest = this.safeJoin(instanceDir, rel);
+            await fs.mkdir(path.dirname(dest), { recursive: true });
+            await LinkedFile.write(dest, pack.overrides.get(rel)!.data());
+        }
+        // Overrides the new version no longer ships are removed only if the user never touched them
+        for (const [rel, sha1] of Object.entries(source.overrides)) {
+            if (pack.overrides.has(rel)) continue;
+            const current = this.locate(instanceDir, rel);
+            if (current && await this.hashFile(current) === sha1) await fs.rm(current, { force: true });
+        }
+
+        await fs.writeFile(configPath, JSON.stringify(config, null, 4));
+
+        // Hashes are what the pack shipped; files the user kept keep their old record
+        await this.saveSource(instanceDir, {
+            ...source,
+            projectId: pack.version.project_id,
+            versionId: pack.version.id,
+            versionNumber: pack.version.version_number,
+            name: pack.name,
+            gameVersion: pack.gameVersion,
+            loader: pack.loader,
+            loaderVersion: pack.loaderVersion,
+            files: Object.fromEntries([...pack.files].map(([p, f]) => [p, f.sha1])),
+            overrides: Object.fromEntries([...pack.overrides].map(([p, o]) => [
+                p,
+                plan.conflicts.includes(p) ? source.overrides[p] ?? o.sha1 : o.sha1
+            ])),
+            installedAt: Date.now()
+        });
+
+        await fs.rm(this.cachePath(versionId), { force: true });
+        console.log(`[ModpackUpdater] Updated ${instanceId} to ${pack.version.version_number}`);
+        onProgress('Complete!', 100);
+        return plan;
+    }
+
+    private static async buildPlan(instanceDir: string, source: ModpackSource, pack: PackContents, options: ModpackUpdateOptions): Promise<ModpackUpdatePlan> {
+        const plan: ModpackUpdatePlan = {
+            fromVersion: source.versionNumber,
+            toVersionId: pack.version.id,
+            toVersion: pack.version.version_number,
+            gameVersion: { from: source.gameVersion, to: pack.gameVersion },
+            loader: {
+                from: `${source.loader} ${source.loaderVersion || ''}`.trim(),
+                to: `${pack.loader} ${pack.loaderVersion || ''}`.trim()
+            },
+            download: [], remove: [], kept: [], overrides: [], conflicts: [], addedMods: []
+        };
+
+        for (const [rel, file] of pack.files) {
+            const old = source.files[rel];
+            // Unchanged in the pack: whatever the user did with it (removed, disabled) stands
+            if (old === file.sha1) continue;
+            const current = this.locate(instanceDir, rel);
+            if (current && await this.hashFile(current) === file.sha1) continue;
+            plan.download.push(rel);
+        }
+
+        for (const [rel, old] of Object.entries(source.files)) {
+            if (pack.files.has(rel)) continue;
+            const current = this.locate(instanceDir, rel);
+            if (!current) continue;
+            if (await this.hashFile(current) === old) plan.remove.push(rel);
+            else plan.kept.push(rel);
+        }
+
+        for (const [rel, override] of pack.overrides) {
+            const old = source.overrides[rel];
+            const current = this.locate(instanceDir, rel);
+            if (!current) {
+                plan.overrides.push(rel);
+                continue;
+            }
+            const hash = await this.hashFile(current);
+            if (hash === override.sha1 || old === override.sha1) continue;
+            if (hash === old) plan.overrides.push(rel);
+            else plan.conflicts.push(rel);
+        }
+
+        const modsDir = path.join(instanceDir, 'mods');
+        if (existsSync(modsDir)) {
+            const known = new Set([...Object.keys(source.files), ...Object.keys(source.overrides), ...pack.files.keys(), ...pack.overrides.keys()]);
+            for (const filename of await fs.readdir(modsDir)) {
+                const rel = `mods/${filename.replace(/\.disabled$/, '')}`;
+                if (!known.has(rel)) plan.addedMods.push(`mods/${filename}`);
+            }
+        }
+
+        if (options.overwriteConfigs) {
+            plan.overrides.push(...plan.conflicts);
+            plan.conflicts = [];
+        }
+        return plan;
+    }
+
+    /**
+     * Downloads (or reuses the cached) .mrpack for a version, so a preview followed by an
+     * apply only fetches it once.
+     */
+    private static async loadPack(versionId: string): Promise<PackContents> {
+        const [version] = await ModPlatformManager.getInstance().getVersions([versionId]);
+        if (!version) throw new Error('Pack version not found on Modrinth.');
+        const file = version.files.find(f => f.primary) || version.files[0];
+        if (!file || !file.filename.endsWith('.mrpack')) throw new Error('No .mrpack file found for this version.');
+
+        const packPath = this.cachePath(versionId);
+        if (!existsSync(packPath) || await this.hashFile(packPath) !== file.hashes.sha1) {
+            await fs.mkdir(path.dirname(packPath), { recursive: true });
+            await this.download(file.url, packPath, file.hashes.sha1);
+        }
+
+        const zip = new AdmZip(packPath);
+        const index = JSON.parse(zip.readAsText('modrinth.index.json'));
+        const { loader, loaderVersion } = this.readLoader(index.dependencies || {});
+
+        return {
+            version,
+            name: index.name,
+            gameVersion: index.dependencies.minecraft,
+            loader,
+            loaderVersion,
+            files: new Map(this.indexFiles(index).map(f => [f.path, { sha1: f.hashes.sha1, url: f.downloads[0], size: f.fileSize }])),
+            overrides: this.overrideEntries(zip)
+        };
+    }
+
+    // Client-side files only; server-only entries are never installed
+    private static indexFiles(index: any): any[] {
+        return (index.files || []).filter((f: any) => f.env?.client !== 'unsupported');
+    }
+
+    // client-overrides/ wins over overrides/, matching the order the installer copies them
+    private static overrideEntries(zip: AdmZip): Map<string, { sha1: string; data: () => Buffer }> {
+        const result = new Map<string, { sha1: string; data: () => Buffer }>();
+        for (const prefix of ['overrides/', 'client-overrides/']) {
+            for (const entry of zip.getEntries()) {
+                if (entry.isDirectory || !entry.entryName.startsWith(prefix)) continue;
+                const data = entry.getData();
+                result.set(entry.entryName.slice(prefix.length), {
+                    sha1: createHash('sha1').update(data).digest('hex'),
+                    data: () => entry.getData()
+                });
+            }
+        }
+        return result;
+    }
+
+    private static readLoader(deps: Record<string, string>): { loader: string; loaderVersion?: string } {
+        if (deps['fabric-loader']) return { loader: 'fabric', loaderVersion: deps['fabric-loader'] };
+        if (deps['quilt-loader']) return { loader: 'quilt', loaderVersion: deps['quilt-loader'] };
+        if (deps.neoforge) return { loader: 'neoforge', loaderVersion: deps.neoforge };
+        if (deps.forge) return { loader: 'forge', loaderVersion: deps.forge };
+        return { loader: 'vanilla' };
+    }
+
+    private static async requireSource(instanceDir: string): Promise<ModpackSource> {
+        const source = await this.getSource(instanceDir);
+        if (!source?.projectId) throw new Error('This instance was not installed from a Modrinth modpack.');
+        return source;
+    }
+
+    private static async saveSource(instanceDir: string, source: ModpackSource) {
+        await fs.writeFile(path.join(instanceDir, SOURCE_FILE), JSON.stringify(source, null, 2));
+    }
+
+    // The file as it is on disk, which may have been disabled by the user
+    private static locate(instanceDir: string, rel: string): string | null {
+        const target = this.safeJoin(instanceDir, rel);
+        if (existsSync(target)) return target;
+        if (existsSync(target + '.disabled')) return target + '.disabled';
+        return null;
+    }
+
+    // Index paths come from the pack author; refuse anything escaping the instance folder
+    private static safeJoin(instanceDir: string, rel: string): string {
+        const target = path.resolve(instanceDir, rel);
+        if (!target.startsWith(path.resolve(instanceDir) + path.sep)) {
+            throw new Error(`Refusing to write outside the instance: ${rel}`);
+        }
+        return target;
+    }
+
+    private static cachePath(versionId: string): string {
+        return path.join(ConfigManager.getDataPath(), 'cache', 'modpacks', `${versionId}.mrpack`);
+    }
+
+    // Verified before anything is renamed into place, so a truncated or tampered file never replaces a working one
+    private static async download(url: string, dest: string, expectedSha1: string) {
+        const hash = createHash('sha1');
+        const hasher = new Transform({
+            transform(chunk, _encoding, callback) {
+                hash.update(chunk);
+                callback(null, chunk);
+            }
+        });
+        const response = await axios.get(url, { responseType: 'stream', headers: { 'User-Agent': USER_AGENT } });
+        await pipeline(response.data, hasher, createWriteStream(dest));
+
+        if (hash.digest('hex') !== expectedSha1.toLowerCase()) {
+            await fs.rm(dest, { force: true });
+            throw new Error(`Hash mismatch for ${path.basename(new URL(url).pathname)}`);
+        }
+    }
+
+    private static hashFile(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = createHash('sha1');
+            createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+    }
+}
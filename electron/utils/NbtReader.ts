@@ -0,0 +1,173 @@
+import fs from 'fs/promises';
+import zlib from 'zlib';
+
+export type NbtValue =
+    | number
+    | bigint
+    | string
+    | NbtValue[]
+    | Int8Array
+    | Int32Array
+    | BigInt64Array
+    | NbtCompound;
+
+export interface NbtCompound {
+    [key: string]: NbtValue;
+}
+
+enum TagType {
+    End = 0,
+    Byte = 1,
+    Short = 2,
+    Int = 3,
+    Long = 4,
+    Float = 5,
+    Double = 6,
+    ByteArray = 7,
+    String = 8,
+    List = 9,
+    Compound = 10,
+    IntArray = 11,
+    LongArray = 12
+}
+
+/**
+ * Minimal reader for Java Edition NBT (big-endian). Longs are returned as bigint,
+ * arrays as typed arrays. Read-only; nothing here writes NBT back.
+ */
+export class NbtReader {
+    private offset = 0;
+
+    private constructor(private buffer: Buffer) { }
+
+    /**
+     * Parses an NBT buffer, transparently inflating gzip or zlib-compressed input.
+     * Returns the root compound (the root tag's own name is discarded).
+     */
+    static parse(data: Buffer): NbtCompound {
+        const reader = new NbtReader(NbtReader.decompress(data));
+        const type = reader.buffer.readUInt8(reader.offset++);
+        if (type !== TagType.Compound) {
+            throw new Error(`Invalid NBT: root tag is type ${type}, expected compound`);
+        }
+        reader.readString();
+        return reader.readCompound();
+    }
+
+    static async readFile(filePath: string): Promise<NbtCompound> {
+        return NbtReader.parse(await fs.readFile(filePath));
+    }
+
+    private static decompress(data: Buffer): Buffer {
+        if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+            return zlib.gunzipSync(data);
+        }
+        if (data.length >= 2 && data[0] === 0x78) {
+            return zlib.inflateSync(data);
+        }
+        return data;
+    }
+
+    private readPayload(type: number): NbtValue {
+        const buf = this.buffer;
+        switch (type) {
+            case TagType.Byte: {
+                const v = buf.readInt8(this.offset);
+                this.offset += 1;
+                return v;
+            }
+            case TagType.Short: {
+                const v = buf.readInt16BE(this.offset);
+                this.offset += 2;
+                return v;
+            }
+            case TagType.Int: {
+                const v = buf.readInt32BE(this.offset);
+                this.offset += 4;
+                return v;
+            }
+            case TagType.Long: {
+                const v = buf.readBigInt64BE(this.offset);
+                this.offset += 8;
+                return v;
+            }
+            case TagType.Float: {
+                const v = buf.readFloatBE(this.offset);
+                this.offset += 4;
+                return v;
+            }
+            case TagType.Double: {
+                const v = buf.readDoubleBE(this.offset);
+                this.offset += 8;
+                return v;
+            }
+            case TagType.ByteArray: {
+                const length = this.readLength();
+                const v = new Int8Array(buf.subarray(this.offset, this.offset + length));
+                this.offset += length;
+                return v;
+            }
+            case TagType.String:
+                return this.readString();
+            case TagType.List: {
+                const itemType = buf.readUInt8(this.offset++);
+                const length = this.readLength();
+                const items: NbtValue[] = [];
+                for (let i = 0; i < length; i++) {
+                    items.push(this.readPayload(itemType));
+                }
+                return items;
+            }
+            case TagType.Compound:
+                return this.readCompound();
+            case TagType.IntArray: {
+                const length = this.readLength();
+                const v = new Int32Array(length);
+                for (let i = 0; i < length; i++) {
+                    v[i] = buf.readInt32BE(this.offset);
+                    this.offset += 4;
+                }
+                return v;
+            }
+            case TagType.LongArray: {
+                const length = this.readLength();
+                const v = new BigInt64Array(length);
+                for (let i = 0; i < length; i++) {
+                    v[i] = buf.readBigInt64BE(this.offset);
+                    this.offset += 8;
+                }
+                return v;
+            }
+            default:
+                throw new Error(`Invalid NBT: unknown tag type ${type} at offset ${this.offset - 1}`);
+        }
+    }
+
+    private readCompound(): NbtCompound {
+        const result: NbtCompound = {};
+        for (;;) {
+            const type = this.buffer.readUInt8(this.offset++);
+            if (type === TagType.End) return result;
+            const name = this.readString();
+            result[name] = this.readPayload(type);
+        }
+    }
+
+    private readString(): string {
+        const length = this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        // Java writes modified UTF-8; it only differs from UTF-8 for NUL and supplementary chars
+        const v = this.buffer.toString('utf8', this.offset, this.offset + length);
+        this.offset += length;
+        return v;
+    }
+
+    private readLength(): number {
+        const length = this.buffer.readInt32BE(this.offset);
+        this.offset += 4;
+        if (length < 0 || length > this.buffer.length) {
+            throw new Error(`Invalid NBT: bad length ${length}`);
+        }
+        return length;
+    }
+}
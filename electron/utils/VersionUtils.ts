@@ -38,6 +38,57 @@ export class VersionUtils {
         }
     }
 
+    /**
+     * Compares two release version strings (e.g. "1.20.1" vs "1.19.4").
+     * Returns a negative number if a < b, positive if a > b, 0 if equal. Non-numeric parts are ignored.
+     */
+    static compareVersions(a: string, b: string): number {
+        const parse = (v: string) => (v.match(/\d+(\.\d+)*/)?.[0] || '0').split('.').map(n => parseInt(n) || 0);
+        const pa = parse(a);
+        const pb = parse(b);
+        for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+            const diff = (pa[i] || 0) - (pb[i] || 0);
+            if (diff !== 0) return diff;
+        }
+        return 0;
+    }
+
+    /**
+     * Quick Play (--quickPlayMultiplayer / --quickPlaySingleplayer) was added in 1.20.
+     * The version JSON is checked first since snapshots and modded IDs don't compare cleanly.
+     */
+    static supportsQuickPlay(mcVersion: string, versionData?: any): boolean {
+        if (versionData?.arguments?.game && JSON.stringify(versionData.arguments.game).includes('quickPlay')) {
+            return true;
+        }
+        return this.compareVersions(mcVersion, '1.20') >= 0;
+    }
+
+    /**
+     * Pulls the loader version out of a launch version id, e.g. "0.15.11" from
+     * "fabric-loader-0.15.11-1.20.1" or "47.2.0" from "1.20.1-forge-47.2.0".
+     */
+    static getLoaderVersion(loader: string, mcVersion: string, versionId: string): string | undefined {
+        switch (loader) {
+            case 'fabric':
+            case 'quilt': {
+                const prefix = `${loader}-loader-`;
+                const suffix = `-${mcVersion}`;
+                return versionId.startsWith(prefix) && versionId.endsWith(suffix)
+                    ? versionId.slice(prefix.length, -suffix.length)
+                    : undefined;
+            }
+            case 'forge': {
+                const marker = versionId.indexOf('-forge-');
+                return marker >= 0 ? versionId.slice(marker + '-forge-'.length) : undefined;
+            }
+            case 'neoforge':
+                return versionId ? versionId.replace(/^neoforge-/, '') : undefined;
+            default:
+                return undefined;
+        }
+    }
+
     private static extractMCVersion(data: any, folderId: string): string {
         // 1. inheritsFrom is most reliable for modded loaders
         if (data.inheritsFrom && data.inheritsFrom.match(/^\d+\.\d+(\.\d+)?$/)) {
@@ -23,6 +23,7 @@ import { Login } from './pages/Login';
 // Lazy-load non-critical pages for faster startup
 const Library = lazy(() => import('./pages/Library').then(m => ({ default: m.Library })));
 const Screenshots = lazy(() => import('./pages/Screenshots').then(m => ({ default: m.Screenshots })));
+const Logs = lazy(() => import('./pages/Logs').then(m => ({ default: m.Logs })));
 const News = lazy(() => import('./pages/News').then(m => ({ default: m.News })));
 const Friends = lazy(() => import('./pages/Friends').then(m => ({ default: m.Friends })));
 const Admin = lazy(() => import('./pages/Admin').then(m => ({ default: m.Admin })));
@@ -104,7 +105,7 @@ function App() {
                     if (!storedSkin || !storedCape) {
                         try {
                             const { AccountManager } = await import('./utils/AccountManager');
-                            const activeAccount = AccountManager.getActive();
+                            const activeAccount = await AccountManager.getActive();
                             if (activeAccount && activeAccount.uuid === result.profile.uuid) {
                                 if (!storedSkin) storedSkin = activeAccount.preferredSkin;
                                 if (!storedCape) storedCape = activeAccount.preferredCape;
@@ -115,7 +116,6 @@ function App() {
                     setUser({
                         name: result.profile.name,
                         uuid: result.profile.uuid,
-                        token: result.profile.token,
                         type: result.profile.type,
                         role: role,
                         preferredSkin: storedSkin,
@@ -123,31 +123,10 @@ function App() {
                     });
 
                     // Sync with Supabase if whoap account
-                    if (result.profile.type === 'whoap' && result.profile.token && navigator.onLine) {
+                    if (result.profile.type === 'whoap' && navigator.onLine) {
                         try {
-                            const { CloudManager } = await import('./utils/CloudManager');
-                            const syncResult = await CloudManager.syncSession(result.profile.token, result.profile.refreshToken);
-
-                            if (syncResult.success && syncResult.session) {
-                                const { AccountManager } = await import('./utils/AccountManager');
-                                AccountManager.addAccount({
-                                    name: result.profile.name,
-                                    uuid: syncResult.session.user.id,
-                                    token: syncResult.session.access_token,
-                                    refreshToken: syncResult.session.refresh_token,
-                                    type: 'whoap'
-                                });
-
-                                window.ipcRenderer.invoke('auth:update-session', {
-                                    token: syncResult.session.access_token,
-                                    refreshToken: syncResult.session.refresh_token
-                                });
-
-                                setUser((prev: any) => ({
-                                    ...prev,
-                                    token: syncResult.session.access_token
-                                }));
-                            }
+                            const { AccountManager } = await import('./utils/AccountManager');
+                            await AccountManager.restoreCloudSession();
                         } catch (e) {
                             console.warn("[App] Failed to sync session");
                         }
@@ -171,24 +150,15 @@ function App() {
         const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
             if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') {
                 if (session) {
-                    const { AccountManager } = await import('./utils/AccountManager');
-
                     setUser((prev: any) => ({
                         ...prev,
-                        token: session.access_token,
                         uuid: session.user.id,
                         name: session.user.user_metadata.display_name || prev?.name || 'User'
                     }));
 
-                    AccountManager.addAccount({
+                    window.ipcRenderer.invoke('auth:save-whoap-session', {
                         name: session.user.user_metadata.display_name || 'User',
                         uuid: session.user.id,
-                        token: session.access_token,
-                        refreshToken: session.refresh_token,
-                        type: 'whoap'
-                    });
-
-                    window.ipcRenderer.invoke('auth:update-session', {
                         token: session.access_token,
                         refreshToken: session.refresh_token
                     });
@@ -201,8 +171,17 @@ function App() {
             }
         });
 
+        // Microsoft tokens refreshed by the main process (at startup, before launch)
+        const handleAccountUpdated = (_: any, account: any) => {
+            setUser((prev: any) => prev && prev.uuid === account.uuid
+                ? { ...prev, name: account.name }
+                : prev);
+        };
+        window.ipcRenderer.on('auth:account-updated', handleAccountUpdated);
+
         return () => {
             subscription.unsubscribe();
+            window.ipcRenderer.off('auth:account-updated', handleAccountUpdated);
         };
     }, []);
 
@@ -210,7 +189,7 @@ function App() {
         if (user && user.type === 'whoap') {
             try {
                 const { AccountManager } = await import('./utils/AccountManager');
-                AccountManager.removeAccount(user.uuid);
+                await AccountManager.removeAccount(user.uuid);
             } catch (e) {
                 console.error("Failed to remove WHOAP account from storage", e);
             }
@@ -317,8 +296,9 @@ function App() {
                                 {activeTab === 'settings' && <Settings />}
                                 {activeTab === 'library' && <Library user={user} isOnline={isOnline} preselectedInstanceId={selectedLibraryInstanceId} />}
                                 {activeTab === 'modpacks' && <ModpackBrowser />}
-                                {activeTab === 'worlds' && <WorldManagement />}
+                                {activeTab === 'worlds' && <WorldManagement user={user} />}
                                 {activeTab === 'screenshots' && <Screenshots user={user} />}
+                                {activeTab === 'logs' && <Logs />}
                                 {activeTab === 'friends' && <Friends isOnline={isOnline} />}
                                 {activeTab === 'news' && <News />}
                                 {activeTab === 'admin' && <Admin user={user} />}
@@ -1,3 +1,5 @@
+import type { ManualDownload } from '../components/ManualDownloadModal';
+
 export interface Instance {
     id: string;
     name: string;
@@ -10,6 +12,7 @@ export interface Instance {
     isFavorite?: boolean;
     isImported?: boolean;
     launchVersionId?: string;
+    loaderVersion?: string;
     type?: 'created' | 'imported';
     playTime?: number;
     // Custom version support
@@ -17,6 +20,27 @@ export interface Instance {
     customClientJar?: string; // Path to custom client JAR
     javaPath?: string; // Custom Java executable path
     javaVersion?: string; // Required Java version (e.g., "8", "17", "21")
+    // Per-instance launch overrides (fall back to global settings when unset)
+    minRam?: number;
+    maxRam?: number;
+    jvmPreset?: 'potato' | 'standard' | 'pro' | 'extreme' | 'custom';
+    jvmArgs?: string[];
+    gameArgs?: string[];
+    envVars?: Record<string, string>;
+    // Launch hooks
+    preLaunchCommand?: string;
+    wrapperCommand?: string;
+    postExitCommand?: string;
+}
+
+export type InstanceLaunchSettings = Pick<Instance, 'minRam' | 'maxRam' | 'jvmPreset' | 'jvmArgs' | 'gameArgs' | 'envVars' | 'preLaunchCommand' | 'wrapperCommand' | 'postExitCommand'>;
+
+export interface ExportOptions {
+    format: 'whoap' | 'mrpack' | 'curseforge';
+    include: string[]; // Top-level entries of the instance folder
+    name?: string;
+    version?: string;
+    author?: string;
 }
 
 export interface Version {
@@ -63,10 +87,13 @@ export const InstanceApi = {
     duplicate: async (id: string, newName: string): Promise<{ success: boolean; instanceId?: string; error?: string }> => {
         return window.ipcRenderer.invoke('instance:duplicate', id, newName);
     },
-    export: async (id: string): Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }> => {
-        return window.ipcRenderer.invoke('instance:export', id);
+    export: async (id: string, options?: ExportOptions): Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string; referenced?: number; overrides?: number }> => {
+        return window.ipcRenderer.invoke('instance:export', id, options);
+    },
+    getExportEntries: async (id: string): Promise<{ name: string; isDirectory: boolean }[]> => {
+        return window.ipcRenderer.invoke('instance:get-export-entries', id);
     },
-    import: async (): Promise<{ success: boolean; instanceId?: string; canceled?: boolean; error?: string }> => {
+    import: async (): Promise<{ success: boolean; instanceId?: string; canceled?: boolean; error?: string; manual?: ManualDownload[] }> => {
         return window.ipcRenderer.invoke('instance:import');
     },
     rename: async (id: string, newName: string): Promise<{ success: boolean; error?: string }> => {
@@ -84,6 +111,9 @@ export const InstanceApi = {
     updateJavaPath: async (id: string, javaPath: string | null): Promise<{ success: boolean; error?: string }> => {
         return window.ipcRenderer.invoke('instance:update-java-path', id, javaPath);
     },
+    updateLaunchSettings: async (id: string, settings: InstanceLaunchSettings): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:update-launch-settings', id, settings);
+    },
     scanSystemJava: async (): Promise<{ version: string; path: string }[]> => {
         return window.ipcRenderer.invoke('java:scan-system');
     }
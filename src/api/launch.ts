@@ -1,12 +1,35 @@
 import { Instance } from "./instances";
 
+export interface RunningGame {
+    instanceId: string;
+    instanceName: string;
+    versionId: string;
+    pid?: number;
+    startTime: number;
+}
+
+/** Join a server or open a singleplayer world as soon as the game starts. */
+export type QuickPlayTarget =
+    | { type: 'multiplayer'; address: string }
+    | { type: 'singleplayer'; worldId: string };
+
 export const LaunchApi = {
-    launch: async (instance: Instance, authProfile: any) => {
+    launch: async (instance: Instance, authProfile: any, target?: QuickPlayTarget) => {
         const result = await window.ipcRenderer.invoke('game:launch',
             instance.id,
             instance.launchVersionId || instance.version,
-            authProfile
+            authProfile,
+            target
         );
         return result;
+    },
+    listRunning: async (): Promise<RunningGame[]> => {
+        return window.ipcRenderer.invoke('game:list-running');
+    },
+    kill: async (instanceId: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('game:kill', instanceId);
+    },
+    restart: async (instanceId: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('game:restart', instanceId);
     }
 };
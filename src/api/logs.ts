@@ -0,0 +1,21 @@
+export interface GameLogFile {
+    name: string;
+    path: string;
+    source: 'game' | 'session'; // The game's own logs folder, or the launcher's session archive
+    size: number;
+    modifiedAt: number;
+}
+
+export const LogsApi = {
+    list: async (instanceId: string): Promise<{ success: boolean; files?: GameLogFile[]; error?: string }> => {
+        return window.ipcRenderer.invoke('logs:list', instanceId);
+    },
+
+    read: async (instanceId: string, path: string): Promise<{ success: boolean; content?: string; error?: string }> => {
+        return window.ipcRenderer.invoke('logs:read', instanceId, path);
+    },
+
+    share: async (content: string): Promise<{ success: boolean; url?: string; error?: string }> => {
+        return window.ipcRenderer.invoke('logs:share', content);
+    }
+};
@@ -6,9 +6,11 @@ import {
 } from 'lucide-react';
 import { useToast } from '../context/ToastContext';
 import { OfflineButton } from './OfflineButton';
+import { ManualDownload, ManualDownloadModal } from './ManualDownloadModal';
 import ReactMarkdown from 'react-markdown';
 
 export type ContentType = 'mod' | 'resourcepack' | 'shader';
+type ContentSource = 'modrinth' | 'curseforge';
 
 interface ContentBrowserProps {
     instanceId: string;
@@ -35,6 +37,16 @@ interface InstallStatus {
     error?: string;
 }
 
+interface InstallPlan {
+    gameVersion: string;
+    loader: string;
+    entries: { projectId: string; versionId: string; versionNumber: string; title: string; filename: string; size: number; requiredBy?: string }[];
+    satisfied: { projectId: string; title: string; filename: string }[];
+    optional: { projectId: string; title: string; requiredBy: string }[];
+    issues: { type: 'incompatible' | 'unresolved'; projectId: string; title: string; message: string }[];
+    totalSize: number;
+}
+
 export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, version, loader, type, onClose }) => {
     const [query, setQuery] = useState('');
     const [projects, setProjects] = useState<Project[]>([]);
@@ -50,7 +62,11 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
     const [updateStatus, setUpdateStatus] = useState<{ [projectId: string]: { hasUpdate: boolean; currentVersion?: string; currentFilename?: string } }>({});
     const [showFilters, setShowFilters] = useState(false);
     const [confirmInstall, setConfirmInstall] = useState(false);
-    const [installDetails, setInstallDetails] = useState<{ size: number, missingDeps: string[] }>({ size: 0, missingDeps: [] });
+    const [resolving, setResolving] = useState(false);
+    const [installPlan, setInstallPlan] = useState<InstallPlan | null>(null);
+    const [source, setSource] = useState<ContentSource>('modrinth');
+    const [curseForgeReady, setCurseForgeReady] = useState(false);
+    const [manualDownloads, setManualDownloads] = useState<ManualDownload[]>([]);
     const { showToast } = useToast();
     const searchInputRef = useRef<HTMLInputElement>(null);
 
@@ -60,6 +76,9 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
         shader: { title: 'Shader Browser', icon: Sparkles, subtitle: 'Discover shaders', ipcPrefix: 'shaderpacks' }
     }[type];
 
+    // curseforge:* mirrors platform:*, so switching source only switches the channel prefix
+    const api = source === 'curseforge' ? 'curseforge' : 'platform';
+
     const categories = type === 'mod'
         ? ['Performance', 'Utility', 'Adventure', 'Magic', 'Tech', 'Decoration', 'Library']
         : type === 'resourcepack'
@@ -122,7 +141,7 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
 
         for (const project of projectsList) {
             try {
-                const versions = await window.ipcRenderer.invoke('platform:get-versions', project.project_id, type, { version, loader });
+                const versions = await window.ipcRenderer.invoke(`${api}:get-versions`, project.project_id, type, { version, loader });
                 if (versions.length > 0) {
                     const latestVersion = versions[0];
                     const result = await window.ipcRenderer.invoke('mods:find-by-project', instanceId, type, project.project_id);
@@ -144,11 +163,19 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
         setUpdateStatus(updates);
     };
 
-    // Project search
     useEffect(() => {
-        searchProjects('');
+        window.ipcRenderer.invoke('curseforge:status').then((status: { hasApiKey: boolean }) => {
+            setCurseForgeReady(status.hasApiKey);
+        });
     }, []);
 
+    // Project search, restarted when the source changes
+    useEffect(() => {
+        setSelectedProject(null);
+        setUpdateStatus({});
+        searchProjects(query);
+    }, [source]);
+
     // Debounce Search
     useEffect(() => {
         const timer = setTimeout(() => {
@@ -175,9 +202,14 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
     }, []);
 
     const searchProjects = async (q: string) => {
+        if (source === 'curseforge' && !curseForgeReady) {
+            setProjects([]);
+            setLoading(false);
+            return;
+        }
         setLoading(true);
         try {
-            const res = await window.ipcRenderer.invoke('platform:search', q, type, { version, loader });
+            const res = await window.ipcRenderer.invoke(`${api}:search`, q, type, { version, loader });
             const hits = res.hits || [];
             setProjects(hits);
 
@@ -198,7 +230,7 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
         setDependencyNames({});
 
         try {
-            const versions = await window.ipcRenderer.invoke('platform:get-versions', project.project_id, type, { version, loader });
+            const versions = await window.ipcRenderer.invoke(`${api}:get-versions`, project.project_id, type, { version, loader });
             if (versions.length > 0) {
                 const bestVersion = versions[0];
 
@@ -209,7 +241,7 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
 
                     if (idsToFetch.length > 0) {
                         try {
-                            const projects = await window.ipcRenderer.invoke('platform:get-projects', idsToFetch);
+                            const projects = await window.ipcRenderer.invoke(`${api}:get-projects`, idsToFetch);
                             const nameMap: { [key: string]: string } = {};
                             projects.forEach((p: any) => {
                                 if (p.id && p.title) nameMap[p.id] = p.title;
@@ -230,31 +262,27 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
         }
     };
 
-    const handleInstallClick = () => {
+    const handleInstallClick = async () => {
         if (!activeVersion || !selectedProject) return;
 
-        // Calculate size
-        const primaryFile = activeVersion.files?.find((f: any) => f.primary) || activeVersion.files?.[0];
-        const size = primaryFile ? primaryFile.size : 0;
-
-        // Calculate missing required dependencies
-        const missingDeps: string[] = [];
-        if (activeVersion.dependencies) {
-            activeVersion.dependencies.forEach((d: any) => {
-                if (d.dependency_type === 'required' && d.project_id) {
-                    if (!installedProjectIds.has(d.project_id)) {
-                        missingDeps.push(dependencyNames[d.project_id] || d.project_id);
-                    }
-                }
-            });
+        setResolving(true);
+        try {
+            const res = await window.ipcRenderer.invoke(`${api}:resolve-install`, instanceId, activeVersion.id, type);
+            if (!res.success) {
+                showToast(res.error || 'Failed to resolve dependencies', 'error');
+                return;
+            }
+            setInstallPlan(res.plan);
+            setConfirmInstall(true);
+        } catch (e: any) {
+            showToast(e.message, 'error');
+        } finally {
+            setResolving(false);
         }
-
-        setInstallDetails({ size, missingDeps });
-        setConfirmInstall(true);
     };
 
     const handleConfirmInstall = async () => {
-        if (!activeVersion || !selectedProject) return;
+        if (!activeVersion || !selectedProject || !installPlan) return;
         setConfirmInstall(false);
         setInstalling(true);
         setProgress('Preparing installation...');
@@ -269,7 +297,8 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
                 }
             }
 
-            const res = await window.ipcRenderer.invoke('platform:install', instanceId, activeVersion.id, type);
+            const versionIds = installPlan.entries.map(e => e.versionId);
+            const res = await window.ipcRenderer.invoke(`${api}:install-plan`, instanceId, versionIds, type);
             if (res.success) {
                 const action = isUpdate ? 'Updated' : 'Installed';
                 showToast(`${action} ${selectedProject?.title}!`, 'success');
@@ -282,6 +311,7 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
                 }
 
                 setSelectedProject(null);
+                if (res.manual?.length) setManualDownloads(res.manual);
             } else {
                 showToast(res.error || 'Install failed', 'error');
             }
@@ -290,6 +320,7 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
         } finally {
             setInstalling(false);
             setProgress('');
+            setInstallPlan(null);
             loadInstalledItems();
         }
     };
@@ -359,19 +390,36 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
 
                             {/* Filters */}
                             <div className={styles.filtersRow}>
-                                <button
-                                    className={`${styles.filterBtn} ${showFilters ? styles.active : ''}`}
-                                    onClick={() => setShowFilters(!showFilters)}
-                                >
-                                    <Filter size={14} />
-                                    Filter
-                                </button>
+                                <div className={styles.sourceToggle}>
+                                    <button
+                                        className={`${styles.filterBtn} ${showFilters ? styles.active : ''}`}
+                                        onClick={() => setShowFilters(!showFilters)}
+                                    >
+                                        <Filter size={14} />
+                                        Filter
+                                    </button>
+                                    {(['modrinth', 'curseforge'] as const).map(s => (
+                                        <button
+                                            key={s}
+                                            className={`${styles.filterBtn} ${source === s ? styles.active : ''}`}
+                                            onClick={() => setSource(s)}
+                                        >
+                                            {s === 'modrinth' ? 'Modrinth' : 'CurseForge'}
+                                        </button>
+                                    ))}
+                                </div>
 
                                 <span className={styles.resultsCount}>
                                     {loading ? 'Searching...' : `${projects.length} results`}
                                 </span>
                             </div>
 
+                            {source === 'curseforge' && !curseForgeReady && (
+                                <p className={styles.sourceHint}>
+                                    Browsing CurseForge needs an API key. Add one in Settings → CurseForge.
+                                </p>
+                            )}
+
                             {/* Category Filters */}
                             {showFilters && (
                                 <div className={styles.categoryFilters}>
@@ -473,7 +521,10 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
                                         ) : (
                                             <>
                                                 <Check size={16} />
-                                                <span>Compatible • Version {activeVersion.version_number}</span>
+                                                <span>
+                                                    Compatible • Version {activeVersion.version_number}
+                                                    {activeVersion.manual && ' • Manual download'}
+                                                </span>
                                             </>
                                         )
                                     ) : (
@@ -524,11 +575,13 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
                                         <OfflineButton
                                             className={styles.installBtn}
                                             onClick={handleInstallClick}
-                                            disabled={!activeVersion}
+                                            disabled={!activeVersion || resolving}
                                             offlineDisabled={true}
                                             offlineTooltip="Internet connection required to download"
                                         >
-                                            {updateStatus[selectedProject.project_id]?.hasUpdate ? (
+                                            {resolving ? (
+                                                <><RefreshCw size={18} className={styles.spin} /> Resolving dependencies...</>
+                                            ) : updateStatus[selectedProject.project_id]?.hasUpdate ? (
                                                 <><RefreshCw size={18} /> Update</>
                                             ) : (
                                                 <><Download size={18} /> Install</>
@@ -547,24 +600,63 @@ export const ContentBrowser: React.FC<ContentBrowserProps> = ({ instanceId, vers
                 </div>
             </div>
 
-            {confirmInstall && (
-                <div className={styles.confirmOverlay} onClick={() => setConfirmInstall(false)}>
-                    <div className={styles.confirmModal} onClick={e => e.stopPropagation()}>
-                        <h3>Confirm Installation</h3>
-                        <p><strong>{selectedProject?.title}</strong> ({formatBytes(installDetails.size)})</p>
+            {manualDownloads.length > 0 && (
+                <ManualDownloadModal
+                    downloads={manualDownloads}
+                    onClose={() => {
+                        setManualDownloads([]);
+                        loadInstalledItems();
+                    }}
+                />
+            )}
 
-                        {installDetails.missingDeps.length > 0 && (
-                            <div className={styles.missingDeps}>
-                                <p>This {type} requires additional dependencies that will be installed automatically:</p>
+            {confirmInstall && installPlan && (
+                <div className={styles.confirmOverlay} onClick={() => setConfirmInstall(false)}>
+                    <div className={`${styles.confirmModal} ${styles.planModal}`} onClick={e => e.stopPropagation()}>
+                        <h3>Install Plan</h3>
+                        <p>
+                            <strong>{installPlan.entries.length}</strong> {installPlan.entries.length === 1 ? 'file' : 'files'} ({formatBytes(installPlan.totalSize)}) for {installPlan.loader} {installPlan.gameVersion}
+                        </p>
+
+                        {installPlan.issues.length > 0 && (
+                            <div className={styles.planIssues}>
+                                <p><AlertTriangle size={14} /> Problems found</p>
                                 <ul>
-                                    {installDetails.missingDeps.map((dep, i) => <li key={i}>{dep}</li>)}
+                                    {installPlan.issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
                                 </ul>
                             </div>
                         )}
 
+                        <div className={styles.missingDeps}>
+                            <ul>
+                                {installPlan.entries.map(entry => (
+                                    <li key={entry.versionId}>
+                                        <span className={styles.planTitle}>{entry.title}</span>
+                                        <span className={styles.planMeta}>
+                                            {entry.versionNumber} · {formatBytes(entry.size)}
+                                            {entry.requiredBy && ` · required by ${entry.requiredBy}`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+
+                        {installPlan.satisfied.length > 0 && (
+                            <p className={styles.planNote}>
+                                Already installed: {installPlan.satisfied.map(s => s.title).join(', ')}
+                            </p>
+                        )}
+                        {installPlan.optional.length > 0 && (
+                            <p className={styles.planNote}>
+                                Optional, not included: {installPlan.optional.map(o => o.title).join(', ')}
+                            </p>
+                        )}
+
                         <div className={styles.confirmActions}>
                             <button onClick={() => setConfirmInstall(false)}>Cancel</button>
-                            <button onClick={handleConfirmInstall}>Install All</button>
+                            <button onClick={handleConfirmInstall} disabled={installPlan.entries.length === 0}>
+                                {installPlan.issues.length > 0 ? 'Install Anyway' : 'Install All'}
+                            </button>
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { X, RefreshCw, ArrowRight, ChevronDown, ChevronRight, RotateCcw, CheckCircle } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { useConfirm } from '../context/ConfirmContext';
+import styles from './ContentUpdatesModal.module.css';
+
+export interface ContentUpdate {
+    type: 'mod' | 'resourcepack' | 'shader';
+    projectId: string;
+    title: string;
+    iconUrl?: string;
+    currentFilename: string;
+    currentVersionNumber: string;
+    newVersionId: string;
+    newVersionNumber: string;
+    newFilename: string;
+    changelog?: string;
+    datePublished?: string;
+    enabled: boolean;
+}
+
+export interface RollbackSnapshot {
+    id: string;
+    createdAt: number;
+    verified: boolean;
+    entries: { type: string; oldFilename: string; newFilename: string }[];
+}
+
+interface ContentUpdatesModalProps {
+    instanceId: string;
+    onClose: (changed: boolean) => void;
+}
+
+const TYPE_LABELS: Record<ContentUpdate['type'], string> = {
+    mod: 'Mod',
+    resourcepack: 'Resource Pack',
+    shader: 'Shader'
+};
+
+export const ContentUpdatesModal: React.FC<ContentUpdatesModalProps> = ({ instanceId, onClose }) => {
+    const [updates, setUpdates] = useState<ContentUpdate[]>([]);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [snapshots, setSnapshots] = useState<RollbackSnapshot[]>([]);
+    const [checking, setChecking] = useState(true);
+    const [applying, setApplying] = useState<string | null>(null);
+    const [changed, setChanged] = useState(false);
+    const { showToast } = useToast();
+    const confirm = useConfirm();
+
+    const check = async () => {
+        setChecking(true);
+        try {
+            const [res, rollbacks] = await Promise.all([
+                window.ipcRenderer.invoke('content:check-updates', instanceId),
+                window.ipcRenderer.invoke('content:list-rollbacks', instanceId)
+            ]);
+            setSnapshots(rollbacks || []);
+            if (res.success) {
+                setUpdates(res.updates);
+                setSelected(new Set(res.updates.map((u: ContentUpdate) => u.projectId)));
+            } else {
+                showToast(res.error || 'Failed to check for updates', 'error');
+            }
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    useEffect(() => {
+        check();
+
+        const handleProgress = (_: any, status: { name: string; index: number; total: number }) => {
+            setApplying(`Updating ${status.name} (${status.index + 1}/${status.total})...`);
+        };
+        window.ipcRenderer.on('content:update-progress', handleProgress);
+        return () => {
+            window.ipcRenderer.off('content:update-progress', handleProgress);
+        };
+    }, [instanceId]);
+
+    const toggle = (projectId: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(projectId)) next.delete(projectId);
+            else next.add(projectId);
+            return next;
+        });
+    };
+
+    const handleApply = async () => {
+        const chosen = updates.filter(u => selected.has(u.projectId));
+        if (chosen.length === 0) return;
+
+        setApplying('Preparing updates...');
+        try {
+            const res = await window.ipcRenderer.invoke('content:apply-updates', instanceId, chosen);
+            setChanged(true);
+            if (res.failed?.length) {
+                showToast(`Failed to update: ${res.failed.join(', ')}`, 'error');
+            } else if (res.success) {
+                showToast(`Updated ${chosen.length} item${chosen.length === 1 ? '' : 's'}`, 'success');
+            } else {
+                showToast(res.error || 'Update failed', 'error');
+            }
+            await check();
+        } finally {
+            setApplying(null);
+        }
+    };
+
+    const handleRollback = async (snapshot: RollbackSnapshot) => {
+        const ok = await confirm(
+            'Roll Back Update?',
+            `Restore the ${snapshot.entries.length} file${snapshot.entries.length === 1 ? '' : 's'} replaced on ${new Date(snapshot.createdAt).toLocaleString()}?`,
+            { confirmLabel: 'Roll Back' }
+        );
+        if (!ok) return;
+
+        setApplying('Rolling back...');
+        try {
+            const res = await window.ipcRenderer.invoke('content:rollback', instanceId, snapshot.id);
+            if (res.success) {
+                setChanged(true);
+                showToast('Update rolled back', 'success');
+                await check();
+            } else {
+                showToast(res.error || 'Rollback failed', 'error');
+            }
+        } finally {
+            setApplying(null);
+        }
+    };
+
+    const latestSnapshot = snapshots[0];
+
+    return (
+        <div className={styles.overlay} onClick={() => onClose(changed)}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div>
+                        <h2>Content Updates</h2>
+                        <p>Mods, resource packs and shaders installed from Modrinth</p>
+                    </div>
+                    <button className={styles.closeBtn} onClick={() => onClose(changed)}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    {checking ? (
+                        <div className={styles.empty}>
+                            <RefreshCw size={20} className={styles.spin} />
+                            <span>Checking for updates...</span>
+                        </div>
+                    ) : updates.length === 0 ? (
+                        <div className={styles.empty}>
+                            <CheckCircle size={20} />
+                            <span>Everything is up to date</span>
+                        </div>
+                    ) : (
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.size === updates.length}
+                                            onChange={e => setSelected(e.target.checked ? new Set(updates.map(u => u.projectId)) : new Set())}
+                                        />
+                                    </th>
+                                    <th>Name</th>
+                                    <th>Type</th>
+                                    <th>Version</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {updates.map(update => (
+                                    <React.Fragment key={update.projectId}>
+                                        <tr className={styles.row}>
+                                            <td>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected.has(update.projectId)}
+                                                    onChange={() => toggle(update.projectId)}
+                                                />
+                                            </td>
+                                            <td className={styles.nameCell}>
+                                                {update.iconUrl && <img src={update.iconUrl} alt="" />}
+                                                <span>{update.title}</span>
+                                                {!update.enabled && <span className={styles.disabledTag}>Disabled</span>}
+                                            </td>
+                                            <td className={styles.muted}>{TYPE_LABELS[update.type]}</td>
+                                            <td className={styles.versionCell}>
+                                                <span className={styles.muted}>{update.currentVersionNumber}</span>
+                                                <ArrowRight size={12} />
+                                                <span className={styles.newVersion}>{update.newVersionNumber}</span>
+                                            </td>
+                                            <td>
+                                                <button
+                                                    className={styles.changelogBtn}
+                                                    onClick={() => setExpanded(expanded === update.projectId ? null : update.projectId)}
+                                                >
+                                                    {expanded === update.projectId ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                                    Changelog
+                                                </button>
+                                            </td>
+                                        </tr>
+                                        {expanded === update.projectId && (
+                                            <tr>
+                                                <td colSpan={5} className={styles.changelog}>
+                                                    {update.changelog
+                                                        ? <ReactMarkdown>{update.changelog}</ReactMarkdown>
+                                                        : <span className={styles.muted}>No changelog provided.</span>}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    {latestSnapshot && (
+                        <button className={styles.secondaryBtn} onClick={() => handleRollback(latestSnapshot)} disabled={!!applying}>
+                            <RotateCcw size={14} />
+                            Roll back last update ({new Date(latestSnapshot.createdAt).toLocaleDateString()})
+                        </button>
+                    )}
+                    <div className={styles.footerSpacer} />
+                    {applying ? (
+                        <span className={styles.progress}>
+                            <RefreshCw size={14} className={styles.spin} />
+                            {applying}
+                        </span>
+                    ) : (
+                        <button
+                            className={styles.primaryBtn}
+                            onClick={handleApply}
+                            disabled={checking || selected.size === 0}
+                        >
+                            Update {selected.size > 0 ? `${selected.size} ` : ''}Selected
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,22 +1,108 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styles from './CrashReportModal.module.css';
-import { X, Terminal, CheckCircle, Bug } from 'lucide-react';
+import { X, Terminal, CheckCircle, Bug, RotateCcw, FileText, Coffee, Ban } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import type { RollbackSnapshot } from './ContentUpdatesModal';
+
+interface SuspectedMod {
+    modId: string;
+    name?: string;
+    file?: string;
+    reason: string;
+}
+
+type CrashAction =
+    | { type: 'disable-mod'; label: string; file: string }
+    | { type: 'switch-java'; label: string; major: string };
 
 interface CrashReport {
     cause: string;
     details: string;
     suggestion: string;
     isDetected: boolean;
+    ruleId?: string;
+    suspectedMods: SuspectedMod[];
+    actions: CrashAction[];
+    crashReport?: { file: string; content: string };
 }
 
 interface CrashReportModalProps {
     report: CrashReport;
     log: string;
+    instanceId?: string;
     onClose: () => void;
 }
 
-export const CrashReportModal: React.FC<CrashReportModalProps> = ({ report, log, onClose }) => {
+export const CrashReportModal: React.FC<CrashReportModalProps> = ({ report, log, instanceId, onClose }) => {
     const [showLog, setShowLog] = useState(false);
+    const [rollback, setRollback] = useState<RollbackSnapshot | null>(null);
+    const [rollingBack, setRollingBack] = useState(false);
+    const [showReport, setShowReport] = useState(false);
+    const [applied, setApplied] = useState<string[]>([]);
+    const [busyAction, setBusyAction] = useState<string | null>(null);
+    const { showToast } = useToast();
+
+    // Offer to undo a content update the game hasn't run cleanly with yet
+    useEffect(() => {
+        if (!instanceId) return;
+        window.ipcRenderer.invoke('content:list-rollbacks', instanceId).then((snapshots: RollbackSnapshot[]) => {
+            setRollback(snapshots.find(s => !s.verified) || null);
+        });
+    }, [instanceId]);
+
+    const handleRollback = async () => {
+        if (!instanceId || !rollback) return;
+        setRollingBack(true);
+        try {
+            const res = await window.ipcRenderer.invoke('content:rollback', instanceId, rollback.id);
+            if (res.success) {
+                showToast('Update rolled back', 'success');
+                setRollback(null);
+            } else {
+                showToast(res.error || 'Rollback failed', 'error');
+            }
+        } finally {
+            setRollingBack(false);
+        }
+    };
+
+    const handleAction = async (action: CrashAction) => {
+        if (!instanceId) return;
+        setBusyAction(action.label);
+        try {
+            if (action.type === 'disable-mod') {
+                const res = await window.ipcRenderer.invoke('mods:toggle', instanceId, action.file);
+                if (!res.success) throw new Error(res.error || 'Failed to disable mod');
+                showToast(`Disabled ${action.file}`, 'success');
+            } else {
+                const runtime = await window.ipcRenderer.invoke('java:ensure-runtime', action.major);
+                if (!runtime.success) throw new Error(runtime.error || `Could not get Java ${action.major}`);
+                const res = await window.ipcRenderer.invoke('instance:update-java-path', instanceId, runtime.path);
+                if (!res.success) throw new Error(res.error || 'Failed to change Java');
+                showToast(`This instance now uses Java ${action.major}`, 'success');
+            }
+            setApplied(prev => [...prev, action.label]);
+        } catch (e: any) {
+            showToast(e.message || String(e), 'error');
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    const javaActions = report.actions.filter(a => a.type === 'switch-java');
+    const disableAction = (mod: SuspectedMod) => report.actions.find(a => a.type === 'disable-mod' && a.file === mod.file);
+
+    const actionButton = (action: CrashAction, icon: React.ReactNode) => (
+        <button
+            key={action.label}
+            className={styles.actionBtn}
+            onClick={() => handleAction(action)}
+            disabled={!!busyAction || applied.includes(action.label)}
+        >
+            {icon}
+            {applied.includes(action.label) ? 'Done' : busyAction === action.label ? 'Working...' : action.label}
+        </button>
+    );
 
     return (
         <div className={styles.overlay}>
@@ -53,7 +139,62 @@ export const CrashReportModal: React.FC<CrashReportModalProps> = ({ report, log,
                         </div>
                     </div>
 
+                    {instanceId && javaActions.length > 0 && (
+                        <div className={styles.actionRow}>
+                            {javaActions.map(action => actionButton(action, <Coffee size={14} />))}
+                        </div>
+                    )}
+
+                    {report.suspectedMods.length > 0 && (
+                        <div className={styles.suggestionSection}>
+                            <div className={styles.sectionTitle}>Suspected Mods</div>
+                            <div className={styles.suspectList}>
+                                {report.suspectedMods.map(mod => {
+                                    const action = disableAction(mod);
+                                    return (
+                                        <div key={mod.modId} className={styles.suspect}>
+                                            <div className={styles.suspectInfo}>
+                                                <div className={styles.suspectName}>{mod.name || mod.modId}</div>
+                                                <div className={styles.suspectReason} title={mod.file}>{mod.reason}</div>
+                                            </div>
+                                            {instanceId && action && actionButton(action, <Ban size={14} />)}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {rollback && (
+                        <div className={styles.rollbackCard}>
+                            <div>
+                                <div className={styles.sectionTitle}>Recent update</div>
+                                <div className={styles.rollbackText}>
+                                    {rollback.entries.length} file{rollback.entries.length === 1 ? ' was' : 's were'} updated on {new Date(rollback.createdAt).toLocaleString()} and the game hasn't run cleanly since.
+                                </div>
+                            </div>
+                            <button className={styles.rollbackBtn} onClick={handleRollback} disabled={rollingBack}>
+                                <RotateCcw size={14} />
+                                {rollingBack ? 'Rolling back...' : 'Roll Back'}
+                            </button>
+                        </div>
+                    )}
+
                     <div className={styles.logSection}>
+                        {report.crashReport && (
+                            <>
+                                <button className={styles.logToggle} onClick={() => setShowReport(!showReport)}>
+                                    <FileText size={14} />
+                                    {showReport ? 'Hide Crash Report' : `View Crash Report (${report.crashReport.file})`}
+                                </button>
+                                {showReport && (
+                                    <div className={styles.logViewer}>
+                                        {report.crashReport.content}
+                                    </div>
+                                )}
+                            </>
+                        )}
+
                         <button
                             className={styles.logToggle}
                             onClick={() => setShowLog(!showLog)}
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, CheckCircle, AlertCircle, ShieldCheck, Trash2 } from 'lucide-react';
+import styles from './DownloadManagerModal.module.css';
+
+interface DownloadEntry {
+    id: number;
+    name: string;
+    url: string;
+    total: number;
+    received: number;
+    resumedFrom: number;
+    speed: number;
+    eta: number | null;
+    status: 'downloading' | 'verifying' | 'done' | 'failed';
+    error?: string;
+    startedAt: number;
+    finishedAt?: number;
+}
+
+interface DownloadSnapshot {
+    active: DownloadEntry[];
+    recent: DownloadEntry[];
+    queued: number;
+    speed: number;
+}
+
+interface DownloadManagerModalProps {
+    onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+    if (bytes <= 0) return '0 B';
+    const units = ['B', 'KB', 'MB', 'GB'];
+    const i = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+    return `${(bytes / Math.pow(1024, i)).toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+};
+
+const formatEta = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    const m = Math.floor(seconds / 60);
+    if (m < 60) return `${m}m ${seconds % 60}s`;
+    return `${Math.floor(m / 60)}h ${m % 60}m`;
+};
+
+export const DownloadManagerModal: React.FC<DownloadManagerModalProps> = ({ onClose }) => {
+    const [snapshot, setSnapshot] = useState<DownloadSnapshot>({ active: [], recent: [], queued: 0, speed: 0 });
+
+    useEffect(() => {
+        window.ipcRenderer.invoke('downloads:get').then(setSnapshot);
+
+        const handleChanged = (_: any, next: DownloadSnapshot) => setSnapshot(next);
+        window.ipcRenderer.on('downloads:changed', handleChanged);
+        return () => {
+            window.ipcRenderer.off('downloads:changed', handleChanged);
+        };
+    }, []);
+
+    const renderEntry = (entry: DownloadEntry) => {
+        const percent = entry.total > 0 ? Math.min(100, (entry.received / entry.total) * 100) : 0;
+        return (
+            <div key={entry.id} className={styles.entry}>
+                <div className={styles.entryIcon}>
+                    {entry.status === 'done' ? <CheckCircle size={16} className={styles.doneIcon} />
+                        : entry.status === 'failed' ? <AlertCircle size={16} className={styles.failedIcon} />
+                            : entry.status === 'verifying' ? <ShieldCheck size={16} />
+                                : <Download size={16} />}
+                </div>
+                <div className={styles.entryMain}>
+                    <div className={styles.entryTop}>
+                        <span className={styles.entryName} title={entry.url}>{entry.name}</span>
+                        <span className={styles.entryMeta}>
+                            {entry.status === 'downloading' && (
+                                <>
+                                    {formatBytes(entry.received)}{entry.total > 0 && ` / ${formatBytes(entry.total)}`}
+                                    {entry.speed > 0 && ` · ${formatBytes(entry.speed)}/s`}
+                                    {entry.eta !== null && ` · ${formatEta(entry.eta)} left`}
+                                </>
+                            )}
+                            {entry.status === 'verifying' && 'Verifying...'}
+                            {entry.status === 'done' && formatBytes(entry.total || entry.received)}
+                            {entry.status === 'failed' && <span className={styles.failedIcon}>{entry.error || 'Failed'}</span>}
+                        </span>
+                    </div>
+                    {(entry.status === 'downloading' || entry.status === 'verifying') && (
+                        <div className={styles.bar}>
+                            <div className={styles.barFill} style={{ width: `${percent}%` }} />
+                        </div>
+                    )}
+                    {entry.resumedFrom > 0 && entry.status === 'downloading' && (
+                        <span className={styles.resumed}>Resumed at {formatBytes(entry.resumedFrom)}</span>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div>
+                        <h2>Downloads</h2>
+                        <p>
+                            {snapshot.active.length} active · {snapshot.queued} waiting
+                            {snapshot.speed > 0 && ` · ${formatBytes(snapshot.speed)}/s`}
+                        </p>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    {snapshot.active.length === 0 && snapshot.recent.length === 0 ? (
+                        <div className={styles.empty}>Nothing is downloading right now.</div>
+                    ) : (
+                        <>
+                            {snapshot.active.map(renderEntry)}
+                            {snapshot.recent.length > 0 && (
+                                <div className={styles.sectionRow}>
+                                    <span>Recent</span>
+                                    <button onClick={() => window.ipcRenderer.invoke('downloads:clear')}>
+                                        <Trash2 size={12} /> Clear
+                                    </button>
+                                </div>
+                            )}
+                            {snapshot.recent.map(renderEntry)}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
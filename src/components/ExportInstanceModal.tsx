@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Download, X, Folder, FileText } from 'lucide-react';
+import { Instance, InstanceApi, ExportOptions } from '../api/instances';
+import { useToast } from '../context/ToastContext';
+import styles from './ExportInstanceModal.module.css';
+
+interface ExportInstanceModalProps {
+    instance: Instance;
+    onClose: () => void;
+}
+
+const FORMATS: { id: ExportOptions['format']; label: string; description: string }[] = [
+    { id: 'whoap', label: 'Whoap Backup', description: 'Full .zip for re-importing into Whoap' },
+    { id: 'mrpack', label: 'Modrinth (.mrpack)', description: 'For Modrinth App, Prism and other launchers' },
+    { id: 'curseforge', label: 'CurseForge', description: 'Modpack zip with a manifest.json' }
+];
+
+// Checked by default; saves and screenshots are personal and usually left out of shared packs
+const DEFAULT_INCLUDE = ['mods', 'config', 'defaultconfigs', 'kubejs', 'resourcepacks', 'shaderpacks', 'options.txt'];
+
+export const ExportInstanceModal: React.FC<ExportInstanceModalProps> = ({ instance, onClose }) => {
+    const [format, setFormat] = useState<ExportOptions['format']>('mrpack');
+    const [entries, setEntries] = useState<{ name: string; isDirectory: boolean }[]>([]);
+    const [include, setInclude] = useState<Set<string>>(new Set());
+    const [packName, setPackName] = useState(instance.name);
+    const [packVersion, setPackVersion] = useState('1.0.0');
+    const [exporting, setExporting] = useState(false);
+    const { showToast } = useToast();
+
+    useEffect(() => {
+        InstanceApi.getExportEntries(instance.id).then(list => {
+            setEntries(list);
+            setInclude(new Set(list.filter(e => DEFAULT_INCLUDE.includes(e.name)).map(e => e.name)));
+        });
+    }, [instance.id]);
+
+    // A Whoap backup is meant to restore everything; shared packs start from the defaults
+    const selectFormat = (next: ExportOptions['format']) => {
+        setFormat(next);
+        setInclude(new Set(entries.filter(e => next === 'whoap' || DEFAULT_INCLUDE.includes(e.name)).map(e => e.name)));
+    };
+
+    const toggle = (name: string) => {
+        setInclude(prev => {
+            const next = new Set(prev);
+            if (next.has(name)) next.delete(name);
+            else next.add(name);
+            return next;
+        });
+    };
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const res = await InstanceApi.export(instance.id, {
+                format,
+                include: [...include],
+                name: packName.trim() || instance.name,
+                version: packVersion.trim() || '1.0.0'
+            });
+            if (res.canceled) return;
+            if (!res.success) {
+                showToast(res.error || 'Export failed', 'error');
+                return;
+            }
+            if (format === 'whoap') {
+                showToast(`Exported to: ${res.filePath}`, 'success');
+            } else {
+                showToast(`Exported ${res.referenced} linked file${res.referenced === 1 ? '' : 's'}, ${res.overrides} bundled`, 'success');
+            }
+            onClose();
+        } catch (e) {
+            showToast('Export failed', 'error');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div className={styles.iconArea}>
+                        <Download size={20} />
+                    </div>
+                    <div className={styles.headerText}>
+                        <div className={styles.title}>Export Profile</div>
+                        <div className={styles.subtitle}>{instance.name} · {instance.version}</div>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    <div className={styles.sectionTitle}>Format</div>
+                    <div className={styles.formats}>
+                        {FORMATS.map(f => (
+                            <button
+                                key={f.id}
+                                className={`${styles.formatOption} ${format === f.id ? styles.selected : ''}`}
+                                onClick={() => selectFormat(f.id)}
+                            >
+                                <span className={styles.formatLabel}>{f.label}</span>
+                                <span className={styles.formatDesc}>{f.description}</span>
+                            </button>
+                        ))}
+                    </div>
+
+                    {format !== 'whoap' && (
+                        <div className={styles.packFields}>
+                            <label className={styles.field}>
+                                <span className={styles.fieldLabel}>Pack name</span>
+                                <input className={styles.textInput} value={packName} onChange={e => setPackName(e.target.value)} />
+                            </label>
+                            <label className={styles.field}>
+                                <span className={styles.fieldLabel}>Version</span>
+                                <input className={styles.textInput} value={packVersion} onChange={e => setPackVersion(e.target.value)} />
+                            </label>
+                        </div>
+                    )}
+
+                    <div className={styles.sectionTitle}>Include</div>
+                    <div className={styles.entryList}>
+                        {entries.length === 0 && <div className={styles.note}>Nothing to export.</div>}
+                        {entries.map(entry => (
+                            <label key={entry.name} className={styles.toggleRow}>
+                                <input type="checkbox" checked={include.has(entry.name)} onChange={() => toggle(entry.name)} />
+                                {entry.isDirectory ? <Folder size={14} /> : <FileText size={14} />}
+                                <span>{entry.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                    {format !== 'whoap' && (
+                        <p className={styles.note}>
+                            {format === 'mrpack'
+                                ? 'Mods and packs found on Modrinth are linked rather than bundled.'
+                                : 'Mods found on CurseForge are linked rather than bundled (requires a CurseForge API key).'}
+                            {' '}Everything else is packed into overrides.
+                        </p>
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    <button className={styles.cancelBtn} onClick={onClose}>Cancel</button>
+                    <button className={styles.saveBtn} onClick={handleExport} disabled={exporting || include.size === 0}>
+                        {exporting ? 'Exporting...' : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
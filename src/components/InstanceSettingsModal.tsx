@@ -12,13 +12,20 @@ import {
     AlertTriangle,
     ChevronRight,
     Coffee,
-    Check
+    Check,
+    Cpu,
+    Save,
+    PackageCheck,
+    ShieldCheck
 } from 'lucide-react';
 import styles from './InstanceSettingsModal.module.css';
 import { Instance, InstanceApi } from '../api/instances';
 import { useConfirm } from '../context/ConfirmContext';
 import { useToast } from '../context/ToastContext';
 import { SyncQueue } from '../utils/SyncQueue';
+import { ExportInstanceModal } from './ExportInstanceModal';
+import { ModpackUpdateModal } from './ModpackUpdateModal';
+import { VerifyInstanceModal } from './VerifyInstanceModal';
 
 interface InstanceSettingsModalProps {
     instance: Instance;
@@ -36,16 +43,34 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
     const [deleting, setDeleting] = useState(false);
     const { showToast } = useToast();
 
-    const [activeTab, setActiveTab] = useState<'general' | 'icon' | 'java' | 'danger'>('general');
+    const [activeTab, setActiveTab] = useState<'general' | 'icon' | 'java' | 'performance' | 'danger'>('general');
     const [isRenaming, setIsRenaming] = useState(false);
     const [isDuplicating, setIsDuplicating] = useState(false);
     const [inputValue, setInputValue] = useState('');
     const [iconUrl, setIconUrl] = useState(instance.icon || '');
+    const [showExport, setShowExport] = useState(false);
+    const [modpack, setModpack] = useState<{ name: string; projectId?: string; versionNumber?: string } | null>(null);
+    const [showPackUpdate, setShowPackUpdate] = useState(false);
+    const [showVerify, setShowVerify] = useState(false);
     
     // Java management state
     const [systemJava, setSystemJava] = useState<{ version: string; path: string }[]>([]);
     const [selectedJava, setSelectedJava] = useState<string | null>(instance.javaPath || null);
 
+    // Performance overrides state (empty = use global setting)
+    const [perfPreset, setPerfPreset] = useState<string>(instance.jvmPreset || '');
+    const [perfMinRam, setPerfMinRam] = useState(instance.minRam ? String(instance.minRam) : '');
+    const [perfMaxRam, setPerfMaxRam] = useState(instance.maxRam ? String(instance.maxRam) : '');
+    const [perfJvmArgs, setPerfJvmArgs] = useState((instance.jvmArgs || []).join('\n'));
+    const [perfGameArgs, setPerfGameArgs] = useState((instance.gameArgs || []).join('\n'));
+    const [perfEnvVars, setPerfEnvVars] = useState(
+        Object.entries(instance.envVars || {}).map(([key, value]) => `${key}=${value}`).join('\n')
+    );
+    const [preLaunchCommand, setPreLaunchCommand] = useState(instance.preLaunchCommand || '');
+    const [wrapperCommand, setWrapperCommand] = useState(instance.wrapperCommand || '');
+    const [postExitCommand, setPostExitCommand] = useState(instance.postExitCommand || '');
+    const [savingPerf, setSavingPerf] = useState(false);
+
     // Load system Java installations
     useEffect(() => {
         const loadJava = async () => {
@@ -57,6 +82,11 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
         }
     }, [activeTab]);
 
+    // Pack-installed instances can be moved to a newer pack version
+    useEffect(() => {
+        window.ipcRenderer.invoke('modpack:get-source', instance.id).then(setModpack);
+    }, [instance.id]);
+
     const canRename = instance.type === 'created';
     
     const handleJavaSelect = async (javaPath: string | null) => {
@@ -70,6 +100,44 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
         }
     };
 
+    const handleSavePerformance = async () => {
+        const toLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+        const envVars: Record<string, string> = {};
+        for (const line of toLines(perfEnvVars)) {
+            const eq = line.indexOf('=');
+            if (eq <= 0) {
+                showToast(`Invalid environment variable: ${line}`, 'error');
+                return;
+            }
+            envVars[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+        }
+
+        setSavingPerf(true);
+        try {
+            const result = await InstanceApi.updateLaunchSettings(instance.id, {
+                jvmPreset: (perfPreset || undefined) as Instance['jvmPreset'],
+                minRam: parseInt(perfMinRam) || undefined,
+                maxRam: parseInt(perfMaxRam) || undefined,
+                jvmArgs: toLines(perfJvmArgs),
+                gameArgs: toLines(perfGameArgs),
+                envVars,
+                preLaunchCommand: preLaunchCommand.trim(),
+                wrapperCommand: wrapperCommand.trim(),
+                postExitCommand: postExitCommand.trim()
+            });
+            if (result.success) {
+                onUpdate();
+                showToast('Performance settings saved', 'success');
+            } else {
+                showToast(result.error || 'Failed to save performance settings', 'error');
+            }
+        } catch (e) {
+            showToast('Failed to save performance settings', 'error');
+        } finally {
+            setSavingPerf(false);
+        }
+    };
+
     const handleToggleFavorite = async () => {
         await InstanceApi.toggleFavorite(instance.id);
         onUpdate();
@@ -100,8 +168,7 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                 if (user?.type === 'whoap' && user?.uuid) {
                     SyncQueue.enqueue('instance:update', {
                         instance: { ...instance, name: inputValue.trim() },
-                        userId: user.uuid,
-                        token: user.token
+                        userId: user.uuid
                     });
                 }
             } else {
@@ -131,17 +198,8 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
         }
     };
 
-    const handleExport = async () => {
-        onProcessing?.('Exporting Profile...', 'Creating .zip archive...');
-        try {
-            const res = await InstanceApi.export(instance.id);
-            if (res.error) showToast(res.error, 'error');
-            else if (res.success) showToast(`Exported to: ${res.filePath}`, 'success');
-        } catch (e) {
-            showToast("Export failed", 'error');
-        } finally {
-            onProcessingEnd?.();
-        }
+    const handleExport = () => {
+        setShowExport(true);
     };
 
     const handleOpenFolder = async () => {
@@ -275,6 +333,7 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
     }
 
     return (
+        <>
         <div className={styles.overlay} onClick={onClose}>
             <div className={styles.modal} onClick={e => e.stopPropagation()}>
                 {/* Header */}
@@ -319,6 +378,12 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                     >
                         Java
                     </button>
+                    <button 
+                        className={`${styles.tab} ${activeTab === 'performance' ? styles.active : ''}`}
+                        onClick={() => setActiveTab('performance')}
+                    >
+                        Performance
+                    </button>
                     <button 
                         className={`${styles.tab} ${activeTab === 'danger' ? styles.danger : ''} ${activeTab === 'danger' ? styles.active : ''}`}
                         onClick={() => setActiveTab('danger')}
@@ -352,6 +417,34 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                                 <ChevronRight size={18} className={styles.actionArrow} />
                             </div>
 
+                            {modpack?.projectId && (
+                                <div className={styles.actionCard} onClick={() => setShowPackUpdate(true)}>
+                                    <div className={styles.actionIcon} style={{ background: 'rgba(74, 222, 128, 0.12)', color: '#4ade80' }}>
+                                        <PackageCheck size={20} />
+                                    </div>
+                                    <div className={styles.actionInfo}>
+                                        <div className={styles.actionTitle}>Check for Pack Update</div>
+                                        <div className={styles.actionDesc}>
+                                            {modpack.name}{modpack.versionNumber ? ` ${modpack.versionNumber}` : ''} from Modrinth
+                                        </div>
+                                    </div>
+                                    <ChevronRight size={18} className={styles.actionArrow} />
+                                </div>
+                            )}
+
+                            <div className={styles.actionCard} onClick={() => setShowVerify(true)}>
+                                <div className={styles.actionIcon} style={{ background: 'rgba(96, 165, 250, 0.12)', color: '#60a5fa' }}>
+                                    <ShieldCheck size={20} />
+                                </div>
+                                <div className={styles.actionInfo}>
+                                    <div className={styles.actionTitle}>Verify Files</div>
+                                    <div className={styles.actionDesc}>
+                                        Check game files, Java and mods for missing or corrupt files and redownload them
+                                    </div>
+                                </div>
+                                <ChevronRight size={18} className={styles.actionArrow} />
+                            </div>
+
                             {/* Actions Grid */}
                             <div className={styles.sectionTitle}>Actions</div>
                             <div className={styles.actionsGrid}>
@@ -483,6 +576,134 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                         </div>
                     )}
 
+                    {activeTab === 'performance' && (
+                        <div className={styles.panel}>
+                            <div className={styles.sectionTitle}>JVM Preset</div>
+                            <div className={styles.presetRow}>
+                                {[
+                                    { id: '', name: 'Global' },
+                                    { id: 'potato', name: 'Potato' },
+                                    { id: 'standard', name: 'Standard' },
+                                    { id: 'pro', name: 'Pro' },
+                                    { id: 'extreme', name: 'Extreme' },
+                                    { id: 'custom', name: 'Custom' }
+                                ].map(preset => (
+                                    <button
+                                        key={preset.id || 'global'}
+                                        className={`${styles.presetChip} ${perfPreset === preset.id ? styles.selected : ''}`}
+                                        onClick={() => setPerfPreset(preset.id)}
+                                    >
+                                        {preset.name}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div className={styles.sectionTitle}>Memory (MB)</div>
+                            <div className={styles.ramRow}>
+                                <div className={styles.formGroup}>
+                                    <label>Minimum</label>
+                                    <input
+                                        type="number"
+                                        className={styles.input}
+                                        min={512}
+                                        step={256}
+                                        value={perfMinRam}
+                                        onChange={e => setPerfMinRam(e.target.value)}
+                                        placeholder="Global"
+                                    />
+                                </div>
+                                <div className={styles.formGroup}>
+                                    <label>Maximum</label>
+                                    <input
+                                        type="number"
+                                        className={styles.input}
+                                        min={512}
+                                        step={256}
+                                        value={perfMaxRam}
+                                        onChange={e => setPerfMaxRam(e.target.value)}
+                                        placeholder="Global"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className={styles.formGroup}>
+                                <label>Extra JVM Arguments</label>
+                                <textarea
+                                    className={styles.argsArea}
+                                    value={perfJvmArgs}
+                                    onChange={e => setPerfJvmArgs(e.target.value)}
+                                    placeholder="-XX:+UseZGC&#10;-Dfml.earlyprogresswindow=false"
+                                />
+                            </div>
+
+                            <div className={styles.formGroup}>
+                                <label>Extra Game Arguments</label>
+                                <textarea
+                                    className={styles.argsArea}
+                                    value={perfGameArgs}
+                                    onChange={e => setPerfGameArgs(e.target.value)}
+                                    placeholder="--width&#10;1920"
+                                />
+                            </div>
+
+                            <div className={styles.formGroup}>
+                                <label>Environment Variables</label>
+                                <textarea
+                                    className={styles.argsArea}
+                                    value={perfEnvVars}
+                                    onChange={e => setPerfEnvVars(e.target.value)}
+                                    placeholder="KEY=value"
+                                />
+                            </div>
+
+                            <div className={styles.javaNote}>
+                                <Cpu size={12} /> One entry per line. Leave a field empty to use the global setting from Settings.
+                            </div>
+
+                            <div className={styles.sectionTitle}>Launch Hooks</div>
+                            <div className={styles.formGroup}>
+                                <label>Pre-launch Command</label>
+                                <input
+                                    type="text"
+                                    className={`${styles.input} ${styles.monoInput}`}
+                                    value={preLaunchCommand}
+                                    onChange={e => setPreLaunchCommand(e.target.value)}
+                                    placeholder="e.g. ./sync-world.sh"
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Wrapper Command</label>
+                                <input
+                                    type="text"
+                                    className={`${styles.input} ${styles.monoInput}`}
+                                    value={wrapperCommand}
+                                    onChange={e => setWrapperCommand(e.target.value)}
+                                    placeholder="e.g. gamemoderun"
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Post-exit Command</label>
+                                <input
+                                    type="text"
+                                    className={`${styles.input} ${styles.monoInput}`}
+                                    value={postExitCommand}
+                                    onChange={e => setPostExitCommand(e.target.value)}
+                                    placeholder="e.g. ./backup-world.sh"
+                                />
+                            </div>
+
+                            <div className={styles.javaNote}>
+                                Commands run in the instance folder with $INST_ID, $INST_DIR, $INST_MC_VERSION and $INST_JAVA set.
+                                A failing pre-launch command stops the game from starting.
+                            </div>
+
+                            <button className={styles.iconBtn} onClick={handleSavePerformance} disabled={savingPerf}>
+                                <Save size={16} />
+                                {savingPerf ? 'Saving...' : 'Save Launch Settings'}
+                            </button>
+                        </div>
+                    )}
+
                     {activeTab === 'danger' && (
                         <div className={styles.panel}>
                             <div className={styles.dangerHeader}>
@@ -510,5 +731,22 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                 </div>
             </div>
         </div>
+        {showExport && <ExportInstanceModal instance={instance} onClose={() => setShowExport(false)} />}
+        {showVerify && (
+            <VerifyInstanceModal instanceId={instance.id} instanceName={instance.name} onClose={() => setShowVerify(false)} />
+        )}
+        {showPackUpdate && (
+            <ModpackUpdateModal
+                instanceId={instance.id}
+                onClose={(changed) => {
+                    setShowPackUpdate(false);
+                    if (changed) {
+                        window.ipcRenderer.invoke('modpack:get-source', instance.id).then(setModpack);
+                        onUpdate();
+                    }
+                }}
+            />
+        )}
+        </>
     );
 };
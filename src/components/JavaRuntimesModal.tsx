@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { X, Coffee, RefreshCw, Trash2, Download, HardDrive } from 'lucide-react';
+import { useConfirm } from '../context/ConfirmContext';
+import { useToast } from '../context/ToastContext';
+import { CustomSelect } from './CustomSelect';
+import styles from './JavaRuntimesModal.module.css';
+
+interface ManagedRuntime {
+    id: string;
+    vendor: 'mojang' | 'adoptium';
+    component?: string;
+    major: string;
+    version: string;
+    arch: string;
+    path: string;
+    installedAt: number;
+    usedBy: string[];
+}
+
+interface AvailableRuntime {
+    vendor: 'mojang' | 'adoptium';
+    component?: string;
+    major: string;
+    version: string;
+}
+
+interface SystemJava {
+    version: string;
+    path: string;
+    arch: string | null;
+    usedBy: string[];
+}
+
+interface JavaRuntimesModalProps {
+    onClose: () => void;
+}
+
+const VENDOR_LABELS = { mojang: 'Mojang', adoptium: 'Eclipse Adoptium' };
+
+const availableKey = (r: AvailableRuntime) => `${r.vendor}:${r.component || r.major}`;
+
+export const JavaRuntimesModal: React.FC<JavaRuntimesModalProps> = ({ onClose }) => {
+    const [managed, setManaged] = useState<ManagedRuntime[]>([]);
+    const [system, setSystem] = useState<SystemJava[] | null>(null);
+    const [available, setAvailable] = useState<AvailableRuntime[]>([]);
+    const [selected, setSelected] = useState('');
+    const [busy, setBusy] = useState<string | null>(null);
+    const confirm = useConfirm();
+    const { showToast } = useToast();
+
+    const loadManaged = async () => {
+        const res = await window.ipcRenderer.invoke('java:list-runtimes');
+        if (res.success) setManaged(res.runtimes);
+    };
+
+    useEffect(() => {
+        loadManaged();
+        window.ipcRenderer.invoke('java:scan-system').then(setSystem);
+        window.ipcRenderer.invoke('java:get-available').then((res: any) => {
+            if (!res.success) return;
+            setAvailable(res.runtimes);
+            if (res.runtimes[0]) setSelected(availableKey(res.runtimes[0]));
+        });
+
+        const handleProgress = (_: any, p: { status: string; progress: number }) => {
+            setBusy(`${p.status} ${Math.round(p.progress)}%`);
+        };
+        window.ipcRenderer.on('java:runtime-progress', handleProgress);
+        return () => {
+            window.ipcRenderer.off('java:runtime-progress', handleProgress);
+        };
+    }, []);
+
+    const handleInstall = async () => {
+        const runtime = available.find(r => availableKey(r) === selected);
+        if (!runtime) return;
+        setBusy('Preparing download...');
+        try {
+            const res = await window.ipcRenderer.invoke('java:install-runtime', runtime);
+            if (res.success) showToast(`Installed Java ${res.runtime.version || res.runtime.major}`, 'success');
+            else showToast(res.error || 'Java install failed', 'error');
+            await loadManaged();
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleUpdate = async (runtime: ManagedRuntime) => {
+        setBusy('Checking for updates...');
+        try {
+            const res = await window.ipcRenderer.invoke('java:update-runtime', runtime.id);
+            if (!res.success) showToast(res.error || 'Java update failed', 'error');
+            else if (res.updated) showToast(`Updated to Java ${res.runtime.version}`, 'success');
+            else showToast(`Java ${runtime.version || runtime.major} is up to date`, 'success');
+            await loadManaged();
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRemove = async (runtime: ManagedRuntime) => {
+        const message = runtime.usedBy.length > 0
+            ? `${runtime.usedBy.join(', ')} currently launch with this runtime. They will use another Java ${runtime.major} or download one on next launch.`
+            : 'The runtime will be downloaded again if an instance needs it.';
+        if (!await confirm(`Remove Java ${runtime.version || runtime.major}?`, message, { confirmLabel: 'Remove', isDanger: true })) return;
+
+        const res = await window.ipcRenderer.invoke('java:remove-runtime', runtime.id);
+        if (!res.success) showToast(res.error || 'Failed to remove runtime', 'error');
+        await loadManaged();
+    };
+
+    const usedBy = (names: string[]) => names.length > 0
+        ? <span className={styles.usedBy} title={names.join(', ')}>Used by {names.length === 1 ? names[0] : `${names.length} instances`}</span>
+        : <span className={styles.unused}>Not used</span>;
+
+    return (
+        <div className={styles.overlay} onClick={() => !busy && onClose()}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div>
+                        <h2>Java Runtimes</h2>
+                        <p>Runtimes downloaded by the launcher and Java found on this computer</p>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose} disabled={!!busy}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    <div className={styles.sectionRow}>Managed</div>
+                    {managed.length === 0 && <div className={styles.empty}>No runtimes downloaded yet.</div>}
+                    {managed.map(runtime => (
+                        <div key={runtime.id} className={styles.entry}>
+                            <Coffee size={16} className={styles.entryIcon} />
+                            <div className={styles.entryMain}>
+                                <span className={styles.entryName}>
+                                    Java {runtime.version || runtime.major} · {VENDOR_LABELS[runtime.vendor]}
+                                    {runtime.component && <span className={styles.tag}>{runtime.component}</span>}
+                                </span>
+                                <span className={styles.entryMeta} title={runtime.path}>
+                                    {runtime.arch} · {usedBy(runtime.usedBy)}
+                                </span>
+                            </div>
+                            <button className={styles.iconBtn} onClick={() => handleUpdate(runtime)} disabled={!!busy} title="Check for update">
+                                <RefreshCw size={14} />
+                            </button>
+                            <button className={styles.iconBtn} onClick={() => handleRemove(runtime)} disabled={!!busy} title="Remove">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+
+                    <div className={styles.installRow}>
+                        <CustomSelect
+                            value={selected}
+                            onChange={setSelected}
+                            placeholder="Loading available runtimes..."
+                            options={available.map(r => ({
+                                value: availableKey(r),
+                                label: `Java ${r.version || r.major} · ${VENDOR_LABELS[r.vendor]}${r.component ? ` (${r.component})` : ''}`
+                            }))}
+                        />
+                        <button className={styles.installBtn} onClick={handleInstall} disabled={!!busy || !selected}>
+                            <Download size={14} /> Install
+                        </button>
+                    </div>
+                    {busy && <div className={styles.progress}><RefreshCw size={12} className={styles.spin} /> {busy}</div>}
+
+                    <div className={styles.sectionRow}>On this computer</div>
+                    {system === null ? (
+                        <div className={styles.empty}><RefreshCw size={14} className={styles.spin} /> Scanning...</div>
+                    ) : system.length === 0 ? (
+                        <div className={styles.empty}>No Java installations found.</div>
+                    ) : system.map(java => (
+                        <div key={java.path} className={styles.entry}>
+                            <HardDrive size={16} className={styles.entryIcon} />
+                            <div className={styles.entryMain}>
+                                <span className={styles.entryName} title={java.path}>Java {java.version} · {java.path}</span>
+                                <span className={styles.entryMeta}>
+                                    {java.arch || 'unknown architecture'} · {usedBy(java.usedBy)}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import styles from './VersionScannerModal.module.css';
+import { X, Check, Loader2, FolderInput, Package } from 'lucide-react';
+
+export interface ExternalInstance {
+    source: 'prism' | 'curseforge' | 'atlauncher' | 'vanilla';
+    name: string;
+    version: string;
+    loader: string;
+    loaderVersion?: string;
+    launchVersionId?: string;
+    versionJsonPath?: string;
+    gameDir: string;
+    javaPath?: string;
+    minRam?: number;
+    maxRam?: number;
+    jvmArgs?: string[];
+}
+
+interface LauncherImportModalProps {
+    onClose: () => void;
+    onImport: (instances: ExternalInstance[], mode: 'copy' | 'reference') => void;
+}
+
+const SOURCE_LABELS: Record<ExternalInstance['source'], string> = {
+    prism: 'Prism / MultiMC',
+    curseforge: 'CurseForge',
+    atlauncher: 'ATLauncher',
+    vanilla: 'Minecraft Launcher'
+};
+
+const getLoaderColor = (loader: string) => {
+    switch (loader) {
+        case 'fabric': return '#dbb78d';
+        case 'forge': return '#ff6b35';
+        case 'neoforge': return '#f5a524';
+        case 'quilt': return '#9b59b6';
+        default: return '#666';
+    }
+};
+
+export const LauncherImportModal: React.FC<LauncherImportModalProps> = ({ onClose, onImport }) => {
+    const [scanning, setScanning] = useState(false);
+    const [folder, setFolder] = useState<string | null>(null);
+    const [instances, setInstances] = useState<ExternalInstance[]>([]);
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [mode, setMode] = useState<'copy' | 'reference'>('copy');
+    const [error, setError] = useState<string | null>(null);
+
+    const chooseFolder = async () => {
+        setScanning(true);
+        setError(null);
+        try {
+            const result = await window.ipcRenderer.invoke('instance:scan-launcher');
+            if (result.canceled) return;
+            if (!result.success) {
+                setError(result.error || 'Failed to read folder');
+                return;
+            }
+            setFolder(result.folder);
+            setInstances(result.instances);
+            setSelected(new Set(result.instances.map((_: ExternalInstance, i: number) => i)));
+        } catch (e) {
+            setError(String(e));
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const toggle = (index: number) => {
+        const next = new Set(selected);
+        if (next.has(index)) next.delete(index);
+        else next.add(index);
+        setSelected(next);
+    };
+
+    const handleImport = () => {
+        onImport(instances.filter((_, i) => selected.has(i)), mode);
+        onClose();
+    };
+
+    return (
+        <div className={styles.overlay} onClick={(e) => e.target === e.currentTarget && !scanning && onClose()}>
+            <div className={styles.modal}>
+                <div className={styles.header}>
+                    <FolderInput size={20} />
+                    <h2>Import from Launcher</h2>
+                    {!scanning && (
+                        <button className={styles.closeBtn} onClick={onClose}>
+                            <X size={18} />
+                        </button>
+                    )}
+                </div>
+
+                {scanning ? (
+                    <div className={styles.scanningContainer}>
+                        <Loader2 size={48} className={styles.spinner} />
+                        <div className={styles.scanStatus}>Looking for instances...</div>
+                    </div>
+                ) : error ? (
+                    <div className={styles.errorContainer}>
+                        <div className={styles.errorText}>{error}</div>
+                        <button className={styles.actionBtn} onClick={chooseFolder}>Choose Another Folder</button>
+                    </div>
+                ) : !folder || instances.length === 0 ? (
+                    <div className={styles.emptyContainer}>
+                        <Package size={48} color="#666" />
+                        <div className={styles.emptyText}>
+                            {folder ? 'No instances found in that folder' : 'Bring over your instances'}
+                        </div>
+                        <div className={styles.emptyHint}>
+                            Select a Prism Launcher, MultiMC, CurseForge or ATLauncher instances folder,
+                            a single instance, or a .minecraft folder with launcher_profiles.json.
+                        </div>
+                        <button className={styles.importBtn} onClick={chooseFolder}>Choose Folder</button>
+                    </div>
+                ) : (
+                    <>
+                        <div className={styles.controls}>
+                            <span className={styles.countText} title={folder}>
+                                {selected.size} of {instances.length} selected
+                            </span>
+                            <div className={styles.modeToggle}>
+                                <button
+                                    className={`${styles.modeOption} ${mode === 'copy' ? styles.active : ''}`}
+                                    onClick={() => setMode('copy')}
+                                    title="Copy the game folder into Whoap"
+                                >
+                                    Copy
+                                </button>
+                                <button
+                                    className={`${styles.modeOption} ${mode === 'reference' ? styles.active : ''}`}
+                                    onClick={() => setMode('reference')}
+                                    title="Keep playing out of the other launcher's folder"
+                                >
+                                    Link
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className={styles.versionList}>
+                            {instances.map((instance, index) => (
+                                <div
+                                    key={`${index}-${instance.name}`}
+                                    className={`${styles.versionItem} ${selected.has(index) ? styles.selected : ''}`}
+                                    onClick={() => toggle(index)}
+                                >
+                                    <div className={styles.checkbox}>
+                                        {selected.has(index) && <Check size={14} />}
+                                    </div>
+                                    <div className={styles.versionInfo}>
+                                        <div className={styles.versionName}>{instance.name}</div>
+                                        <div className={styles.versionMeta}>
+                                            <span>{instance.version || 'Unknown version'}</span>
+                                            <span
+                                                className={styles.loaderBadge}
+                                                style={{ borderColor: getLoaderColor(instance.loader), color: getLoaderColor(instance.loader) }}
+                                            >
+                                                {instance.loader}{instance.loaderVersion ? ` ${instance.loaderVersion}` : ''}
+                                            </span>
+                                            <span>{SOURCE_LABELS[instance.source]}</span>
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className={styles.footer}>
+                            <button className={styles.cancelBtn} onClick={onClose}>Cancel</button>
+                            <button
+                                className={styles.importBtn}
+                                onClick={handleImport}
+                                disabled={selected.size === 0}
+                            >
+                                Import {selected.size} Instance{selected.size !== 1 ? 's' : ''}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
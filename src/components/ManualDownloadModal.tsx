@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { X, ExternalLink, FolderOpen, CheckCircle, RefreshCw } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import styles from './ContentUpdatesModal.module.css';
+
+export interface ManualDownload {
+    projectId: string;
+    fileId: string;
+    title: string;
+    fileName: string;
+    url: string;
+    destPath: string;
+    fingerprint: number;
+    instanceId: string;
+    type?: string;
+    versionNumber?: string;
+    iconUrl?: string;
+    gameVersion?: string;
+    loader?: string;
+}
+
+// Matches how the main process keys pending downloads
+const keyOf = (download: ManualDownload) => `${download.instanceId}:${download.fileId}`;
+
+interface ManualDownloadModalProps {
+    downloads: ManualDownload[];
+    onClose: () => void;
+}
+
+/**
+ * Some CurseForge authors block downloads outside their website. The user grabs those files in
+ * the browser and we pick them up from the Downloads folder as they land.
+ */
+export const ManualDownloadModal: React.FC<ManualDownloadModalProps> = ({ downloads, onClose }) => {
+    const [done, setDone] = useState<Set<string>>(new Set());
+    const { showToast } = useToast();
+
+    const remaining = downloads.filter(d => !done.has(keyOf(d)));
+
+    useEffect(() => {
+        if (remaining.length === 0) return;
+        const check = async () => {
+            const res = await window.ipcRenderer.invoke('curseforge:check-manual', remaining.map(keyOf));
+            if (!res.success) {
+                console.error('Failed to check manual downloads:', res.error);
+            } else if (res.done.length > 0) {
+                setDone(prev => new Set([...prev, ...res.done]));
+            }
+        };
+        check();
+        const timer = setInterval(check, 2000);
+        return () => clearInterval(timer);
+    }, [remaining.length]);
+
+    const handlePick = async (download: ManualDownload) => {
+        const res = await window.ipcRenderer.invoke('curseforge:pick-manual', keyOf(download));
+        if (res.success) {
+            setDone(prev => new Set([...prev, keyOf(download)]));
+        } else if (!res.canceled) {
+            showToast(res.error || 'Could not use that file', 'error');
+        }
+    };
+
+    return (
+        <div className={styles.overlay}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div>
+                        <h2>Manual Downloads Required</h2>
+                        <p>
+                            {remaining.length > 0
+                                ? `${remaining.length} of ${downloads.length} files can only be downloaded from curseforge.com. Download them and they'll be moved into place automatically.`
+                                : 'All files are in place.'}
+                        </p>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>File</th>
+                                <th>Status</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {downloads.map(download => (
+                                <tr key={keyOf(download)} className={styles.row}>
+                                    <td>
+                                        <div className={styles.nameCell}>
+                                            {download.iconUrl && <img src={download.iconUrl} alt="" />}
+                                            <div>
+                                                <div>{download.title}</div>
+                                                <div className={styles.muted}>{download.fileName}</div>
+                                            </div>
+                                        </div>
+                                    </td>
+                                    <td>
+                                        {done.has(keyOf(download)) ? (
+                                            <span className={styles.newVersion}><CheckCircle size={14} /> Done</span>
+                                        ) : (
+                                            <span className={styles.progress}><RefreshCw size={14} className={styles.spin} /> Waiting</span>
+                                        )}
+                                    </td>
+                                    <td>
+                                        {!done.has(keyOf(download)) && (
+                                            <div className={styles.nameCell}>
+                                                <button
+                                                    className={styles.secondaryBtn}
+                                                    onClick={() => window.ipcRenderer.invoke('app:open-external', download.url)}
+                                                >
+                                                    <ExternalLink size={14} /> Open page
+                                                </button>
+                                                <button className={styles.secondaryBtn} onClick={() => handlePick(download)}>
+                                                    <FolderOpen size={14} /> Choose file
+                                                </button>
+                                            </div>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className={styles.footer}>
+                    <div className={styles.footerSpacer} />
+                    {remaining.length > 0 ? (
+                        <button className={styles.secondaryBtn} onClick={onClose}>Skip remaining</button>
+                    ) : (
+                        <button className={styles.primaryBtn} onClick={onClose}>Done</button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { X, RefreshCw, ArrowRight, CheckCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { CustomSelect } from './CustomSelect';
+import styles from './ContentUpdatesModal.module.css';
+
+interface PackVersion {
+    id: string;
+    version_number: string;
+    version_type?: string;
+    changelog?: string;
+    date_published?: string;
+}
+
+interface ModpackUpdatePlan {
+    fromVersion?: string;
+    toVersion: string;
+    gameVersion: { from: string; to: string };
+    loader: { from: string; to: string };
+    download: string[];
+    remove: string[];
+    kept: string[];
+    overrides: string[];
+    conflicts: string[];
+    addedMods: string[];
+}
+
+interface ModpackUpdateModalProps {
+    instanceId: string;
+    onClose: (changed: boolean) => void;
+}
+
+export const ModpackUpdateModal: React.FC<ModpackUpdateModalProps> = ({ instanceId, onClose }) => {
+    const [packName, setPackName] = useState('');
+    const [currentVersion, setCurrentVersion] = useState<string | undefined>();
+    const [versions, setVersions] = useState<PackVersion[]>([]);
+    const [versionId, setVersionId] = useState('');
+    const [plan, setPlan] = useState<ModpackUpdatePlan | null>(null);
+    const [checking, setChecking] = useState(true);
+    const [previewing, setPreviewing] = useState(false);
+    const [overwriteConfigs, setOverwriteConfigs] = useState(false);
+    const [removeAddedMods, setRemoveAddedMods] = useState(false);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [applying, setApplying] = useState<string | null>(null);
+    const [changed, setChanged] = useState(false);
+    const { showToast } = useToast();
+
+    const check = async () => {
+        setChecking(true);
+        try {
+            const res = await window.ipcRenderer.invoke('modpack:check-update', instanceId);
+            if (res.success) {
+                setPackName(res.source.name);
+                setCurrentVersion(res.source.versionNumber);
+                setVersions(res.versions);
+                setVersionId(res.versions[0]?.id || '');
+            } else {
+                showToast(res.error || 'Failed to check for pack updates', 'error');
+            }
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    useEffect(() => {
+        check();
+
+        const handleProgress = (_: any, status: { status: string; progress: number }) => {
+            setApplying(`${status.status} (${status.progress}%)`);
+        };
+        window.ipcRenderer.on('modpack:update-progress', handleProgress);
+        return () => {
+            window.ipcRenderer.off('modpack:update-progress', handleProgress);
+        };
+    }, [instanceId]);
+
+    useEffect(() => {
+        if (!versionId) {
+            setPlan(null);
+            return;
+        }
+        setPreviewing(true);
+        window.ipcRenderer.invoke('modpack:preview-update', instanceId, versionId).then((res: any) => {
+            if (res.success) setPlan(res.plan);
+            else showToast(res.error || 'Failed to compare pack versions', 'error');
+        }).finally(() => setPreviewing(false));
+    }, [instanceId, versionId]);
+
+    const handleApply = async () => {
+        setApplying('Preparing update...');
+        try {
+            const res = await window.ipcRenderer.invoke('modpack:apply-update', instanceId, versionId, { overwriteConfigs, removeAddedMods });
+            if (res.success) {
+                setChanged(true);
+                showToast(`Updated to ${res.plan.toVersion}`, 'success');
+                setPlan(null);
+                await check();
+            } else {
+                showToast(res.error || 'Pack update failed', 'error');
+            }
+        } finally {
+            setApplying(null);
+        }
+    };
+
+    const selected = versions.find(v => v.id === versionId);
+
+    const section = (key: string, label: string, files: string[]) => files.length > 0 && (
+        <div className={styles.planSection}>
+            <button className={styles.changelogBtn} onClick={() => setExpanded(expanded === key ? null : key)}>
+                {expanded === key ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                {label} ({files.length})
+            </button>
+            {expanded === key && (
+                <ul className={styles.planList}>
+                    {files.map(f => <li key={f}>{f}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+
+    return (
+        <div className={styles.overlay} onClick={() => !applying && onClose(changed)}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div>
+                        <h2>Modpack Update</h2>
+                        <p>{packName}{currentVersion ? ` · installed ${currentVersion}` : ''}</p>
+                    </div>
+                    <button className={styles.closeBtn} onClick={() => onClose(changed)} disabled={!!applying}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    {checking ? (
+                        <div className={styles.empty}>
+                            <RefreshCw size={20} className={styles.spin} />
+                            <span>Checking for a newer pack version...</span>
+                        </div>
+                    ) : versions.length === 0 ? (
+                        <div className={styles.empty}>
+                            <CheckCircle size={20} />
+                            <span>This pack is up to date</span>
+                        </div>
+                    ) : (
+                        <>
+                            <div className={styles.planHeader}>
+                                <CustomSelect
+                                    value={versionId}
+                                    onChange={setVersionId}
+                                    options={versions.map(v => ({
+                                        value: v.id,
+                                        label: v.version_type && v.version_type !== 'release' ? `${v.version_number} (${v.version_type})` : v.version_number
+                                    }))}
+                                    width={220}
+                                />
+                                {plan && (
+                                    <div className={styles.versionCell}>
+                                        <span className={styles.muted}>{plan.gameVersion.from} · {plan.loader.from}</span>
+                                        <ArrowRight size={12} />
+                                        <span className={styles.newVersion}>{plan.gameVersion.to} · {plan.loader.to}</span>
+                                    </div>
+                                )}
+                            </div>
+
+                            {previewing || !plan ? (
+                                <div className={styles.empty}>
+                                    <RefreshCw size={20} className={styles.spin} />
+                                    <span>Comparing pack files...</span>
+                                </div>
+                            ) : (
+                                <>
+                                    {section('download', 'New or updated files', plan.download)}
+                                    {section('remove', 'Removed by the pack', plan.remove)}
+                                    {section('overrides', 'Config files updated', plan.overrides)}
+                                    {section('kept', 'Dropped by the pack but changed by you, kept', plan.kept)}
+                                    {section('conflicts', 'Configs you changed that the pack also changed', plan.conflicts)}
+                                    {section('addedMods', 'Mods you added', plan.addedMods)}
+
+                                    <label className={styles.optionRow}>
+                                        <input
+                                            type="checkbox"
+                                            checked={overwriteConfigs}
+                                            onChange={e => setOverwriteConfigs(e.target.checked)}
+                                            disabled={plan.conflicts.length === 0}
+                                        />
+                                        Replace configs I changed with the pack's version
+                                    </label>
+                                    <label className={styles.optionRow}>
+                                        <input
+                                            type="checkbox"
+                                            checked={removeAddedMods}
+                                            onChange={e => setRemoveAddedMods(e.target.checked)}
+                                            disabled={plan.addedMods.length === 0}
+                                        />
+                                        Remove mods I added
+                                    </label>
+
+                                    <div className={styles.changelog}>
+                                        {selected?.changelog
+                                            ? <ReactMarkdown>{selected.changelog}</ReactMarkdown>
+                                            : <span className={styles.muted}>No changelog provided.</span>}
+                                    </div>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    <div className={styles.footerSpacer} />
+                    {applying ? (
+                        <span className={styles.progress}>
+                            <RefreshCw size={14} className={styles.spin} />
+                            {applying}
+                        </span>
+                    ) : (
+                        <button
+                            className={styles.primaryBtn}
+                            onClick={handleApply}
+                            disabled={checking || previewing || !plan}
+                        >
+                            Update to {selected?.version_number || '...'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import styles from './Sidebar.module.css';
-import { Home, Settings, FolderOpen, Package, Image, LogOut, Newspaper, Code, ShieldAlert, User, Globe, Boxes } from 'lucide-react';
+import { Home, Settings, FolderOpen, Package, Image, LogOut, Newspaper, Code, ShieldAlert, User, Globe, Boxes, ScrollText } from 'lucide-react';
 import logo from '../assets/logo.png';
 import { UserAvatar } from './UserAvatar';
 import { useAuth } from '../context/AuthContext';
@@ -11,7 +11,6 @@ interface SidebarProps {
     user: {
         name: string;
         uuid: string;
-        token: string;
         role?: string;
         type?: string;
         preferredSkin?: string;
@@ -49,6 +48,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, user,
                 { id: 'modpacks', label: 'Modpacks', icon: Boxes },
                 { id: 'worlds', label: 'Worlds', icon: Globe },
                 { id: 'screenshots', label: 'Screenshots', icon: Image },
+                { id: 'logs', label: 'Logs', icon: ScrollText },
             ]
         },
         {
@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Eraser, Paintbrush, Pencil, Pipette, Save, Undo2, Upload, Wand2, X } from 'lucide-react';
+import { SkinViewer3D } from './SkinViewer3D';
+import { SkinImage, SkinIssue, SkinModel } from '../utils/SkinImage';
+import styles from './SkinEditorModal.module.css';
+
+interface SkinEditorModalProps {
+    source: string; // Data URL of the skin to edit
+    title?: string;
+    capeUrl?: string;
+    canUpload?: boolean;
+    onSave: (dataUrl: string, upload: boolean) => Promise<void>;
+    onClose: () => void;
+}
+
+type Tool = 'pencil' | 'eraser' | 'picker';
+
+const SCALE = 8; // Screen pixels per skin pixel
+const HISTORY_LIMIT = 50;
+
+const toHex = (r: number, g: number, b: number) => '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+
+export const SkinEditorModal: React.FC<SkinEditorModalProps> = ({
+    source, title = 'Skin Editor', capeUrl, canUpload = false, onSave, onClose
+}) => {
+    const skinRef = useRef<HTMLCanvasElement | null>(null); // The texture being edited, at its own size
+    const displayRef = useRef<HTMLCanvasElement>(null);
+    const history = useRef<ImageData[]>([]);
+    const drawing = useRef(false);
+
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [size, setSize] = useState({ width: 64, height: 64 });
+    const [preview, setPreview] = useState<string>();
+    const [issues, setIssues] = useState<SkinIssue[]>([]);
+    const [model, setModel] = useState<SkinModel>('default');
+    const [innerLayer, setInnerLayer] = useState(true);
+    const [outerLayer, setOuterLayer] = useState(true);
+    const [tool, setTool] = useState<Tool>('pencil');
+    const [color, setColor] = useState('#ff9500');
+    const [canUndo, setCanUndo] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    const blocking = issues.find(issue => !issue.fixable);
+
+    // Re-validates and refreshes the 3D preview; called when a stroke or fix is done rather than per pixel
+    const commit = (skinModel: SkinModel = model) => {
+        const skin = skinRef.current;
+        if (!skin) return;
+        setSize({ width: skin.width, height: skin.height });
+        setIssues(SkinImage.validate(skin, skinModel));
+        setPreview(skin.toDataURL('image/png'));
+    };
+
+    const redraw = () => {
+        const skin = skinRef.current;
+        const display = displayRef.current;
+        if (!skin || !display) return;
+
+        const ctx = display.getContext('2d')!;
+        ctx.imageSmoothingEnabled = false;
+        for (let y = 0; y < skin.height; y++) {
+            for (let x = 0; x < skin.width; x++) {
+                ctx.fillStyle = (x + y) % 2 === 0 ? '#222226' : '#2a2a2e';
+                ctx.fillRect(x * SCALE, y * SCALE, SCALE, SCALE);
+            }
+        }
+        ctx.drawImage(skin, 0, 0, skin.width * SCALE, skin.height * SCALE);
+
+        ctx.strokeStyle = '#ef4444';
+        for (const issue of issues) {
+            for (const [x, y] of issue.pixels || []) {
+                ctx.strokeRect(x * SCALE + 0.5, y * SCALE + 0.5, SCALE - 1, SCALE - 1);
+            }
+        }
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        SkinImage.load(source)
+            .then(canvas => {
+                if (cancelled) return;
+                skinRef.current = canvas;
+                history.current = [];
+                setCanUndo(false);
+                const detected = SkinImage.detectModel(canvas);
+                setModel(detected);
+                commit(detected);
+            })
+            .catch(e => !cancelled && setLoadError(String(e)));
+        return () => { cancelled = true; };
+    }, [source]);
+
+    useEffect(redraw, [size, issues]);
+
+    const pushHistory = () => {
+        const skin = skinRef.current!;
+        const snapshot = skin.getContext('2d')!.getImageData(0, 0, skin.width, skin.height);
+        history.current = [...history.current.slice(-(HISTORY_LIMIT - 1)), snapshot];
+        setCanUndo(true);
+    };
+
+    const undo = () => {
+        const skin = skinRef.current;
+        const previous = history.current.pop();
+        if (!skin || !previous) return;
+        skin.width = previous.width;
+        skin.height = previous.height;
+        skin.getContext('2d')!.putImageData(previous, 0, 0);
+        setCanUndo(history.current.length > 0);
+        commit();
+    };
+
+    const replaceSkin = (next: HTMLCanvasElement) => {
+        pushHistory();
+        const skin = skinRef.current!;
+        skin.width = next.width;
+        skin.height = next.height;
+        skin.getContext('2d')!.drawImage(next, 0, 0);
+        commit();
+    };
+
+    const fixIssue = (issue: SkinIssue) => {
+        const skin = skinRef.current;
+        if (!skin) return;
+        replaceSkin(issue.code === 'legacy' ? SkinImage.convertLegacy(skin) : SkinImage.fillBaseLayer(skin, model));
+    };
+
+    const changeModel = (next: SkinModel) => {
+        setModel(next);
+        commit(next);
+    };
+
+    // --- PAINTING ---
+
+    const pixelAt = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return [
+            Math.floor((e.clientX - rect.left) / rect.width * size.width),
+            Math.floor((e.clientY - rect.top) / rect.height * size.height)
+        ];
+    };
+
+    const paint = ([x, y]: [number, number]) => {
+        const skin = skinRef.current;
+        if (!skin || x < 0 || y < 0 || x >= skin.width || y >= skin.height) return;
+        const ctx = skin.getContext('2d')!;
+
+        if (tool === 'picker') {
+            const [r, g, b, a] = ctx.getImageData(x, y, 1, 1).data;
+            if (a > 0) setColor(toHex(r, g, b));
+            setTool('pencil');
+            return;
+        }
+
+        ctx.clearRect(x, y, 1, 1);
+        if (tool === 'pencil') {
+            ctx.fillStyle = color;
+            ctx.fillRect(x, y, 1, 1);
+        }
+        redraw();
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (tool !== 'picker') {
+            pushHistory();
+            drawing.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+        }
+        paint(pixelAt(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (drawing.current) paint(pixelAt(e));
+    };
+
+    const handlePointerUp = () => {
+        if (!drawing.current) return;
+        drawing.current = false;
+        commit();
+    };
+
+    // --- SAVING ---
+
+    const handleSave = async (upload: boolean) => {
+        const skin = skinRef.current;
+        if (!skin || blocking) return;
+        setSaving(true);
+        try {
+            const fixed = issues.length > 0 ? SkinImage.fix(skin, issues, model) : skin;
+            await onSave(SkinImage.setModel(fixed, model).toDataURL('image/png'), upload);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toolButton = (id: Tool, icon: React.ReactNode, label: string) => (
+        <button
+            className={`${styles.toolBtn} ${tool === id ? styles.active : ''}`}
+            onClick={() => setTool(id)}
+            title={label}
+        >
+            {icon}
+        </button>
+    );
+
+    return (
+        <div className={styles.overlay}>
+            <div className={styles.modal}>
+                <div className={styles.header}>
+                    <div className={styles.iconWrapper}>
+                        <Paintbrush size={22} color="#ff9500" />
+                    </div>
+                    <div>
+                        <h2 className={styles.title}>{title}</h2>
+                        <div className={styles.subtitle}>Click or drag to paint pixels. Problems are outlined in red.</div>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {loadError ? (
+                    <div className={styles.content}>
+                        <div className={styles.loadError}>Could not open this skin: {loadError}</div>
+                    </div>
+                ) : (
+                    <div className={styles.content}>
+                        <div className={styles.editorColumn}>
+                            <div className={styles.toolbar}>
+                                {toolButton('pencil', <Pencil size={16} />, 'Pencil')}
+                                {toolButton('eraser', <Eraser size={16} />, 'Eraser')}
+                                {toolButton('picker', <Pipette size={16} />, 'Pick color')}
+                                <input
+                                    type="color"
+                                    className={styles.colorInput}
+                                    value={color}
+                                    onChange={e => { setColor(e.target.value); setTool('pencil'); }}
+                                />
+                                <button className={styles.toolBtn} onClick={undo} disabled={!canUndo} title="Undo">
+                                    <Undo2 size={16} />
+                                </button>
+                            </div>
+
+                            {blocking?.code === 'dimensions' ? (
+                                <div className={styles.loadError}>{blocking.message}</div>
+                            ) : (
+                                <canvas
+                                    ref={displayRef}
+                                    className={styles.pixelCanvas}
+                                    width={size.width * SCALE}
+                                    height={size.height * SCALE}
+                                    onPointerDown={handlePointerDown}
+                                    onPointerMove={handlePointerMove}
+                                    onPointerUp={handlePointerUp}
+                                    onPointerCancel={handlePointerUp}
+                                />
+                            )}
+                        </div>
+
+                        <div className={styles.previewColumn}>
+                            <SkinViewer3D
+                                skinUrl={preview}
+                                capeUrl={capeUrl}
+                                model={model}
+                                innerLayer={innerLayer}
+                                outerLayer={outerLayer}
+                                width={200}
+                                height={300}
+                                className={styles.previewCanvas}
+                            />
+
+                            <div className={styles.optionGroup}>
+                                <span className={styles.optionLabel}>Arms</span>
+                                <div className={styles.segmented}>
+                                    <button className={model === 'default' ? styles.active : ''} onClick={() => changeModel('default')}>Classic</button>
+                                    <button className={model === 'slim' ? styles.active : ''} onClick={() => changeModel('slim')}>Slim</button>
+                                </div>
+                            </div>
+                            <div className={styles.optionGroup}>
+                                <span className={styles.optionLabel}>Layers</span>
+                                <div className={styles.segmented}>
+                                    <button className={innerLayer ? styles.active : ''} onClick={() => setInnerLayer(!innerLayer)}>Base</button>
+                                    <button className={outerLayer ? styles.active : ''} onClick={() => setOuterLayer(!outerLayer)}>Overlay</button>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {!loadError && (
+                    <div className={styles.issues}>
+                        {issues.length === 0 ? (
+                            <div className={`${styles.issue} ${styles.valid}`}>
+                                <CheckCircle2 size={16} />
+                                <span className={styles.issueText}>This skin is valid.</span>
+                            </div>
+                        ) : issues.map(issue => (
+                            <div key={issue.code} className={`${styles.issue} ${issue.fixable ? '' : styles.blocking}`}>
+                                <AlertTriangle size={16} />
+                                <span className={styles.issueText}>{issue.message}</span>
+                                {issue.fixable && (
+                                    <button className={styles.fixBtn} onClick={() => fixIssue(issue)}>
+                                        <Wand2 size={14} />
+                                        {issue.code === 'legacy' ? 'Convert' : 'Fix'}
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className={styles.footer}>
+                    {issues.length > 0 && !blocking && (
+                        <span className={styles.footerHint}>Remaining problems are fixed automatically on save.</span>
+                    )}
+                    <button className={styles.secondaryBtn} onClick={onClose}>Cancel</button>
+                    <button
+                        className={styles.secondaryBtn}
+                        onClick={() => handleSave(false)}
+                        disabled={saving || !!blocking || !!loadError}
+                    >
+                        <Save size={14} />
+                        Save
+                    </button>
+                    {canUpload && (
+                        <button
+                            className={styles.primaryBtn}
+                            onClick={() => handleSave(true)}
+                            disabled={saving || !!blocking || !!loadError}
+                        >
+                            <Upload size={14} />
+                            Save & Upload
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
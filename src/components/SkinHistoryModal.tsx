@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Download, History, RotateCcw, Search, X } from 'lucide-react';
+import { SkinViewer3D } from './SkinViewer3D';
+import { CloudManager } from '../utils/CloudManager';
+import { useToast } from '../context/ToastContext';
+import { PublicProfile, SkinHistoryEntry, WardrobeHistory } from '../types/profile';
+import styles from './SkinHistoryModal.module.css';
+
+interface SkinHistoryModalProps {
+    userId: string;
+    onClose: () => void;
+}
+
+type Tab = 'skins' | 'capes' | 'import';
+type Kind = 'skin' | 'cape';
+
+const formatTimestamp = (dateStr: string) => new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+});
+
+/** Previous skins and capes of a Whoap account, with restoring and importing from public profiles. */
+export const SkinHistoryModal: React.FC<SkinHistoryModalProps> = ({ userId, onClose }) => {
+    const { showToast } = useToast();
+    const [history, setHistory] = useState<WardrobeHistory | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [tab, setTab] = useState<Tab>('skins');
+    const [busyUrl, setBusyUrl] = useState<string | null>(null);
+
+    const [username, setUsername] = useState('');
+    const [searching, setSearching] = useState(false);
+    const [found, setFound] = useState<PublicProfile | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const load = async () => {
+        setHistory(await CloudManager.getWardrobeHistory(userId));
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        load();
+    }, [userId]);
+
+    // A skin applied from someone's profile is current without being in the history; keep it
+    // there before replacing it, so it can be restored later
+    const keepCurrent = async (kind: Kind) => {
+        if (!history) return;
+        const current = kind === 'skin' ? history.skin_url : history.cape_url;
+        const list = kind === 'skin' ? history.skin_history : history.cape_history;
+        if (!current || list.some(entry => entry.url === current)) return;
+        if (kind === 'skin') await CloudManager.addSkinToHistory(userId, current);
+        else await CloudManager.addCapeToHistory(userId, current);
+    };
+
+    const handleRestore = async (kind: Kind, url: string) => {
+        if (!history) return;
+        setBusyUrl(url);
+        try {
+            await keepCurrent(kind);
+            const ok = kind === 'skin'
+                ? await CloudManager.updateSkinAndCape(userId, url)
+                : await CloudManager.updateSkinAndCape(userId, history.skin_url, url);
+            if (!ok) throw new Error('Update failed');
+            showToast(kind === 'skin' ? 'Skin restored' : 'Cape restored', 'success');
+            await load();
+        } catch (e) {
+            console.error('[SkinHistory] Failed to restore', e);
+            showToast(`Failed to restore ${kind}`, 'error');
+        } finally {
+            setBusyUrl(null);
+        }
+    };
+
+    const handleFind = async () => {
+        const name = username.trim();
+        if (!name) return;
+        setSearching(true);
+        setFound(null);
+        setImportError(null);
+        try {
+            const profile = await CloudManager.getPublicProfile(name);
+            if (!profile) {
+                setImportError(`No Whoap player named "${name}" was found.`);
+            } else if (!profile.is_public) {
+                setImportError(`${profile.username}'s profile is private, so their skin can't be imported.`);
+            } else if (!profile.skin_url) {
+                setImportError(`${profile.username} hasn't uploaded a skin yet.`);
+            } else {
+                setFound(profile);
+            }
+        } finally {
+            setSearching(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!found?.skin_url) return;
+        setBusyUrl(found.skin_url);
+        try {
+            await keepCurrent('skin');
+            // Copied into our own storage, so it survives the other player deleting theirs
+            const url = await CloudManager.uploadSkinToCloud(userId, found.skin_url, `From ${found.username}`);
+            if (!url) throw new Error('Upload failed');
+            showToast(`Now wearing ${found.username}'s skin`, 'success');
+            setFound(null);
+            setUsername('');
+            await load();
+            setTab('skins');
+        } catch (e) {
+            console.error('[SkinHistory] Failed to import skin', e);
+            showToast('Failed to import skin', 'error');
+        } finally {
+            setBusyUrl(null);
+        }
+    };
+
+    const renderEntries = (kind: Kind) => {
+        if (!history) return null;
+        const current = kind === 'skin' ? history.skin_url : history.cape_url;
+        const list = kind === 'skin' ? history.skin_history : history.cape_history;
+        const entries: SkinHistoryEntry[] = current && !list.some(entry => entry.url === current)
+            ? [{ url: current, uploaded_at: '' }, ...list]
+            : list;
+
+        if (entries.length === 0) {
+            return (
+                <div className={styles.empty}>
+                    {kind === 'skin' ? 'Skins you upload will show up here.' : 'Capes you upload will show up here.'}
+                </div>
+            );
+        }
+
+        return (
+            <div className={styles.grid}>
+                {entries.map(entry => {
+                    const isCurrent = entry.url === current;
+                    return (
+                        <div key={entry.url} className={`${styles.entry} ${isCurrent ? styles.current : ''}`}>
+                            <SkinViewer3D
+                                skinUrl={kind === 'skin' ? entry.url : history.skin_url || undefined}
+                                capeUrl={kind === 'cape' ? entry.url : null}
+                                width={96}
+                                height={144}
+                                autoRotate
+                                autoRotateSpeed={0.5}
+                            />
+                            {entry.name && <span className={styles.entryName}>{entry.name}</span>}
+                            <span className={styles.entryDate}>
+                                {entry.uploaded_at ? formatTimestamp(entry.uploaded_at) : 'Date unknown'}
+                            </span>
+                            {isCurrent ? (
+                                <span className={styles.currentLabel}>Current</span>
+                            ) : (
+                                <button
+                                    className={styles.restoreBtn}
+                                    onClick={() => handleRestore(kind, entry.url)}
+                                    disabled={busyUrl !== null}
+                                >
+                                    <RotateCcw size={13} />
+                                    {busyUrl === entry.url ? 'Restoring...' : 'Restore'}
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div className={styles.iconWrapper}>
+                        <History size={22} color="#ff9500" />
+                    </div>
+                    <div>
+                        <h2 className={styles.title}>Skin History</h2>
+                        <div className={styles.subtitle}>Your last uploads, restorable at any time.</div>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.tabs}>
+                    <button className={tab === 'skins' ? styles.activeTab : ''} onClick={() => setTab('skins')}>Skins</button>
+                    <button className={tab === 'capes' ? styles.activeTab : ''} onClick={() => setTab('capes')}>Capes</button>
+                    <button className={tab === 'import' ? styles.activeTab : ''} onClick={() => setTab('import')}>Import from Player</button>
+                </div>
+
+                <div className={styles.content}>
+                    {loading ? (
+                        <div className={styles.empty}>
+                            <Clock size={16} />
+                            Loading history...
+                        </div>
+                    ) : !history ? (
+                        <div className={styles.empty}>Could not load your skin history.</div>
+                    ) : tab === 'import' ? (
+                        <div className={styles.importSection}>
+                            <p className={styles.importDesc}>
+                                Wear the current skin of another Whoap player. Only players with a public profile can be imported from.
+                            </p>
+                            <div className={styles.searchRow}>
+                                <input
+                                    type="text"
+                                    className={styles.searchInput}
+                                    value={username}
+                                    onChange={e => setUsername(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleFind(); }}
+                                    placeholder="Whoap username..."
+                                    autoFocus
+                                />
+                                <button className={styles.searchBtn} onClick={handleFind} disabled={searching || !username.trim()}>
+                                    <Search size={14} />
+                                    {searching ? 'Searching...' : 'Find'}
+                                </button>
+                            </div>
+
+                            {importError && <div className={styles.importError}>{importError}</div>}
+
+                            {found?.skin_url && (
+                                <div className={styles.foundCard}>
+                                    <SkinViewer3D skinUrl={found.skin_url} width={140} height={210} autoRotate autoRotateSpeed={0.5} />
+                                    <div className={styles.foundInfo}>
+                                        <span className={styles.foundName}>{found.username}</span>
+                                        {found.updated_at && (
+                                            <span className={styles.entryDate}>Updated {formatTimestamp(found.updated_at)}</span>
+                                        )}
+                                        <button className={styles.importBtn} onClick={handleImport} disabled={busyUrl !== null}>
+                                            <Download size={14} />
+                                            {busyUrl === found.skin_url ? 'Importing...' : 'Use This Skin'}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ) : renderEntries(tab === 'skins' ? 'skin' : 'cape')}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -3,7 +3,10 @@ import * as skinview3d from 'skinview3d';
 import { SkinUtils } from '../utils/SkinUtils';
 
 interface SkinViewer3DProps {
-    skinUrl?: string; // name or file:name
+    skinUrl?: string; // name, file:name, or an http/data URL
+    model?: 'default' | 'slim' | 'auto-detect';
+    innerLayer?: boolean;
+    outerLayer?: boolean;
     capeUrl?: string | null;
     width?: number;
     height?: number;
@@ -16,6 +19,22 @@ interface SkinViewer3DProps {
     facing?: 'left' | 'right';
 }
 
+// Direct URLs (Supabase storage, or data: URLs from the skin editor) are used as they are
+const resolveSkin = (skinUrl: string | undefined, lastUpdated?: number) =>
+    skinUrl?.startsWith('http') || skinUrl?.startsWith('data:')
+        ? skinUrl
+        : SkinUtils.getSkinUrl(skinUrl, 'body', lastUpdated);
+
+const resolveCape = (capeUrl: string | null | undefined, lastUpdated?: number) =>
+    capeUrl?.startsWith('http') || capeUrl?.startsWith('data:')
+        ? capeUrl
+        : (capeUrl ? SkinUtils.getCapeUrl(capeUrl, lastUpdated) : null);
+
+const setLayersVisible = (viewer: skinview3d.SkinViewer, inner: boolean, outer: boolean) => {
+    viewer.playerObject.skin.setInnerLayerVisible(inner);
+    viewer.playerObject.skin.setOuterLayerVisible(outer);
+};
+
 export const SkinViewer3D: React.FC<SkinViewer3DProps> = ({
     skinUrl,
     capeUrl,
@@ -27,7 +46,10 @@ export const SkinViewer3D: React.FC<SkinViewer3DProps> = ({
     autoRotateSpeed = 0.5,
     enableZoom = false,
     initialRotation = { y: 0, x: 0 },
-    facing = 'right'
+    facing = 'right',
+    model = 'auto-detect',
+    innerLayer = true,
+    outerLayer = true
 }) => {
     const canvasRef = React.useRef<HTMLCanvasElement>(null);
     const viewerRef = React.useRef<skinview3d.SkinViewer | null>(null);
@@ -61,16 +83,12 @@ export const SkinViewer3D: React.FC<SkinViewer3DProps> = ({
         viewer.animation.speed = 1.5;
 
         // Load initial skin/cape
-        // If skinUrl is a direct https:// URL (e.g. from Supabase), use it directly
-        const resolvedSkin = skinUrl?.startsWith('http')
-            ? skinUrl
-            : SkinUtils.getSkinUrl(skinUrl, 'body', lastUpdated);
-        const resolvedCape = capeUrl?.startsWith('http')
-            ? capeUrl
-            : (capeUrl ? SkinUtils.getCapeUrl(capeUrl, lastUpdated) : null);
-
-        if (resolvedSkin) viewer.loadSkin(resolvedSkin);
+        const resolvedSkin = resolveSkin(skinUrl, lastUpdated);
+        const resolvedCape = resolveCape(capeUrl, lastUpdated);
+
+        if (resolvedSkin) viewer.loadSkin(resolvedSkin, { model });
         if (resolvedCape) viewer.loadCape(resolvedCape);
+        setLayersVisible(viewer, innerLayer, outerLayer);
 
         viewerRef.current = viewer;
 
@@ -85,20 +103,20 @@ export const SkinViewer3D: React.FC<SkinViewer3DProps> = ({
         const viewer = viewerRef.current;
         if (!viewer) return;
 
-        const resolvedSkin = skinUrl?.startsWith('http')
-            ? skinUrl
-            : SkinUtils.getSkinUrl(skinUrl, 'body', lastUpdated);
-        const resolvedCape = capeUrl?.startsWith('http')
-            ? capeUrl
-            : (capeUrl ? SkinUtils.getCapeUrl(capeUrl, lastUpdated) : null);
+        const resolvedSkin = resolveSkin(skinUrl, lastUpdated);
+        const resolvedCape = resolveCape(capeUrl, lastUpdated);
 
-        if (resolvedSkin) viewer.loadSkin(resolvedSkin);
+        if (resolvedSkin) viewer.loadSkin(resolvedSkin, { model });
         if (resolvedCape) {
             viewer.loadCape(resolvedCape);
         } else {
             viewer.loadCape(null as any);
         }
-    }, [skinUrl, capeUrl, lastUpdated]);
+    }, [skinUrl, capeUrl, lastUpdated, model]);
+
+    React.useEffect(() => {
+        if (viewerRef.current) setLayersVisible(viewerRef.current, innerLayer, outerLayer);
+    }, [innerLayer, outerLayer]);
 
     // Handle Config Updates
     React.useEffect(() => {
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { X, RefreshCw, CheckCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import styles from './ContentUpdatesModal.module.css';
+
+type VerifyCategory = 'client' | 'library' | 'native' | 'asset' | 'java' | 'mod';
+
+interface VerifyIssue {
+    category: VerifyCategory;
+    name: string;
+    path: string;
+    problem: 'missing' | 'corrupt';
+    repairable: boolean;
+}
+
+interface VerifyReport {
+    instanceId: string;
+    versionId: string;
+    checked: Record<VerifyCategory, number>;
+    issues: VerifyIssue[];
+    verifiedAt: number;
+}
+
+interface VerifyInstanceModalProps {
+    instanceId: string;
+    instanceName: string;
+    onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<VerifyCategory, string> = {
+    client: 'Client jar',
+    library: 'Libraries',
+    native: 'Natives',
+    asset: 'Assets',
+    java: 'Java runtime',
+    mod: 'Mods, resource packs and shaders'
+};
+
+export const VerifyInstanceModal: React.FC<VerifyInstanceModalProps> = ({ instanceId, instanceName, onClose }) => {
+    const [report, setReport] = useState<VerifyReport | null>(null);
+    const [busy, setBusy] = useState<string | null>('Starting...');
+    const [expanded, setExpanded] = useState<VerifyCategory | null>(null);
+    const { showToast } = useToast();
+
+    const verify = async () => {
+        setBusy('Starting...');
+        setReport(null);
+        try {
+            const res = await window.ipcRenderer.invoke('instance:verify', instanceId);
+            if (res.success) setReport(res.report);
+            else showToast(res.error || 'Verification failed', 'error');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    useEffect(() => {
+        verify();
+
+        const handleProgress = (_: any, p: { instanceId: string; status: string; current: number; total: number }) => {
+            if (p.instanceId === instanceId) setBusy(p.status);
+        };
+        window.ipcRenderer.on('instance:verify-progress', handleProgress);
+        return () => {
+            window.ipcRenderer.off('instance:verify-progress', handleProgress);
+        };
+    }, [instanceId]);
+
+    const handleRepair = async () => {
+        setBusy('Preparing repair...');
+        try {
+            const res = await window.ipcRenderer.invoke('instance:repair', instanceId);
+            if (!res.success) {
+                showToast(res.error || 'Repair failed', 'error');
+            } else if (res.failed.length > 0) {
+                showToast(`Repaired ${res.repaired} file(s), ${res.failed.length} could not be fixed`, 'error');
+            } else {
+                showToast(`Repaired ${res.repaired} file(s)`, 'success');
+            }
+        } finally {
+            setBusy(null);
+        }
+        await verify();
+    };
+
+    const totalChecked = report ? Object.values(report.checked).reduce((sum, n) => sum + n, 0) : 0;
+    const repairable = report?.issues.filter(i => i.repairable).length || 0;
+
+    return (
+        <div className={styles.overlay} onClick={() => !busy && onClose()}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div>
+                        <h2>Verify Files</h2>
+                        <p>{instanceName}{report ? ` · ${report.versionId}` : ''}</p>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose} disabled={!!busy}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    {!report ? (
+                        <div className={styles.empty}>
+                            <RefreshCw size={20} className={styles.spin} />
+                            <span>{busy || 'Could not verify this instance'}</span>
+                        </div>
+                    ) : report.issues.length === 0 ? (
+                        <div className={styles.empty}>
+                            <CheckCircle size={20} />
+                            <span>All {totalChecked.toLocaleString()} checked files are intact</span>
+                        </div>
+                    ) : (
+                        <>
+                            <div className={styles.planHeader}>
+                                <span>
+                                    {report.issues.length} of {totalChecked.toLocaleString()} files are missing or corrupt
+                                </span>
+                            </div>
+                            {(Object.keys(CATEGORY_LABELS) as VerifyCategory[]).map(category => {
+                                const issues = report.issues.filter(i => i.category === category);
+                                if (issues.length === 0) return null;
+                                return (
+                                    <div key={category} className={styles.planSection}>
+                                        <button className={styles.changelogBtn} onClick={() => setExpanded(expanded === category ? null : category)}>
+                                            {expanded === category ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                            {CATEGORY_LABELS[category]} ({issues.length})
+                                        </button>
+                                        {expanded === category && (
+                                            <ul className={styles.planList}>
+                                                {issues.map(issue => (
+                                                    <li key={issue.path} title={issue.path}>
+                                                        {issue.name} · {issue.problem}
+                                                        {!issue.repairable && <span className={styles.muted}> (can't be redownloaded)</span>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </>
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    <button className={styles.secondaryBtn} onClick={verify} disabled={!!busy}>
+                        <RefreshCw size={14} /> Verify Again
+                    </button>
+                    <div className={styles.footerSpacer} />
+                    {busy && report === null ? null : busy ? (
+                        <span className={styles.progress}>
+                            <RefreshCw size={14} className={styles.spin} />
+                            {busy}
+                        </span>
+                    ) : (
+                        <button className={styles.primaryBtn} onClick={handleRepair} disabled={repairable === 0}>
+                            {repairable > 0 ? `Repair ${repairable} file${repairable === 1 ? '' : 's'}` : 'Nothing to repair'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, X } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import styles from './WorldBackupPolicyModal.module.css';
+
+export interface WorldBackupPolicy {
+    onExit: boolean;
+    intervalMinutes: number;
+    daily: boolean;
+    keepLast: number;
+    keepDaily: number;
+    keepWeekly: number;
+}
+
+interface WorldBackupPolicyModalProps {
+    world: { id: string; name: string; instanceId: string; instanceName: string } | null;
+    onClose: () => void;
+}
+
+export const WorldBackupPolicyModal: React.FC<WorldBackupPolicyModalProps> = ({ world, onClose }) => {
+    const [policy, setPolicy] = useState<WorldBackupPolicy | null>(null);
+    const [saving, setSaving] = useState(false);
+    const { showToast } = useToast();
+
+    useEffect(() => {
+        setPolicy(null);
+        if (world) {
+            window.ipcRenderer.invoke('worlds:get-backup-policy', world.instanceId, world.id).then(setPolicy);
+        }
+    }, [world]);
+
+    if (!world) return null;
+
+    const update = <K extends keyof WorldBackupPolicy>(key: K, value: WorldBackupPolicy[K]) => {
+        setPolicy(prev => prev ? { ...prev, [key]: value } : prev);
+    };
+
+    const numberField = (key: 'intervalMinutes' | 'keepLast' | 'keepDaily' | 'keepWeekly', label: string, hint: string) => (
+        <label className={styles.field}>
+            <span className={styles.fieldLabel}>{label}</span>
+            <input
+                type="number"
+                min={0}
+                className={styles.numberInput}
+                value={policy?.[key] ?? 0}
+                onChange={e => update(key, Math.max(0, parseInt(e.target.value) || 0))}
+            />
+            <span className={styles.fieldHint}>{hint}</span>
+        </label>
+    );
+
+    const handleSave = async () => {
+        if (!policy) return;
+        setSaving(true);
+        try {
+            const result = await window.ipcRenderer.invoke('worlds:set-backup-policy', world.instanceId, world.id, policy);
+            if (result.success) {
+                showToast('Backup schedule saved', 'success');
+                onClose();
+            } else {
+                showToast(result.error || 'Failed to save backup schedule', 'error');
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div className={styles.iconArea}>
+                        <Clock size={20} />
+                    </div>
+                    <div className={styles.headerText}>
+                        <div className={styles.title}>Backup Schedule</div>
+                        <div className={styles.subtitle}>{world.name} · {world.instanceName}</div>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {!policy ? (
+                    <div className={styles.body}>Loading...</div>
+                ) : (
+                    <div className={styles.body}>
+                        <div className={styles.sectionTitle}>When to back up</div>
+                        <label className={styles.toggleRow}>
+                            <input type="checkbox" checked={policy.onExit} onChange={e => update('onExit', e.target.checked)} />
+                            <span>When the game exits</span>
+                        </label>
+                        <label className={styles.toggleRow}>
+                            <input type="checkbox" checked={policy.daily} onChange={e => update('daily', e.target.checked)} />
+                            <span>Once a day while the launcher is open</span>
+                        </label>
+                        {numberField('intervalMinutes', 'Every N minutes while playing', '0 turns periodic backups off')}
+
+                        <div className={styles.sectionTitle}>Retention</div>
+                        <div className={styles.retentionGrid}>
+                            {numberField('keepLast', 'Keep last', 'most recent')}
+                            {numberField('keepDaily', 'Keep daily', 'days')}
+                            {numberField('keepWeekly', 'Keep weekly', 'weeks')}
+                        </div>
+                        <p className={styles.note}>
+                            Applies to automatic backups only; manual backups are kept until you delete them.
+                            Unchanged worlds are not backed up again.
+                        </p>
+                    </div>
+                )}
+
+                <div className={styles.footer}>
+                    <button className={styles.cancelBtn} onClick={onClose}>Cancel</button>
+                    <button className={styles.saveBtn} onClick={handleSave} disabled={!policy || saving}>
+                        {saving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRightLeft, User, X } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { useConfirm } from '../context/ConfirmContext';
+import { CustomSelect } from './CustomSelect';
+import styles from './WorldTransferModal.module.css';
+
+interface WorldTransferModalProps {
+    world: { id: string; name: string; instanceId: string; instanceName: string } | null;
+    instances: { id: string; name: string }[];
+    onClose: () => void;
+    onTransferred: () => void;
+}
+
+/** Copies a world into another profile, asking first when that profile runs an older version. */
+export const WorldTransferModal: React.FC<WorldTransferModalProps> = ({ world, instances, onClose, onTransferred }) => {
+    const [targetId, setTargetId] = useState('');
+    const [copying, setCopying] = useState(false);
+    const { showToast } = useToast();
+    const confirm = useConfirm();
+
+    const targets = instances.filter(i => i.id !== world?.instanceId);
+
+    useEffect(() => {
+        setTargetId(targets[0]?.id || '');
+    }, [world]);
+
+    if (!world) return null;
+
+    const transfer = (force: boolean) =>
+        window.ipcRenderer.invoke('worlds:transfer', world.instanceId, world.id, targetId, force);
+
+    const handleCopy = async () => {
+        const target = targets.find(i => i.id === targetId);
+        if (!target) return;
+        setCopying(true);
+        try {
+            let result = await transfer(false);
+            if (result.warning) {
+                const confirmed = await confirm('Older Version', `${result.warning} Copy it anyway?`, {
+                    isDanger: true,
+                    confirmLabel: 'Copy Anyway'
+                });
+                if (!confirmed) return;
+                result = await transfer(true);
+            }
+
+            if (result.success) {
+                showToast(`Copied "${world.name}" to ${target.name}`, 'success');
+                onTransferred();
+                onClose();
+            } else {
+                showToast(result.error || 'Failed to copy world', 'error');
+            }
+        } finally {
+            setCopying(false);
+        }
+    };
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div className={styles.iconArea}>
+                        <ArrowRightLeft size={20} />
+                    </div>
+                    <div className={styles.headerText}>
+                        <div className={styles.title}>Copy to Profile</div>
+                        <div className={styles.subtitle}>{world.name} · {world.instanceName}</div>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className={styles.body}>
+                    {targets.length === 0 ? (
+                        'There is no other profile to copy this world to.'
+                    ) : (
+                        <>
+                            <CustomSelect
+                                value={targetId}
+                                onChange={setTargetId}
+                                options={targets.map(i => ({ value: i.id, label: i.name, icon: <User size={14} /> }))}
+                                width="100%"
+                            />
+                            <p className={styles.note}>
+                                The original world is kept. If the profile already has a world with this folder name,
+                                the copy is renamed.
+                            </p>
+                        </>
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    <button className={styles.cancelBtn} onClick={onClose}>Cancel</button>
+                    <button className={styles.saveBtn} onClick={handleCopy} disabled={!targetId || copying}>
+                        {copying ? 'Copying...' : 'Copy'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { TitleBar } from '../components/TitleBar';
 import { Sidebar } from '../components/Sidebar';
 import { CrashReportModal } from '../components/CrashReportModal';
+import { useToast } from '../context/ToastContext';
 import styles from './MainLayout.module.css';
 import bgImage from '../assets/bg.jpg';
 
@@ -12,7 +13,6 @@ interface MainLayoutProps {
     user: {
         name: string;
         uuid: string;
-        token: string;
         role?: string;
         type?: string;
         preferredSkin?: string;
@@ -25,17 +25,26 @@ interface MainLayoutProps {
 export const MainLayout: React.FC<MainLayoutProps> = ({ children, activeTab, onTabChange, user, onLogout, isNavLocked }) => {
     const [crashReport, setCrashReport] = useState<any>(null);
     const [crashLog, setCrashLog] = useState('');
+    const [crashInstanceId, setCrashInstanceId] = useState<string | undefined>();
+    const { showToast } = useToast();
 
     useEffect(() => {
         const handleCrash = (_event: any, data: any) => {
             console.log("Crash event received", data);
             setCrashReport(data.report);
             setCrashLog(data.log);
+            setCrashInstanceId(data.instanceId);
+        };
+
+        const handleWarning = (_event: any, data: { instanceId: string; message: string }) => {
+            showToast(data.message, 'warning');
         };
 
         window.ipcRenderer.on('launch:crash', handleCrash);
+        window.ipcRenderer.on('launch:warning', handleWarning);
         return () => {
-            // Cleanup would require removeListener exposed via preload, assuming handled or component is persistent
+            window.ipcRenderer.off('launch:crash', handleCrash);
+            window.ipcRenderer.off('launch:warning', handleWarning);
         };
     }, []);
 
@@ -71,6 +80,7 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children, activeTab, onT
                 <CrashReportModal
                     report={crashReport}
                     log={crashLog}
+                    instanceId={crashInstanceId}
                     onClose={() => setCrashReport(null)}
                 />
             )}
@@ -3,7 +3,7 @@ import { PageHeader } from '../components/PageHeader';
 import styles from './Friends.module.css';
 import { Globe, Package, Users, UserPlus, Search, Check, X, Clock, Info, Calendar, User, WifiOff, Lock } from 'lucide-react';
 import { CloudManager } from '../utils/CloudManager';
-import { AccountManager } from '../utils/AccountManager';
+import { AccountManager, StoredAccount } from '../utils/AccountManager';
 import { InstanceApi } from '../api/instances';
 import { Skeleton } from '../components/Skeleton';
 import { useToast } from '../context/ToastContext';
@@ -25,7 +25,11 @@ export const Friends: React.FC<FriendsProps> = ({ isOnline = true }) => {
     const { showToast } = useToast();
     const confirm = useConfirm();
 
-    const user = AccountManager.getActive();
+    const [user, setUser] = useState<StoredAccount | null>(null);
+
+    useEffect(() => {
+        AccountManager.getActive().then(setUser);
+    }, []);
 
     useEffect(() => {
         if (user?.type === 'whoap') {
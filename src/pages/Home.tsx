@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import styles from './Home.module.css';
 import { InstanceApi, Instance } from '../api/instances';
-import { LaunchApi } from '../api/launch';
+import { LaunchApi, RunningGame, QuickPlayTarget } from '../api/launch';
 import { NetworkApi, ServerStatus } from '../api/network';
 import { 
     Rocket, 
@@ -19,11 +19,17 @@ import {
     Server,
     FolderOpen,
     Search,
-    X
+    X,
+    Square,
+    RotateCw,
+    Activity,
+    Play,
+    Download
 } from 'lucide-react';
 import { useToast } from '../context/ToastContext';
 import { SkinViewer3D } from '../components/SkinViewer3D';
 import { CreateInstanceModal } from '../components/CreateInstanceModal';
+import { DownloadManagerModal } from '../components/DownloadManagerModal';
 import { ServerService, FeaturedServer } from '../services/ServerService';
 import { PageHeader } from '../components/PageHeader';
 import { SyncQueue } from '../utils/SyncQueue';
@@ -32,7 +38,6 @@ interface HomeProps {
     user: {
         name: string;
         uuid: string;
-        token: string;
     };
     setUser?: (user: any) => void;
     onNavigate?: (tab: string, instanceId?: string) => void;
@@ -44,6 +49,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
     const [selectedInstance, setSelectedInstance] = useState<Instance | null>(null);
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [showSkinModal, setShowSkinModal] = useState(false);
+    const [showDownloads, setShowDownloads] = useState(false);
     const [showInstanceDropdown, setShowInstanceDropdown] = useState(false);
     const [tempSkin, setTempSkin] = useState((user as any).preferredSkin || user.name);
     const [lastUpdated, setLastUpdated] = useState(Date.now());
@@ -72,6 +78,21 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
     const [featuredStatuses, setFeaturedStatuses] = useState<Record<string, ServerStatus>>({});
     const [copiedId, setCopiedId] = useState<string | null>(null);
 
+    // Running Games
+    const [runningGames, setRunningGames] = useState<RunningGame[]>([]);
+
+    useEffect(() => {
+        LaunchApi.listRunning().then(setRunningGames).catch(() => { });
+
+        const handleRunningChanged = (_event: any, games: RunningGame[]) => {
+            setRunningGames(games);
+        };
+        window.ipcRenderer.on('game:running-changed', handleRunningChanged);
+        return () => {
+            window.ipcRenderer.off('game:running-changed', handleRunningChanged);
+        };
+    }, []);
+
     useEffect(() => {
         loadData();
 
@@ -158,15 +179,15 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
         });
     };
 
-    const handleLaunch = async () => {
+    const handleLaunch = async (target?: QuickPlayTarget) => {
         if (!selectedInstance || isLaunching) return;
 
         setIsLaunching(true);
-        setLaunchStatus('Preparing...');
+        setLaunchStatus(target?.type === 'multiplayer' ? `Joining ${target.address}...` : 'Preparing...');
         setLaunchProgress(0);
 
         try {
-            const result = await LaunchApi.launch(selectedInstance, user);
+            const result = await LaunchApi.launch(selectedInstance, user, target);
             if (!result.success) {
                 showToast(`Launch failed: ${result.error}`, 'error');
                 setIsLaunching(false);
@@ -183,6 +204,29 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
         }
     };
 
+    const handleStopGame = async (game: RunningGame) => {
+        const result = await LaunchApi.kill(game.instanceId);
+        if (result.success) {
+            showToast(`Stopped ${game.instanceName}`, 'success');
+        } else {
+            showToast(`Failed to stop: ${result.error}`, 'error');
+        }
+    };
+
+    const handleRestartGame = async (game: RunningGame) => {
+        showToast(`Restarting ${game.instanceName}...`, 'info');
+        const result = await LaunchApi.restart(game.instanceId);
+        if (!result.success) {
+            showToast(`Restart failed: ${result.error}`, 'error');
+        }
+    };
+
+    const formatRunningTime = (startTime: number) => {
+        const minutes = Math.floor((Date.now() - startTime) / 60000);
+        if (minutes < 60) return `${minutes}m`;
+        return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+    };
+
     const handleCheckStatus = async () => {
         if (!serverIp.trim()) return;
         setStatusLoading(true);
@@ -228,8 +272,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
         if (instance && (user as any)?.type === 'whoap' && (user as any)?.uuid) {
             SyncQueue.enqueue('instance:create', {
                 instance,
-                userId: (user as any).uuid,
-                token: (user as any).token
+                userId: (user as any).uuid
             });
             console.log('[Home] Queued instance for cloud sync:', instance.name);
         }
@@ -390,7 +433,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
 
                     <button
                         className={`${styles.launchBtn} ${isLaunching ? styles.launching : ''}`}
-                        onClick={instances.length === 0 ? () => setShowCreateModal(true) : handleLaunch}
+                        onClick={instances.length === 0 ? () => setShowCreateModal(true) : () => handleLaunch()}
                         disabled={isLaunching || (!selectedInstance && instances.length > 0)}
                     >
                         {isLaunching ? (
@@ -419,6 +462,12 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
                             </>
                         )}
                     </button>
+                    {isLaunching && downloadStats && (
+                        <button className={styles.downloadsLink} onClick={() => setShowDownloads(true)}>
+                            <Download size={12} />
+                            View downloads
+                        </button>
+                    )}
                 </div>
 
                 <div className={styles.skinContainer}>
@@ -440,6 +489,44 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
                 </div>
             </div>
 
+            {/* Running Games */}
+            {runningGames.length > 0 && (
+                <div className={styles.section}>
+                    <div className={styles.sectionTitle}>
+                        <h3><Activity size={18} /> Running Now</h3>
+                    </div>
+                    <div className={styles.profilesGrid}>
+                        {runningGames.map(game => (
+                            <div key={game.instanceId} className={`${styles.profileCard} ${styles.runningCard}`}>
+                                <div className={styles.profileIcon}>
+                                    {game.instanceName.charAt(0).toUpperCase()}
+                                </div>
+                                <div className={styles.profileDetails}>
+                                    <div className={styles.profileCardName}>{game.instanceName}</div>
+                                    <div className={styles.profileCardMeta}>
+                                        {game.versionId} • running {formatRunningTime(game.startTime)}
+                                    </div>
+                                </div>
+                                <button
+                                    className={styles.copyBtn}
+                                    onClick={() => handleRestartGame(game)}
+                                    title="Restart"
+                                >
+                                    <RotateCw size={16} />
+                                </button>
+                                <button
+                                    className={`${styles.copyBtn} ${styles.stopBtn}`}
+                                    onClick={() => handleStopGame(game)}
+                                    title="Force stop"
+                                >
+                                    <Square size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Stats */}
             <div className={styles.statsRow}>
                 <div className={styles.statCard}>
@@ -571,6 +658,14 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
                                             </div>
                                         )}
                                     </div>
+                                    <button
+                                        className={`${styles.copyBtn} ${styles.playBtn}`}
+                                        onClick={() => handleLaunch({ type: 'multiplayer', address: server.address })}
+                                        disabled={!selectedInstance || isLaunching}
+                                        title={selectedInstance ? `Play on ${server.name} with ${selectedInstance.name}` : 'Select a profile first'}
+                                    >
+                                        <Play size={16} />
+                                    </button>
                                     <button 
                                         className={styles.copyBtn}
                                         onClick={() => handleCopyIp(server.address, server.id)}
@@ -632,6 +727,8 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
                 )}
             </div>
 
+            {showDownloads && <DownloadManagerModal onClose={() => setShowDownloads(false)} />}
+
             {/* Skin Modal */}
             {showSkinModal && (
                 <div className={styles.modalOverlay} onClick={() => setShowSkinModal(false)}>
@@ -658,7 +755,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate, onLockNav
                                 onClick={async () => {
                                     if (tempSkin && setUser) {
                                         const { AccountManager } = await import('../utils/AccountManager');
-                                        AccountManager.updateAccount(user.uuid, { preferredSkin: tempSkin });
+                                        await AccountManager.updateAccount(user.uuid, { preferredSkin: tempSkin });
                                         setUser((prev: any) => ({ ...prev, preferredSkin: tempSkin }));
                                         setLastUpdated(Date.now());
                                         showToast('Skin updated!', 'success');
@@ -2,9 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useToast } from '../context/ToastContext';
 import { useConfirm } from '../context/ConfirmContext';
 import styles from './InstanceMods.module.css';
-import { ChevronLeft, Trash2, Plus, Package, Power, Lock, Search } from 'lucide-react';
+import { ChevronLeft, Trash2, Plus, Package, Power, Lock, Search, RefreshCw } from 'lucide-react';
 import { Skeleton } from '../components/Skeleton';
 import { ContentBrowser } from '../components/ContentBrowser';
+import { ContentUpdatesModal } from '../components/ContentUpdatesModal';
 
 interface InstanceModsProps {
     instanceId: string;
@@ -18,6 +19,11 @@ interface InstalledItem {
     path: string;
     size: number;
     isEnabled: boolean;
+    title?: string;
+    version?: string;
+    iconUrl?: string;
+    projectId?: string;
+    source?: 'modrinth' | 'curseforge' | 'local';
 }
 
 export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack, hideBackButton, hideHeader }) => {
@@ -25,6 +31,7 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
     const [installedSearchQuery, setInstalledSearchQuery] = useState('');
     const [loading, setLoading] = useState(false);
     const [showBrowser, setShowBrowser] = useState(false);
+    const [showUpdates, setShowUpdates] = useState(false);
 
     const { showToast } = useToast();
     const confirm = useConfirm();
@@ -181,6 +188,10 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
                             <Plus size={20} />
                             <span>Local</span>
                         </button>
+                        <button className={`${styles.addModBtn} ${styles.secondaryAdd}`} onClick={() => setShowUpdates(true)} title="Update mods, resource packs and shaders">
+                            <RefreshCw size={18} />
+                            <span>Updates</span>
+                        </button>
                     </div>
                 )}
             </div>
@@ -195,19 +206,28 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
                 ) : (
                     <div className={styles.modList}>
                         {installedItems.length === 0 && <div style={{ color: '#888', padding: 20 }}>No mods installed.</div>}
-                        {installedItems.filter(m => m.name.toLowerCase().includes(installedSearchQuery.toLowerCase())).map(item => (
+                        {installedItems.filter(m => `${m.title || ''} ${m.name}`.toLowerCase().includes(installedSearchQuery.toLowerCase())).map(item => (
                             <div key={item.name} className={`${styles.modCard} ${!item.isEnabled ? styles.disabled : ''}`}>
                                 <div className={styles.modIconWrapper}>
-                                    <Package size={24} />
+                                    {item.iconUrl
+                                        ? <img src={item.iconUrl} alt="" className={styles.modIcon} />
+                                        : <Package size={24} />}
                                 </div>
                                 <div className={styles.modDetails}>
-                                    <div className={styles.modName}>
-                                        {item.name.replace('.jar', '').replace('.disabled', '')}
+                                    <div className={styles.modName} title={item.name}>
+                                        {item.title || item.name.replace('.jar', '').replace('.disabled', '')}
                                     </div>
                                     <div className={styles.modMeta}>
                                         <span className={`${styles.statusPill} ${item.isEnabled ? styles.enabled : ''}`}>
                                             {item.isEnabled ? 'Enabled' : 'Disabled'}
                                         </span>
+                                        {item.version && <span className={styles.modVersion}>{item.version}</span>}
+                                        {item.source === 'local' && (
+                                            <span className={styles.modSource} title="Not found on Modrinth; details read from the jar">Local</span>
+                                        )}
+                                        {item.source === 'curseforge' && (
+                                            <span className={styles.modSource} title="Installed from CurseForge">CurseForge</span>
+                                        )}
                                         <span className={styles.modSize}>{(item.size / 1024).toFixed(1)} KB</span>
                                     </div>
                                 </div>
@@ -244,6 +264,15 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
                     }}
                 />
             )}
+            {showUpdates && (
+                <ContentUpdatesModal
+                    instanceId={instanceId}
+                    onClose={(changed) => {
+                        setShowUpdates(false);
+                        if (changed) loadInstalledItems();
+                    }}
+                />
+            )}
         </div>
     );
 };
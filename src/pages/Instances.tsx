@@ -6,6 +6,8 @@ import { CreateInstanceModal } from '../components/CreateInstanceModal';
 import { InstanceSettingsModal } from '../components/InstanceSettingsModal';
 import { ProcessingModal } from '../components/ProcessingModal';
 import { ConflictResolver } from '../components/ConflictResolver';
+import { LauncherImportModal, ExternalInstance } from '../components/LauncherImportModal';
+import { ManualDownload, ManualDownloadModal } from '../components/ManualDownloadModal';
 import { OfflineStatusDot } from '../components/OfflineBadge';
 import styles from './Instances.module.css';
 import { Skeleton } from '../components/Skeleton';
@@ -25,6 +27,8 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
     const [settingsInstance, setSettingsInstance] = useState<Instance | null>(null);
     const [processing, setProcessing] = useState<{ message: string; subMessage?: string; progress?: number } | null>(null);
     const [showConflictResolver, setShowConflictResolver] = useState(false);
+    const [showLauncherImport, setShowLauncherImport] = useState(false);
+    const [manualDownloads, setManualDownloads] = useState<ManualDownload[]>([]);
     const { showToast } = useToast();
 
     const handleToggleFavorite = async (e: React.MouseEvent, instance: Instance) => {
@@ -58,13 +62,36 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
         if (user?.type === 'whoap' && user?.uuid) {
             SyncQueue.enqueue('instance:create', {
                 instance,
-                userId: user.uuid,
-                token: user.token
+                userId: user.uuid
             });
             console.log('[Instances] Queued instance for cloud sync:', instance.name);
         }
     };
 
+    const handleLauncherImport = async (selected: ExternalInstance[], mode: 'copy' | 'reference') => {
+        if (selected.length === 0) return;
+        setProcessing({ message: 'Importing Instances...', subMessage: 'Initializing...', progress: 0 });
+        try {
+            const result = await window.ipcRenderer.invoke('instance:import-launcher', selected, mode);
+            if (!result.success) {
+                showToast(result.error || 'Import failed', 'error');
+                return;
+            }
+            const failed = result.results.filter((r: any) => !r.success);
+            const imported = result.results.length - failed.length;
+            if (failed.length === 0) {
+                showToast(`Imported ${imported} instance${imported !== 1 ? 's' : ''}`, 'success');
+            } else if (imported > 0) {
+                showToast(`Imported ${imported} instance${imported !== 1 ? 's' : ''} (${failed.length} failed)`, 'warning');
+            } else {
+                showToast(`Failed to import: ${failed[0].error}`, 'error');
+            }
+            loadInstances();
+        } finally {
+            setProcessing(null);
+        }
+    };
+
     useEffect(() => {
         loadInstances();
 
@@ -105,6 +132,7 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                                 const res = await InstanceApi.import();
                                 if (res.success) {
                                     showToast('Instance imported successfully!', 'success');
+                                    if (res.manual?.length) setManualDownloads(res.manual);
                                     loadInstances();
                                 }
                                 else if (res.error) showToast(res.error, 'error');
@@ -149,6 +177,7 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                             const res = await InstanceApi.import();
                             if (res.success) {
                                 showToast('Instance imported successfully!', 'success');
+                                if (res.manual?.length) setManualDownloads(res.manual);
                                 loadInstances();
                             }
                             else if (res.error) showToast(res.error, 'error');
@@ -173,6 +202,9 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                     }}>
                         Import Custom Client
                     </button>
+                    <button className={styles.importBtn} onClick={() => setShowLauncherImport(true)}>
+                        Import from Launcher
+                    </button>
                     <button className={styles.createBtn} onClick={() => setShowCreateModal(true)}>
                         <Plus size={18} />
                         New Profile
@@ -340,6 +372,14 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                 />
             )}
 
+            {showLauncherImport && (
+                <LauncherImportModal onClose={() => setShowLauncherImport(false)} onImport={handleLauncherImport} />
+            )}
+
+            {manualDownloads.length > 0 && (
+                <ManualDownloadModal downloads={manualDownloads} onClose={() => setManualDownloads([])} />
+            )}
+
             {processing && (
                 <ProcessingModal
                     message={processing.message}
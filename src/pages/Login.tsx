@@ -34,11 +34,14 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess, onOfflineLogin })
     const premiumCheckTimeout = useRef<NodeJS.Timeout | null>(null);
 
     useEffect(() => {
-        const stored = AccountManager.getAccounts();
-        setAccounts(stored);
-        const active = AccountManager.getActive();
-        if (active) setSelectedAccount(active);
-        else if (stored.length > 0) setSelectedAccount(stored[0]);
+        const loadAccounts = async () => {
+            const stored = await AccountManager.getAccounts();
+            setAccounts(stored);
+            const active = await AccountManager.getActive();
+            if (active) setSelectedAccount(active);
+            else if (stored.length > 0) setSelectedAccount(stored[0]);
+        };
+        loadAccounts();
     }, []);
 
     const checkPremiumUsername = async (name: string): Promise<boolean> => {
@@ -94,16 +97,8 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess, onOfflineLogin })
         };
     }, [username, isRegistering]);
 
+    // The login handlers in the main process have already saved the account
     const handleSuccess = (profile: any, type: any) => {
-        const account: StoredAccount = {
-            name: profile.name,
-            uuid: profile.uuid,
-            token: profile.token,
-            refreshToken: profile.refreshToken,
-            type,
-            preferredSkin: profile.preferredSkin
-        };
-        AccountManager.addAccount(account);
         onLoginSuccess({ ...profile, type });
     };
 
@@ -189,8 +184,7 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess, onOfflineLogin })
 
                     handleSuccess({
                         name: displayName,
-                        uuid: data.user.id,
-                        token: data.session?.access_token || 'whoap-token'
+                        uuid: data.user.id
                     }, 'whoap');
                 }
             } else {
@@ -216,8 +210,7 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess, onOfflineLogin })
 
                     handleSuccess({
                         name: data.user.user_metadata.display_name || email.split('@')[0],
-                        uuid: data.user.id,
-                        token: data.session?.access_token
+                        uuid: data.user.id
                     }, 'whoap');
                 }
             }
@@ -230,52 +223,20 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess, onOfflineLogin })
 
     const handleAccountSelect = async (account: StoredAccount) => {
         setIsLoggingIn(true);
+        setError(null);
         try {
-            AccountManager.setActive(account.uuid);
-
-            // Save session to electron-store for persistence across app restarts
-            await window.ipcRenderer.invoke('auth:set-session', {
-                type: account.type,
-                name: account.name,
-                uuid: account.uuid,
-                token: account.token,
-                refreshToken: account.refreshToken,
-                expiresAt: account.expiresAt,
-                preferredSkin: account.preferredSkin
-            });
+            // Microsoft accounts are refreshed and come back with their current name
+            const result = await AccountManager.switchTo(account.uuid);
+            if (!result.success || !result.profile) {
+                setError("Failed to switch account: " + result.error);
+                return;
+            }
+            account = result.profile;
 
             // Sync Supabase session if it's a whoap account (only when online)
-            if (account.type === 'whoap' && account.token && navigator.onLine) {
+            if (account.type === 'whoap' && navigator.onLine) {
                 try {
-                    const { CloudManager } = await import('../utils/CloudManager');
-                    const syncResult = await CloudManager.syncSession(account.token, account.refreshToken);
-
-                    // If session was refreshed, update stored tokens
-                    if (syncResult.success && syncResult.session) {
-                        const updatedAccount: StoredAccount = {
-                            ...account,
-                            token: syncResult.session.access_token,
-                            refreshToken: syncResult.session.refresh_token
-                        };
-                        AccountManager.addAccount(updatedAccount);
-
-                        // Update main process session store
-                        await window.ipcRenderer.invoke('auth:update-session', {
-                            token: syncResult.session.access_token,
-                            refreshToken: syncResult.session.refresh_token
-                        });
-
-                        // Use refreshed tokens for login success - AFTER session is ready
-                        onLoginSuccess({
-                            name: account.name,
-                            uuid: account.uuid,
-                            token: syncResult.session.access_token,
-                            type: account.type,
-                            preferredSkin: account.preferredSkin
-                        });
-                        setIsLoggingIn(false);
-                        return; // Exit early since we already called onLoginSuccess
-                    } else if (!syncResult.success) {
+                    if (!await AccountManager.restoreCloudSession()) {
                         console.warn("[Login] Session sync failed, account may have limited functionality");
                     }
                 } catch (e) {
@@ -283,14 +244,9 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess, onOfflineLogin })
                 }
             }
 
-            // Only reach here if: 
-            // - Not a whoap account
-            // - Offline mode
-            // - Session sync failed but we still want to proceed
             onLoginSuccess({
                 name: account.name,
                 uuid: account.uuid,
-                token: account.token,
                 type: account.type,
                 preferredSkin: account.preferredSkin
             });
@@ -307,9 +263,9 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess, onOfflineLogin })
         handleAccountSelect(selectedAccount);
     };
 
-    const removeAccount = (uuid: string) => {
-        AccountManager.removeAccount(uuid);
-        const remaining = AccountManager.getAccounts();
+    const removeAccount = async (uuid: string) => {
+        await AccountManager.removeAccount(uuid);
+        const remaining = await AccountManager.getAccounts();
         setAccounts(remaining);
         if (selectedAccount?.uuid === uuid) {
             setSelectedAccount(remaining.length > 0 ? remaining[0] : null);
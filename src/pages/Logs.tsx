@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PageHeader } from '../components/PageHeader';
+import { RefreshCw, Search, Share2, FileText, Archive, Regex, User } from 'lucide-react';
+import { Instance, InstanceApi } from '../api/instances';
+import { GameLogFile, LogsApi } from '../api/logs';
+import { CustomSelect } from '../components/CustomSelect';
+import { useToast } from '../context/ToastContext';
+import { useConfirm } from '../context/ConfirmContext';
+import styles from './Logs.module.css';
+
+type LogLevel = 'FATAL' | 'ERROR' | 'WARN' | 'INFO' | 'DEBUG';
+
+interface LogLine {
+    number: number;
+    text: string;
+    level: LogLevel;
+}
+
+const LEVELS: LogLevel[] = ['FATAL', 'ERROR', 'WARN', 'INFO', 'DEBUG'];
+const MAX_RENDERED_LINES = 5000;
+
+// "[12:00:00] [Render thread/WARN]: ..." or "[12:00:00] [main] WARN ..."; lines without a level
+// (stack traces, multi-line messages) belong to the line above
+const parseLines = (content: string): LogLine[] => {
+    let level: LogLevel = 'INFO';
+    return content.split(/\r?\n/).map((text, i) => {
+        const match = text.match(/^\[[^\]]*\]\s*\[[^\]]*?\/?(FATAL|ERROR|WARN|INFO|DEBUG|TRACE)\]|^\[[^\]]*\]\s*\[[^\]]*\]\s*(FATAL|ERROR|WARN|INFO|DEBUG|TRACE)\b/);
+        if (match) {
+            const found = match[1] || match[2];
+            level = found === 'TRACE' ? 'DEBUG' : found as LogLevel;
+        } else if (/^\s*(?:at |Caused by:|\.\.\. \d+ more)|^[\w.$]+(?:Exception|Error)\b/.test(text) && level !== 'FATAL') {
+            level = 'ERROR';
+        }
+        return { number: i + 1, text, level };
+    });
+};
+
+export const Logs: React.FC<{ hideHeader?: boolean }> = ({ hideHeader }) => {
+    const [instances, setInstances] = useState<Instance[]>([]);
+    const [instanceId, setInstanceId] = useState('');
+    const [files, setFiles] = useState<GameLogFile[]>([]);
+    const [selected, setSelected] = useState<GameLogFile | null>(null);
+    const [content, setContent] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [levels, setLevels] = useState<LogLevel[]>(LEVELS);
+    const [query, setQuery] = useState('');
+    const [useRegex, setUseRegex] = useState(false);
+    const [sharing, setSharing] = useState(false);
+    const [sharedUrl, setSharedUrl] = useState<string | null>(null);
+    const { showToast } = useToast();
+    const confirm = useConfirm();
+
+    useEffect(() => {
+        InstanceApi.list().then(list => {
+            setInstances(list);
+            if (list[0]) setInstanceId(list[0].id);
+        });
+    }, []);
+
+    const loadFiles = async () => {
+        if (!instanceId) return;
+        const res = await LogsApi.list(instanceId);
+        if (!res.success) {
+            showToast(res.error || 'Failed to list logs', 'error');
+            return;
+        }
+        setFiles(res.files!);
+        setSelected(res.files!.find(f => f.name === 'latest.log') || res.files![0] || null);
+    };
+
+    useEffect(() => {
+        setFiles([]);
+        setSelected(null);
+        loadFiles();
+    }, [instanceId]);
+
+    useEffect(() => {
+        setContent('');
+        setSharedUrl(null);
+        if (!selected) return;
+        setLoading(true);
+        LogsApi.read(instanceId, selected.path).then(res => {
+            if (res.success) setContent(res.content!);
+            else showToast(res.error || 'Failed to read log', 'error');
+        }).finally(() => setLoading(false));
+    }, [selected]);
+
+    const lines = useMemo(() => parseLines(content), [content]);
+
+    const search = useMemo(() => {
+        if (!query) return null;
+        try {
+            return new RegExp(useRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+        } catch {
+            return undefined; // Invalid regex
+        }
+    }, [query, useRegex]);
+
+    const visible = useMemo(() => lines.filter(line => {
+        if (!levels.includes(line.level)) return false;
+        if (!search) return true;
+        search.lastIndex = 0;
+        return search.test(line.text);
+    }), [lines, levels, search]);
+
+    const highlight = (text: string): React.ReactNode => {
+        if (!search) return text;
+        const parts: React.ReactNode[] = [];
+        let last = 0;
+        for (const match of text.matchAll(search)) {
+            if (!match[0]) break;
+            parts.push(text.slice(last, match.index), <mark key={match.index}>{match[0]}</mark>);
+            last = match.index! + match[0].length;
+        }
+        parts.push(text.slice(last));
+        return parts;
+    };
+
+    const toggleLevel = (level: LogLevel) => {
+        setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+    };
+
+    const handleShare = async () => {
+        if (!selected || !content) return;
+        const ok = await confirm(
+            'Share Log',
+            `Upload ${selected.name} to a public paste service? Access tokens, your player name and your computer's user name are removed first, but check the log for anything else private.`,
+            { confirmLabel: 'Upload' }
+        );
+        if (!ok) return;
+
+        setSharing(true);
+        try {
+            const res = await LogsApi.share(content);
+            if (res.success) {
+                setSharedUrl(res.url!);
+                await navigator.clipboard.writeText(res.url!);
+                showToast('Log uploaded, link copied to clipboard', 'success');
+            } else {
+                showToast(res.error || 'Failed to upload log', 'error');
+            }
+        } finally {
+            setSharing(false);
+        }
+    };
+
+    const formatSize = (bytes: number) => {
+        if (bytes < 1024) return `${bytes} B`;
+        if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    };
+
+    const shown = visible.slice(-MAX_RENDERED_LINES);
+
+    return (
+        <div className={styles.container}>
+            {!hideHeader && (
+                <PageHeader
+                    title="Logs"
+                    description="Browse game logs and past sessions, search them and share them for support."
+                />
+            )}
+
+            <div className={styles.header}>
+                <CustomSelect
+                    value={instanceId}
+                    onChange={setInstanceId}
+                    placeholder="Select a profile"
+                    options={instances.map(instance => ({ value: instance.id, label: instance.name, icon: <User size={14} /> }))}
+                    width="220px"
+                />
+                <button className={styles.iconBtn} onClick={loadFiles} title="Refresh">
+                    <RefreshCw size={16} />
+                </button>
+            </div>
+
+            <div className={styles.layout}>
+                <div className={styles.fileList}>
+                    {files.length === 0 && <div className={styles.empty}>No logs yet</div>}
+                    {files.map(file => (
+                        <button
+                            key={file.path}
+                            className={`${styles.fileItem} ${selected?.path === file.path ? styles.active : ''}`}
+                            onClick={() => setSelected(file)}
+                            title={file.path}
+                        >
+                            {file.source === 'session' ? <Archive size={14} /> : <FileText size={14} />}
+                            <div className={styles.fileInfo}>
+                                <span className={styles.fileName}>{file.name}</span>
+                                <span className={styles.fileMeta}>
+                                    {new Date(file.modifiedAt).toLocaleString()} · {formatSize(file.size)}
+                                </span>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                <div className={styles.viewer}>
+                    <div className={styles.toolbar}>
+                        <div className={`${styles.searchBox} ${search === undefined ? styles.invalid : ''}`}>
+                            <Search size={14} />
+                            <input
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                placeholder={useRegex ? 'Regular expression' : 'Search'}
+                            />
+                            <button
+                                className={`${styles.regexBtn} ${useRegex ? styles.active : ''}`}
+                                onClick={() => setUseRegex(!useRegex)}
+                                title="Use regular expression"
+                            >
+                                <Regex size={14} />
+                            </button>
+                        </div>
+                        <div className={styles.levels}>
+                            {LEVELS.map(level => (
+                                <button
+                                    key={level}
+                                    className={`${styles.levelBtn} ${styles[`level${level}`]} ${levels.includes(level) ? styles.active : ''}`}
+                                    onClick={() => toggleLevel(level)}
+                                >
+                                    {level}
+                                </button>
+                            ))}
+                        </div>
+                        <span className={styles.count}>
+                            {visible.length.toLocaleString()} / {lines.length.toLocaleString()} lines
+                        </span>
+                        <button className={styles.shareBtn} onClick={handleShare} disabled={!content || sharing}>
+                            <Share2 size={14} />
+                            {sharing ? 'Uploading...' : 'Share'}
+                        </button>
+                    </div>
+
+                    {sharedUrl && (
+                        <div className={styles.sharedUrl}>
+                            Shared at <a href={sharedUrl} target="_blank" rel="noreferrer">{sharedUrl}</a>
+                        </div>
+                    )}
+
+                    <div className={styles.output}>
+                        {loading ? (
+                            <div className={styles.empty}>Loading log...</div>
+                        ) : !selected ? (
+                            <div className={styles.empty}>Select a log file</div>
+                        ) : (
+                            <>
+                                {visible.length > MAX_RENDERED_LINES && (
+                                    <div className={styles.truncated}>
+                                        Showing the last {MAX_RENDERED_LINES.toLocaleString()} matching lines. Narrow the search to see earlier ones.
+                                    </div>
+                                )}
+                                {shown.map(line => (
+                                    <div key={line.number} className={`${styles.line} ${styles[`line${line.level}`]}`}>
+                                        <span className={styles.lineNumber}>{line.number}</span>
+                                        <span className={styles.lineText}>{highlight(line.text)}</span>
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -7,6 +7,7 @@ import { ProcessingModal } from '../components/ProcessingModal';
 import { useToast } from '../context/ToastContext';
 import { Skeleton } from '../components/Skeleton';
 import { OfflineButton } from '../components/OfflineButton';
+import { ManualDownload, ManualDownloadModal } from '../components/ManualDownloadModal';
 import ReactMarkdown from 'react-markdown';
 import rehypeRaw from 'rehype-raw';
 import remarkGfm from 'remark-gfm';
@@ -38,6 +39,8 @@ interface ModpackVersion {
     files: any[];
 }
 
+type PackSource = 'modrinth' | 'curseforge';
+
 export const ModpackBrowser: React.FC = () => {
     const [query, setQuery] = useState('');
     const [modpacks, setModpacks] = useState<Modpack[]>([]);
@@ -65,6 +68,10 @@ export const ModpackBrowser: React.FC = () => {
     // Web View State
     const [viewingUrl, setViewingUrl] = useState<string | null>(null);
 
+    const [source, setSource] = useState<PackSource>('modrinth');
+    const [curseForgeReady, setCurseForgeReady] = useState(false);
+    const [manualDownloads, setManualDownloads] = useState<ManualDownload[]>([]);
+
     const { showToast } = useToast();
 
     // Internet check
@@ -93,17 +100,36 @@ export const ModpackBrowser: React.FC = () => {
         return () => { window.ipcRenderer.off('modpack:install-progress', handler); };
     }, []);
 
+    useEffect(() => {
+        window.ipcRenderer.invoke('curseforge:status').then((status: { hasApiKey: boolean }) => {
+            setCurseForgeReady(status.hasApiKey);
+        });
+    }, []);
+
     // Debounced search
     useEffect(() => {
         const timer = setTimeout(() => {
-            if (query.trim()) {
+            if (source === 'curseforge' && !curseForgeReady) {
+                setModpacks([]);
+                setLoading(false);
+            } else if (query.trim()) {
                 searchModpacks(query);
             } else {
                 loadFeatured();
             }
         }, 400);
         return () => clearTimeout(timer);
-    }, [query]);
+    }, [query, source, curseForgeReady]);
+
+    const handleSourceChange = (next: PackSource) => {
+        if (next === source) return;
+        setSource(next);
+        setModpacks([]);
+        setSelectedPack(null);
+        setPackDetails(null);
+        setVersions([]);
+        setSelectedVersion(null);
+    };
 
     // Close dropdown on outside click
     useEffect(() => {
@@ -117,7 +143,7 @@ export const ModpackBrowser: React.FC = () => {
     const loadFeatured = async () => {
         setLoading(true);
         try {
-            const res = await window.ipcRenderer.invoke('modpack:get-featured');
+            const res = await window.ipcRenderer.invoke('modpack:get-featured', source);
             if (res.success) {
                 setModpacks(res.hits);
                 if (res.hits.length > 0 && !selectedPack) {
@@ -134,7 +160,7 @@ export const ModpackBrowser: React.FC = () => {
     const searchModpacks = async (q: string) => {
         setLoading(true);
         try {
-            const res = await window.ipcRenderer.invoke('modpack:search', q, { limit: 20 });
+            const res = await window.ipcRenderer.invoke('modpack:search', q, { limit: 20, platform: source });
             if (res.success) {
                 setModpacks(res.hits);
             }
@@ -156,8 +182,8 @@ export const ModpackBrowser: React.FC = () => {
 
         try {
             const [projectRes, versionsRes] = await Promise.all([
-                window.ipcRenderer.invoke('modpack:get-project', pack.project_id),
-                window.ipcRenderer.invoke('modpack:get-versions', pack.project_id)
+                window.ipcRenderer.invoke('modpack:get-project', pack.project_id, source),
+                window.ipcRenderer.invoke('modpack:get-versions', pack.project_id, { platform: source })
             ]);
 
             if (projectRes.success) setPackDetails(projectRes.project);
@@ -185,11 +211,13 @@ export const ModpackBrowser: React.FC = () => {
                 versionId: selectedVersion.id,
                 projectId: selectedPack.project_id,
                 projectName: selectedPack.title,
-                iconUrl: selectedPack.icon_url
+                iconUrl: selectedPack.icon_url,
+                platform: source
             });
 
             if (res.success) {
                 showToast(`${selectedPack.title} installed successfully!`, 'success');
+                if (res.manual?.length) setManualDownloads(res.manual);
             } else {
                 showToast(res.error || 'Installation failed', 'error');
             }
@@ -208,6 +236,7 @@ export const ModpackBrowser: React.FC = () => {
             const res = await InstanceApi.import();
             if (res.success) {
                 showToast('Modpack imported successfully!', 'success');
+                if (res.manual?.length) setManualDownloads(res.manual);
             } else if (res.error) {
                 showToast(res.error, 'error');
             }
@@ -234,7 +263,7 @@ export const ModpackBrowser: React.FC = () => {
             <div className={styles.header}>
                 <PageHeader
                     title="Modpacks"
-                    description="Browse and install modpacks from Modrinth."
+                    description="Browse and install modpacks from Modrinth and CurseForge."
                 />
                 <button className={styles.importBtn} onClick={handleImportFile}>
                     <Upload size={18} />
@@ -266,6 +295,18 @@ export const ModpackBrowser: React.FC = () => {
                         />
                     </div>
 
+                    <div className={styles.sourceTabs}>
+                        {(['modrinth', 'curseforge'] as const).map(s => (
+                            <button
+                                key={s}
+                                className={`${styles.sourceTab} ${source === s ? styles.activeSource : ''}`}
+                                onClick={() => handleSourceChange(s)}
+                            >
+                                {s === 'modrinth' ? 'Modrinth' : 'CurseForge'}
+                            </button>
+                        ))}
+                    </div>
+
                     <div className={styles.packList}>
                         {loading && modpacks.length === 0 ? (
                             Array.from({ length: 8 }).map((_, i) => (
@@ -277,6 +318,11 @@ export const ModpackBrowser: React.FC = () => {
                                     </div>
                                 </div>
                             ))
+                        ) : source === 'curseforge' && !curseForgeReady ? (
+                            <div className={styles.emptyState}>
+                                <Package size={40} strokeWidth={1} />
+                                <p>Add a CurseForge API key in Settings to browse CurseForge modpacks</p>
+                            </div>
                         ) : modpacks.length === 0 ? (
                             <div className={styles.emptyState}>
                                 <Package size={40} strokeWidth={1} />
@@ -505,6 +551,10 @@ export const ModpackBrowser: React.FC = () => {
                 />
             )}
 
+            {manualDownloads.length > 0 && (
+                <ManualDownloadModal downloads={manualDownloads} onClose={() => setManualDownloads([])} />
+            )}
+
             {/* Web View Overlay */}
             {viewingUrl && (
                 <div className={styles.webOverlay}>
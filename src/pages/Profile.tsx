@@ -1,11 +1,14 @@
 import React from 'react';
 import styles from './Profile.module.css';
 import { SkinViewer3D } from '../components/SkinViewer3D';
+import { SkinEditorModal } from '../components/SkinEditorModal';
+import { SkinHistoryModal } from '../components/SkinHistoryModal';
 import { UserAvatar } from '../components/UserAvatar';
 import { ProfileService, Badge } from '../services/ProfileService';
 import { useToast } from '../context/ToastContext';
 import { SkinUtils } from '../utils/SkinUtils';
-import { Edit3, Upload, Trash2, Shield, Type, Clock, Gamepad2, Trophy, Calendar, Globe, Award, Star, Heart, Code, Bug, Gift, Crown, LucideIcon } from 'lucide-react';
+import { SkinImage } from '../utils/SkinImage';
+import { Edit3, Upload, Paintbrush, History, Trash2, Shield, Type, Clock, Gamepad2, Trophy, Calendar, Globe, Award, Star, Heart, Code, Bug, Gift, Crown, LucideIcon } from 'lucide-react';
 
 // Icon mapping for badges
 const iconMap: Record<string, LucideIcon> = {
@@ -35,7 +38,6 @@ interface ProfileProps {
     user: {
         name: string;
         uuid: string;
-        token: string;
         type?: string;
         role?: string;
         preferredSkin?: string;
@@ -84,6 +86,8 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
     const [editingPreset, setEditingPreset] = React.useState<number | null>(null);
     const [editValue, setEditValue] = React.useState('');
     const [lastUpdated, setLastUpdated] = React.useState<number>(Date.now());
+    const [skinEditor, setSkinEditor] = React.useState<{ source: string; name: string; preset: number } | null>(null);
+    const [showSkinHistory, setShowSkinHistory] = React.useState(false);
 
     const [badges, setBadges] = React.useState<Badge[]>([]);
     const [copied, setCopied] = React.useState(false);
@@ -308,7 +312,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
                     await ProfileService.updateProfile(user.uuid, { preferred_skin: undefined });
                 }
                 const { AccountManager } = await import('../utils/AccountManager');
-                AccountManager.updateAccount(user.uuid, { preferredSkin: undefined });
+                await AccountManager.updateAccount(user.uuid, { preferredSkin: undefined });
                 if (setUser) setUser((prev: any) => ({ ...prev, preferredSkin: undefined }));
                 showToast('Reset to default skin', 'success');
             } catch (e) { console.error(e); }
@@ -322,7 +326,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
             const finalSkinUrl = skinName;
 
             const { AccountManager } = await import('../utils/AccountManager');
-            AccountManager.updateAccount(user.uuid, { preferredSkin: finalSkinUrl });
+            await AccountManager.updateAccount(user.uuid, { preferredSkin: finalSkinUrl });
             if (setUser) setUser((prev: any) => ({ ...prev, preferredSkin: finalSkinUrl }));
 
             showToast('Skin switched', 'success');
@@ -351,31 +355,83 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
         }
     };
 
+    // Saves a skin image into the skins folder and puts it in a preset slot, optionally uploading it too
+    const saveSkinToPreset = async (dataUrl: string, name: string, index: number, upload: boolean) => {
+        const result = await window.ipcRenderer.invoke('skin:save', dataUrl, name);
+        if (!result.success) throw new Error(result.error);
+
+        const presetValue = `file:${result.fileName}`;
+        const newPresets = [...presets];
+        newPresets[index] = presetValue;
+        setPresets(newPresets);
+        setLastUpdated(Date.now()); // Break cache
+
+        setActivePreset(index);
+        saveActivePreset(index);
+
+        const { AccountManager } = await import('../utils/AccountManager');
+        await AccountManager.updateAccount(user.uuid, { preferredSkin: presetValue });
+        if (setUser) setUser((prev: any) => ({ ...prev, preferredSkin: presetValue }));
+
+        if (upload) {
+            const { CloudManager } = await import('../utils/CloudManager');
+            const url = await CloudManager.uploadSkinToCloud(user.uuid, dataUrl);
+            showToast(url ? 'Skin saved and uploaded' : 'Skin saved, but the upload failed', url ? 'success' : 'error');
+        } else {
+            showToast(`Skin saved: ${result.fileName.replace('.png', '')}`, 'success');
+        }
+    };
+
     const handleImportSkin = async () => {
         if (editingPreset === null) return;
         try {
-            const result = await window.ipcRenderer.invoke('skin:import');
-            if (result.success && result.fileName) {
-                const presetValue = `file:${result.fileName}`;
-                const newPresets = [...presets];
-                newPresets[editingPreset] = presetValue;
-                setPresets(newPresets);
-                setEditingPreset(null);
-                setLastUpdated(Date.now()); // Break cache
+            const picked = await window.ipcRenderer.invoke('skin:pick');
+            if (!picked.success) {
+                if (!picked.canceled) showToast('Failed to import skin file', 'error');
+                return;
+            }
 
-                setActivePreset(editingPreset);
-                saveActivePreset(editingPreset);
+            const issues = SkinImage.validate(await SkinImage.load(picked.dataUrl));
+            const unfixable = issues.find(issue => !issue.fixable);
+            if (unfixable) {
+                showToast(unfixable.message, 'error');
+                return;
+            }
 
-                showToast(`Skin imported: ${result.fileName.replace('.png', '')}`, 'success');
-                const { AccountManager } = await import('../utils/AccountManager');
-                AccountManager.updateAccount(user.uuid, { preferredSkin: presetValue });
-                if (setUser) setUser((prev: any) => ({ ...prev, preferredSkin: presetValue }));
+            setEditingPreset(null);
+            if (issues.length > 0) {
+                // Show what will be fixed before the skin is used
+                setSkinEditor({ source: picked.dataUrl, name: picked.name, preset: editingPreset });
+                return;
             }
+            await saveSkinToPreset(picked.dataUrl, picked.name, editingPreset, false);
         } catch (e) {
             showToast('Failed to import skin file', 'error');
         }
     };
 
+    // Opens the current skin in the editor; the result goes to the active slot or the first free one
+    const handleEditSkin = async () => {
+        const index = activePreset >= 0 ? activePreset : presets.findIndex(p => !p);
+        if (index < 0) {
+            showToast('Clear a skin slot to save an edited skin', 'error');
+            return;
+        }
+
+        try {
+            let source = SkinUtils.getSkinUrl(activeSkinName, 'body');
+            if (SkinUtils.isCustom(activeSkinName)) {
+                const result = await window.ipcRenderer.invoke('skin:read-as-data-url', `file:${SkinUtils.getFileName(activeSkinName)}`);
+                if (!result.success) throw new Error(result.error);
+                source = result.dataUrl;
+            }
+            setSkinEditor({ source, name: getViewerSkinDisplayName(), preset: index });
+        } catch (e) {
+            console.error('[Profile] Failed to open skin editor', e);
+            showToast('Could not open this skin for editing', 'error');
+        }
+    };
+
     const handleClearPreset = async (index: number) => {
         const newPresets = [...presets];
         newPresets[index] = '';
@@ -393,7 +449,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
             saveActivePreset(-1);
             try {
                 const { AccountManager } = await import('../utils/AccountManager');
-                AccountManager.updateAccount(user.uuid, { preferredSkin: undefined });
+                await AccountManager.updateAccount(user.uuid, { preferredSkin: undefined });
                 if (setUser) setUser((prev: any) => ({ ...prev, preferredSkin: undefined }));
                 showToast('Reset to default skin', 'success');
             } catch (e) { console.error(e); }
@@ -416,7 +472,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
 
             try {
                 const { AccountManager } = await import('../utils/AccountManager');
-                AccountManager.updateAccount(user.uuid, { preferredCape: undefined });
+                await AccountManager.updateAccount(user.uuid, { preferredCape: undefined });
                 if (setUser) setUser((prev: any) => ({ ...prev, preferredCape: undefined }));
                 showToast('Cape removed', 'success');
             } catch (e) { console.error(e); }
@@ -430,7 +486,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
             const finalCapeUrl = capeName;
             
             const { AccountManager } = await import('../utils/AccountManager');
-            AccountManager.updateAccount(user.uuid, { preferredCape: finalCapeUrl });
+            await AccountManager.updateAccount(user.uuid, { preferredCape: finalCapeUrl });
             if (setUser) setUser((prev: any) => ({ ...prev, preferredCape: finalCapeUrl }));
             showToast('Cape switched', 'success');
         } catch (e) {
@@ -453,7 +509,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
                 localStorage.setItem(ACTIVE_CAPE_PRESET_KEY, String(editingCape));
 
                 const { AccountManager } = await import('../utils/AccountManager');
-                AccountManager.updateAccount(user.uuid, { preferredCape: presetValue });
+                await AccountManager.updateAccount(user.uuid, { preferredCape: presetValue });
                 if (setUser) setUser((prev: any) => ({ ...prev, preferredCape: presetValue }));
                 showToast('Cape imported', 'success');
             }
@@ -478,7 +534,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
             localStorage.setItem(ACTIVE_CAPE_PRESET_KEY, '-1');
             try {
                 const { AccountManager } = await import('../utils/AccountManager');
-                AccountManager.updateAccount(user.uuid, { preferredCape: undefined });
+                await AccountManager.updateAccount(user.uuid, { preferredCape: undefined });
                 if (setUser) setUser((prev: any) => ({ ...prev, preferredCape: undefined }));
             } catch (e) { console.error(e); }
         }
@@ -839,6 +895,18 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
                     />
                     <span className={styles.viewerSkinName}>{getViewerSkinDisplayName()}</span>
                     <span className={styles.viewerLabel}>Drag to rotate · Scroll to zoom</span>
+                    <div className={styles.viewerActions}>
+                        <button className={styles.editSkinBtn} onClick={handleEditSkin}>
+                            <Paintbrush size={14} />
+                            Edit Skin
+                        </button>
+                        {user.type === 'whoap' && navigator.onLine && (
+                            <button className={styles.editSkinBtn} onClick={() => setShowSkinHistory(true)}>
+                                <History size={14} />
+                                History
+                            </button>
+                        )}
+                    </div>
                 </div>
             </div>
 
@@ -952,6 +1020,29 @@ export const Profile: React.FC<ProfileProps> = ({ user, setUser }) => {
                     </div>
                 </div>
             )}
+
+            {skinEditor && (
+                <SkinEditorModal
+                    source={skinEditor.source}
+                    title={`Edit Skin · Slot ${skinEditor.preset + 1}`}
+                    capeUrl={activeCapeName}
+                    canUpload={user.type === 'whoap' && navigator.onLine}
+                    onClose={() => setSkinEditor(null)}
+                    onSave={async (dataUrl, upload) => {
+                        try {
+                            await saveSkinToPreset(dataUrl, skinEditor.name, skinEditor.preset, upload);
+                            setSkinEditor(null);
+                        } catch (e) {
+                            console.error('[Profile] Failed to save skin', e);
+                            showToast('Failed to save skin', 'error');
+                        }
+                    }}
+                />
+            )}
+
+            {showSkinHistory && (
+                <SkinHistoryModal userId={user.uuid} onClose={() => setShowSkinHistory(false)} />
+            )}
         </div>
     );
 };
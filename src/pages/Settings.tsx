@@ -20,12 +20,18 @@ import {
     Globe,
     Sparkles,
     HardDrive,
-    Gamepad2
+    Gamepad2,
+    KeyRound,
+    Download,
+    Share2,
+    ShieldCheck
 } from 'lucide-react';
 import { VersionScannerModal } from '../components/VersionScannerModal';
 import { useToast } from '../context/ToastContext';
 import { useAnimation } from '../context/AnimationContext';
 import { ProcessingModal } from '../components/ProcessingModal';
+import { DownloadManagerModal } from '../components/DownloadManagerModal';
+import { JavaRuntimesModal } from '../components/JavaRuntimesModal';
 
 interface ProxyConfig {
     enabled: boolean;
@@ -36,6 +42,11 @@ interface ProxyConfig {
     password?: string;
 }
 
+interface AuthlibInjectorConfig {
+    enabled: boolean;
+    apiRoot: string;
+}
+
 interface JavaPaths {
     [version: string]: string;
 }
@@ -56,6 +67,11 @@ interface Config {
     jvmArgs: string[];
     proxy: ProxyConfig;
     onboardingCompleted: boolean;
+    curseforgeApiKey: string;
+    downloadConcurrency: number;
+    downloadSpeedLimit: number;
+    pasteEndpoint: string;
+    authlibInjector: AuthlibInjectorConfig;
 }
 
 interface StorageInfo {
@@ -66,6 +82,8 @@ interface StorageInfo {
         gameData: number;
         skins: number;
         capes: number;
+        store: number;
+        saved: number;
     };
 }
 
@@ -85,6 +103,8 @@ export const Settings = () => {
     const [saving, setSaving] = useState(false);
     const [showResetModal, setShowResetModal] = useState(false);
     const [showVersionScanner, setShowVersionScanner] = useState(false);
+    const [showDownloads, setShowDownloads] = useState(false);
+    const [showJavaRuntimes, setShowJavaRuntimes] = useState(false);
     const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
     const { showToast } = useToast();
     const { animationsEnabled, setAnimationsEnabled } = useAnimation();
@@ -226,6 +246,17 @@ export const Settings = () => {
         }
     };
 
+    const handleCleanStore = async () => {
+        const result = await window.ipcRenderer.invoke('config:clean-store');
+        if (!result.success) {
+            showToast(result.error || 'Cleanup failed', 'error');
+            return;
+        }
+        showToast(result.removed > 0 ? `Removed ${result.removed} unused files (${formatBytes(result.freed)})` : 'No unused content found', 'success');
+        const storageResult = await window.ipcRenderer.invoke('config:get-storage-info');
+        if (storageResult.success) setStorageInfo(storageResult);
+    };
+
     const handleSelectJava = async (version: string) => {
         const result = await window.ipcRenderer.invoke('config:select-java', version);
         if (result.success && config) {
@@ -360,7 +391,18 @@ export const Settings = () => {
                                     <span className={styles.storageLabel}>Skins & Capes</span>
                                     <span className={styles.storageValue}>{formatBytes(storageInfo.sizes.skins + storageInfo.sizes.capes)}</span>
                                 </div>
+                                <div className={styles.storageItem}>
+                                    <span className={styles.storageLabel}>Shared Content</span>
+                                    <span className={styles.storageValue}>{formatBytes(storageInfo.sizes.store)}</span>
+                                </div>
+                                <div className={styles.storageItem}>
+                                    <span className={styles.storageLabel}>Saved by Sharing</span>
+                                    <span className={styles.storageValue}>{formatBytes(storageInfo.sizes.saved)}</span>
+                                </div>
                             </div>
+                            <button className={styles.secondaryBtn} style={{ marginTop: 16 }} onClick={handleCleanStore}>
+                                <Trash2 size={16} /> Remove Unused Content
+                            </button>
                         </div>
                     )}
                     <div className={styles.settingRow}>
@@ -481,7 +523,12 @@ export const Settings = () => {
                 <section className={styles.section}>
                     <div className={styles.sectionHeader}>
                         <h3><Coffee size={18} /> Java Runtime</h3>
-                        <button className={styles.resetAllBtn} onClick={handleResetAllJava}><RotateCcw size={14} /> Reset All</button>
+                        <div className={styles.headerActions}>
+                            <button className={styles.secondaryBtn} onClick={() => setShowJavaRuntimes(true)}>
+                                Manage Runtimes
+                            </button>
+                            <button className={styles.resetAllBtn} onClick={handleResetAllJava}><RotateCcw size={14} /> Reset All</button>
+                        </div>
                     </div>
                     {JAVA_VERSIONS.map(version => (
                         <div key={version} className={styles.settingRow}>
@@ -589,6 +636,43 @@ export const Settings = () => {
                     </div>
                 </section>
 
+                {/* Downloads Section */}
+                <section className={styles.section}>
+                    <div className={styles.sectionHeader}>
+                        <h3><Download size={18} /> Downloads</h3>
+                        <button className={styles.secondaryBtn} onClick={() => setShowDownloads(true)}>
+                            View Downloads
+                        </button>
+                    </div>
+                    <div className={styles.proxyGrid}>
+                        <div className={styles.inputGroup}>
+                            <label>Parallel downloads</label>
+                            <input
+                                type="number"
+                                className={styles.input}
+                                min={1}
+                                max={16}
+                                value={config.downloadConcurrency}
+                                onChange={(e) => updateConfig('downloadConcurrency', Math.max(1, Math.min(16, parseInt(e.target.value) || 1)))}
+                            />
+                        </div>
+                        <div className={styles.inputGroup}>
+                            <label>Speed limit (KB/s)</label>
+                            <input
+                                type="number"
+                                className={styles.input}
+                                min={0}
+                                placeholder="0"
+                                value={config.downloadSpeedLimit || ''}
+                                onChange={(e) => updateConfig('downloadSpeedLimit', Math.max(0, parseInt(e.target.value) || 0))}
+                            />
+                        </div>
+                    </div>
+                    <div className={styles.hintText}>
+                        The speed limit is shared by all game, library and Java downloads. Leave it empty for no limit. Interrupted downloads resume where they stopped.
+                    </div>
+                </section>
+
                 {/* Network & Proxy Section */}
                 <section className={styles.section}>
                     <div className={styles.sectionHeader}>
@@ -662,6 +746,73 @@ export const Settings = () => {
                     </div>
                 </section>
 
+                {/* Authlib-injector Section */}
+                <section className={styles.section}>
+                    <div className={styles.sectionHeader}>
+                        <h3><ShieldCheck size={18} /> Server Authentication</h3>
+                        <label className={styles.toggle}>
+                            <input
+                                type="checkbox"
+                                checked={config.authlibInjector?.enabled || false}
+                                onChange={(e) => updateConfig('authlibInjector', { ...config.authlibInjector, enabled: e.target.checked })}
+                            />
+                            <span className={styles.toggleSlider}></span>
+                        </label>
+                    </div>
+
+                    <div className={config.authlibInjector?.enabled ? styles.proxyControls : styles.proxyControlsDisabled}>
+                        <div className={styles.inputGroup}>
+                            <label>Yggdrasil API Root</label>
+                            <input
+                                type="text"
+                                className={styles.input}
+                                placeholder="https://example.com/api/yggdrasil"
+                                value={config.authlibInjector?.apiRoot || ''}
+                                onChange={(e) => updateConfig('authlibInjector', { ...config.authlibInjector, apiRoot: e.target.value.trim() })}
+                            />
+                        </div>
+                        <div className={styles.hintText}>
+                            Whoap accounts launch with authlib-injector pointed at this server, so servers using it can verify players and show their skins and capes.
+                        </div>
+                    </div>
+                </section>
+
+                {/* CurseForge Section */}
+                <section className={styles.section}>
+                    <h3><KeyRound size={18} /> CurseForge</h3>
+                    <div className={styles.inputGroup}>
+                        <label>API Key</label>
+                        <input
+                            type="password"
+                            className={styles.input}
+                            placeholder="Paste your CurseForge API key"
+                            value={config.curseforgeApiKey || ''}
+                            onChange={(e) => updateConfig('curseforgeApiKey', e.target.value.trim())}
+                        />
+                    </div>
+                    <div className={styles.hintText}>
+                        Needed to browse and install mods, resource packs, shaders and modpacks from CurseForge. Keys are issued at console.curseforge.com.
+                    </div>
+                </section>
+
+                {/* Log Sharing Section */}
+                <section className={styles.section}>
+                    <h3><Share2 size={18} /> Log Sharing</h3>
+                    <div className={styles.inputGroup}>
+                        <label>Paste Service</label>
+                        <input
+                            type="text"
+                            className={styles.input}
+                            placeholder="https://api.mclo.gs"
+                            value={config.pasteEndpoint || ''}
+                            onChange={(e) => updateConfig('pasteEndpoint', e.target.value.trim())}
+                        />
+                    </div>
+                    <div className={styles.hintText}>
+                        API address of an mclo.gs-compatible service used by Share on the Logs page. Tokens and user names are removed before upload.
+                    </div>
+                </section>
+
                 {/* Danger Zone */}
                 <section className={`${styles.section} ${styles.dangerSection}`}>
                     <h3><Trash2 size={18} /> Danger Zone</h3>
@@ -711,6 +862,9 @@ export const Settings = () => {
                 <VersionScannerModal onClose={() => setShowVersionScanner(false)} onImport={handleVersionImport} />
             )}
 
+            {showDownloads && <DownloadManagerModal onClose={() => setShowDownloads(false)} />}
+            {showJavaRuntimes && <JavaRuntimesModal onClose={() => setShowJavaRuntimes(false)} />}
+
             {processing && (
                 <ProcessingModal message={processing.message} subMessage={processing.subMessage} progress={processing.progress} />
             )}
@@ -124,6 +124,7 @@ export const WhoapProfileView: React.FC<WhoapProfileViewProps> = ({
             if (!skinUrl) return;
             const ok = await CloudManager.updateSkinAndCape(currentUser.uuid, skinUrl, capeUrl);
             if (ok) {
+                await CloudManager.addSkinToHistory(currentUser.uuid, skinUrl, `From ${profile.username}`);
                 showToast('Skin applied to your account!', 'success');
             } else {
                 showToast('Failed to apply skin', 'error');
@@ -172,7 +173,8 @@ export const WhoapProfileView: React.FC<WhoapProfileViewProps> = ({
 
     const activeSkinUrl = selectedHistorySkin || profile.skin_url || profile.username;
     const isOwnProfile = currentUser?.uuid === profile.id;
-    const canApplySkin = currentUser && !isOwnProfile && currentUser.type === 'whoap' && navigator.onLine && profile.skin_url;
+    // Only players with a public profile allow others to use their skin
+    const canApplySkin = currentUser && !isOwnProfile && currentUser.type === 'whoap' && navigator.onLine && profile.skin_url && profile.is_public;
 
     return (
         <div className={styles.container}>
@@ -13,14 +13,23 @@ import {
     User,
     SortDesc,
     Box,
-    Map,
+    Map as MapIcon,
     Search,
-    X
+    X,
+    Play,
+    Gamepad2,
+    Tag,
+    Clock,
+    CopyPlus,
+    ArrowRightLeft
 } from 'lucide-react';
 import { Instance, InstanceApi } from '../api/instances';
+import { LaunchApi } from '../api/launch';
 import { useToast } from '../context/ToastContext';
-import { useConfirm } from '../context/ConfirmContext';
+import { useConfirm, usePrompt } from '../context/ConfirmContext';
 import { CustomSelect } from '../components/CustomSelect';
+import { WorldBackupPolicyModal } from '../components/WorldBackupPolicyModal';
+import { WorldTransferModal } from '../components/WorldTransferModal';
 import styles from './WorldManagement.module.css';
 
 interface World {
@@ -31,20 +40,42 @@ interface World {
     size: number;
     lastPlayed: number;
     gameMode: string;
+    hardcore?: boolean;
+    difficulty?: string;
+    seed?: string;
+    mcVersion?: string;
+    dataVersion?: number;
+    cheats?: boolean;
+    spawn?: { x: number; y: number; z: number };
     icon?: string;
 }
 
 interface Backup {
     id: string;
+    format: 'snapshot' | 'zip';
     worldName: string;
+    levelName?: string;
+    mcVersion?: string;
     instanceId: string;
     instanceName: string;
     createdAt: number;
+    trigger: 'manual' | 'exit' | 'interval' | 'daily';
     size: number;
-    path: string;
+    addedSize: number;
 }
 
-export const WorldManagement: React.FC = () => {
+const TRIGGER_LABELS: Record<Backup['trigger'], string> = {
+    manual: 'Manual',
+    exit: 'On exit',
+    interval: 'While playing',
+    daily: 'Daily'
+};
+
+interface WorldManagementProps {
+    user?: any;
+}
+
+export const WorldManagement: React.FC<WorldManagementProps> = ({ user }) => {
     const [worlds, setWorlds] = useState<World[]>([]);
     const [backups, setBackups] = useState<Backup[]>([]);
     const [instances, setInstances] = useState<Instance[]>([]);
@@ -53,11 +84,26 @@ export const WorldManagement: React.FC = () => {
     const [activeTab, setActiveTab] = useState<'worlds' | 'backups'>('worlds');
     const [selectedInstance, setSelectedInstance] = useState<string>('all');
     const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'name'>('newest');
+    const [modeFilter, setModeFilter] = useState<string>('all');
+    const [versionFilter, setVersionFilter] = useState<string>('all');
     const [searchQuery, setSearchQuery] = useState('');
     const [processing, setProcessing] = useState<{ message: string; progress?: number } | null>(null);
+    const [backupStats, setBackupStats] = useState<{ totalSize: number; storedSize: number }>({ totalSize: 0, storedSize: 0 });
+    const [policyWorld, setPolicyWorld] = useState<World | null>(null);
+    const [transferWorld, setTransferWorld] = useState<World | null>(null);
     
     const { showToast } = useToast();
     const confirm = useConfirm();
+    const prompt = usePrompt();
+
+    const loadBackups = async () => {
+        const [backupsData, stats] = await Promise.all([
+            window.ipcRenderer.invoke('worlds:list-backups'),
+            window.ipcRenderer.invoke('worlds:backup-stats')
+        ]);
+        setBackups(backupsData || []);
+        if (stats) setBackupStats(stats);
+    };
 
     const loadData = async () => {
         setLoading(true);
@@ -82,8 +128,7 @@ export const WorldManagement: React.FC = () => {
             }
             setWorlds(worldsData);
 
-            const backupsData = await window.ipcRenderer.invoke('worlds:list-backups');
-            setBackups(backupsData || []);
+            await loadBackups();
         } catch (error) {
             console.error('Failed to load world data:', error);
             showToast('Failed to load world data', 'error');
@@ -94,28 +139,53 @@ export const WorldManagement: React.FC = () => {
 
     useEffect(() => {
         loadData();
+
+        // Scheduled backups finish in the background
+        const handleBackupsChanged = () => {
+            loadBackups().catch(e => console.error('Failed to refresh backups:', e));
+        };
+        window.ipcRenderer.on('worlds:backups-changed', handleBackupsChanged);
+        return () => {
+            window.ipcRenderer.off('worlds:backups-changed', handleBackupsChanged);
+        };
     }, []);
 
     const filteredWorlds = React.useMemo(() => {
         let filtered = activeTab === 'worlds' ? worlds : backups.map(b => ({
             id: b.id,
-            name: b.worldName,
+            name: b.levelName || b.worldName,
             instanceId: b.instanceId,
             instanceName: b.instanceName,
             size: b.size,
             lastPlayed: b.createdAt,
-            gameMode: 'Backup'
+            gameMode: 'Backup',
+            mcVersion: b.mcVersion
         } as World));
 
         if (selectedInstance !== 'all') {
             filtered = filtered.filter(w => w.instanceId === selectedInstance);
         }
 
+        if (activeTab === 'worlds') {
+            if (modeFilter === 'Hardcore') {
+                filtered = filtered.filter(w => w.hardcore);
+            } else if (modeFilter !== 'all') {
+                filtered = filtered.filter(w => w.gameMode === modeFilter && !w.hardcore);
+            }
+
+            if (versionFilter !== 'all') {
+                filtered = filtered.filter(w => (w.mcVersion || 'Unknown') === versionFilter);
+            }
+        }
+
         if (searchQuery.trim()) {
             const query = searchQuery.toLowerCase();
             filtered = filtered.filter(w => 
                 w.name.toLowerCase().includes(query) || 
-                w.instanceName.toLowerCase().includes(query)
+                w.instanceName.toLowerCase().includes(query) ||
+                w.id.toLowerCase().includes(query) ||
+                (w.seed && w.seed.includes(query)) ||
+                (w.mcVersion && w.mcVersion.toLowerCase().includes(query))
             );
         }
 
@@ -132,7 +202,37 @@ export const WorldManagement: React.FC = () => {
         }
 
         return filtered;
-    }, [worlds, backups, activeTab, selectedInstance, sortBy, searchQuery]);
+    }, [worlds, backups, activeTab, selectedInstance, modeFilter, versionFilter, sortBy, searchQuery]);
+
+    const worldVersions = React.useMemo(() => {
+        const versions = new Set(worlds.map(w => w.mcVersion || 'Unknown'));
+        return Array.from(versions).sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+    }, [worlds]);
+
+    const getModeLabel = (world: World) => world.hardcore ? 'Hardcore' : world.gameMode;
+
+    const getWorldTooltip = (world: World) => {
+        const lines = [
+            `Folder: ${world.id}`,
+            world.difficulty && `Difficulty: ${world.difficulty}`,
+            world.seed && `Seed: ${world.seed}`,
+            world.mcVersion && `Version: ${world.mcVersion}${world.dataVersion ? ` (data ${world.dataVersion})` : ''}`,
+            world.spawn && `Spawn: ${world.spawn.x}, ${world.spawn.y}, ${world.spawn.z}`,
+            `Cheats: ${world.cheats ? 'On' : 'Off'}`
+        ];
+        return lines.filter(Boolean).join('\n');
+    };
+
+    const handleCopySeed = async (world: World, e?: React.MouseEvent) => {
+        e?.stopPropagation();
+        if (!world.seed) return;
+        try {
+            await navigator.clipboard.writeText(world.seed);
+            showToast('Seed copied to clipboard', 'success');
+        } catch (e) {
+            showToast('Failed to copy seed', 'error');
+        }
+    };
 
     const formatSize = (bytes: number) => {
         if (bytes < 1024) return `${bytes} B`;
@@ -145,6 +245,30 @@ export const WorldManagement: React.FC = () => {
         return date.toLocaleDateString();
     };
 
+    const formatDateTime = (timestamp: number) => {
+        const date = new Date(timestamp);
+        return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    };
+
+    // Backups grouped per world, in the order the current sort produced
+    const backupTimeline = React.useMemo(() => {
+        if (activeTab !== 'backups') return [];
+        const byId = new Map(backups.map(b => [b.id, b]));
+        const groups = new Map<string, { key: string; name: string; instanceName: string; entries: Backup[] }>();
+
+        for (const item of filteredWorlds) {
+            const backup = byId.get(item.id);
+            if (!backup) continue;
+            const key = `${backup.instanceId}/${backup.worldName}`;
+            if (!groups.has(key)) {
+                groups.set(key, { key, name: item.name, instanceName: backup.instanceName, entries: [] });
+            }
+            groups.get(key)!.entries.push(backup);
+        }
+
+        return Array.from(groups.values());
+    }, [activeTab, backups, filteredWorlds]);
+
     const handleBackup = async (world: World, e?: React.MouseEvent) => {
         e?.stopPropagation();
         setProcessing({ message: `Backing up ${world.name}...` });
@@ -189,6 +313,30 @@ export const WorldManagement: React.FC = () => {
         }
     };
 
+    const handlePlay = async (world: World, e?: React.MouseEvent) => {
+        e?.stopPropagation();
+        const instance = instances.find(i => i.id === world.instanceId);
+        if (!instance || !user) {
+            showToast('Cannot launch this world', 'error');
+            return;
+        }
+
+        setProcessing({ message: `Launching ${world.name}...` });
+        try {
+            const result = await LaunchApi.launch(instance, user, { type: 'singleplayer', worldId: world.id });
+            if (result.success) {
+                await InstanceApi.updateLastPlayed(instance.id);
+                showToast(`Launching "${world.name}"`, 'success');
+            } else {
+                showToast(`Launch failed: ${result.error}`, 'error');
+            }
+        } catch (e) {
+            showToast('Failed to launch world', 'error');
+        } finally {
+            setProcessing(null);
+        }
+    };
+
     const handleOpenFolder = async (world: World, e?: React.MouseEvent) => {
         e?.stopPropagation();
         const result = await window.ipcRenderer.invoke('worlds:open-folder', world.instanceId, world.id);
@@ -199,11 +347,39 @@ export const WorldManagement: React.FC = () => {
 
 
 
+    const handleRestoreAsNew = async (backup: Backup, e?: React.MouseEvent) => {
+        e?.stopPropagation();
+        const name = await prompt(
+            'Restore as New World',
+            'The backup will be restored next to the original world under this name.',
+            {
+                confirmLabel: 'Restore',
+                inputConfig: { placeholder: 'World name', defaultValue: `${backup.levelName || backup.worldName} (restored)` }
+            }
+        );
+        if (!name?.trim()) return;
+
+        setProcessing({ message: 'Restoring backup...' });
+        try {
+            const result = await window.ipcRenderer.invoke('worlds:restore-backup', backup.id, name.trim());
+            if (result.success) {
+                showToast(`Restored as "${name.trim()}"`, 'success');
+                loadData();
+            } else {
+                showToast(result.error || 'Restore failed', 'error');
+            }
+        } catch (e) {
+            showToast('Failed to restore backup', 'error');
+        } finally {
+            setProcessing(null);
+        }
+    };
+
     const handleRestoreBackup = async (backup: Backup, e?: React.MouseEvent) => {
         e?.stopPropagation();
         const confirmed = await confirm(
             'Restore Backup?',
-            `Restore "${backup.worldName}" from backup? This will overwrite the current world.`,
+            `Restore "${backup.levelName || backup.worldName}" from the ${formatDateTime(backup.createdAt)} backup? The current world will be kept as a renamed copy.`,
             { confirmLabel: 'Restore' }
         );
         
@@ -229,7 +405,7 @@ export const WorldManagement: React.FC = () => {
         e?.stopPropagation();
         const confirmed = await confirm(
             'Delete Backup?',
-            `Delete backup of "${backup.worldName}"?`,
+            `Delete the ${formatDateTime(backup.createdAt)} backup of "${backup.levelName || backup.worldName}"?`,
             { isDanger: true, confirmLabel: 'Delete' }
         );
         
@@ -266,6 +442,13 @@ export const WorldManagement: React.FC = () => {
                     <div className={styles.statLabel}>Backups</div>
                     <div className={styles.statValue}>{backups.length}</div>
                 </div>
+                <div
+                    className={styles.statItem}
+                    title={`${formatSize(backupStats.totalSize)} of world data stored in ${formatSize(backupStats.storedSize)}`}
+                >
+                    <div className={styles.statLabel}>Backup Storage</div>
+                    <div className={styles.statValue}>{formatSize(backupStats.storedSize)}</div>
+                </div>
                 <div className={styles.statItem}>
                     <div className={styles.statLabel}>Total Size</div>
                     <div className={styles.statValue}>{formatSize(totalSize)}</div>
@@ -316,11 +499,45 @@ export const WorldManagement: React.FC = () => {
                         className={styles.customFilter}
                     />
 
+                    {activeTab === 'worlds' && (
+                        <>
+                            <CustomSelect
+                                value={modeFilter}
+                                onChange={setModeFilter}
+                                options={[
+                                    { value: 'all', label: 'All Modes', icon: <Gamepad2 size={14} /> },
+                                    ...['Survival', 'Creative', 'Adventure', 'Spectator', 'Hardcore'].map(mode => ({
+                                        value: mode,
+                                        label: mode,
+                                        icon: <Gamepad2 size={14} />
+                                    }))
+                                ]}
+                                width="150px"
+                                className={styles.customFilter}
+                            />
+
+                            <CustomSelect
+                                value={versionFilter}
+                                onChange={setVersionFilter}
+                                options={[
+                                    { value: 'all', label: 'All Versions', icon: <Tag size={14} /> },
+                                    ...worldVersions.map(v => ({
+                                        value: v,
+                                        label: v,
+                                        icon: <Tag size={14} />
+                                    }))
+                                ]}
+                                width="150px"
+                                className={styles.customFilter}
+                            />
+                        </>
+                    )}
+
                     <div className={styles.searchWrapper}>
                         <Search size={16} className={styles.searchIcon} />
                         <input
                             type="text"
-                            placeholder="Search worlds..."
+                            placeholder="Search name, seed, version..."
                             value={searchQuery}
                             onChange={(e) => setSearchQuery(e.target.value)}
                             className={styles.searchInput}
@@ -336,22 +553,24 @@ export const WorldManagement: React.FC = () => {
                     </div>
                 </div>
 
-                <div className={styles.viewToggle}>
-                    <button
-                        className={`${styles.viewBtn} ${viewMode === 'grid' ? styles.active : ''}`}
-                        onClick={() => setViewMode('grid')}
-                        title="Grid View"
-                    >
-                        <Grid size={18} />
-                    </button>
-                    <button
-                        className={`${styles.viewBtn} ${viewMode === 'list' ? styles.active : ''}`}
-                        onClick={() => setViewMode('list')}
-                        title="List View"
-                    >
-                        <List size={18} />
-                    </button>
-                </div>
+                {activeTab === 'worlds' && (
+                    <div className={styles.viewToggle}>
+                        <button
+                            className={`${styles.viewBtn} ${viewMode === 'grid' ? styles.active : ''}`}
+                            onClick={() => setViewMode('grid')}
+                            title="Grid View"
+                        >
+                            <Grid size={18} />
+                        </button>
+                        <button
+                            className={`${styles.viewBtn} ${viewMode === 'list' ? styles.active : ''}`}
+                            onClick={() => setViewMode('list')}
+                            title="List View"
+                        >
+                            <List size={18} />
+                        </button>
+                    </div>
+                )}
 
                 <button className={styles.refreshBtn} onClick={loadData} title="Refresh">
                     <RefreshCw size={18} />
@@ -368,12 +587,68 @@ export const WorldManagement: React.FC = () => {
                     <h3>No {activeTab} found</h3>
                     <p>{activeTab === 'worlds' ? 'Create a world in any instance to see it here.' : 'Backup your worlds to see them here.'}</p>
                 </div>
+            ) : activeTab === 'backups' ? (
+                <div className={styles.timeline}>
+                    {backupTimeline.map(group => (
+                        <div key={group.key} className={styles.timelineGroup}>
+                            <div className={styles.timelineHeader}>
+                                <Archive size={16} />
+                                <span className={styles.timelineTitle}>{group.name}</span>
+                                <span className={styles.timelineSubtitle}>
+                                    {group.instanceName} · {group.entries.length} backup{group.entries.length === 1 ? '' : 's'} · {formatSize(group.entries.reduce((sum, b) => sum + b.addedSize, 0))} on disk
+                                </span>
+                            </div>
+                            <div className={styles.timelineEntries}>
+                                {group.entries.map(backup => (
+                                    <div key={backup.id} className={styles.timelineEntry}>
+                                        <div className={styles.timelineDot} />
+                                        <div className={styles.timelineInfo}>
+                                            <div className={styles.timelineDate}>{formatDateTime(backup.createdAt)}</div>
+                                            <div className={styles.listMeta}>
+                                                <span className={styles.tag}>{TRIGGER_LABELS[backup.trigger] || backup.trigger}</span>
+                                                {backup.mcVersion && <span>{backup.mcVersion}</span>}
+                                                <span>{formatSize(backup.size)}</span>
+                                                {backup.format === 'snapshot'
+                                                    ? <span>+{formatSize(backup.addedSize)} new</span>
+                                                    : <span>Full archive</span>}
+                                            </div>
+                                        </div>
+                                        <div className={styles.listActions}>
+                                            <button
+                                                className={styles.actionBtn}
+                                                onClick={(e) => handleRestoreBackup(backup, e)}
+                                                title="Restore"
+                                            >
+                                                <Upload size={16} />
+                                            </button>
+                                            <button
+                                                className={styles.actionBtn}
+                                                onClick={(e) => handleRestoreAsNew(backup, e)}
+                                                title="Restore as New World"
+                                            >
+                                                <CopyPlus size={16} />
+                                            </button>
+                                            <button
+                                                className={styles.actionBtn}
+                                                onClick={(e) => handleDeleteBackup(backup, e)}
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
             ) : viewMode === 'grid' ? (
                 <div className={styles.gridView}>
                     {filteredWorlds.map((world) => (
                         <div
                             key={`${world.instanceId}-${world.id}`}
                             className={styles.worldCard}
+                            title={getWorldTooltip(world)}
                         >
                             <div className={styles.worldIconWrapper}>
                                 <div className={styles.worldIcon}>
@@ -383,60 +658,62 @@ export const WorldManagement: React.FC = () => {
                             <div className={styles.cardInfo}>
                                 <div className={styles.cardTitle}>{world.name}</div>
                                 <div className={styles.cardSubtitle}>{world.instanceName}</div>
+                                <div className={styles.worldTags}>
+                                    <span className={`${styles.tag} ${world.hardcore ? styles.hardcoreTag : ''}`}>{getModeLabel(world)}</span>
+                                    {world.mcVersion && <span className={styles.tag}>{world.mcVersion}</span>}
+                                    {world.difficulty && world.difficulty !== 'Unknown' && !world.hardcore && (
+                                        <span className={styles.tag}>{world.difficulty}</span>
+                                    )}
+                                    {world.cheats && <span className={styles.tag}>Cheats</span>}
+                                </div>
                                 <div className={styles.cardMeta}>
                                     <span>{formatSize(world.size)}</span>
                                     <span>{formatDate(world.lastPlayed)}</span>
                                 </div>
                             </div>
                             <div className={styles.cardActions}>
-                                {activeTab === 'worlds' ? (
-                                    <>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => handleBackup(world, e)}
-                                            title="Backup"
-                                        >
-                                            <Download size={16} />
-                                        </button>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => handleOpenFolder(world, e)}
-                                            title="Open Folder"
-                                        >
-                                            <FolderOpen size={16} />
-                                        </button>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => handleDelete(world, e)}
-                                            title="Delete"
-                                        >
-                                            <Trash2 size={16} />
-                                        </button>
-                                    </>
-                                ) : (
-                                    <>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => {
-                                                const backup = backups.find(b => b.id === world.id);
-                                                if (backup) handleRestoreBackup(backup, e);
-                                            }}
-                                            title="Restore"
-                                        >
-                                            <Upload size={16} />
-                                        </button>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => {
-                                                const backup = backups.find(b => b.id === world.id);
-                                                if (backup) handleDeleteBackup(backup, e);
-                                            }}
-                                            title="Delete"
-                                        >
-                                            <Trash2 size={16} />
-                                        </button>
-                                    </>
-                                )}
+                                <button 
+                                    className={`${styles.actionBtn} ${styles.playBtn}`}
+                                    onClick={(e) => handlePlay(world, e)}
+                                    title="Play"
+                                >
+                                    <Play size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => handleBackup(world, e)}
+                                    title="Backup"
+                                >
+                                    <Download size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => { e.stopPropagation(); setPolicyWorld(world); }}
+                                    title="Backup Schedule"
+                                >
+                                    <Clock size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => { e.stopPropagation(); setTransferWorld(world); }}
+                                    title="Copy to Profile"
+                                >
+                                    <ArrowRightLeft size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => handleOpenFolder(world, e)}
+                                    title="Open Folder"
+                                >
+                                    <FolderOpen size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => handleDelete(world, e)}
+                                    title="Delete"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
                             </div>
                         </div>
                     ))}
@@ -449,71 +726,85 @@ export const WorldManagement: React.FC = () => {
                             className={styles.listItem}
                         >
                             <div className={styles.listIcon}>
-                                <Map size={20} />
+                                <MapIcon size={20} />
                             </div>
-                            <div className={styles.listInfo}>
+                            <div className={styles.listInfo} title={getWorldTooltip(world)}>
                                 <div className={styles.listTitle}>{world.name}</div>
                                 <div className={styles.listMeta}>
                                     <span>{world.instanceName}</span>
+                                    <span>{getModeLabel(world)}</span>
+                                    {world.difficulty && world.difficulty !== 'Unknown' && <span>{world.difficulty}</span>}
+                                    {world.mcVersion && <span>{world.mcVersion}</span>}
+                                    {world.seed && (
+                                        <span
+                                            className={styles.seed}
+                                            onClick={(e) => handleCopySeed(world, e)}
+                                            title="Copy seed"
+                                        >
+                                            Seed {world.seed}
+                                        </span>
+                                    )}
                                     <span>{formatSize(world.size)}</span>
                                     <span>{formatDate(world.lastPlayed)}</span>
                                 </div>
                             </div>
                             <div className={styles.listActions}>
-                                {activeTab === 'worlds' ? (
-                                    <>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => handleBackup(world, e)}
-                                            title="Backup"
-                                        >
-                                            <Download size={16} />
-                                        </button>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => handleOpenFolder(world, e)}
-                                            title="Open Folder"
-                                        >
-                                            <FolderOpen size={16} />
-                                        </button>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => handleDelete(world, e)}
-                                            title="Delete"
-                                        >
-                                            <Trash2 size={16} />
-                                        </button>
-                                    </>
-                                ) : (
-                                    <>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => {
-                                                const backup = backups.find(b => b.id === world.id);
-                                                if (backup) handleRestoreBackup(backup, e);
-                                            }}
-                                            title="Restore"
-                                        >
-                                            <Upload size={16} />
-                                        </button>
-                                        <button 
-                                            className={styles.actionBtn}
-                                            onClick={(e) => {
-                                                const backup = backups.find(b => b.id === world.id);
-                                                if (backup) handleDeleteBackup(backup, e);
-                                            }}
-                                            title="Delete"
-                                        >
-                                            <Trash2 size={16} />
-                                        </button>
-                                    </>
-                                )}
+                                <button 
+                                    className={`${styles.actionBtn} ${styles.playBtn}`}
+                                    onClick={(e) => handlePlay(world, e)}
+                                    title="Play"
+                                >
+                                    <Play size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => handleBackup(world, e)}
+                                    title="Backup"
+                                >
+                                    <Download size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => { e.stopPropagation(); setPolicyWorld(world); }}
+                                    title="Backup Schedule"
+                                >
+                                    <Clock size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => { e.stopPropagation(); setTransferWorld(world); }}
+                                    title="Copy to Profile"
+                                >
+                                    <ArrowRightLeft size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => handleOpenFolder(world, e)}
+                                    title="Open Folder"
+                                >
+                                    <FolderOpen size={16} />
+                                </button>
+                                <button 
+                                    className={styles.actionBtn}
+                                    onClick={(e) => handleDelete(world, e)}
+                                    title="Delete"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
                             </div>
                         </div>
                     ))}
                 </div>
             )}
 
+            <WorldBackupPolicyModal world={policyWorld} onClose={() => setPolicyWorld(null)} />
+            <WorldTransferModal
+                world={transferWorld}
+                instances={instances}
+                onClose={() => setTransferWorld(null)}
+                onTransferred={loadData}
+            />
+
             {processing && (
                 <div className={styles.processingOverlay}>
                     <div className={styles.processingContent}>
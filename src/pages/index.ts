@@ -9,6 +9,7 @@ export * from './News';
 export * from './Friends';
 export * from './Admin';
 export * from './Screenshots';
+export * from './Logs';
 export * from './ResourcePacksManager';
 export * from './ShaderPacksManager';
 export * from './InstanceResourcePacks';
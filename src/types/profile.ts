@@ -11,6 +11,7 @@ export interface PublicProfile {
         github?: string;
     };
     skin_history: SkinHistoryEntry[];
+    cape_history?: SkinHistoryEntry[];
     joined_at: string;
     role?: string;
     is_public?: boolean;
@@ -18,12 +19,20 @@ export interface PublicProfile {
     updated_at?: string;
 }
 
+// Used for both skin and cape history
 export interface SkinHistoryEntry {
     url: string;
     uploaded_at: string;
     name?: string;
 }
 
+export interface WardrobeHistory {
+    skin_url: string | null;
+    cape_url: string | null;
+    skin_history: SkinHistoryEntry[];
+    cape_history: SkinHistoryEntry[];
+}
+
 export interface SocialLinks {
     youtube: string;
     discord: string;
@@ -1,66 +1,79 @@
+/** A saved account as the main process shares it: never with its tokens. */
 export interface StoredAccount {
     name: string;
     uuid: string;
-    token: string;
-    refreshToken?: string;
     expiresAt?: number;
     type: 'microsoft' | 'offline' | 'whoap';
     preferredSkin?: string;
     preferredCape?: string;
 }
 
-const STORAGE_KEY = 'whoap_accounts';
-const ACTIVE_ACCOUNT_KEY = 'whoap_active_account';
+// Where the account list lived before the main process owned it
+const LEGACY_STORAGE_KEY = 'whoap_accounts';
+const LEGACY_ACTIVE_KEY = 'whoap_active_account';
 
-export const AccountManager = {
-    getAccounts: (): StoredAccount[] => {
-        try {
-            const data = localStorage.getItem(STORAGE_KEY);
-            return data ? JSON.parse(data) : [];
-        } catch (e) {
-            console.error("Failed to parse accounts", e);
-            return [];
-        }
-    },
+let migrated: Promise<void> | null = null;
 
-    addAccount: (account: StoredAccount) => {
-        const accounts = AccountManager.getAccounts();
-        const index = accounts.findIndex(a => a.uuid === account.uuid);
-
-        if (index !== -1) {
-            // Merge existing data (like preferredSkin) with new data
-            accounts[index] = { ...accounts[index], ...account };
-        } else {
-            accounts.push(account);
-        }
+const migrateLegacy = () => {
+    if (!migrated) {
+        migrated = (async () => {
+            const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!data) return;
+            try {
+                await window.ipcRenderer.invoke('auth:import-accounts', JSON.parse(data));
+                localStorage.removeItem(LEGACY_STORAGE_KEY);
+                localStorage.removeItem(LEGACY_ACTIVE_KEY);
+            } catch (e) {
+                console.error("Failed to migrate accounts", e);
+            }
+        })();
+    }
+    return migrated;
+};
 
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
-        AccountManager.setActive(account.uuid);
+/** The saved accounts, kept by the main process (see AuthManager). */
+export const AccountManager = {
+    getAccounts: async (): Promise<StoredAccount[]> => {
+        await migrateLegacy();
+        const result = await window.ipcRenderer.invoke('auth:list-accounts');
+        return result.accounts || [];
     },
 
-    removeAccount: (uuid: string) => {
-        const accounts = AccountManager.getAccounts();
-        const filtered = accounts.filter(a => a.uuid !== uuid);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    getActive: async (): Promise<StoredAccount | null> => {
+        await migrateLegacy();
+        const result = await window.ipcRenderer.invoke('auth:list-accounts');
+        return result.accounts?.find((a: StoredAccount) => a.uuid === result.activeUuid) || null;
     },
 
-    setActive: (uuid: string) => {
-        localStorage.setItem(ACTIVE_ACCOUNT_KEY, uuid);
+    /** Makes the account active, refreshing and re-validating Microsoft accounts on the way. */
+    switchTo: async (uuid: string): Promise<{ success: boolean; profile?: StoredAccount; error?: string }> => {
+        return window.ipcRenderer.invoke('auth:switch-account', uuid);
     },
 
-    getActive: (): StoredAccount | null => {
-        const uuid = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
-        if (!uuid) return null;
-        const accounts = AccountManager.getAccounts();
-        return accounts.find(a => a.uuid === uuid) || null;
+    removeAccount: async (uuid: string) => {
+        await window.ipcRenderer.invoke('auth:remove-account', uuid);
     },
 
-    updateAccount: (uuid: string, data: Partial<StoredAccount>) => {
-        const accounts = AccountManager.getAccounts();
-        const index = accounts.findIndex(a => a.uuid === uuid);
-        if (index !== -1) {
-            accounts[index] = { ...accounts[index], ...data };
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+    /**
+     * Restores the active Whoap account's Supabase session in this window and hands refreshed
+     * tokens back to the main process. Returns whether the session is usable.
+     */
+    restoreCloudSession: async (): Promise<boolean> => {
+        const stored = await window.ipcRenderer.invoke('auth:get-cloud-session');
+        if (!stored.success) return false;
+
+        const { CloudManager } = await import('./CloudManager');
+        const syncResult = await CloudManager.syncSession(stored.accessToken, stored.refreshToken);
+        if (syncResult.success && syncResult.session) {
+            await window.ipcRenderer.invoke('auth:update-session', {
+                token: syncResult.session.access_token,
+                refreshToken: syncResult.session.refresh_token
+            });
         }
+        return syncResult.success;
+    },
+
+    updateAccount: async (uuid: string, data: Pick<StoredAccount, 'preferredSkin' | 'preferredCape'>) => {
+        await window.ipcRenderer.invoke('auth:update-account', uuid, data);
     }
 };
@@ -1,6 +1,39 @@
 import { supabase } from '../lib/supabase';
 import { Instance } from '../api/instances';
-import { PublicProfile, SkinHistoryEntry } from '../types/profile';
+import { PublicProfile, SkinHistoryEntry, WardrobeHistory } from '../types/profile';
+import { SkinImage } from './SkinImage';
+
+const HISTORY_LIMIT = 10;
+
+// Prepends an upload to a profile's skin or cape history, skipping URLs already in it
+const addToHistory = async (userId: string, column: 'skin_history' | 'cape_history', url: string, name?: string) => {
+    try {
+        const { data } = await supabase
+            .from('profiles')
+            .select(column)
+            .eq('id', userId)
+            .single();
+
+        const history: SkinHistoryEntry[] = (data as Pick<WardrobeHistory, 'skin_history' | 'cape_history'> | null)?.[column] || [];
+        if (history.some(entry => entry.url === url)) {
+            return; // Don't add duplicates
+        }
+
+        const newEntry: SkinHistoryEntry = {
+            url,
+            uploaded_at: new Date().toISOString(),
+            ...(name && { name })
+        };
+        const updatedHistory = [newEntry, ...history].slice(0, HISTORY_LIMIT);
+
+        await supabase
+            .from('profiles')
+            .update({ [column]: updatedHistory })
+            .eq('id', userId);
+    } catch (error) {
+        console.error(`[CloudManager] Add to ${column} error:`, error);
+    }
+};
 
 export const CloudManager = {
     /**
@@ -334,11 +367,20 @@ export const CloudManager = {
 
     // --- Skin/Cape Cloud Storage ---
 
-    async uploadSkinToCloud(userId: string, skinData: string): Promise<string | null> {
+    /** Uploads a skin after validating it; fixable problems are fixed, other invalid skins are rejected. */
+    async uploadSkinToCloud(userId: string, skinData: string, name?: string): Promise<string | null> {
         try {
             const fileName = `${userId}/skin_${Date.now()}.png`;
 
-            const response = await fetch(skinData);
+            let validSkin: string;
+            try {
+                validSkin = await SkinImage.prepare(skinData);
+            } catch (e) {
+                console.error('[CloudManager] Rejected invalid skin:', e);
+                return null;
+            }
+
+            const response = await fetch(validSkin);
             const blob = await response.blob();
 
             const { error } = await supabase.storage
@@ -365,7 +407,7 @@ export const CloudManager = {
                 })
                 .eq('id', userId);
 
-            await CloudManager.addSkinToHistory(userId, urlData.publicUrl);
+            await CloudManager.addSkinToHistory(userId, urlData.publicUrl, name);
 
             return urlData.publicUrl;
         } catch (error) {
@@ -402,6 +444,8 @@ export const CloudManager = {
                 .update({ cape_url: urlData.publicUrl })
                 .eq('id', userId);
 
+            await CloudManager.addCapeToHistory(userId, urlData.publicUrl);
+
             return urlData.publicUrl;
         } catch (error) {
             console.error('[CloudManager] Upload cape error:', error);
@@ -409,35 +453,32 @@ export const CloudManager = {
         }
     },
 
-    async addSkinToHistory(userId: string, skinUrl: string): Promise<void> {
-        try {
-            const { data } = await supabase
-                .from('profiles')
-                .select('skin_history')
-                .eq('id', userId)
-                .single();
+    async addSkinToHistory(userId: string, skinUrl: string, name?: string): Promise<void> {
+        await addToHistory(userId, 'skin_history', skinUrl, name);
+    },
 
-            const history: SkinHistoryEntry[] = data?.skin_history || [];
-            
-            // Check if this skin URL already exists in history
-            const alreadyExists = history.some(entry => entry.url === skinUrl);
-            if (alreadyExists) {
-                return; // Don't add duplicates
-            }
-            
-            const newEntry: SkinHistoryEntry = {
-                url: skinUrl,
-                uploaded_at: new Date().toISOString()
-            };
-            const updatedHistory = [newEntry, ...history].slice(0, 10);
+    async addCapeToHistory(userId: string, capeUrl: string, name?: string): Promise<void> {
+        await addToHistory(userId, 'cape_history', capeUrl, name);
+    },
 
-            await supabase
-                .from('profiles')
-                .update({ skin_history: updatedHistory })
-                .eq('id', userId);
-        } catch (error) {
-            console.error('[CloudManager] Add skin to history error:', error);
+    /** The current skin and cape with their upload histories, newest first. */
+    async getWardrobeHistory(userId: string): Promise<WardrobeHistory | null> {
+        const { data, error } = await supabase
+            .from('profiles')
+            .select('skin_url, cape_url, skin_history, cape_history')
+            .eq('id', userId)
+            .single();
+
+        if (error) {
+            console.error('[CloudManager] Get skin history failed:', error);
+            return null;
         }
+        return {
+            skin_url: data.skin_url,
+            cape_url: data.cape_url,
+            skin_history: data.skin_history || [],
+            cape_history: data.cape_history || []
+        };
     },
 
     async getPublicProfile(username: string): Promise<PublicProfile | null> {
@@ -492,7 +533,7 @@ export const CloudManager = {
         }
     },
 
-    async updateSkinAndCape(userId: string, skinUrl: string, capeUrl?: string | null): Promise<boolean> {
+    async updateSkinAndCape(userId: string, skinUrl: string | null, capeUrl?: string | null): Promise<boolean> {
         const updates: any = {
             skin_url: skinUrl,
             updated_at: new Date().toISOString()
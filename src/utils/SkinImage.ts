@@ -0,0 +1,188 @@
+export type SkinModel = 'default' | 'slim';
+
+export interface SkinIssue {
+    code: 'dimensions' | 'legacy' | 'base-transparency';
+    message: string;
+    fixable: boolean;
+    pixels?: [number, number][]; // Offending pixels, for highlighting in the editor
+}
+
+type Region = [x: number, y: number, width: number, height: number];
+
+// Base layer (everything the overlay sits on) of a 64x64 skin. The game draws transparent pixels
+// here as black, or leaves holes in the model, so they have to be opaque.
+const baseRegions = (model: SkinModel): Region[] => {
+    const arm = model === 'slim' ? 3 : 4;
+    return [
+        [8, 0, 16, 8], [0, 8, 32, 8],                                // Head
+        [20, 16, 16, 4], [16, 20, 24, 12],                           // Body
+        [4, 16, 8, 4], [0, 20, 16, 12],                              // Right leg
+        [20, 48, 8, 4], [16, 52, 16, 12],                            // Left leg
+        [44, 16, arm * 2, 4], [40, 20, arm * 2 + 8, 12],             // Right arm
+        [36, 48, arm * 2, 4], [32, 52, arm * 2 + 8, 12]              // Left arm
+    ];
+};
+
+// Where 1.8 expects the left limbs that 64x32 skins mirror from the right ones: [from x, from y, w, h, to x, to y]
+const LEGACY_MIRRORS: [number, number, number, number, number, number][] = [
+    [4, 16, 4, 4, 20, 48], [8, 16, 4, 4, 24, 48],                     // Leg top/bottom
+    [0, 20, 4, 12, 24, 52], [4, 20, 4, 12, 20, 52], [8, 20, 4, 12, 16, 52], [12, 20, 4, 12, 28, 52],
+    [44, 16, 4, 4, 36, 48], [48, 16, 4, 4, 40, 48],                   // Arm top/bottom
+    [40, 20, 4, 12, 40, 52], [44, 20, 4, 12, 36, 52], [48, 20, 4, 12, 32, 52], [52, 20, 4, 12, 44, 52]
+];
+
+// Arm pixels the classic model has and the slim one doesn't (base and overlay, both arms)
+const SLIM_UNUSED: Region[] = [
+    [50, 16, 2, 4], [54, 20, 2, 12], [50, 32, 2, 4], [54, 36, 2, 12],
+    [42, 48, 2, 4], [46, 52, 2, 12], [58, 48, 2, 4], [62, 52, 2, 12]
+];
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+const context = (canvas: HTMLCanvasElement) => canvas.getContext('2d', { willReadFrequently: true })!;
+
+/** Reading, checking and repairing skin textures on a canvas. */
+export const SkinImage = {
+    /** Loads an image (data URL or http URL) into a canvas of its own size. */
+    load(src: string): Promise<HTMLCanvasElement> {
+        return new Promise((resolve, reject) => {
+            const image = new Image();
+            image.crossOrigin = 'anonymous';
+            image.onload = () => {
+                const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+                context(canvas).drawImage(image, 0, 0);
+                resolve(canvas);
+            };
+            image.onerror = () => reject(new Error('Could not read the image'));
+            image.src = src;
+        });
+    },
+
+    /** Slim skins leave the outermost arm column unused. */
+    detectModel(canvas: HTMLCanvasElement): SkinModel {
+        if (canvas.width !== 64 || canvas.height !== 64) return 'default';
+        const data = context(canvas).getImageData(54, 20, 2, 12).data;
+        for (let i = 3; i < data.length; i += 4) {
+            if (data[i] !== 0) return 'default';
+        }
+        return 'slim';
+    },
+
+    validate(canvas: HTMLCanvasElement, model: SkinModel = SkinImage.detectModel(canvas)): SkinIssue[] {
+        const { width, height } = canvas;
+        if (width !== 64 || (height !== 64 && height !== 32)) {
+            return [{
+                code: 'dimensions',
+                message: `Skins must be 64x64 (or legacy 64x32) pixels, this one is ${width}x${height}.`,
+                fixable: false
+            }];
+        }
+
+        const issues: SkinIssue[] = [];
+        if (height === 32) {
+            issues.push({
+                code: 'legacy',
+                message: 'Legacy 64x32 skin. It will be converted to 64x64 with mirrored left arm and leg.',
+                fixable: true
+            });
+            return issues; // The base layer check needs the 64x64 layout
+        }
+
+        const data = context(canvas).getImageData(0, 0, 64, 64).data;
+        const pixels: [number, number][] = [];
+        for (const [rx, ry, rw, rh] of baseRegions(model)) {
+            for (let y = ry; y < ry + rh; y++) {
+                for (let x = rx; x < rx + rw; x++) {
+                    if (data[(y * 64 + x) * 4 + 3] < 255) pixels.push([x, y]);
+                }
+            }
+        }
+        if (pixels.length > 0) {
+            issues.push({
+                code: 'base-transparency',
+                message: `${pixels.length} transparent pixel${pixels.length === 1 ? '' : 's'} on the base layer. The game shows them as black or as holes; fixing makes them opaque.`,
+                fixable: true,
+                pixels
+            });
+        }
+        return issues;
+    },
+
+    /** Converts a 64x32 skin to the 64x64 layout, mirroring the right limbs onto the left ones. */
+    convertLegacy(canvas: HTMLCanvasElement): HTMLCanvasElement {
+        const converted = createCanvas(64, 64);
+        const ctx = context(converted);
+        ctx.drawImage(canvas, 0, 0);
+
+        for (const [sx, sy, w, h, dx, dy] of LEGACY_MIRRORS) {
+            const source = ctx.getImageData(sx, sy, w, h);
+            const mirrored = ctx.createImageData(w, h);
+            for (let y = 0; y < h; y++) {
+                for (let x = 0; x < w; x++) {
+                    const from = (y * w + x) * 4;
+                    const to = (y * w + (w - 1 - x)) * 4;
+                    mirrored.data.set(source.data.subarray(from, from + 4), to);
+                }
+            }
+            ctx.putImageData(mirrored, dx, dy);
+        }
+        return converted;
+    },
+
+    /** Makes every base layer pixel opaque, keeping its colour. */
+    fillBaseLayer(canvas: HTMLCanvasElement, model: SkinModel = SkinImage.detectModel(canvas)): HTMLCanvasElement {
+        const fixed = createCanvas(canvas.width, canvas.height);
+        const ctx = context(fixed);
+        ctx.drawImage(canvas, 0, 0);
+
+        const image = ctx.getImageData(0, 0, 64, 64);
+        for (const [rx, ry, rw, rh] of baseRegions(model)) {
+            for (let y = ry; y < ry + rh; y++) {
+                for (let x = rx; x < rx + rw; x++) {
+                    image.data[(y * 64 + x) * 4 + 3] = 255;
+                }
+            }
+        }
+        ctx.putImageData(image, 0, 0);
+        return fixed;
+    },
+
+    /**
+     * Prepares the texture for an arm model. For slim the unused arm columns are cleared, which is
+     * how skin viewers (and detectModel) tell the models apart.
+     */
+    setModel(canvas: HTMLCanvasElement, model: SkinModel): HTMLCanvasElement {
+        if (model !== 'slim' || canvas.height !== 64) return canvas;
+        const result = createCanvas(64, 64);
+        const ctx = context(result);
+        ctx.drawImage(canvas, 0, 0);
+        for (const [x, y, w, h] of SLIM_UNUSED) ctx.clearRect(x, y, w, h);
+        return result;
+    },
+
+    /** Applies every fix for the given issues. Throws if one of them can't be fixed. */
+    fix(canvas: HTMLCanvasElement, issues: SkinIssue[], model?: SkinModel): HTMLCanvasElement {
+        const unfixable = issues.find(issue => !issue.fixable);
+        if (unfixable) throw new Error(unfixable.message);
+
+        let fixed = canvas;
+        if (issues.some(issue => issue.code === 'legacy')) fixed = SkinImage.convertLegacy(fixed);
+        // Conversion can reveal transparency the 64x32 check couldn't see
+        if (SkinImage.validate(fixed, model).some(issue => issue.code === 'base-transparency')) {
+            fixed = SkinImage.fillBaseLayer(fixed, model);
+        }
+        return fixed;
+    },
+
+    /** Validates a skin and returns a fixed PNG data URL, or throws when it can't be used. */
+    async prepare(src: string): Promise<string> {
+        const canvas = await SkinImage.load(src);
+        const issues = SkinImage.validate(canvas);
+        return issues.length === 0 ? src : SkinImage.fix(canvas, issues).toDataURL('image/png');
+    }
+};
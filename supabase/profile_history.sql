@@ -0,0 +1,5 @@
+-- Cape history for profiles, next to the existing skin_history
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS cape_history JSONB NOT NULL DEFAULT '[]'::jsonb;  -- [{ url, uploaded_at, name? }], newest first, max 10